@@ -0,0 +1,24 @@
+// Compares every recovered jitter and shimmer measure with the values of the
+// periods and amplitudes the synthetic vowels were generated with; exits
+// non-zero if any measure is out of tolerance.
+import { validatePerturbation } from '../src/services/ml/voiceValidation';
+
+const format = (measure: string, value: number) =>
+  measure === 'jitter.absolute' ? `${(value * 1e6).toFixed(2)} us` :
+  measure === 'shimmer.localDb' ? `${value.toFixed(3)} dB` :
+  `${(value * 100).toFixed(3)}%`;
+
+const checks = validatePerturbation();
+for (const check of checks) {
+  console.log(`${check.passed ? 'PASS' : 'FAIL'}  ${check.label}`);
+  for (const measure of check.measures) {
+    console.log(
+      `  ${measure.passed ? 'ok  ' : 'FAIL'}  ${measure.measure.padEnd(16)}` +
+        `${format(measure.measure, measure.measured).padEnd(12)} (true ${format(measure.measure, measure.expected)})`
+    );
+  }
+}
+
+const failures = checks.filter(check => !check.passed).length;
+console.log(failures === 0 ? `All ${checks.length} cases passed.` : `${failures} of ${checks.length} cases failed.`);
+process.exitCode = failures === 0 ? 0 : 1;
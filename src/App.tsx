@@ -9,6 +9,8 @@ import Assessment from "./pages/Assessment";
 import Results from "./pages/Results";
 import Resources from "./pages/Resources";
 import Training from "./pages/Training";
+import History from "./pages/History";
+import Patients from "./pages/Patients";
 import NotFound from "./pages/NotFound";
 import { AssessmentProvider } from "./context/AssessmentContext";
 
@@ -27,6 +29,8 @@ const App = () => (
             <Route path="/results" element={<Results />} />
             <Route path="/resources" element={<Resources />} />
             <Route path="/training" element={<Training />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/patients" element={<Patients />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,41 @@
+import React from "react";
+import { Eraser, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface DrawingControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onDone: () => void;
+  doneLabel: string;
+}
+
+export const DrawingControls: React.FC<DrawingControlsProps> = ({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClear,
+  onDone,
+  doneLabel,
+}) => (
+  <div className="flex flex-wrap justify-center gap-2">
+    <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo}>
+      <Undo2 className="mr-1 h-4 w-4" />
+      Undo
+    </Button>
+    <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo}>
+      <Redo2 className="mr-1 h-4 w-4" />
+      Redo
+    </Button>
+    <Button variant="outline" size="sm" onClick={onClear} disabled={!canUndo}>
+      <Eraser className="mr-1 h-4 w-4" />
+      Clear
+    </Button>
+    <Button size="sm" onClick={onDone} disabled={!canUndo}>
+      {doneLabel}
+    </Button>
+  </div>
+);
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { processFingerTapping } from "@/services/ml";
+import { TapEvent, TappingSession } from "@/types/assessment";
+
+interface FingerTappingTestProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+// Logical size of the tapping area; targets sit a hand-span apart on a phone
+const AREA_WIDTH = 800;
+const AREA_HEIGHT = 400;
+const TEST_DURATION = 15; // Seconds, timed from the first tap
+const TARGETS = [
+  { x: 200, y: 200, radius: 70 },
+  { x: 600, y: 200, radius: 70 },
+];
+
+export const FingerTappingTest: React.FC<FingerTappingTestProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const areaRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<number | null>(null);
+  const pendingRef = useRef(new Map<number, TapEvent>()); // Keyed by pointer id until release
+  const tapsRef = useRef<TapEvent[]>([]);
+  const timersRef = useRef<{ interval?: ReturnType<typeof setInterval>; timeout?: ReturnType<typeof setTimeout> }>({});
+
+  const [tapCount, setTapCount] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [session, setSession] = useState<TappingSession | null>(null);
+  const [nextTarget, setNextTarget] = useState(0);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState(false);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      clearInterval(timers.interval);
+      clearTimeout(timers.timeout);
+    };
+  }, []);
+
+  const finishTest = () => {
+    clearInterval(timersRef.current.interval);
+    clearTimeout(timersRef.current.timeout);
+    setRunning(false);
+    setElapsed(TEST_DURATION);
+    setSession({
+      taps: [...tapsRef.current],
+      targets: TARGETS,
+      duration: TEST_DURATION,
+      width: AREA_WIDTH,
+      height: AREA_HEIGHT,
+    });
+  };
+
+  const toLogical = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * AREA_WIDTH,
+      y: ((event.clientY - rect.top) / rect.height) * AREA_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (session || event.button !== 0) return;
+    event.preventDefault();
+
+    if (startRef.current === null) {
+      startRef.current = event.timeStamp;
+      setRunning(true);
+      const startTime = Date.now();
+      timersRef.current.interval = setInterval(() => {
+        setElapsed(Math.min(TEST_DURATION, (Date.now() - startTime) / 1000));
+      }, 100);
+      timersRef.current.timeout = setTimeout(finishTest, TEST_DURATION * 1000);
+    }
+
+    const { x, y } = toLogical(event);
+    const target = TARGETS.findIndex((candidate) => Math.hypot(x - candidate.x, y - candidate.y) <= candidate.radius);
+    pendingRef.current.set(event.pointerId, {
+      t: event.timeStamp - startRef.current,
+      x,
+      y,
+      target,
+      duration: 0,
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const tap = pendingRef.current.get(event.pointerId);
+    if (!tap || startRef.current === null) return;
+    pendingRef.current.delete(event.pointerId);
+
+    tap.duration = event.timeStamp - startRef.current - tap.t;
+    tapsRef.current.push(tap);
+    setTapCount(tapsRef.current.length);
+    if (tap.target >= 0) setNextTarget(1 - tap.target);
+  };
+
+  const reset = () => {
+    clearInterval(timersRef.current.interval);
+    clearTimeout(timersRef.current.timeout);
+    startRef.current = null;
+    pendingRef.current.clear();
+    tapsRef.current = [];
+    setTapCount(0);
+    setElapsed(0);
+    setRunning(false);
+    setSession(null);
+    setNextTarget(0);
+    setAnalyzed(false);
+  };
+
+  const analyze = async () => {
+    if (!session || !modelsLoaded) return;
+
+    try {
+      setAnalyzing(true);
+      const result = await processFingerTapping(session);
+      setAnalyzed(true);
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: "Finger Tapping Analysis Complete",
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: "There was an error analyzing your tapping test.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50 space-y-4">
+        <div
+          ref={areaRef}
+          className="relative w-full max-w-xl aspect-[2/1] border rounded-lg bg-white select-none"
+          style={{ touchAction: "none" }}
+          onPointerDown={handlePointerDown}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {TARGETS.map((target, index) => (
+            <div
+              key={index}
+              className={`absolute rounded-full border-4 flex items-center justify-center text-sm font-medium transition-colors ${
+                running && index === nextTarget
+                  ? "border-parkinsons-600 bg-parkinsons-100 text-parkinsons-700"
+                  : "border-gray-300 bg-gray-100 text-gray-500"
+              }`}
+              style={{
+                left: `${((target.x - target.radius) / AREA_WIDTH) * 100}%`,
+                top: `${((target.y - target.radius) / AREA_HEIGHT) * 100}%`,
+                width: `${((2 * target.radius) / AREA_WIDTH) * 100}%`,
+                height: `${((2 * target.radius) / AREA_HEIGHT) * 100}%`,
+              }}
+            >
+              {index === 0 ? "Start" : ""}
+            </div>
+          ))}
+        </div>
+
+        <div className="w-full max-w-xl space-y-1">
+          <Progress value={(elapsed / TEST_DURATION) * 100} />
+          <div className="flex justify-between text-sm text-gray-500">
+            <span>{tapCount} taps</span>
+            <span>
+              {session ? "Finished" : running ? `${(TEST_DURATION - elapsed).toFixed(0)}s left` : "Tap the left circle to start"}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" onClick={reset} disabled={tapCount === 0 || analyzing}>
+            Try Again
+          </Button>
+          <Button onClick={analyze} disabled={!session || analyzing || analyzed || !modelsLoaded}>
+            {analyzing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Analyzing...
+              </>
+            ) : analyzed ? (
+              "Analysis Complete"
+            ) : (
+              "Analyze Tapping"
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Place the device on a table and use the index finger of one hand</li>
+          <li>Tap the two circles alternately, as fast and as large as you can</li>
+          <li>Lift your finger fully between taps; the highlighted circle is next</li>
+          <li>The test starts with your first tap and stops after {TEST_DURATION} seconds</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
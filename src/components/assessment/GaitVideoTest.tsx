@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Loader2, Upload, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { processGaitVideo } from "@/services/ml";
+import { DEFAULT_GAIT_OPTIONS } from "@/services/ml/gaitAnalysis";
+import { UploadHandler } from "@/components/assessment/UploadHandler";
+
+interface GaitVideoTestProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+const MAX_RECORDING = DEFAULT_GAIT_OPTIONS.maxDuration; // Seconds; anything longer isn't analyzed
+const MAX_UPLOAD_MB = 100;
+
+export const GaitVideoTest: React.FC<GaitVideoTestProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<"record" | "upload">("record");
+  const [video, setVideo] = useState<Blob | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [recordingTime, setRecordingTime] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState(false);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timersRef = useRef<{ interval?: ReturnType<typeof setInterval>; timeout?: ReturnType<typeof setTimeout> }>({});
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+  }, [stream]);
+
+  // Release the camera if the tab is left mid-recording
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      clearInterval(timers.interval);
+      clearTimeout(timers.timeout);
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const selectVideo = (blob: Blob) => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setVideo(blob);
+    setVideoUrl(URL.createObjectURL(blob));
+    setAnalyzed(false);
+  };
+
+  const stopRecording = () => {
+    clearInterval(timersRef.current.interval);
+    clearTimeout(timersRef.current.timeout);
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    recorder?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setStream(null);
+  };
+
+  const startRecording = async () => {
+    try {
+      const cameraStream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 720 } },
+        audio: false,
+      });
+      const recorder = new MediaRecorder(cameraStream);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = () => {
+        setRecordingTime(0);
+        selectVideo(new Blob(chunks, { type: recorder.mimeType || "video/webm" }));
+      };
+
+      recorderRef.current = recorder;
+      setStream(cameraStream);
+      recorder.start();
+
+      const startTime = Date.now();
+      timersRef.current.interval = setInterval(() => {
+        setRecordingTime(Math.floor((Date.now() - startTime) / 1000));
+      }, 1000);
+      timersRef.current.timeout = setTimeout(stopRecording, MAX_RECORDING * 1000);
+    } catch (error) {
+      console.error("Error accessing camera:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not access the camera. Please check permissions or upload a video instead.",
+      });
+    }
+  };
+
+  const removeVideo = () => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+    setVideo(null);
+    setVideoUrl(null);
+    setAnalyzed(false);
+  };
+
+  const analyze = async () => {
+    if (!video || !modelsLoaded) return;
+
+    try {
+      setAnalyzing(true);
+      setProgress(0);
+      const result = await processGaitVideo(video, setProgress);
+      setAnalyzed(true);
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: "Gait Analysis Complete",
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: error instanceof Error ? error.message : "There was an error analyzing your walking video.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!video && !stream && (
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant={mode === "record" ? "default" : "outline"} onClick={() => setMode("record")}>
+            <Video className="mr-2 h-4 w-4" />
+            Record Video
+          </Button>
+          <Button variant={mode === "upload" ? "default" : "outline"} onClick={() => setMode("upload")}>
+            <Upload className="mr-2 h-4 w-4" />
+            Upload Video
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50">
+        {videoUrl ? (
+          <div className="w-full space-y-4">
+            <video src={videoUrl} controls playsInline className="max-h-72 mx-auto rounded-md bg-black" />
+            {analyzing && (
+              <div className="space-y-1">
+                <Progress value={progress * 100} />
+                <p className="text-center text-xs text-gray-500">Tracking body keypoints frame by frame...</p>
+              </div>
+            )}
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={removeVideo} disabled={analyzing}>
+                {mode === "record" ? "Record Again" : "Remove"}
+              </Button>
+              <Button onClick={analyze} disabled={analyzing || analyzed || !modelsLoaded}>
+                {analyzing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Analyzing...
+                  </>
+                ) : analyzed ? (
+                  "Analysis Complete"
+                ) : (
+                  "Analyze Walk"
+                )}
+              </Button>
+            </div>
+          </div>
+        ) : stream ? (
+          <div className="w-full space-y-4">
+            <video ref={previewRef} autoPlay muted playsInline className="max-h-72 mx-auto rounded-md bg-black" />
+            <div className="flex items-center justify-center gap-2">
+              <div className="h-3 w-3 rounded-full bg-red-500 animate-pulse"></div>
+              <p className="text-center">
+                Recording... {recordingTime}s / {MAX_RECORDING}s
+              </p>
+            </div>
+            <Button variant="outline" onClick={stopRecording} className="w-full">
+              Stop Recording
+            </Button>
+          </div>
+        ) : mode === "record" ? (
+          <>
+            <Video className="h-10 w-10 text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500 mb-4">Have someone film you walking, or prop the phone up</p>
+            <Button onClick={startRecording}>Start Recording</Button>
+          </>
+        ) : (
+          <UploadHandler
+            iconType="gait"
+            title="Upload a walking video"
+            description={`MP4, MOV or WebM (max. ${MAX_UPLOAD_MB}MB)`}
+            acceptTypes="video/*"
+            onFileSelected={selectVideo}
+            uploadProgress={0}
+            maxSizeMb={MAX_UPLOAD_MB}
+          />
+        )}
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Place the camera at hip height, side-on to a clear walkway about 4 metres from you</li>
+          <li>Make sure your whole body, including your feet, is in view</li>
+          <li>Walk across the frame at your normal pace, turn around and walk back</li>
+          <li>Keep the clip under {MAX_RECORDING} seconds; wear clothing that shows your arms and legs</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
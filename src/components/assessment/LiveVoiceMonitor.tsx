@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from "react";
+import { estimatePitch, DEFAULT_PITCH_OPTIONS } from "@/services/ml/pitchTracking";
+import { nextPowerOfTwo } from "@/services/ml/spectralAnalysis";
+
+interface LiveVoiceMonitorProps {
+  stream: MediaStream | null;
+  sustainFeedback?: boolean; // Coaching for the sustained vowel; off for connected speech
+}
+
+interface MonitorState {
+  levelDb: number;
+  f0: number | null;
+  sustained: number; // Seconds of unbroken voicing
+  feedback: string;
+  tone: "idle" | "good" | "warn";
+}
+
+// Level meter range and zones, dBFS
+const METER_FLOOR = -60;
+const TOO_QUIET = -40;
+const TOO_LOUD = -6;
+
+// Voicing gaps shorter than this don't reset the sustain timer
+const BREAK_TOLERANCE = 0.2;
+// Semitone SD over the last second above which the pitch counts as wavering
+const UNSTEADY_SEMITONES = 0.5;
+const UI_REFRESH_MS = 100;
+
+const INITIAL_STATE: MonitorState = {
+  levelDb: METER_FLOOR,
+  f0: null,
+  sustained: 0,
+  feedback: 'Say "aaah" and hold it',
+  tone: "idle",
+};
+
+function feedbackFor(levelDb: number, voiced: boolean, semitoneSd: number, sustained: number): Pick<MonitorState, "feedback" | "tone"> {
+  if (levelDb > TOO_LOUD) return { feedback: "Too loud - move back from the microphone", tone: "warn" };
+  if (!voiced || levelDb < TOO_QUIET) {
+    return sustained > 0
+      ? { feedback: "Voice dropped out - keep the aaah going", tone: "warn" }
+      : { feedback: 'Say "aaah" and hold it', tone: "idle" };
+  }
+  if (semitoneSd > UNSTEADY_SEMITONES) return { feedback: "Hold the aaah steady - keep the same pitch", tone: "warn" };
+  return { feedback: "Good - hold the aaah steady", tone: "good" };
+}
+
+export const LiveVoiceMonitor: React.FC<LiveVoiceMonitorProps> = ({ stream, sustainFeedback = true }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<MonitorState>(INITIAL_STATE);
+
+  useEffect(() => {
+    if (!stream) return;
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    // Two periods of the lowest tracked F0 for the YIN window
+    analyser.fftSize = Math.min(32768, nextPowerOfTwo((2 * audioContext.sampleRate) / DEFAULT_PITCH_OPTIONS.minF0));
+    analyser.smoothingTimeConstant = 0;
+    source.connect(analyser);
+
+    const buffer = new Float32Array(analyser.fftSize);
+    const envelope: number[] = [];
+    const recentF0: { time: number; f0: number }[] = [];
+    let voicedSince: number | null = null;
+    let lastVoiced = 0;
+    let lastUiUpdate = 0;
+    let frameId = 0;
+
+    const draw = (now: number) => {
+      frameId = requestAnimationFrame(draw);
+      analyser.getFloatTimeDomainData(buffer);
+
+      let energy = 0;
+      let peak = 0;
+      for (const x of buffer) {
+        energy += x * x;
+        peak = Math.max(peak, Math.abs(x));
+      }
+      const levelDb = Math.max(METER_FLOOR, 10 * Math.log10(energy / buffer.length + 1e-12));
+
+      // Scrolling peak envelope, one column per animation frame
+      const canvas = canvasRef.current;
+      if (canvas) {
+        envelope.push(peak);
+        if (envelope.length > canvas.width / 2) envelope.shift();
+
+        const context = canvas.getContext("2d");
+        if (context) {
+          const middle = canvas.height / 2;
+          context.clearRect(0, 0, canvas.width, canvas.height);
+          context.fillStyle = "#0284c7";
+          envelope.forEach((value, i) => {
+            const height = Math.max(1, value * middle);
+            context.fillRect(i * 2, middle - height, 1.5, height * 2);
+          });
+        }
+      }
+
+      const estimate = levelDb >= TOO_QUIET ? estimatePitch(buffer, audioContext.sampleRate) : null;
+      const voiced = !!estimate?.voiced;
+      const seconds = now / 1000;
+      if (voiced && estimate) {
+        recentF0.push({ time: seconds, f0: estimate.f0 });
+        if (voicedSince === null || seconds - lastVoiced > BREAK_TOLERANCE) voicedSince = seconds;
+        lastVoiced = seconds;
+      } else if (voicedSince !== null && seconds - lastVoiced > BREAK_TOLERANCE) {
+        voicedSince = null;
+      }
+      while (recentF0.length > 0 && seconds - recentF0[0].time > 1) recentF0.shift();
+
+      if (now - lastUiUpdate < UI_REFRESH_MS) return;
+      lastUiUpdate = now;
+
+      let semitoneSd = 0;
+      if (recentF0.length > 1) {
+        const semitones = recentF0.map((sample) => 12 * Math.log2(sample.f0));
+        const mean = semitones.reduce((a, b) => a + b, 0) / semitones.length;
+        semitoneSd = Math.sqrt(semitones.reduce((sum, s) => sum + (s - mean) * (s - mean), 0) / semitones.length);
+      }
+      const sustained = voicedSince !== null ? lastVoiced - voicedSince : 0;
+
+      setState({
+        levelDb,
+        f0: voiced && estimate ? estimate.f0 : null,
+        sustained,
+        ...feedbackFor(levelDb, voiced, semitoneSd, sustained),
+      });
+    };
+    frameId = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      audioContext.close();
+      setState(INITIAL_STATE);
+    };
+  }, [stream]);
+
+  const meterPercent = ((state.levelDb - METER_FLOOR) / -METER_FLOOR) * 100;
+  const zoneStart = ((TOO_QUIET - METER_FLOOR) / -METER_FLOOR) * 100;
+  const zoneEnd = ((TOO_LOUD - METER_FLOOR) / -METER_FLOOR) * 100;
+
+  const feedbackColor = {
+    idle: "bg-gray-100 text-gray-700",
+    good: "bg-green-100 text-green-800",
+    warn: "bg-amber-100 text-amber-800",
+  }[state.tone];
+
+  return (
+    <div className="w-full space-y-3">
+      <canvas ref={canvasRef} width={600} height={80} className="w-full h-20 bg-white border rounded-md" />
+
+      <div className="space-y-1">
+        <div className="relative h-3 w-full rounded-full overflow-hidden bg-gray-200">
+          <div
+            className="absolute inset-y-0 bg-green-200"
+            style={{ left: `${zoneStart}%`, width: `${zoneEnd - zoneStart}%` }}
+          />
+          <div className="absolute inset-y-0 right-0 bg-red-200" style={{ width: `${100 - zoneEnd}%` }} />
+          <div
+            className="absolute inset-y-0 left-0 bg-parkinsons-600 opacity-80 transition-[width] duration-100"
+            style={{ width: `${meterPercent}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>Too quiet</span>
+          <span>{state.levelDb.toFixed(0)} dBFS</span>
+          <span>Too loud</span>
+        </div>
+      </div>
+
+      <div className={`grid gap-2 ${sustainFeedback ? "grid-cols-2" : "grid-cols-1"}`}>
+        <div className="text-center p-2 bg-white border rounded-md">
+          <p className="text-xs text-gray-500">Pitch</p>
+          <p className="text-sm font-semibold">{state.f0 ? `${state.f0.toFixed(0)} Hz` : "--"}</p>
+        </div>
+        {sustainFeedback && (
+          <div className="text-center p-2 bg-white border rounded-md">
+            <p className="text-xs text-gray-500">Sustained</p>
+            <p className="text-sm font-semibold">{state.sustained.toFixed(1)} s</p>
+          </div>
+        )}
+      </div>
+
+      {sustainFeedback && (
+        <p className={`text-center text-sm font-medium rounded-md py-2 ${feedbackColor}`}>{state.feedback}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Camera, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { processPostureViews } from "@/services/ml";
+import { PostureView } from "@/services/ml/postureAngles";
+import { UploadHandler } from "@/components/assessment/UploadHandler";
+
+interface PostureCaptureProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+const VIEWS: { view: PostureView; title: string; instruction: string }[] = [
+  {
+    view: "side",
+    title: "Side view",
+    instruction: "Stand side-on to the camera with your arms relaxed, looking straight ahead",
+  },
+  {
+    view: "front",
+    title: "Front view",
+    instruction: "Face the camera with your feet hip-width apart and your arms by your sides",
+  },
+];
+
+const SELF_TIMER = 5; // Seconds, so the photo can be taken without a helper
+
+// Outline to line the body up with; both fill the frame from head to feet
+const Silhouette: React.FC<{ view: PostureView }> = ({ view }) => (
+  <svg
+    viewBox="0 0 100 200"
+    preserveAspectRatio="xMidYMid meet"
+    className="absolute inset-0 w-full h-full pointer-events-none"
+    fill="none"
+    stroke="#ffffff"
+    strokeOpacity={0.8}
+    strokeWidth={1.2}
+    strokeDasharray="4 3"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    {view === "side" ? (
+      <>
+        <ellipse cx={52} cy={22} rx={9} ry={11} />
+        <path d="M50 33 L48 40 C40 42 40 50 41 62 L43 100 L45 140 L44 182 L56 186 L52 178 L53 140 L56 100 L58 62 C59 50 58 42 54 40 Z" />
+        <path d="M49 44 L47 72 L49 98" />
+        <line x1={5} y1={186} x2={95} y2={186} />
+      </>
+    ) : (
+      <>
+        <ellipse cx={50} cy={22} rx={10} ry={12} />
+        <path d="M44 34 L44 40 L30 44 L26 70 L24 98 M56 34 L56 40 L70 44 L74 70 L76 98" />
+        <path d="M32 46 L34 70 L36 100 L38 140 L38 182 L47 184 L48 140 L50 110 L52 140 L53 184 L62 182 L62 140 L64 100 L66 70 L68 46" />
+        <line x1={5} y1={186} x2={95} y2={186} />
+      </>
+    )}
+  </svg>
+);
+
+export const PostureCapture: React.FC<PostureCaptureProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const [step, setStep] = useState(0);
+  const [photos, setPhotos] = useState<Partial<Record<PostureView, string>>>({});
+  const [mode, setMode] = useState<"camera" | "upload">("camera");
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState(false);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval>>();
+
+  const { view, title, instruction } = VIEWS[step];
+  const photo = photos[view];
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+  }, [stream]);
+
+  // Release the camera if the tab is left with the preview open
+  useEffect(() => {
+    return () => {
+      clearInterval(timerRef.current);
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  const stopCamera = () => {
+    clearInterval(timerRef.current);
+    setCountdown(null);
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  };
+
+  const startCamera = async () => {
+    try {
+      const cameraStream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment", width: { ideal: 1280 }, height: { ideal: 1280 } },
+        audio: false,
+      });
+      streamRef.current = cameraStream;
+      setStream(cameraStream);
+    } catch (error) {
+      console.error("Error accessing camera:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not access the camera. Please check permissions or upload a photo instead.",
+      });
+    }
+  };
+
+  const setPhoto = (imageData: string) => {
+    setPhotos((current) => ({ ...current, [view]: imageData }));
+    setAnalyzed(false);
+  };
+
+  const capture = () => {
+    const video = previewRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    setPhoto(canvas.toDataURL("image/jpeg", 0.92));
+    stopCamera();
+  };
+
+  const startTimer = () => {
+    let remaining = SELF_TIMER;
+    setCountdown(remaining);
+    timerRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+      } else {
+        clearInterval(timerRef.current);
+        setCountdown(null);
+        capture();
+      }
+    }, 1000);
+  };
+
+  const handleUpload = (file: File) => {
+    const reader = new FileReader();
+    reader.onloadend = () => setPhoto(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const retake = () => {
+    setPhotos((current) => {
+      const next = { ...current };
+      delete next[view];
+      return next;
+    });
+    setAnalyzed(false);
+  };
+
+  const goToStep = (index: number) => {
+    stopCamera();
+    setStep(index);
+  };
+
+  const analyze = async () => {
+    if (!modelsLoaded) return;
+
+    try {
+      setAnalyzing(true);
+      const result = await processPostureViews(photos);
+      setAnalyzed(true);
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: "Posture Analysis Complete",
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        // Pose detection explains what to change (e.g. nobody in frame)
+        description: error instanceof Error ? error.message : "There was an error analyzing your posture photos.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const captured = VIEWS.filter((entry) => photos[entry.view]).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {VIEWS.map((entry, index) => (
+          <Button
+            key={entry.view}
+            variant={index === step ? "default" : "outline"}
+            onClick={() => goToStep(index)}
+            disabled={!!stream}
+          >
+            {index + 1}. {entry.title}
+            {photos[entry.view] && " ✓"}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50">
+        {photo ? (
+          <div className="w-full space-y-4">
+            <img src={photo} alt={`${title} posture photo`} className="max-h-72 mx-auto rounded-md" />
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={retake} disabled={analyzing}>
+                Retake
+              </Button>
+              {step < VIEWS.length - 1 && (
+                <Button variant="outline" onClick={() => goToStep(step + 1)}>
+                  Next: {VIEWS[step + 1].title}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : stream ? (
+          <div className="w-full space-y-4">
+            <div className="relative mx-auto w-fit">
+              <video ref={previewRef} autoPlay muted playsInline className="max-h-80 block rounded-md bg-black" />
+              <Silhouette view={view} />
+              {countdown !== null && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <span className="text-6xl font-bold text-white drop-shadow-lg">{countdown}</span>
+                </div>
+              )}
+            </div>
+            <p className="text-center text-sm text-gray-500">{instruction}</p>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={stopCamera}>
+                Cancel
+              </Button>
+              <Button onClick={startTimer} disabled={countdown !== null}>
+                <Camera className="mr-2 h-4 w-4" />
+                {countdown !== null ? "Hold still..." : `Take Photo (${SELF_TIMER}s timer)`}
+              </Button>
+            </div>
+          </div>
+        ) : mode === "camera" ? (
+          <>
+            <Camera className="h-10 w-10 text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500 mb-4 text-center">{instruction}</p>
+            <div className="flex gap-2">
+              <Button onClick={startCamera}>Open Camera</Button>
+              <Button variant="outline" onClick={() => setMode("upload")}>
+                <Upload className="mr-2 h-4 w-4" />
+                Upload Instead
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="w-full space-y-2">
+            <UploadHandler
+              iconType="posture"
+              title={`Upload a full body ${title.toLowerCase()} photo`}
+              description="PNG, JPG or GIF (max. 5MB)"
+              acceptTypes="image/*"
+              onFileSelected={handleUpload}
+              uploadProgress={0}
+            />
+            <Button variant="link" className="w-full" onClick={() => setMode("camera")}>
+              Use the camera instead
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <Button onClick={analyze} disabled={captured === 0 || analyzing || analyzed || !modelsLoaded}>
+          {analyzing ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Analyzing...
+            </>
+          ) : analyzed ? (
+            "Analysis Complete"
+          ) : (
+            `Analyze Posture (${captured} of ${VIEWS.length} views)`
+          )}
+        </Button>
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Prop the camera at hip height about 3 metres away, against a plain background</li>
+          <li>Stand naturally as you normally would; don't straighten up for the photo</li>
+          <li>Line your body up with the outline so you're fully in frame from head to feet</li>
+          <li>Take the side view first, then the front view; both are needed to check for trunk bending</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from "react";
+import { AlertTriangle, CheckCircle2, Info, Loader2, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { RecordingQualityReport } from "@/services/ml/recordingQuality";
+
+interface RecordingQualityPanelProps {
+  report: RecordingQualityReport | null;
+  checking: boolean;
+  onRerecord: () => void;
+}
+
+export const RecordingQualityPanel: React.FC<RecordingQualityPanelProps> = ({ report, checking, onRerecord }) => {
+  if (checking) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking recording quality...
+      </div>
+    );
+  }
+
+  if (!report) return null;
+
+  const errors = report.issues.filter((issue) => issue.severity === "error");
+  const warnings = report.issues.filter((issue) => issue.severity === "warning");
+
+  const metrics = [
+    { label: "Voiced", value: `${report.voicedDuration.toFixed(1)} s` },
+    { label: "SNR", value: report.snrDb === null ? "Not measured" : `${report.snrDb.toFixed(1)} dB` },
+    { label: "Noise Floor", value: report.noiseFloorDb === null ? "Not measured" : `${report.noiseFloorDb.toFixed(1)} dBFS` },
+    { label: "Clipping", value: `${(report.clippingRatio * 100).toFixed(2)}%` },
+    { label: "Sample Rate", value: `${(report.sampleRate / 1000).toFixed(1)} kHz` },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {errors.length > 0 ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Recording rejected</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc list-inside space-y-1 mb-3">
+              {errors.map((issue) => (
+                <li key={issue.code}>{issue.message}</li>
+              ))}
+            </ul>
+            <Button variant="outline" size="sm" onClick={onRerecord}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Re-record
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertTitle>Recording quality is sufficient for analysis</AlertTitle>
+        </Alert>
+      )}
+
+      {warnings.length > 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Quality warnings</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc list-inside space-y-1">
+              {warnings.map((issue) => (
+                <li key={issue.code}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="text-center p-2 bg-white border rounded-md">
+            <p className="text-xs text-gray-500">{metric.label}</p>
+            <p className="text-sm font-semibold">{metric.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
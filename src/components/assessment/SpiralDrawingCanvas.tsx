@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from "react";
+import { SpiralTrajectory } from "@/types/assessment";
+import { drawStroke, prepareContext, usePenStrokes } from "@/hooks/use-pen-strokes";
+import {
+  DEFAULT_SPIRAL_TEMPLATE,
+  SPIRAL_CANVAS_SIZE,
+  archimedeanSpiralPoints,
+} from "@/services/ml/spiralTemplate";
+import { DrawingControls } from "@/components/assessment/DrawingControls";
+
+interface SpiralDrawingCanvasProps {
+  onComplete: (imageData: string, trajectory: SpiralTrajectory) => void;
+}
+
+const STROKE_WIDTH = 3;
+
+export const SpiralDrawingCanvas: React.FC<SpiralDrawingCanvasProps> = ({ onComplete }) => {
+  const templateRef = useRef<HTMLCanvasElement>(null);
+
+  const pixelRatio = typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1;
+  const resolution = Math.round(SPIRAL_CANVAS_SIZE * pixelRatio);
+  const scale = resolution / SPIRAL_CANVAS_SIZE;
+
+  const pen = usePenStrokes({
+    width: SPIRAL_CANVAS_SIZE,
+    height: SPIRAL_CANVAS_SIZE,
+    scale,
+    color: "#0284c7",
+    lineWidth: STROKE_WIDTH,
+  });
+
+  // Template layer: drawn once, never part of the exported image
+  useEffect(() => {
+    const canvas = templateRef.current;
+    const context = canvas && prepareContext(canvas, scale);
+    if (!context) return;
+
+    const points = archimedeanSpiralPoints(DEFAULT_SPIRAL_TEMPLATE);
+    context.clearRect(0, 0, SPIRAL_CANVAS_SIZE, SPIRAL_CANVAS_SIZE);
+    context.strokeStyle = "#d1d5db";
+    context.lineWidth = 6;
+    context.beginPath();
+    points.forEach((point, i) => (i === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+    context.stroke();
+
+    context.fillStyle = "#9ca3af";
+    context.beginPath();
+    context.arc(DEFAULT_SPIRAL_TEMPLATE.centerX, DEFAULT_SPIRAL_TEMPLATE.centerY, 5, 0, 2 * Math.PI);
+    context.fill();
+  }, [scale]);
+
+  const finish = () => {
+    // Black on white without the template, like a scanned paper drawing
+    const canvas = document.createElement("canvas");
+    canvas.width = SPIRAL_CANVAS_SIZE;
+    canvas.height = SPIRAL_CANVAS_SIZE;
+    const context = prepareContext(canvas, 1);
+    if (!context) return;
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, SPIRAL_CANVAS_SIZE, SPIRAL_CANVAS_SIZE);
+    context.strokeStyle = "#000000";
+    context.lineWidth = STROKE_WIDTH;
+    pen.strokes.forEach((stroke) => drawStroke(context, stroke));
+
+    onComplete(canvas.toDataURL("image/png"), {
+      strokes: pen.strokes,
+      width: SPIRAL_CANVAS_SIZE,
+      height: SPIRAL_CANVAS_SIZE,
+      template: DEFAULT_SPIRAL_TEMPLATE,
+      pointerType: pen.pointerType(),
+    });
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="relative w-full max-w-md mx-auto aspect-square border rounded-lg bg-white overflow-hidden">
+        <canvas ref={templateRef} width={resolution} height={resolution} className="absolute inset-0 w-full h-full" />
+        <canvas
+          ref={pen.canvasRef}
+          width={resolution}
+          height={resolution}
+          className="absolute inset-0 w-full h-full cursor-crosshair"
+          style={{ touchAction: "none" }}
+          {...pen.handlers}
+        />
+      </div>
+      <DrawingControls
+        canUndo={pen.canUndo}
+        canRedo={pen.canRedo}
+        onUndo={pen.undo}
+        onRedo={pen.redo}
+        onClear={pen.clear}
+        onDone={finish}
+        doneLabel="Use Drawing"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Point, rectifyPhoto } from "@/services/ml/documentRectification";
+
+interface SpiralPhotoRectifierProps {
+  photo: string;
+  onConfirm: (imageData: string) => void;
+  onCancel: () => void;
+}
+
+interface Rectified {
+  dataUrl: string;
+  corners: Point[];
+  pageDetected: boolean;
+  width: number;
+  height: number;
+}
+
+export const SpiralPhotoRectifier: React.FC<SpiralPhotoRectifierProps> = ({ photo, onConfirm, onCancel }) => {
+  const [rectified, setRectified] = useState<Rectified | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRectified(null);
+    setFailed(false);
+
+    // Let the spinner paint before the synchronous image work starts
+    const timer = setTimeout(() => {
+      rectifyPhoto(photo)
+        .then((result) => {
+          if (!cancelled) setRectified(result);
+        })
+        .catch((error) => {
+          console.error("Error correcting spiral photo:", error);
+          if (!cancelled) setFailed(true);
+        });
+    }, 50);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [photo]);
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-center">Original</p>
+          <div className="relative">
+            <img src={photo} alt="Original spiral photo" className="w-full max-h-64 object-contain" />
+            {rectified?.pageDetected && (
+              <svg
+                viewBox={`0 0 ${rectified.width} ${rectified.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                <polygon
+                  points={rectified.corners.map((corner) => `${corner.x},${corner.y}`).join(" ")}
+                  fill="rgba(2, 132, 199, 0.12)"
+                  stroke="#0284c7"
+                  strokeWidth={Math.max(rectified.width, rectified.height) / 200}
+                />
+              </svg>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-center">Corrected</p>
+          <div className="flex items-center justify-center min-h-32 bg-white rounded-md">
+            {rectified ? (
+              <img src={rectified.dataUrl} alt="Corrected spiral drawing" className="w-full max-h-64 object-contain" />
+            ) : failed ? (
+              <p className="text-sm text-gray-500 p-4 text-center">The photo could not be corrected.</p>
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {rectified && !rectified.pageDetected && (
+        <div className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-md p-3">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <p>
+            The edges of the paper weren't found, so only lighting and cropping were corrected. Photograph the whole
+            sheet against a darker surface for the best result.
+          </p>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 text-center">
+        Check that the corrected image contains the whole spiral and nothing else.
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Choose Another Photo
+        </Button>
+        <Button variant="outline" onClick={() => onConfirm(photo)} disabled={!rectified && !failed}>
+          Use Original
+        </Button>
+        <Button onClick={() => rectified && onConfirm(rectified.dataUrl)} disabled={!rectified}>
+          Use Corrected
+        </Button>
+      </div>
+    </div>
+  );
+};
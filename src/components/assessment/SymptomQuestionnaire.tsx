@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { CustomTextarea } from "@/components/ui/custom-textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useAssessment } from "@/context/AssessmentContext";
+import { processSymptoms } from "@/services/ml";
+import { demographicsOf } from "@/services/history/patientStore";
+import { SYMPTOM_QUESTIONNAIRE } from "@/services/ml/mdsUpdrs";
+import {
+  AnswerValue,
+  QuestionnaireAnswers,
+  QuestionnaireItem,
+  validateAnswers,
+  validateItem,
+  visibleItems,
+  visibleSections,
+} from "@/services/ml/questionnaire";
+
+interface SymptomQuestionnaireProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+interface ItemFieldProps {
+  item: QuestionnaireItem;
+  value: AnswerValue | undefined;
+  error?: string;
+  onChange: (value: AnswerValue | undefined) => void;
+}
+
+const ItemField: React.FC<ItemFieldProps> = ({ item, value, error, onChange }) => {
+  const fieldId = `q-${item.id}`;
+
+  const input = (() => {
+    switch (item.type) {
+      case "choice":
+        return (
+          <RadioGroup
+            value={value === undefined ? "" : String(value)}
+            onValueChange={(selected) => onChange(Number(selected))}
+            className="gap-1"
+          >
+            {item.options.map((option) => (
+              <Label
+                key={option.value}
+                htmlFor={`${fieldId}-${option.value}`}
+                className="flex items-start gap-3 rounded-md border p-2 font-normal cursor-pointer hover:bg-gray-50"
+              >
+                <RadioGroupItem id={`${fieldId}-${option.value}`} value={String(option.value)} className="mt-0.5" />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  {option.description && <span className="block text-xs text-gray-500">{option.description}</span>}
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+        );
+      case "boolean":
+        return (
+          <RadioGroup
+            value={value === undefined ? "" : value ? "yes" : "no"}
+            onValueChange={(selected) => onChange(selected === "yes")}
+            className="flex gap-6"
+          >
+            {["yes", "no"].map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem id={`${fieldId}-${option}`} value={option} />
+                <Label htmlFor={`${fieldId}-${option}`} className="font-normal capitalize">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case "number":
+        return (
+          <Input
+            id={fieldId}
+            type="number"
+            min={item.min}
+            max={item.max}
+            step={item.integer ? 1 : "any"}
+            placeholder={item.unit}
+            className="max-w-40"
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value))}
+          />
+        );
+      case "text":
+        return (
+          <CustomTextarea
+            id={fieldId}
+            variant="parkinsons"
+            rows={4}
+            maxLength={item.maxLength}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value === "" ? undefined : e.target.value)}
+          />
+        );
+    }
+  })();
+
+  return (
+    <div id={fieldId} className="space-y-2 scroll-mt-24">
+      <Label htmlFor={item.type === "number" || item.type === "text" ? fieldId : undefined} className="text-sm">
+        {item.prompt}
+        {item.required === false && <span className="text-gray-400 font-normal"> (optional)</span>}
+      </Label>
+      {item.help && <p className="text-xs text-gray-500">{item.help}</p>}
+      {input}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export const SymptomQuestionnaire: React.FC<SymptomQuestionnaireProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const { activePatient } = useAssessment();
+  // Start from what the patient profile already says
+  const [answers, setAnswers] = useState<QuestionnaireAnswers>(() => {
+    const age = activePatient ? demographicsOf(activePatient).age : undefined;
+    return age === undefined ? {} : { age };
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState(false);
+
+  const sections = visibleSections(SYMPTOM_QUESTIONNAIRE, answers);
+  const items = visibleItems(SYMPTOM_QUESTIONNAIRE, answers);
+  const answered = items.filter((item) => answers[item.id] !== undefined).length;
+
+  const setAnswer = (item: QuestionnaireItem, value: AnswerValue | undefined) => {
+    setAnswers((current) => {
+      const next = { ...current };
+      if (value === undefined) delete next[item.id];
+      else next[item.id] = value;
+      return next;
+    });
+    // Once flagged, an item is re-checked as it is corrected
+    if (errors[item.id]) {
+      const message = validateItem(item, value);
+      setErrors((current) => {
+        const next = { ...current };
+        if (message) next[item.id] = message;
+        else delete next[item.id];
+        return next;
+      });
+    }
+    setAnalyzed(false);
+  };
+
+  const submit = async () => {
+    if (!modelsLoaded) return;
+
+    const problems = validateAnswers(SYMPTOM_QUESTIONNAIRE, answers);
+    if (problems.length > 0) {
+      setErrors(Object.fromEntries(problems.map((problem) => [problem.item, problem.message])));
+      document.getElementById(`q-${problems[0].item}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+      toast({
+        variant: "destructive",
+        title: "Missing Information",
+        description: `Please check the ${problems.length} highlighted question${problems.length === 1 ? "" : "s"}.`,
+      });
+      return;
+    }
+
+    try {
+      setAnalyzing(true);
+      const result = await processSymptoms(answers);
+      setAnalyzed(true);
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: "Symptoms Analysis Complete",
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: error instanceof Error ? error.message : "There was an error analyzing your symptoms data.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-1">
+        <Progress value={(answered / Math.max(1, items.length)) * 100} />
+        <p className="text-xs text-gray-500 text-right">
+          {answered} of {items.length} questions answered
+        </p>
+      </div>
+
+      {sections.map((section) => (
+        <div key={section.id} className="space-y-4">
+          <div>
+            <h3 className="text-lg font-medium">{section.title}</h3>
+            {section.description && <p className="text-sm text-gray-500">{section.description}</p>}
+          </div>
+          {section.items.map((item) => (
+            <ItemField
+              key={item.id}
+              item={item}
+              value={answers[item.id]}
+              error={errors[item.id]}
+              onChange={(value) => setAnswer(item, value)}
+            />
+          ))}
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Parts IB and II are adapted from the MDS-UPDRS patient questionnaire, with paraphrased wording. Scores are for
+        self-monitoring and are not an official MDS-UPDRS rating.
+      </p>
+
+      <div className="flex justify-center">
+        <Button
+          onClick={submit}
+          className="bg-parkinsons-600 hover:bg-parkinsons-700"
+          disabled={analyzing || analyzed || !modelsLoaded}
+        >
+          {analyzing ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Analyzing...
+            </>
+          ) : analyzed ? (
+            "Analysis Complete"
+          ) : (
+            "Submit Symptoms Assessment"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { processTracingTask } from "@/services/ml";
+import { PATH_TOLERANCE, TRACING_CANVAS, TracingTaskId, tracingPath } from "@/services/ml/pathTracing";
+import { prepareContext, usePenStrokes } from "@/hooks/use-pen-strokes";
+import { DrawingControls } from "@/components/assessment/DrawingControls";
+
+interface TracingTestProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+const TRACING_TASKS: { id: TracingTaskId; title: string; description: string }[] = [
+  {
+    id: "line",
+    title: "Straight Line",
+    description: "Trace the straight line from the green dot to the red dot in one smooth movement.",
+  },
+  {
+    id: "meander",
+    title: "Meander",
+    description: "Follow the square-wave path from the green dot to the red dot, keeping inside the grey band at the corners.",
+  },
+];
+
+export const TracingTest: React.FC<TracingTestProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const templateRef = useRef<HTMLCanvasElement>(null);
+  const [activeTask, setActiveTask] = useState<TracingTaskId>("line");
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState<Partial<Record<TracingTaskId, boolean>>>({});
+
+  const { width, height } = TRACING_CANVAS;
+  const pixelRatio = typeof window !== "undefined" ? window.devicePixelRatio || 1 : 1;
+  const scale = pixelRatio;
+
+  const pen = usePenStrokes({ width, height, scale, color: "#0284c7", lineWidth: 3 });
+  const definition = TRACING_TASKS.find((task) => task.id === activeTask) ?? TRACING_TASKS[0];
+
+  // Template layer: the tolerance band, the path itself and its end points
+  useEffect(() => {
+    const canvas = templateRef.current;
+    const context = canvas && prepareContext(canvas, scale);
+    if (!context) return;
+
+    const path = tracingPath(activeTask);
+    context.clearRect(0, 0, width, height);
+    const tracePath = () => {
+      context.beginPath();
+      path.forEach((point, i) => (i === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+      context.stroke();
+    };
+    context.lineJoin = "miter";
+    context.strokeStyle = "#e5e7eb";
+    context.lineWidth = 2 * PATH_TOLERANCE;
+    tracePath();
+    context.strokeStyle = "#9ca3af";
+    context.lineWidth = 2;
+    tracePath();
+
+    [
+      { point: path[0], color: "#16a34a" },
+      { point: path[path.length - 1], color: "#dc2626" },
+    ].forEach(({ point, color }) => {
+      context.fillStyle = color;
+      context.beginPath();
+      context.arc(point.x, point.y, 6, 0, 2 * Math.PI);
+      context.fill();
+    });
+  }, [activeTask, scale, width, height]);
+
+  const selectTask = (id: TracingTaskId) => {
+    pen.clear();
+    setActiveTask(id);
+  };
+
+  const analyze = async () => {
+    if (!modelsLoaded) return;
+
+    try {
+      setAnalyzing(true);
+      const result = await processTracingTask(activeTask, {
+        strokes: pen.strokes,
+        width,
+        height,
+        path: tracingPath(activeTask),
+        pointerType: pen.pointerType(),
+      });
+      setAnalyzed((previous) => ({ ...previous, [activeTask]: true }));
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: `${definition.title} Tracing Analysis Complete`,
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+
+      const next = TRACING_TASKS.find((task) => task.id !== activeTask && !analyzed[task.id]);
+      if (next) selectTask(next.id);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: error instanceof Error ? error.message : "There was an error analyzing your tracing.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {TRACING_TASKS.map((task, index) => (
+          <Button
+            key={task.id}
+            variant={task.id === activeTask ? "default" : "outline"}
+            onClick={() => selectTask(task.id)}
+            disabled={analyzing}
+            className="flex items-center gap-2"
+          >
+            {analyzed[task.id] ? <CheckCircle2 className="h-4 w-4" /> : <span className="text-xs">{index + 1}.</span>}
+            <span className="truncate">{task.title}</span>
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600">{definition.description}</p>
+
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50 space-y-3">
+        <div className="relative w-full aspect-[2/1] border rounded-lg bg-white overflow-hidden">
+          <canvas
+            ref={templateRef}
+            width={Math.round(width * scale)}
+            height={Math.round(height * scale)}
+            className="absolute inset-0 w-full h-full"
+          />
+          <canvas
+            ref={pen.canvasRef}
+            width={Math.round(width * scale)}
+            height={Math.round(height * scale)}
+            className="absolute inset-0 w-full h-full cursor-crosshair"
+            style={{ touchAction: "none" }}
+            {...pen.handlers}
+          />
+        </div>
+        <DrawingControls
+          canUndo={pen.canUndo && !analyzing}
+          canRedo={pen.canRedo}
+          onUndo={pen.undo}
+          onRedo={pen.redo}
+          onClear={pen.clear}
+          onDone={analyze}
+          doneLabel={analyzing ? "Analyzing..." : `Analyze ${definition.title}`}
+        />
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Use a stylus if you have one, otherwise your index finger</li>
+          <li>Start on the green dot and finish on the red dot</li>
+          <li>Stay as close to the line as you can at a comfortable, steady speed</li>
+          <li>Use Undo or Clear to try again, then analyze the task</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import { Loader2, Smartphone, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { processTremorRecordings } from "@/services/ml";
+import { parseMotionCsv, TREMOR_RECORDING_DURATION, TremorCondition } from "@/services/ml/tremorAnalysis";
+import { isDeviceMotionSupported, useDeviceMotion } from "@/hooks/use-device-motion";
+import { UploadHandler } from "@/components/assessment/UploadHandler";
+import { TremorRecording } from "@/types/assessment";
+
+interface TremorTestProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+const CONDITIONS: { condition: TremorCondition; title: string; instruction: string }[] = [
+  {
+    condition: "rest",
+    title: "Rest",
+    instruction: "Sit with your forearm resting on your thigh and the phone held loosely in your hand, screen up. " +
+      "Let your hand relax completely and count backwards from 100 in your head.",
+  },
+  {
+    condition: "postural",
+    title: "Arm outstretched",
+    instruction: "Hold your arm straight out in front of you at shoulder height, with the phone in your hand, " +
+      "screen up. Keep it as still as you can.",
+  },
+];
+
+const COUNTDOWN = 3; // Seconds to get into position after tapping start
+
+export const TremorTest: React.FC<TremorTestProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const { recording, elapsed, record, cancel } = useDeviceMotion();
+  const [recordings, setRecordings] = useState<Partial<Record<TremorCondition, TremorRecording>>>({});
+  const [active, setActive] = useState(0);
+  const [mode, setMode] = useState<"device" | "csv">(isDeviceMotionSupported() ? "device" : "csv");
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState(false);
+
+  const { condition, title, instruction } = CONDITIONS[active];
+  const current = recordings[condition];
+
+  const saveRecording = (next: TremorRecording) => {
+    setRecordings((existing) => ({ ...existing, [next.condition]: next }));
+    setAnalyzed(false);
+  };
+
+  const startRecording = async () => {
+    try {
+      for (let remaining = COUNTDOWN; remaining > 0; remaining--) {
+        setCountdown(remaining);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      setCountdown(null);
+      const samples = await record(TREMOR_RECORDING_DURATION);
+      if (samples) saveRecording({ condition, samples, source: "device" });
+    } catch (error) {
+      setCountdown(null);
+      toast({
+        variant: "destructive",
+        title: "Recording Failed",
+        description: error instanceof Error ? error.message : "Could not record from the motion sensors.",
+      });
+    }
+  };
+
+  const handleCsv = async (file: File) => {
+    try {
+      const samples = parseMotionCsv(await file.text());
+      saveRecording({ condition, samples, source: "csv" });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Invalid CSV",
+        description: error instanceof Error ? error.message : "The sensor file could not be read.",
+      });
+    }
+  };
+
+  const redo = () => {
+    setRecordings((existing) => {
+      const next = { ...existing };
+      delete next[condition];
+      return next;
+    });
+    setAnalyzed(false);
+  };
+
+  const analyze = async () => {
+    if (!modelsLoaded) return;
+
+    try {
+      setAnalyzing(true);
+      const ordered = CONDITIONS.map((entry) => recordings[entry.condition])
+        .filter((entry): entry is TremorRecording => !!entry);
+      const result = await processTremorRecordings(ordered);
+      setAnalyzed(true);
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: "Tremor Analysis Complete",
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        // Too-short or undersampled recordings say what to change
+        description: error instanceof Error ? error.message : "There was an error analyzing the motion data.",
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const busy = recording || countdown !== null;
+  const captured = CONDITIONS.filter((entry) => recordings[entry.condition]).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        {CONDITIONS.map((entry, index) => (
+          <Button
+            key={entry.condition}
+            variant={index === active ? "default" : "outline"}
+            onClick={() => setActive(index)}
+            disabled={busy}
+          >
+            {index + 1}. {entry.title}
+            {recordings[entry.condition] && " ✓"}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50">
+        {current ? (
+          <div className="text-center space-y-4">
+            <p className="text-sm text-gray-600">
+              {title} recording ready: {current.samples.length} samples
+              {current.source === "csv" ? " from CSV" : ""}
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={redo} disabled={analyzing}>
+                Redo
+              </Button>
+              {active < CONDITIONS.length - 1 && (
+                <Button variant="outline" onClick={() => setActive(active + 1)}>
+                  Next: {CONDITIONS[active + 1].title}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : busy ? (
+          <div className="w-full space-y-4 text-center">
+            {countdown !== null ? (
+              <p className="text-5xl font-bold text-parkinsons-600">{countdown}</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-center gap-2">
+                  <div className="h-3 w-3 rounded-full bg-red-500 animate-pulse"></div>
+                  <p>
+                    Recording... {Math.floor(elapsed)}s / {TREMOR_RECORDING_DURATION}s
+                  </p>
+                </div>
+                <Progress value={(elapsed / TREMOR_RECORDING_DURATION) * 100} />
+              </>
+            )}
+            <p className="text-sm text-gray-500">{instruction}</p>
+            {recording && (
+              <Button variant="outline" onClick={cancel} className="w-full">
+                Cancel
+              </Button>
+            )}
+          </div>
+        ) : mode === "device" ? (
+          <>
+            <Smartphone className="h-10 w-10 text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500 mb-4 text-center">{instruction}</p>
+            <div className="flex gap-2">
+              <Button onClick={startRecording}>Start {TREMOR_RECORDING_DURATION}s Recording</Button>
+              <Button variant="outline" onClick={() => setMode("csv")}>
+                <Upload className="mr-2 h-4 w-4" />
+                Upload CSV
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="w-full space-y-2">
+            <UploadHandler
+              iconType="generic"
+              title={`Upload a ${title.toLowerCase()} sensor recording`}
+              description="CSV with time, ax, ay, az and optional gx, gy, gz columns (max. 5MB)"
+              acceptTypes=".csv,text/csv"
+              onFileSelected={handleCsv}
+              uploadProgress={0}
+            />
+            {isDeviceMotionSupported() && (
+              <Button variant="link" className="w-full" onClick={() => setMode("device")}>
+                Record with this device instead
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <Button onClick={analyze} disabled={captured === 0 || busy || analyzing || analyzed || !modelsLoaded}>
+          {analyzing ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Analyzing...
+            </>
+          ) : analyzed ? (
+            "Analysis Complete"
+          ) : (
+            `Analyze Tremor (${captured} of ${CONDITIONS.length} recordings)`
+          )}
+        </Button>
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Use the hand you want to test; repeat the test for the other hand separately</li>
+          <li>Hold the phone in your palm with your fingers around its edges, not pressed against your body</li>
+          <li>After tapping start you have {COUNTDOWN} seconds to get into position; stay still until it finishes</li>
+          <li>Without a phone, upload CSVs exported from a sensor logging app (times in seconds or milliseconds)</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
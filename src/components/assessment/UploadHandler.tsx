@@ -1,18 +1,19 @@
 
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Upload, ActivitySquare, PencilRuler, Loader2, Info } from "lucide-react";
+import { Upload, ActivitySquare, PencilRuler, Loader2, Info, Footprints } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/components/ui/use-toast";
 import { useAssessment } from "@/context/AssessmentContext";
 
 interface UploadHandlerProps {
-  iconType: "spiral" | "posture" | "generic";
+  iconType: "spiral" | "posture" | "gait" | "generic";
   title: string;
   description: string;
   acceptTypes: string;
   onFileSelected: (file: File) => void;
   uploadProgress: number;
+  maxSizeMb?: number;
 }
 
 export const UploadHandler: React.FC<UploadHandlerProps> = ({
@@ -21,7 +22,8 @@ export const UploadHandler: React.FC<UploadHandlerProps> = ({
   description,
   acceptTypes,
   onFileSelected,
-  uploadProgress
+  uploadProgress,
+  maxSizeMb = 5
 }) => {
   const inputRef = React.useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
@@ -83,12 +85,21 @@ export const UploadHandler: React.FC<UploadHandlerProps> = ({
       return;
     }
     
-    // Check file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
+    if (iconType === "gait" && fileType !== "video") {
+      toast({
+        variant: "destructive",
+        title: "Invalid file type",
+        description: "Please upload a video file for gait analysis.",
+      });
+      return;
+    }
+    
+    // Check file size
+    if (file.size > maxSizeMb * 1024 * 1024) {
       toast({
         variant: "destructive",
         title: "File too large",
-        description: "Please upload a file smaller than 5MB.",
+        description: `Please upload a file smaller than ${maxSizeMb}MB.`,
       });
       return;
     }
@@ -111,6 +122,8 @@ export const UploadHandler: React.FC<UploadHandlerProps> = ({
         return <PencilRuler className="h-10 w-10 text-gray-400 mb-2" />;
       case "posture":
         return <ActivitySquare className="h-10 w-10 text-gray-400 mb-2" />;
+      case "gait":
+        return <Footprints className="h-10 w-10 text-gray-400 mb-2" />;
       default:
         return <Upload className="h-10 w-10 text-gray-400 mb-2" />;
     }
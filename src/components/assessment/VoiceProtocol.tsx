@@ -0,0 +1,394 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Loader2, Mic } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { prepareVoiceTake, processVoiceTask } from "@/services/ml";
+import { RecordingQualityError, RecordingQualityReport } from "@/services/ml/recordingQuality";
+import { VoiceTaskId } from "@/services/ml/speechTasks";
+import { RecordingQualityPanel } from "@/components/assessment/RecordingQualityPanel";
+import { LiveVoiceMonitor } from "@/components/assessment/LiveVoiceMonitor";
+
+interface VoiceTaskDefinition {
+  id: VoiceTaskId;
+  title: string;
+  description: string;
+  instructions: string[];
+  duration: number; // Seconds before recording stops on its own
+  prompt?: string;
+}
+
+const READING_PASSAGE =
+  "The North Wind and the Sun were disputing which was the stronger, when a traveler came along wrapped in a warm cloak. " +
+  "They agreed that the one who first succeeded in making the traveler take his cloak off should be considered stronger than the other. " +
+  "Then the North Wind blew as hard as he could, but the more he blew the more closely did the traveler fold his cloak around him; " +
+  "and at last the North Wind gave up the attempt. Then the Sun shined out warmly, and immediately the traveler took off his cloak. " +
+  "And so the North Wind was obliged to confess that the Sun was the stronger of the two.";
+
+const VOICE_TASKS: VoiceTaskDefinition[] = [
+  {
+    id: "vowel",
+    title: "Sustained Vowel",
+    description: 'Say "aaah" for 10 seconds. This measures pitch stability and voice quality.',
+    instructions: [
+      "Take a comfortable breath",
+      'Say "aaah" at a natural, comfortable pitch and loudness',
+      "Hold it as steadily as you can until the recording stops",
+    ],
+    duration: 10,
+  },
+  {
+    id: "ddk",
+    title: "Pa-Ta-Ka",
+    description: 'Repeat "pa-ta-ka" as quickly and clearly as you can. This measures the speed and rhythm of articulation.',
+    instructions: [
+      "Take a breath before you start",
+      'Repeat "pa-ta-ka-pa-ta-ka..." as fast as you can while keeping each syllable clear',
+      "Keep going until the recording stops",
+    ],
+    duration: 8,
+  },
+  {
+    id: "passage",
+    title: "Reading Passage",
+    description: "Read the passage below aloud. This measures speech rate, pauses and intonation.",
+    instructions: [
+      "Read at your normal speed and loudness",
+      "Don't restart if you stumble - just keep reading",
+      'Press "Stop Recording" when you reach the end',
+    ],
+    duration: 60,
+    prompt: READING_PASSAGE,
+  },
+];
+
+interface TaskState {
+  recordingUrl: string | null;
+  audioBlob: Blob | null;
+  quality: RecordingQualityReport | null;
+  checkingQuality: boolean;
+  analyzing: boolean;
+  analyzed: boolean;
+}
+
+const EMPTY_TASK: TaskState = {
+  recordingUrl: null,
+  audioBlob: null,
+  quality: null,
+  checkingQuality: false,
+  analyzing: false,
+  analyzed: false,
+};
+
+interface VoiceProtocolProps {
+  modelsLoaded: boolean;
+  onAnalyzed: () => void;
+}
+
+export const VoiceProtocol: React.FC<VoiceProtocolProps> = ({ modelsLoaded, onAnalyzed }) => {
+  const { toast } = useToast();
+  const [activeTask, setActiveTask] = useState<VoiceTaskId>("vowel");
+  const [tasks, setTasks] = useState<Record<VoiceTaskId, TaskState>>({
+    vowel: EMPTY_TASK,
+    ddk: EMPTY_TASK,
+    passage: EMPTY_TASK,
+  });
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingTime, setRecordingTime] = useState(0);
+  const [recordingStream, setRecordingStream] = useState<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timersRef = useRef<{ interval?: ReturnType<typeof setInterval>; timeout?: ReturnType<typeof setTimeout> }>({});
+  // Bumped whenever a task's take is replaced, so a quality check and WAV
+  // conversion still running for the old take don't overwrite the new one
+  const takesRef = useRef<Record<VoiceTaskId, number>>({ vowel: 0, ddk: 0, passage: 0 });
+  const urlsRef = useRef<Partial<Record<VoiceTaskId, string>>>({});
+
+  // Release the microphone, timers and playback URLs when leaving the test
+  useEffect(() => {
+    const timers = timersRef.current;
+    const takes = takesRef.current;
+    const urls = urlsRef.current;
+    return () => {
+      clearInterval(timers.interval);
+      clearTimeout(timers.timeout);
+      (Object.keys(takes) as VoiceTaskId[]).forEach((id) => takes[id]++);
+      recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+      Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  const definition = VOICE_TASKS.find((task) => task.id === activeTask) ?? VOICE_TASKS[0];
+  const state = tasks[activeTask];
+
+  const updateTask = (id: VoiceTaskId, update: Partial<TaskState>) => {
+    setTasks((previous) => ({ ...previous, [id]: { ...previous[id], ...update } }));
+  };
+
+  const isCurrentTake = (id: VoiceTaskId, take: number) => takesRef.current[id] === take;
+
+  // Drop the task's take, invalidating any work still running on it
+  const replaceTake = (id: VoiceTaskId) => {
+    const url = urlsRef.current[id];
+    if (url) URL.revokeObjectURL(url);
+    delete urlsRef.current[id];
+    return ++takesRef.current[id];
+  };
+
+  const finishRecording = () => {
+    clearInterval(timersRef.current.interval);
+    clearTimeout(timersRef.current.timeout);
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== "inactive") recorder.stop();
+    recorder?.stream.getTracks().forEach((track) => track.stop());
+    recorderRef.current = null;
+    setRecordingStream(null);
+    setIsRecording(false);
+  };
+
+  const startRecording = async (id: VoiceTaskId) => {
+    const task = VOICE_TASKS.find((candidate) => candidate.id === id) ?? VOICE_TASKS[0];
+    const take = replaceTake(id);
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!isCurrentTake(id, take)) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        chunks.push(e.data);
+      };
+
+      recorder.onstop = async () => {
+        if (!isCurrentTake(id, take)) return;
+        setRecordingTime(0);
+        const recordedBlob = new Blob(chunks, { type: recorder.mimeType || "audio/webm" });
+
+        // Keep the take as WAV, checked at its original sample rate
+        try {
+          updateTask(id, { checkingQuality: true });
+          const { audioBlob, quality } = await prepareVoiceTake(recordedBlob, id);
+          if (!isCurrentTake(id, take)) return;
+          const recordingUrl = URL.createObjectURL(audioBlob);
+          urlsRef.current[id] = recordingUrl;
+          updateTask(id, {
+            recordingUrl,
+            audioBlob,
+            quality,
+            checkingQuality: false,
+            analyzing: false,
+            analyzed: false,
+          });
+
+          if (quality.acceptable) {
+            toast({
+              title: "Recording complete",
+              description: `Your ${task.title.toLowerCase()} sample has been recorded successfully.`,
+            });
+          } else {
+            toast({
+              variant: "destructive",
+              title: "Recording rejected",
+              description: "This take is not suitable for analysis. See the details below and record again.",
+            });
+          }
+        } catch (error) {
+          if (!isCurrentTake(id, take)) return;
+          console.error("Error preparing recording:", error);
+          updateTask(id, { checkingQuality: false });
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Your recording could not be decoded. Please try again.",
+          });
+        }
+      };
+
+      recorderRef.current = recorder;
+      setRecordingStream(stream);
+      recorder.start();
+      setIsRecording(true);
+
+      const startTime = Date.now();
+      timersRef.current.interval = setInterval(() => {
+        setRecordingTime(Math.floor((Date.now() - startTime) / 1000));
+      }, 1000);
+      timersRef.current.timeout = setTimeout(finishRecording, task.duration * 1000);
+    } catch (error) {
+      console.error("Error accessing microphone:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not access microphone. Please check permissions.",
+      });
+    }
+  };
+
+  const resetRecording = (id: VoiceTaskId) => {
+    replaceTake(id);
+    updateTask(id, EMPTY_TASK);
+  };
+
+  const analyzeTask = async (id: VoiceTaskId) => {
+    const audioBlob = tasks[id].audioBlob;
+    if (!audioBlob || !modelsLoaded) return;
+    const take = takesRef.current[id];
+
+    try {
+      updateTask(id, { analyzing: true });
+      const result = await processVoiceTask(id, audioBlob);
+      if (!isCurrentTake(id, take)) return;
+      updateTask(id, { analyzed: true });
+
+      // Refresh assessment data after analysis
+      onAnalyzed();
+
+      toast({
+        title: `${VOICE_TASKS.find((task) => task.id === id)?.title} Analysis Complete`,
+        description: `Analysis indicates ${result.status} indicators with ${result.confidence}% confidence.`,
+      });
+
+      // Move on to the next task that hasn't been analysed yet
+      const next = VOICE_TASKS.find((task) => task.id !== id && !tasks[task.id].analyzed);
+      if (next) setActiveTask(next.id);
+    } catch (error) {
+      if (!isCurrentTake(id, take)) return;
+      if (error instanceof RecordingQualityError) {
+        updateTask(id, { quality: error.report });
+        toast({
+          variant: "destructive",
+          title: "Recording rejected",
+          description: error.message,
+        });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Analysis Failed",
+        description: "There was an error analyzing your voice recording.",
+      });
+    } finally {
+      if (isCurrentTake(id, take)) updateTask(id, { analyzing: false });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {VOICE_TASKS.map((task, index) => (
+          <Button
+            key={task.id}
+            variant={task.id === activeTask ? "default" : "outline"}
+            onClick={() => setActiveTask(task.id)}
+            disabled={isRecording}
+            className="flex items-center gap-2"
+          >
+            {tasks[task.id].analyzed ? (
+              <CheckCircle2 className="h-4 w-4" />
+            ) : (
+              <span className="text-xs">{index + 1}.</span>
+            )}
+            <span className="truncate">{task.title}</span>
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-sm text-gray-600">{definition.description}</p>
+
+      {definition.prompt && (
+        <div className="border rounded-lg p-4 bg-white text-gray-800 leading-relaxed">{definition.prompt}</div>
+      )}
+
+      <div className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 border-gray-300 bg-gray-50">
+        {!state.recordingUrl ? (
+          <>
+            {state.checkingQuality ? (
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking recording...
+              </div>
+            ) : !isRecording ? (
+              <>
+                <Mic className="h-10 w-10 text-gray-400 mb-2" />
+                <p className="text-sm text-gray-500 mb-4">Record your voice for analysis</p>
+                <Button variant="default" onClick={() => startRecording(activeTask)} className="cursor-pointer">
+                  Start Recording
+                </Button>
+              </>
+            ) : (
+              <div className="space-y-4 w-full">
+                <div className="flex items-center justify-center gap-2">
+                  <div className="h-3 w-3 rounded-full bg-red-500 animate-pulse"></div>
+                  <p className="text-center">
+                    Recording... {recordingTime}s / {definition.duration}s
+                  </p>
+                </div>
+                <LiveVoiceMonitor stream={recordingStream} sustainFeedback={activeTask === "vowel"} />
+                <Button variant="outline" onClick={finishRecording} className="w-full">
+                  Stop Recording
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="w-full">
+            <div className="bg-gray-100 rounded-lg p-4 mb-4">
+              <div className="flex items-center justify-center">
+                <audio controls src={state.recordingUrl} className="w-full" />
+              </div>
+            </div>
+            <div className="flex justify-center gap-2">
+              <Button variant="outline" onClick={() => resetRecording(activeTask)} disabled={state.analyzing}>
+                Record Again
+              </Button>
+              <Button
+                onClick={() => analyzeTask(activeTask)}
+                disabled={
+                  state.analyzing ||
+                  state.analyzed ||
+                  !modelsLoaded ||
+                  state.checkingQuality ||
+                  state.quality?.acceptable === false
+                }
+              >
+                {state.analyzing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Analyzing...
+                  </>
+                ) : state.analyzed ? (
+                  "Analysis Complete"
+                ) : (
+                  `Analyze ${definition.title}`
+                )}
+              </Button>
+            </div>
+            <div className="mt-4">
+              <RecordingQualityPanel
+                report={state.quality}
+                checking={state.checkingQuality}
+                onRerecord={() => {
+                  resetRecording(activeTask);
+                  startRecording(activeTask);
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="font-medium mb-2">Instructions:</h3>
+        <ol className="list-decimal list-inside text-sm text-gray-600 space-y-1">
+          <li>Find a quiet environment with minimal background noise</li>
+          {definition.instructions.map((instruction) => (
+            <li key={instruction}>{instruction}</li>
+          ))}
+          <li>Review your recording and submit for analysis</li>
+        </ol>
+      </div>
+    </div>
+  );
+};
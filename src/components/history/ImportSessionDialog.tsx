@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { useAssessment } from "@/context/AssessmentContext";
+import { readSessionArchive, SessionArchive } from "@/services/history/sessionArchive";
+import { MODALITIES } from "@/services/history/trends";
+
+interface ImportSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ImportSessionDialog: React.FC<ImportSessionDialogProps> = ({ open, onOpenChange }) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { activePatient, importSession, loadingModels } = useAssessment();
+  const [archive, setArchive] = useState<SessionArchive | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reanalyze, setReanalyze] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setArchive(null);
+      setError(null);
+      setReanalyze(false);
+    }
+  }, [open]);
+
+  const selectFile = async (file: File | undefined) => {
+    setArchive(null);
+    setError(null);
+    if (!file) return;
+    try {
+      setArchive(readSessionArchive(await file.text()));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const submit = async () => {
+    if (!archive) return;
+    try {
+      setImporting(true);
+      const kept = await importSession(archive, reanalyze);
+      if (kept.length > 0) {
+        toast({
+          title: "Session Imported",
+          description: `Kept the archived results for ${MODALITIES.filter((entry) => kept.includes(entry.modality))
+            .map((entry) => entry.label)
+            .join(", ")}, which could not be re-analyzed.`,
+        });
+      }
+      onOpenChange(false);
+      navigate("/results");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The session could not be imported.",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const tests = archive ? MODALITIES.filter((entry) => entry.result(archive.data)).map((entry) => entry.label) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Session</DialogTitle>
+          <DialogDescription>
+            Open a session archive exported from this app. It replaces the current results and is saved to
+            {activePatient ? ` ${activePatient.name}'s history` : " the history of sessions without a patient"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="session-archive">Session archive (.json)</Label>
+          <Input
+            id="session-archive"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => selectFile(e.target.files?.[0])}
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        {archive && (
+          <div className="rounded-md bg-gray-50 p-3 text-sm space-y-1">
+            <p>
+              <span className="font-medium">Recorded:</span> {format(archive.session.startedAt, "d MMM yyyy, HH:mm")}
+            </p>
+            <p>
+              <span className="font-medium">Tests:</span> {tests.join(", ")}
+            </p>
+            {archive.models.assessment && (
+              <p>
+                <span className="font-medium">Model version:</span> {archive.models.assessment}
+              </p>
+            )}
+            {archive.models.questionnaire && (
+              <p>
+                <span className="font-medium">Questionnaire version:</span> {archive.models.questionnaire}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="session-reanalyze">Re-run analysis with the current models</Label>
+            <p className="text-sm text-gray-500">
+              Otherwise the archived results are shown as they were. The gait test cannot be re-run because its video
+              is not archived.
+            </p>
+          </div>
+          <Switch
+            id="session-reanalyze"
+            checked={reanalyze}
+            onCheckedChange={setReanalyze}
+            disabled={loadingModels}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="bg-parkinsons-600 hover:bg-parkinsons-700" onClick={submit} disabled={!archive || importing}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import Session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,104 @@
+import React from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { MODALITIES, Modality, TrendChange, TrendPoint } from "@/services/history/trends";
+
+interface ModalityTrendCardProps {
+  modality: Modality;
+  series: TrendPoint[];
+  changes: TrendChange[];
+}
+
+const chartConfig = {
+  score: {
+    label: "Score",
+    color: "#0284c7", // parkinsons-600
+  },
+  confidence: {
+    label: "Confidence",
+    color: "#9ca3af",
+  },
+  feature: {
+    label: "Value",
+    color: "#0284c7",
+  },
+} satisfies ChartConfig;
+
+const formatDate = (time: number) => format(time, "d MMM");
+
+export const ModalityTrendCard: React.FC<ModalityTrendCardProps> = ({ modality, series, changes }) => {
+  const definition = MODALITIES.find((entry) => entry.modality === modality)!;
+  const features = definition.features.filter((feature) => series.some((point) => feature.key in point.features));
+  const flagged = new Set(changes.map((change) => change.toSession));
+  const latest = series[series.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{definition.label}</CardTitle>
+        <CardDescription>
+          {series.length} session{series.length === 1 ? "" : "s"} · latest score {latest.score} ({latest.status})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+          <LineChart data={series} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatDate}
+              tickLine={false}
+              axisLine={false}
+              padding={{ left: 16, right: 16 }}
+            />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, payload) => format(payload[0]?.payload.time, "d MMM yyyy, HH:mm")} />}
+            />
+            <Line dataKey="confidence" type="linear" stroke="var(--color-confidence)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            <Line dataKey="score" type="linear" stroke="var(--color-score)" strokeWidth={2} isAnimationActive={false} />
+            {series
+              .filter((point) => flagged.has(point.sessionId))
+              .map((point) => (
+                <ReferenceDot key={point.sessionId} x={point.time} y={point.score} r={6} fill="none" stroke="#dc2626" strokeWidth={2} />
+              ))}
+          </LineChart>
+        </ChartContainer>
+
+        {features.length > 0 && (
+          <div className="grid md:grid-cols-3 gap-4">
+            {features.map((feature) => {
+              const data = series
+                .filter((point) => feature.key in point.features)
+                .map((point) => ({ time: point.time, feature: point.features[feature.key] }));
+              const value = data[data.length - 1].feature;
+              return (
+                <div key={feature.key} className="border rounded-md p-2">
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>{feature.label}</span>
+                    <span className="font-semibold text-gray-900">
+                      {value.toFixed(Math.abs(value) >= 10 ? 0 : 2)}
+                      {feature.unit ? ` ${feature.unit}` : ""}
+                    </span>
+                  </div>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-16 w-full">
+                    <LineChart data={data} margin={{ left: 4, right: 4, top: 4, bottom: 4 }}>
+                      <XAxis dataKey="time" type="number" scale="time" domain={["dataMin", "dataMax"]} hide />
+                      <YAxis domain={["auto", "auto"]} hide />
+                      <Line dataKey="feature" type="linear" stroke="var(--color-feature)" dot={{ r: 2 }} isAnimationActive={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
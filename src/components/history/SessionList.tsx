@@ -0,0 +1,49 @@
+import React from "react";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { StoredSession } from "@/services/history/sessionStore";
+import { MODALITIES } from "@/services/history/trends";
+
+interface SessionListProps {
+  sessions: StoredSession[];
+  onDelete: (id: string) => void;
+}
+
+export const SessionList: React.FC<SessionListProps> = ({ sessions, onDelete }) => {
+  return (
+    <div className="divide-y">
+      {[...sessions].reverse().map((session) => {
+        const assessed = MODALITIES.filter((entry) => entry.result(session.data));
+        const overall = session.data.overall;
+        return (
+          <div key={session.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="space-y-1">
+              <div className="font-medium">{format(session.startedAt, "d MMM yyyy, HH:mm")}</div>
+              <div className="flex flex-wrap gap-1">
+                {assessed.map((entry) => (
+                  <Badge key={entry.modality} variant="secondary" className="font-normal">
+                    {entry.label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              {overall && (
+                <div className="text-right">
+                  <div className="text-lg font-bold">{overall.score}</div>
+                  <div className="text-xs text-gray-500 capitalize">{overall.status}</div>
+                </div>
+              )}
+              <Button variant="ghost" size="icon" onClick={() => onDelete(session.id)}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete session</span>
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -2,10 +2,11 @@
 import React from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { ActivitySquare, FileBarChart, Home, Lightbulb, Menu, X, Brain } from "lucide-react";
+import { ActivitySquare, FileBarChart, Home, Lightbulb, Menu, X, Brain, History } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
 import { CustomButton } from "@/components/ui/custom-button";
+import { PatientSwitcher } from "@/components/patients/PatientSwitcher";
 
 export function Navbar() {
   const [isOpen, setIsOpen] = React.useState(false);
@@ -14,6 +15,7 @@ export function Navbar() {
     { title: "Home", href: "/", icon: <Home className="mr-2 h-4 w-4" /> },
     { title: "Assessment", href: "/assessment", icon: <ActivitySquare className="mr-2 h-4 w-4" /> },
     { title: "Results", href: "/results", icon: <FileBarChart className="mr-2 h-4 w-4" /> },
+    { title: "History", href: "/history", icon: <History className="mr-2 h-4 w-4" /> },
     { title: "Resources", href: "/resources", icon: <Lightbulb className="mr-2 h-4 w-4" /> },
     { title: "Training", href: "/training", icon: <Brain className="mr-2 h-4 w-4" /> },
   ];
@@ -40,6 +42,7 @@ export function Navbar() {
           ))}
         </nav>
         <div className="flex items-center gap-2">
+          <PatientSwitcher />
           <CustomButton variant="parkinsons" asChild className="hidden md:flex">
             <Link to="/assessment">Start Assessment</Link>
           </CustomButton>
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { createId } from "@/services/history/database";
+import { DiagnosisStatus, Handedness, PatientProfile, Sex } from "@/types/assessment";
+
+interface PatientFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patient?: PatientProfile; // Edited in place when given, otherwise a new profile
+  onSave: (patient: PatientProfile) => Promise<void>;
+}
+
+interface FormValues {
+  name: string;
+  birthYear: string;
+  sex: Sex | "";
+  handedness: Handedness | "";
+  diagnosis: DiagnosisStatus;
+  diagnosisYear: string;
+  medication: string;
+}
+
+const SEX_OPTIONS: { value: Sex; label: string }[] = [
+  { value: "female", label: "Female" },
+  { value: "male", label: "Male" },
+  { value: "other", label: "Other" },
+];
+
+const HANDEDNESS_OPTIONS: { value: Handedness; label: string }[] = [
+  { value: "right", label: "Right-handed" },
+  { value: "left", label: "Left-handed" },
+  { value: "ambidextrous", label: "Ambidextrous" },
+];
+
+const DIAGNOSIS_OPTIONS: { value: DiagnosisStatus; label: string }[] = [
+  { value: "none", label: "No diagnosis" },
+  { value: "suspected", label: "Suspected, under investigation" },
+  { value: "diagnosed", label: "Diagnosed with Parkinson's" },
+];
+
+const toFormValues = (patient?: PatientProfile): FormValues => ({
+  name: patient?.name ?? "",
+  birthYear: patient?.birthYear?.toString() ?? "",
+  sex: patient?.sex ?? "",
+  handedness: patient?.handedness ?? "",
+  diagnosis: patient?.diagnosis ?? "none",
+  diagnosisYear: patient?.diagnosisYear?.toString() ?? "",
+  medication: patient?.medication ?? "",
+});
+
+const validate = (values: FormValues): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const thisYear = new Date().getFullYear();
+  const birthYear = Number(values.birthYear);
+  const diagnosisYear = Number(values.diagnosisYear);
+
+  if (!values.name.trim()) errors.name = "Enter a name or identifier.";
+  if (values.birthYear && (!Number.isInteger(birthYear) || birthYear < thisYear - 120 || birthYear > thisYear - 18)) {
+    errors.birthYear = `Enter a year between ${thisYear - 120} and ${thisYear - 18}.`;
+  }
+  if (values.diagnosis === "diagnosed" && values.diagnosisYear) {
+    const earliest = values.birthYear ? birthYear : thisYear - 120;
+    if (!Number.isInteger(diagnosisYear) || diagnosisYear < earliest || diagnosisYear > thisYear) {
+      errors.diagnosisYear = `Enter a year between ${earliest} and ${thisYear}.`;
+    }
+  }
+  return errors;
+};
+
+export const PatientFormDialog: React.FC<PatientFormDialogProps> = ({ open, onOpenChange, patient, onSave }) => {
+  const { toast } = useToast();
+  const [values, setValues] = useState<FormValues>(toFormValues(patient));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Start from the profile being edited each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(patient));
+      setErrors({});
+    }
+  }, [open, patient]);
+
+  const update = <K extends keyof FormValues>(key: K, value: FormValues[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const problems = validate(values);
+    setErrors(problems);
+    if (Object.keys(problems).length > 0) return;
+
+    try {
+      setSaving(true);
+      await onSave({
+        id: patient?.id ?? createId(),
+        name: values.name.trim(),
+        birthYear: values.birthYear ? Number(values.birthYear) : undefined,
+        sex: values.sex || undefined,
+        handedness: values.handedness || undefined,
+        diagnosis: values.diagnosis,
+        diagnosisYear: values.diagnosis === "diagnosed" && values.diagnosisYear ? Number(values.diagnosisYear) : undefined,
+        medication: values.medication.trim() || undefined,
+        archived: patient?.archived ?? false,
+        createdAt: patient?.createdAt ?? Date.now(),
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The patient profile could not be saved.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{patient ? "Edit Patient" : "New Patient"}</DialogTitle>
+            <DialogDescription>
+              Profiles are stored on this device only. Age is used to adjust the expected range for some tests.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="patient-name">Name or identifier</Label>
+            <Input id="patient-name" value={values.name} onChange={(e) => update("name", e.target.value)} />
+            {errors.name && <p className="text-sm text-red-600">{errors.name}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="patient-birth-year">Year of birth</Label>
+              <Input
+                id="patient-birth-year"
+                type="number"
+                step={1}
+                value={values.birthYear}
+                onChange={(e) => update("birthYear", e.target.value)}
+              />
+              {errors.birthYear && <p className="text-sm text-red-600">{errors.birthYear}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Sex</Label>
+              <Select value={values.sex} onValueChange={(value) => update("sex", value as Sex)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Not specified" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEX_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Handedness</Label>
+            <Select value={values.handedness} onValueChange={(value) => update("handedness", value as Handedness)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Not specified" />
+              </SelectTrigger>
+              <SelectContent>
+                {HANDEDNESS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Diagnosis</Label>
+              <Select value={values.diagnosis} onValueChange={(value) => update("diagnosis", value as DiagnosisStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIAGNOSIS_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {values.diagnosis === "diagnosed" && (
+              <div className="space-y-2">
+                <Label htmlFor="patient-diagnosis-year">Year diagnosed</Label>
+                <Input
+                  id="patient-diagnosis-year"
+                  type="number"
+                  step={1}
+                  value={values.diagnosisYear}
+                  onChange={(e) => update("diagnosisYear", e.target.value)}
+                />
+                {errors.diagnosisYear && <p className="text-sm text-red-600">{errors.diagnosisYear}</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="patient-medication">Current medication</Label>
+            <Input
+              id="patient-medication"
+              placeholder="e.g. levodopa/carbidopa 100/25 mg three times daily"
+              value={values.medication}
+              onChange={(e) => update("medication", e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-parkinsons-600 hover:bg-parkinsons-700" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Patient
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { Check, ChevronDown, UserPlus, UserRound, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAssessment } from "@/context/AssessmentContext";
+import { PatientFormDialog } from "./PatientFormDialog";
+import { PatientProfile } from "@/types/assessment";
+
+export const PatientSwitcher: React.FC = () => {
+  const { patients, activePatient, selectPatient, savePatientProfile } = useAssessment();
+  const [creating, setCreating] = useState(false);
+  const current = patients.filter((patient) => !patient.archived);
+
+  const createPatient = async (patient: PatientProfile) => {
+    await savePatientProfile(patient);
+    selectPatient(patient.id);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-48">
+            <UserRound className="mr-2 h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{activePatient?.name ?? "No patient"}</span>
+            <ChevronDown className="ml-2 h-4 w-4 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Assessing</DropdownMenuLabel>
+          <DropdownMenuItem onSelect={() => selectPatient(null)}>
+            <Check className={`mr-2 h-4 w-4 ${activePatient ? "invisible" : ""}`} />
+            No patient selected
+          </DropdownMenuItem>
+          {current.map((patient) => (
+            <DropdownMenuItem key={patient.id} onSelect={() => selectPatient(patient.id)}>
+              <Check className={`mr-2 h-4 w-4 ${activePatient?.id === patient.id ? "" : "invisible"}`} />
+              <span className="truncate">{patient.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreating(true)}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            New patient
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link to="/patients">
+              <Users className="mr-2 h-4 w-4" />
+              Manage patients
+            </Link>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <PatientFormDialog open={creating} onOpenChange={setCreating} onSave={createPatient} />
+    </>
+  );
+};
@@ -0,0 +1,88 @@
+import React from "react";
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { GaitFeatures } from "@/services/ml/gaitAnalysis";
+
+interface GaitResultsPanelProps {
+  features: GaitFeatures;
+}
+
+const chartConfig = {
+  separation: {
+    label: "Ankle separation",
+    color: "#0284c7", // parkinsons-600
+  },
+  velocity: {
+    label: "Walking speed",
+    color: "#9ca3af",
+  },
+} satisfies ChartConfig;
+
+const formatSwing = (value: number | null) => (value === null ? "Not visible" : `${value.toFixed(2)} × torso`);
+
+export const GaitResultsPanel: React.FC<GaitResultsPanelProps> = ({ features }) => {
+  const data = features.series
+    .filter((point) => !isNaN(point.separation))
+    .map((point) => ({
+      time: Number(point.t.toFixed(2)),
+      separation: Math.round(point.separation * 100) / 100,
+      velocity: Math.round(point.velocity * 100) / 100,
+    }));
+
+  const stats = [
+    { label: "Cadence", value: `${features.cadence.toFixed(0)} steps/min` },
+    { label: "Step Length", value: `${features.meanStepLength.toFixed(2)} × torso` },
+    { label: "Step Asymmetry", value: `${features.stepLengthAsymmetry.toFixed(0)}%` },
+    { label: "Stride Time CV", value: `${features.strideTimeCv.toFixed(1)}%` },
+    { label: "Arm Swing (L)", value: formatSwing(features.armSwingLeft) },
+    { label: "Arm Swing (R)", value: formatSwing(features.armSwingRight) },
+    {
+      label: "Turning",
+      value: features.turnCount > 0 ? `${features.meanTurnDuration.toFixed(1)} s × ${features.turnCount}` : "No turn",
+    },
+    {
+      label: "Freezing",
+      value: features.freezingEpisodes > 0
+        ? `${features.freezingEpisodes} (${features.freezingTime.toFixed(1)} s)`
+        : "None",
+    },
+  ];
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Walking Pattern</h3>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" type="number" tickLine={false} axisLine={false} domain={["dataMin", "dataMax"]} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="velocity" type="linear" stroke="var(--color-velocity)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+          <Line dataKey="separation" type="linear" stroke="var(--color-separation)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          {features.steps.map((step) => (
+            <ReferenceDot
+              key={step.t}
+              x={Number(step.t.toFixed(2))}
+              y={0}
+              r={3}
+              fill="var(--color-separation)"
+              stroke="none"
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-gray-500">
+        Distance between the ankles over time, in torso lengths; each peak is a step (dots). The dashed line is walking speed,
+        which changes sign at a turn.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { PitchContour, PitchStatistics } from "@/services/ml/pitchTracking";
+
+interface PitchContourChartProps {
+  contour: PitchContour;
+  statistics: PitchStatistics;
+}
+
+const chartConfig = {
+  f0: {
+    label: "F0 (Hz)",
+    color: "#0284c7", // parkinsons-600
+  },
+} satisfies ChartConfig;
+
+export const PitchContourChart: React.FC<PitchContourChartProps> = ({ contour, statistics }) => {
+  // Unvoiced frames become gaps in the line
+  const data = contour.times.map((time, i) => ({
+    time: Number(time.toFixed(2)),
+    f0: contour.voiced[i] ? Math.round(contour.f0[i] * 10) / 10 : null,
+  }));
+
+  const stats = [
+    { label: "Mean F0", value: `${statistics.meanF0.toFixed(1)} Hz` },
+    { label: "F0 SD", value: `${statistics.sdSemitones.toFixed(2)} st` },
+    { label: "Unvoiced", value: `${(statistics.unvoicedFraction * 100).toFixed(1)}%` },
+    { label: "Voice Breaks", value: `${statistics.voiceBreaks}` },
+  ];
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Pitch Contour</h3>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickLine={false} axisLine={false} unit="s" minTickGap={32} />
+          <YAxis tickLine={false} axisLine={false} width={40} domain={["auto", "auto"]} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line
+            dataKey="f0"
+            type="monotone"
+            stroke="var(--color-f0)"
+            strokeWidth={2}
+            dot={false}
+            connectNulls={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ChartContainer>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
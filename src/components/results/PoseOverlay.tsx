@@ -0,0 +1,66 @@
+import React from "react";
+import { Pose, SKELETON_EDGES, getKeypoint } from "@/services/ml/poseDetection";
+
+interface PoseOverlayProps {
+  imageData: string;
+  pose: Pose;
+}
+
+// Points the detector was unsure of are drawn faded, and left out below this
+const MIN_DRAWN_SCORE = 0.1;
+
+export const PoseOverlay: React.FC<PoseOverlayProps> = ({ imageData, pose }) => {
+  const { width, height } = pose;
+  const radius = Math.max(width, height) * 0.008;
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <div className="relative mx-auto my-4 w-fit">
+        <img src={imageData} alt="Posture with detected skeleton" className="max-h-80 block" />
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        >
+          {SKELETON_EDGES.map(([from, to]) => {
+            const a = getKeypoint(pose, from);
+            const b = getKeypoint(pose, to);
+            if (a.score < MIN_DRAWN_SCORE || b.score < MIN_DRAWN_SCORE) return null;
+            return (
+              <line
+                key={`${from}-${to}`}
+                x1={a.x * width}
+                y1={a.y * height}
+                x2={b.x * width}
+                y2={b.y * height}
+                stroke="#0284c7"
+                strokeWidth={radius * 0.6}
+                strokeOpacity={Math.min(a.score, b.score)}
+                strokeLinecap="round"
+              />
+            );
+          })}
+          {pose.keypoints
+            .filter((keypoint) => keypoint.score >= MIN_DRAWN_SCORE)
+            .map((keypoint) => (
+              <circle
+                key={keypoint.name}
+                cx={keypoint.x * width}
+                cy={keypoint.y * height}
+                r={radius}
+                fill="#ffffff"
+                fillOpacity={keypoint.score}
+                stroke="#0284c7"
+                strokeWidth={radius * 0.4}
+              >
+                <title>{`${keypoint.name}: ${(keypoint.score * 100).toFixed(0)}%`}</title>
+              </circle>
+            ))}
+        </svg>
+      </div>
+      <p className="text-xs text-gray-500 text-center pb-3">
+        Detected by {pose.detector} · mean keypoint confidence {(pose.score * 100).toFixed(0)}%
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { POSTURE_THRESHOLDS, PostureAngles, PostureFindings } from "@/services/ml/postureAngles";
+
+interface PostureAnglesPanelProps {
+  angles: PostureAngles;
+  findings: PostureFindings;
+}
+
+const degrees = (value: number) => `${value.toFixed(1)}°`;
+
+export const PostureAnglesPanel: React.FC<PostureAnglesPanelProps> = ({ angles, findings }) => {
+  const { sagittal, frontal } = angles;
+
+  const stats = [
+    ...(sagittal
+      ? [
+          { label: "Trunk Flexion", value: degrees(sagittal.trunkFlexion) },
+          { label: "Trunk Inclination", value: degrees(sagittal.trunkInclination) },
+          { label: "Neck Flexion", value: degrees(sagittal.neckFlexion) },
+          { label: "Craniovertebral Angle", value: degrees(sagittal.craniovertebralAngle) },
+          { label: "Knee Flexion", value: degrees(sagittal.kneeFlexion) },
+        ]
+      : []),
+    ...(frontal
+      ? [
+          {
+            label: "Lateral Trunk Bend",
+            value: frontal.bendDirection === "none"
+              ? degrees(frontal.lateralTrunkBend)
+              : `${degrees(frontal.lateralTrunkBend)} ${frontal.bendDirection}`,
+          },
+          { label: "Shoulder Tilt", value: degrees(frontal.shoulderTilt) },
+          { label: "Pelvic Tilt", value: degrees(frontal.pelvicTilt) },
+        ]
+      : []),
+  ];
+
+  const conditions = [
+    {
+      name: "Camptocormia",
+      present: findings.camptocormia,
+      measured: !!sagittal,
+      rule: `trunk flexion ≥ ${POSTURE_THRESHOLDS.camptocormia}°`,
+    },
+    {
+      name: "Anterocollis",
+      present: findings.anterocollis,
+      measured: !!sagittal,
+      rule: `neck flexion ≥ ${POSTURE_THRESHOLDS.anterocollis}°`,
+    },
+    {
+      name: "Pisa syndrome",
+      present: findings.pisaSyndrome,
+      measured: !!frontal,
+      rule: `lateral bend ≥ ${POSTURE_THRESHOLDS.pisaSyndrome}°`,
+    },
+  ];
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Posture Angles</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {conditions.map((condition) => (
+          <Badge
+            key={condition.name}
+            variant={condition.present ? "destructive" : "outline"}
+            title={condition.rule}
+          >
+            {condition.name}: {!condition.measured ? "not measured" : condition.present ? "present" : "absent"}
+          </Badge>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Angles are estimated from body keypoints rather than bony landmarks, so values near a cut-off should be confirmed by a
+        clinician.
+      </p>
+    </div>
+  );
+};
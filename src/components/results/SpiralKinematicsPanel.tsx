@@ -0,0 +1,79 @@
+import React from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { SpiralKinematics } from "@/services/ml/spiralKinematics";
+
+interface SpiralKinematicsPanelProps {
+  kinematics: SpiralKinematics;
+}
+
+const chartConfig = {
+  radius: {
+    label: "Radius",
+    color: "#0284c7", // parkinsons-600
+  },
+  fit: {
+    label: "Fitted spiral",
+    color: "#9ca3af",
+  },
+} satisfies ChartConfig;
+
+const MAX_CHART_POINTS = 600;
+
+export const SpiralKinematicsPanel: React.FC<SpiralKinematicsPanelProps> = ({ kinematics }) => {
+  const { theta, radius } = kinematics.unwrapped;
+  const stride = Math.max(1, Math.ceil(theta.length / MAX_CHART_POINTS));
+  const slope = kinematics.turnSpacing / (2 * Math.PI);
+
+  const data = theta
+    .filter((_, i) => i % stride === 0)
+    .map((angle, i) => ({
+      turns: Number((angle / (2 * Math.PI)).toFixed(2)),
+      radius: Math.round(radius[i * stride] * 10) / 10,
+      fit: Math.round((kinematics.radiusIntercept + slope * angle) * 10) / 10,
+    }));
+
+  const stats = [
+    { label: "Spiral Rating", value: `${kinematics.rating.toFixed(1)} / 10` },
+    {
+      label: "Tremor",
+      value:
+        kinematics.tremorFrequency > 0
+          ? `${kinematics.tremorFrequency.toFixed(1)} Hz, ${kinematics.tremorAmplitude.toFixed(1)} pp`
+          : "None",
+    },
+    { label: "Mean Speed", value: `${kinematics.meanSpeed.toFixed(0)} /s` },
+    { label: "Speed CV", value: kinematics.speedCv.toFixed(2) },
+    { label: "Radial Residual", value: kinematics.residualRms.toFixed(2) },
+    { label: "Fit R²", value: kinematics.fitRSquared.toFixed(3) },
+    { label: "Pen Lifts", value: `${kinematics.penLifts}` },
+    { label: "Drawing Time", value: `${kinematics.drawingTime.toFixed(1)} s` },
+  ];
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Drawing Kinematics</h3>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="turns" type="number" tickLine={false} axisLine={false} domain={["dataMin", "dataMax"]} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line dataKey="fit" type="linear" stroke="var(--color-fit)" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+          <Line dataKey="radius" type="linear" stroke="var(--color-radius)" strokeWidth={2} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-gray-500">
+        Distance from the centre against turns drawn. Tremor shows up as oscillation around the dashed line.
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
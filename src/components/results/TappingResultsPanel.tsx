@@ -0,0 +1,73 @@
+import React from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { TappingSession } from "@/types/assessment";
+import { TappingFeatures } from "@/services/ml/fingerTapping";
+
+interface TappingResultsPanelProps {
+  features: TappingFeatures;
+  session?: TappingSession;
+}
+
+const chartConfig = {
+  amplitude: {
+    label: "Amplitude",
+    color: "#0284c7", // parkinsons-600
+  },
+  interval: {
+    label: "Interval (ms)",
+    color: "#f97316",
+  },
+} satisfies ChartConfig;
+
+export const TappingResultsPanel: React.FC<TappingResultsPanelProps> = ({ features, session }) => {
+  const taps = session?.taps ?? [];
+  const data = taps.slice(1).map((tap, i) => ({
+    time: Number((tap.t / 1000).toFixed(2)),
+    amplitude: Math.round(Math.hypot(tap.x - taps[i].x, tap.y - taps[i].y)),
+    interval: Math.round(tap.t - taps[i].t),
+  }));
+
+  const stats = [
+    { label: "Tap Rate", value: `${features.tapRate.toFixed(2)} /s` },
+    { label: "Interval CV", value: features.intervalCv.toFixed(3) },
+    { label: "Amplitude Decrement", value: `${features.amplitudeDecrement.toFixed(1)}%` },
+    { label: "Fatigue", value: `${features.fatigue.toFixed(1)}%` },
+    { label: "Hesitations", value: `${features.hesitations}` },
+    { label: "Misses", value: `${features.missCount}` },
+    { label: "Same-Target Errors", value: `${features.alternationErrors}` },
+    { label: "Contact Time", value: `${features.meanDwellTime.toFixed(0)} ms` },
+  ];
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Tapping Rhythm</h3>
+      {data.length > 1 && (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" type="number" tickLine={false} axisLine={false} domain={["dataMin", "dataMax"]} />
+              <YAxis yAxisId="amplitude" tickLine={false} axisLine={false} width={40} />
+              <YAxis yAxisId="interval" orientation="right" tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line yAxisId="amplitude" dataKey="amplitude" type="linear" stroke="var(--color-amplitude)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line yAxisId="interval" dataKey="interval" type="linear" stroke="var(--color-interval)" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+          <p className="text-xs text-gray-500">
+            Distance and time between consecutive taps over the test. A falling amplitude or rising interval line shows decrement.
+          </p>
+        </>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-semibold">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { AssessmentData } from "@/types/assessment";
+import { TracingTaskId } from "@/services/ml/pathTracing";
+
+interface TracingTaskResultsProps {
+  tasks: NonNullable<AssessmentData["tracing"]>["tasks"];
+}
+
+const TASK_TITLES: Record<TracingTaskId, string> = {
+  line: "Straight Line",
+  meander: "Meander",
+};
+
+export const TracingTaskResults: React.FC<TracingTaskResultsProps> = ({ tasks }) => {
+  const entries = (Object.keys(TASK_TITLES) as TracingTaskId[]).filter((id) => tasks?.[id]?.result);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Task Breakdown</h3>
+      {entries.map((id) => {
+        const task = tasks?.[id];
+        if (!task?.result) return null;
+        const features = task.features;
+        return (
+          <div key={id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{TASK_TITLES[id]}</p>
+              <p className="text-sm text-gray-600 capitalize">
+                {task.result.status} · {task.result.score}/100
+              </p>
+            </div>
+            <Progress value={task.result.score} className="h-2" />
+            {features && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {[
+                  { label: "Mean Deviation", value: features.meanDeviation.toFixed(1) },
+                  { label: "Max Deviation", value: features.maxDeviation.toFixed(1) },
+                  { label: "Within Band", value: `${(features.withinTolerance * 100).toFixed(0)}%` },
+                  { label: "Path Covered", value: `${(features.coverage * 100).toFixed(0)}%` },
+                ].map((stat) => (
+                  <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+                    <p className="text-xs text-gray-500">{stat.label}</p>
+                    <p className="text-sm font-semibold">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from "react";
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { DEFAULT_TREMOR_OPTIONS, TremorFeatures } from "@/services/ml/tremorAnalysis";
+
+interface TremorResultsPanelProps {
+  features: TremorFeatures[];
+}
+
+const chartConfig = {
+  rest: {
+    label: "Rest",
+    color: "#0284c7", // parkinsons-600
+  },
+  postural: {
+    label: "Arm outstretched",
+    color: "#f59e0b",
+  },
+} satisfies ChartConfig;
+
+const CONDITION_LABELS = { rest: "Rest", postural: "Outstretched" };
+
+export const TremorResultsPanel: React.FC<TremorResultsPanelProps> = ({ features }) => {
+  // Both recordings share the same frequency grid, so they merge by bin
+  const data = (features[0]?.spectrum ?? []).map((point, k) => {
+    const row: Record<string, number> = { frequency: Number(point.frequency.toFixed(2)) };
+    features.forEach((feature) => {
+      row[feature.condition] = feature.spectrum[k]?.acceleration ?? 0;
+    });
+    return row;
+  });
+  const [pdLow, pdHigh] = DEFAULT_TREMOR_OPTIONS.pdBand;
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Tremor Spectrum</h3>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="frequency" type="number" tickLine={false} axisLine={false} domain={[0, "dataMax"]} unit=" Hz" />
+          <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => value.toExponential(0)} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ReferenceArea x1={pdLow} x2={pdHigh} fill="#0284c7" fillOpacity={0.08} />
+          {features.map((feature) => (
+            <Line
+              key={feature.condition}
+              dataKey={feature.condition}
+              type="monotone"
+              stroke={`var(--color-${feature.condition})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      <p className="text-xs text-gray-500">
+        Power of the hand's acceleration at each frequency. The shaded band ({pdLow}-{pdHigh} Hz) is where Parkinsonian rest
+        tremor usually appears; a steady hand shows no clear peak.
+      </p>
+      {features.map((feature) => {
+        const stats = [
+          { label: "Frequency", value: `${feature.dominantFrequency.toFixed(1)} Hz` },
+          { label: "Amplitude", value: `${feature.amplitude.toFixed(3)} m/s²` },
+          { label: "Displacement", value: `~${feature.displacement.toFixed(1)} mm` },
+          { label: "In 4-6 Hz", value: `${(feature.pdBandRatio * 100).toFixed(0)}%` },
+          ...(feature.hasGyroscope
+            ? [{ label: "Rotation", value: `${feature.rotationAmplitude.toFixed(1)} °/s at ${feature.rotationFrequency.toFixed(1)} Hz` }]
+            : []),
+          { label: "Sampling", value: `${feature.sampleRate.toFixed(0)} Hz, ${feature.duration.toFixed(0)} s` },
+        ];
+        return (
+          <div key={feature.condition} className="space-y-2">
+            <p className="text-sm font-medium">{CONDITION_LABELS[feature.condition]}</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {stats.map((stat) => (
+                <div key={stat.label} className="text-center p-2 bg-gray-50 rounded-md">
+                  <p className="text-xs text-gray-500">{stat.label}</p>
+                  <p className="text-sm font-semibold">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
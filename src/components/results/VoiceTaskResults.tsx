@@ -0,0 +1,42 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import { AssessmentData } from "@/types/assessment";
+import { VoiceTaskId } from "@/services/ml/speechTasks";
+
+interface VoiceTaskResultsProps {
+  tasks: NonNullable<AssessmentData["voice"]>["tasks"];
+}
+
+const TASK_TITLES: Record<VoiceTaskId, string> = {
+  vowel: "Sustained Vowel",
+  ddk: "Pa-Ta-Ka (DDK)",
+  passage: "Reading Passage",
+};
+
+export const VoiceTaskResults: React.FC<VoiceTaskResultsProps> = ({ tasks }) => {
+  const entries = (Object.keys(TASK_TITLES) as VoiceTaskId[]).filter((id) => tasks?.[id]?.result);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="border rounded-md p-4 space-y-4">
+      <h3 className="font-medium">Task Breakdown</h3>
+      {entries.map((id) => {
+        const task = tasks?.[id];
+        if (!task?.result) return null;
+        return (
+          <div key={id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{TASK_TITLES[id]}</p>
+              <p className="text-sm text-gray-600 capitalize">
+                {task.result.status} · {task.result.score}/100
+              </p>
+            </div>
+            <Progress value={task.result.score} className="h-2" />
+            {task.audioData && <audio controls src={task.audioData} className="w-full h-8" />}
+            {task.result.details && <p className="text-xs text-gray-500">{task.result.details}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,8 +1,49 @@
 
-import React, { createContext, useContext, useState, useEffect } from "react";
-import { AssessmentData } from "@/types/assessment";
-import { initializeModels, getAssessmentData, clearAssessmentData } from "@/services/ml";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
+import { AssessmentData, PatientProfile } from "@/types/assessment";
+import {
+  initializeModels,
+  getAssessmentData,
+  clearAssessmentData,
+  setActivePatient,
+  loadAssessmentData,
+  reanalyzeAssessment,
+} from "@/services/ml";
 import { toast } from "@/hooks/use-toast";
+import { createId } from "@/services/history/database";
+import { saveSession } from "@/services/history/sessionStore";
+import { demographicsOf, listPatients, savePatient } from "@/services/history/patientStore";
+import { MODALITIES, Modality } from "@/services/history/trends";
+import { createSessionArchive, SessionArchive } from "@/services/history/sessionArchive";
+
+interface CurrentSession {
+  id: string;
+  startedAt: number;
+  savedSignature: string; // Results as last saved, so unchanged refreshes aren't rewritten
+}
+
+const newSession = (): CurrentSession => ({ id: createId(), startedAt: Date.now(), savedSignature: "" });
+
+// Save the session to history whenever a test result is added or redone
+const persistSession = (session: CurrentSession, data: AssessmentData) => {
+  const signature = JSON.stringify(MODALITIES.map((entry) => entry.result(data) ?? null));
+  if (!data.overall || signature === session.savedSignature) return;
+
+  session.savedSignature = signature;
+  saveSession({
+    id: session.id,
+    patientId: data.patient?.id,
+    startedAt: session.startedAt,
+    updatedAt: Date.now(),
+    data,
+  }).catch((error) => {
+    console.error("Failed to save assessment session:", error);
+    session.savedSignature = "";
+  });
+};
+
+// Survives a reload so the tablet stays on the same patient
+const ACTIVE_PATIENT_KEY = "parkinson-insight.activePatient";
 
 interface AssessmentContextType {
   assessmentData: AssessmentData;
@@ -14,6 +55,12 @@ interface AssessmentContextType {
   toggleEnhancedAnalysis: () => void;
   modelLoadProgress: number;
   refreshResults: () => void;
+  patients: PatientProfile[];
+  activePatient: PatientProfile | null;
+  selectPatient: (id: string | null) => void;
+  savePatientProfile: (patient: PatientProfile) => Promise<void>;
+  exportSession: () => Promise<SessionArchive>;
+  importSession: (archive: SessionArchive, reanalyze: boolean) => Promise<Modality[]>;
 }
 
 const AssessmentContext = createContext<AssessmentContextType>({
@@ -26,6 +73,14 @@ const AssessmentContext = createContext<AssessmentContextType>({
   toggleEnhancedAnalysis: () => {},
   modelLoadProgress: 0,
   refreshResults: () => {},
+  patients: [],
+  activePatient: null,
+  selectPatient: () => {},
+  savePatientProfile: async () => {},
+  exportSession: async () => {
+    throw new Error("No assessment in progress.");
+  },
+  importSession: async () => [],
 });
 
 export const useAssessment = () => useContext(AssessmentContext);
@@ -37,6 +92,22 @@ export const AssessmentProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const [isMobileDevice, setIsMobileDevice] = useState(false);
   const [enhancedAnalysis, setEnhancedAnalysis] = useState(true);
   const [modelLoadProgress, setModelLoadProgress] = useState(0);
+  const sessionRef = useRef<CurrentSession>(newSession());
+  const [patients, setPatients] = useState<PatientProfile[]>([]);
+  const [activePatientId, setActivePatientId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PATIENT_KEY));
+  const activePatient = patients.find((patient) => patient.id === activePatientId && !patient.archived) ?? null;
+
+  // Load the saved patient profiles
+  useEffect(() => {
+    listPatients()
+      .then(setPatients)
+      .catch((error) => console.error("Failed to load patient profiles:", error));
+  }, []);
+
+  // Keep the analyzers' demographics in step with the selected patient
+  useEffect(() => {
+    setActivePatient(activePatient ? { id: activePatient.id, ...demographicsOf(activePatient) } : undefined);
+  }, [activePatient]);
 
   // Check if running on a mobile device
   useEffect(() => {
@@ -100,6 +171,7 @@ export const AssessmentProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     const data = getAssessmentData();
     console.log("Refreshing assessment data:", data);
     setAssessmentData(data);
+    persistSession(sessionRef.current, data);
   };
 
   // Update assessment data whenever it changes
@@ -125,12 +197,58 @@ export const AssessmentProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const resetAssessment = () => {
     clearAssessmentData();
     setAssessmentData({});
+    // The finished session stays in history; later results start a new one
+    sessionRef.current = newSession();
     toast({
       title: "Assessment Reset",
       description: "All assessment data has been cleared.",
     });
   };
 
+  // Switching patient starts a fresh session; results so far are already saved
+  const selectPatient = (id: string | null) => {
+    if (id === activePatientId) return;
+    if (id) {
+      localStorage.setItem(ACTIVE_PATIENT_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PATIENT_KEY);
+    }
+    setActivePatientId(id);
+    clearAssessmentData();
+    setAssessmentData({});
+    sessionRef.current = newSession();
+  };
+
+  // Create or update a profile; archiving the selected patient deselects them
+  const savePatientProfile = async (patient: PatientProfile) => {
+    await savePatient(patient);
+    setPatients((current) =>
+      [...current.filter((entry) => entry.id !== patient.id), patient].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    if (patient.archived && patient.id === activePatientId) {
+      selectPatient(null);
+    }
+  };
+
+  const exportSession = () => createSessionArchive(assessmentData, sessionRef.current);
+
+  // Show an archived session as the current results and save it to the
+  // selected patient's history. It keeps its session id, so importing the
+  // same archive twice updates one history entry. Returns the tests that
+  // kept their archived results instead of being re-analyzed.
+  const importSession = async (archive: SessionArchive, reanalyze: boolean) => {
+    clearAssessmentData();
+    let kept: Modality[] = [];
+    if (reanalyze) {
+      kept = await reanalyzeAssessment(archive.data);
+    } else {
+      loadAssessmentData(archive.data);
+    }
+    sessionRef.current = { id: archive.session.id, startedAt: archive.session.startedAt, savedSignature: "" };
+    refreshResults();
+    return kept;
+  };
+
   return (
     <AssessmentContext.Provider
       value={{
@@ -143,6 +261,12 @@ export const AssessmentProvider: React.FC<{ children: React.ReactNode }> = ({ ch
         toggleEnhancedAnalysis,
         modelLoadProgress,
         refreshResults,
+        patients,
+        activePatient,
+        selectPatient,
+        savePatientProfile,
+        exportSession,
+        importSession,
       }}
     >
       {children}
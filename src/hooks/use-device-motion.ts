@@ -0,0 +1,102 @@
+import * as React from "react";
+import { MotionSample } from "@/types/assessment";
+
+// Accelerometer and gyroscope capture through DeviceMotion events for the
+// tremor test. Samples have t in ms from the first event of the recording.
+
+// iOS Safari only delivers motion events after this prompt, which has to be
+// opened from a tap
+interface DeviceMotionEventWithPermission {
+  requestPermission?: () => Promise<"granted" | "denied">;
+}
+
+export function isDeviceMotionSupported(): boolean {
+  return typeof window !== "undefined" && "DeviceMotionEvent" in window;
+}
+
+function toSample(event: DeviceMotionEvent, t: number, withGravity: boolean): MotionSample | null {
+  const acceleration = withGravity ? event.accelerationIncludingGravity : event.acceleration;
+  if (acceleration?.x == null || acceleration.y == null || acceleration.z == null) return null;
+
+  const sample: MotionSample = { t, ax: acceleration.x, ay: acceleration.y, az: acceleration.z };
+  const rotation = event.rotationRate;
+  if (rotation?.alpha != null && rotation.beta != null && rotation.gamma != null) {
+    // alpha turns about the screen's z axis, beta about x and gamma about y
+    sample.gx = rotation.beta;
+    sample.gy = rotation.gamma;
+    sample.gz = rotation.alpha;
+  }
+  return sample;
+}
+
+export function useDeviceMotion() {
+  const [recording, setRecording] = React.useState(false);
+  const [elapsed, setElapsed] = React.useState(0); // Seconds
+  const stopRef = React.useRef<(() => void) | null>(null);
+
+  const cancel = React.useCallback(() => {
+    stopRef.current?.();
+  }, []);
+
+  // Stop listening if the component goes away mid-recording
+  React.useEffect(() => cancel, [cancel]);
+
+  // Resolves with the samples once `duration` seconds have been recorded,
+  // or null if cancelled
+  const record = async (duration: number): Promise<MotionSample[] | null> => {
+    if (!isDeviceMotionSupported()) {
+      throw new Error("This device has no motion sensors available to the browser. Upload a sensor CSV instead.");
+    }
+    const permission = (DeviceMotionEvent as unknown as DeviceMotionEventWithPermission).requestPermission;
+    if (permission && (await permission()) !== "granted") {
+      throw new Error("Motion sensor access was denied. Allow it in your browser settings to run the tremor test.");
+    }
+
+    return new Promise((resolve, reject) => {
+      const samples: MotionSample[] = [];
+      let startTime: number | null = null;
+      let withGravity: boolean | null = null;
+
+      const onMotion = (event: DeviceMotionEvent) => {
+        // Some devices only report acceleration with gravity; stick with
+        // whichever the first event has so the recording is consistent
+        if (withGravity === null) {
+          const acceleration = event.acceleration;
+          withGravity = acceleration?.x == null;
+        }
+        if (startTime === null) startTime = event.timeStamp;
+        const sample = toSample(event, event.timeStamp - startTime, withGravity);
+        if (sample) samples.push(sample);
+      };
+
+      const finish = (result: MotionSample[] | null, error?: Error) => {
+        window.removeEventListener("devicemotion", onMotion);
+        clearInterval(ticker);
+        clearTimeout(done);
+        clearTimeout(check);
+        stopRef.current = null;
+        setRecording(false);
+        setElapsed(0);
+        if (error) reject(error);
+        else resolve(result);
+      };
+
+      window.addEventListener("devicemotion", onMotion);
+      setRecording(true);
+      setElapsed(0);
+
+      const begin = Date.now();
+      const ticker = setInterval(() => setElapsed((Date.now() - begin) / 1000), 250);
+      const done = setTimeout(() => finish(samples), duration * 1000);
+      // Desktop browsers expose the event but never fire it
+      const check = setTimeout(() => {
+        if (samples.length === 0) {
+          finish(null, new Error("No motion data was received from this device. Upload a sensor CSV instead."));
+        }
+      }, 1500);
+      stopRef.current = () => finish(null);
+    });
+  };
+
+  return { recording, elapsed, record, cancel };
+}
@@ -0,0 +1,138 @@
+import * as React from "react";
+import { PenSample } from "@/types/assessment";
+
+// Pen, touch and mouse capture for the drawing tests. Samples are kept in the
+// canvas' logical units with t in ms from the first sample of the drawing,
+// one array per pen-down, with undo/redo over whole strokes.
+
+interface PenStrokeOptions {
+  width: number; // Logical units
+  height: number;
+  scale: number; // Backing-store pixels per logical unit
+  color: string;
+  lineWidth: number;
+}
+
+export function drawStroke(context: CanvasRenderingContext2D, stroke: PenSample[]) {
+  if (stroke.length === 0) return;
+  context.beginPath();
+  context.moveTo(stroke[0].x, stroke[0].y);
+  if (stroke.length === 1) {
+    // A tap still leaves a dot
+    context.lineTo(stroke[0].x + 0.1, stroke[0].y);
+  }
+  for (let i = 1; i < stroke.length; i++) {
+    context.lineTo(stroke[i].x, stroke[i].y);
+  }
+  context.stroke();
+}
+
+export function prepareContext(canvas: HTMLCanvasElement, scale: number): CanvasRenderingContext2D | null {
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  context.setTransform(scale, 0, 0, scale, 0, 0);
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  return context;
+}
+
+export function usePenStrokes({ width, height, scale, color, lineWidth }: PenStrokeOptions) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const activeStrokeRef = React.useRef<PenSample[] | null>(null);
+  const startTimeRef = React.useRef<number | null>(null);
+  const pointerTypeRef = React.useRef("mouse");
+  const [strokes, setStrokes] = React.useState<PenSample[][]>([]);
+  const [redoStack, setRedoStack] = React.useState<PenSample[][]>([]);
+
+  // Repaint whenever the committed strokes change
+  React.useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas && prepareContext(canvas, scale);
+    if (!context) return;
+
+    context.clearRect(0, 0, width, height);
+    context.strokeStyle = color;
+    context.lineWidth = lineWidth;
+    strokes.forEach((stroke) => drawStroke(context, stroke));
+  }, [strokes, width, height, scale, color, lineWidth]);
+
+  const toSample = (event: PointerEvent): PenSample => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    if (startTimeRef.current === null) startTimeRef.current = event.timeStamp;
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+      t: event.timeStamp - startTimeRef.current,
+      pressure: event.pressure,
+      tiltX: event.tiltX,
+      tiltY: event.tiltY,
+    };
+  };
+
+  const onPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointerTypeRef.current = event.pointerType;
+    activeStrokeRef.current = [toSample(event.nativeEvent)];
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    const context = canvasRef.current?.getContext("2d");
+    if (!stroke || !context) return;
+    event.preventDefault();
+
+    // Coalesced events keep the full sensor rate rather than one per frame
+    const native = event.nativeEvent;
+    const events = native.getCoalescedEvents?.() ?? [];
+    const samples = (events.length > 0 ? events : [native]).map(toSample);
+
+    context.beginPath();
+    context.moveTo(stroke[stroke.length - 1].x, stroke[stroke.length - 1].y);
+    samples.forEach((sample) => context.lineTo(sample.x, sample.y));
+    context.stroke();
+    stroke.push(...samples);
+  };
+
+  const onPointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    activeStrokeRef.current = null;
+    setStrokes((previous) => [...previous, stroke]);
+    setRedoStack([]);
+  };
+
+  const undo = () => {
+    if (strokes.length === 0) return;
+    setRedoStack((previous) => [...previous, strokes[strokes.length - 1]]);
+    setStrokes(strokes.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (redoStack.length === 0) return;
+    setStrokes((previous) => [...previous, redoStack[redoStack.length - 1]]);
+    setRedoStack(redoStack.slice(0, -1));
+  };
+
+  const clear = () => {
+    setStrokes([]);
+    setRedoStack([]);
+    startTimeRef.current = null;
+  };
+
+  return {
+    canvasRef,
+    strokes,
+    canUndo: strokes.length > 0,
+    canRedo: redoStack.length > 0,
+    pointerType: () => pointerTypeRef.current,
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+    undo,
+    redo,
+    clear,
+  };
+}
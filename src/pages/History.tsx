@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowDownRight, ArrowUpRight, History as HistoryIcon, Loader2, Upload } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useAssessment } from "@/context/AssessmentContext";
+import { ModalityTrendCard } from "@/components/history/ModalityTrendCard";
+import { SessionList } from "@/components/history/SessionList";
+import { ImportSessionDialog } from "@/components/history/ImportSessionDialog";
+import { clearSessions, deleteSession, listSessions, StoredSession } from "@/services/history/sessionStore";
+import { detectChanges, MODALITIES, modalitySeries, SIGNIFICANT_SCORE_CHANGE } from "@/services/history/trends";
+
+const History = () => {
+  const { toast } = useToast();
+  const { activePatient } = useAssessment();
+  const patientId = activePatient?.id;
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    listSessions(patientId)
+      .then(setSessions)
+      .catch((error) => setError(error instanceof Error ? error.message : "Could not load the assessment history."))
+      .finally(() => setLoading(false));
+  }, [patientId]);
+
+  const trends = MODALITIES.map((entry) => {
+    const series = modalitySeries(sessions, entry.modality);
+    return { ...entry, series, changes: detectChanges(series, entry.modality) };
+  }).filter((trend) => trend.series.length > 0);
+
+  const changes = trends
+    .flatMap((trend) => trend.changes.map((change) => ({ ...change, label: trend.label })))
+    .sort((a, b) => b.time - a.time);
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions((current) => current.filter((session) => session.id !== id));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "The session could not be deleted.",
+      });
+    }
+  };
+
+  const removeAll = async () => {
+    try {
+      await clearSessions(patientId);
+      setSessions([]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "The history could not be cleared.",
+      });
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="container py-10">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">
+                Assessment History{activePatient && `: ${activePatient.name}`}
+              </h1>
+              <p className="text-gray-600">
+                Track how {activePatient ? "their" : "your"} results change over time. Each completed assessment is
+                saved on this device only.
+              </p>
+            </div>
+            <Button variant="outline" className="flex-shrink-0" onClick={() => setImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import Session
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-20">
+              <Loader2 className="h-12 w-12 animate-spin text-parkinsons-600 mb-4" />
+              <p className="text-lg">Loading your history...</p>
+            </div>
+          ) : error ? (
+            <Card>
+              <CardContent className="flex items-start gap-2 pt-6">
+                <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-gray-700">{error}</p>
+              </CardContent>
+            </Card>
+          ) : sessions.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center text-center py-12 gap-4">
+                <HistoryIcon className="h-12 w-12 text-gray-300" />
+                <p className="text-gray-600">No saved assessments yet. Results are saved here once you complete a test.</p>
+                <Button className="bg-parkinsons-600 hover:bg-parkinsons-700" asChild>
+                  <Link to="/assessment">Start Assessment</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {changes.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Notable Changes</CardTitle>
+                    <CardDescription>
+                      Score changes of {SIGNIFICANT_SCORE_CHANGE} points or more, or a change in status, since the
+                      previous session with the same test.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {changes.map((change) => (
+                      <div
+                        key={`${change.modality}-${change.toSession}`}
+                        className={`flex items-center gap-3 p-3 rounded-md ${change.delta < 0 ? "bg-red-50" : "bg-green-50"}`}
+                      >
+                        {change.delta < 0 ? (
+                          <ArrowDownRight className="h-5 w-5 text-red-600 flex-shrink-0" />
+                        ) : (
+                          <ArrowUpRight className="h-5 w-5 text-green-600 flex-shrink-0" />
+                        )}
+                        <div className="text-sm">
+                          <span className="font-medium">{change.label}</span> score{" "}
+                          {change.delta < 0 ? "fell" : "rose"} by {Math.abs(change.delta)} points
+                          {change.statusChanged && " and its status changed"} on {format(change.time, "d MMM yyyy")}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {trends.map((trend) => (
+                <ModalityTrendCard
+                  key={trend.modality}
+                  modality={trend.modality}
+                  series={trend.series}
+                  changes={trend.changes}
+                />
+              ))}
+
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Sessions</CardTitle>
+                    <CardDescription>
+                      {sessions.length} saved session{sessions.length === 1 ? "" : "s"}
+                    </CardDescription>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        Clear History
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Clear all saved sessions?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This permanently removes every saved assessment
+                          {activePatient ? ` for ${activePatient.name}` : " made without a patient selected"} from
+                          this device.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={removeAll}>Clear History</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </CardHeader>
+                <CardContent>
+                  <SessionList sessions={sessions} onDelete={removeSession} />
+                </CardContent>
+              </Card>
+
+              <div className="bg-amber-50 p-4 rounded-lg">
+                <div className="flex items-start">
+                  <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5 mr-2" />
+                  <p className="text-sm text-amber-800">
+                    Scores vary from day to day with medication timing, sleep and recording conditions. Discuss lasting
+                    changes with your healthcare professional rather than acting on a single session.
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <ImportSessionDialog open={importOpen} onOpenChange={setImportOpen} />
+    </MainLayout>
+  );
+};
+
+export default History;
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Pencil, UserPlus } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { PatientFormDialog } from "@/components/patients/PatientFormDialog";
+import { useAssessment } from "@/context/AssessmentContext";
+import { PatientProfile } from "@/types/assessment";
+
+const DIAGNOSIS_LABELS: Record<PatientProfile["diagnosis"], string> = {
+  none: "No diagnosis",
+  suspected: "Suspected PD",
+  diagnosed: "Diagnosed PD",
+};
+
+const summarize = (patient: PatientProfile) => {
+  const thisYear = new Date().getFullYear();
+  return [
+    patient.birthYear !== undefined && `${thisYear - patient.birthYear} years`,
+    patient.sex && patient.sex.charAt(0).toUpperCase() + patient.sex.slice(1),
+    patient.handedness && (patient.handedness === "ambidextrous" ? "ambidextrous" : `${patient.handedness}-handed`),
+    patient.diagnosis === "diagnosed" && patient.diagnosisYear
+      ? `Diagnosed ${patient.diagnosisYear}`
+      : DIAGNOSIS_LABELS[patient.diagnosis],
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+const Patients = () => {
+  const { toast } = useToast();
+  const { patients, activePatient, selectPatient, savePatientProfile } = useAssessment();
+  const [editing, setEditing] = useState<PatientProfile | undefined>();
+  const [formOpen, setFormOpen] = useState(false);
+
+  const current = patients.filter((patient) => !patient.archived);
+  const archived = patients.filter((patient) => patient.archived);
+
+  const openForm = (patient?: PatientProfile) => {
+    setEditing(patient);
+    setFormOpen(true);
+  };
+
+  const setArchived = async (patient: PatientProfile, value: boolean) => {
+    try {
+      await savePatientProfile({ ...patient, archived: value });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "The patient profile could not be updated.",
+      });
+    }
+  };
+
+  const renderRow = (patient: PatientProfile) => (
+    <div key={patient.id} className="flex items-center justify-between gap-4 py-3">
+      <div className="space-y-1 min-w-0">
+        <div className="font-medium flex items-center gap-2">
+          <span className="truncate">{patient.name}</span>
+          {activePatient?.id === patient.id && <Badge className="bg-parkinsons-600">Selected</Badge>}
+        </div>
+        <div className="text-sm text-gray-500">{summarize(patient)}</div>
+        {patient.medication && <div className="text-xs text-gray-500 truncate">Medication: {patient.medication}</div>}
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {!patient.archived && activePatient?.id !== patient.id && (
+          <Button variant="outline" size="sm" onClick={() => selectPatient(patient.id)}>
+            Select
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={() => openForm(patient)}>
+          <Pencil className="h-4 w-4" />
+          <span className="sr-only">Edit patient</span>
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => setArchived(patient, !patient.archived)}>
+          {patient.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+          <span className="sr-only">{patient.archived ? "Restore patient" : "Archive patient"}</span>
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <MainLayout>
+      <div className="container py-10">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Patients</h1>
+              <p className="text-gray-600">
+                Select a patient before running assessments so their results and history stay separate.
+              </p>
+            </div>
+            <Button className="bg-parkinsons-600 hover:bg-parkinsons-700" onClick={() => openForm()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              New Patient
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Current Patients</CardTitle>
+              <CardDescription>
+                {current.length} patient{current.length === 1 ? "" : "s"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {current.length > 0 ? (
+                <div className="divide-y">{current.map(renderRow)}</div>
+              ) : (
+                <p className="text-center text-gray-600 py-4">No patients yet. Add one to start tracking their assessments.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {archived.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Archived</CardTitle>
+                <CardDescription>Archived patients keep their saved history and can be restored.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">{archived.map(renderRow)}</div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <PatientFormDialog open={formOpen} onOpenChange={setFormOpen} patient={editing} onSave={savePatientProfile} />
+    </MainLayout>
+  );
+};
+
+export default Patients;
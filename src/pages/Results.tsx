@@ -2,17 +2,45 @@ import { MainLayout } from "@/components/layout/MainLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { PencilRuler, ActivitySquare, Brain, Mic, FileBarChart, Loader2, AlertTriangle } from "lucide-react";
+import { PencilRuler, ActivitySquare, Brain, Mic, FileBarChart, Loader2, AlertTriangle, Hand, Spline, Footprints, Vibrate, FileDown, FileJson, FileArchive } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link, Navigate } from "react-router-dom";
 import { CustomButton } from "@/components/ui/custom-button";
 import { useAssessment } from "@/context/AssessmentContext";
 import { useEffect, useState } from "react";
 import { AssessmentResult } from "@/types/assessment";
+import { PitchContourChart } from "@/components/results/PitchContourChart";
+import { VoiceTaskResults } from "@/components/results/VoiceTaskResults";
+import { SpiralKinematicsPanel } from "@/components/results/SpiralKinematicsPanel";
+import { TappingResultsPanel } from "@/components/results/TappingResultsPanel";
+import { TracingTaskResults } from "@/components/results/TracingTaskResults";
+import { PoseOverlay } from "@/components/results/PoseOverlay";
+import { GaitResultsPanel } from "@/components/results/GaitResultsPanel";
+import { PostureAnglesPanel } from "@/components/results/PostureAnglesPanel";
+import { TremorResultsPanel } from "@/components/results/TremorResultsPanel";
+import { useToast } from "@/components/ui/use-toast";
+import { format } from "date-fns";
+import { generateClinicalReport } from "@/services/report/clinicalReport";
+import { listSessions } from "@/services/history/sessionStore";
+import { buildFhirBundle } from "@/services/report/fhirExport";
+import { validateBundle } from "@/services/report/fhirResources";
+import { sessionArchiveBlob } from "@/services/history/sessionArchive";
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
 const Results = () => {
-  const { assessmentData, loadingModels, resetAssessment, refreshResults } = useAssessment();
+  const { assessmentData, loadingModels, resetAssessment, refreshResults, activePatient, exportSession } = useAssessment();
+  const { toast } = useToast();
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [archiving, setArchiving] = useState(false);
   
   useEffect(() => {
     // Refresh results when the component mounts
@@ -37,6 +65,61 @@ const Results = () => {
     }
   };
   
+  // Build the PDF report on the device and download it
+  const exportPdf = async () => {
+    try {
+      setExporting(true);
+      // Trends are optional; the report still works when history is unavailable
+      const history = await listSessions(activePatient?.id).catch(() => []);
+      const report = await generateClinicalReport(assessmentData, { patient: activePatient, history });
+      downloadBlob(report, `parkinson-report-${format(new Date(), "yyyy-MM-dd")}.pdf`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The PDF report could not be created.",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Serialize the results as a FHIR R4 Bundle, refusing to download one that fails validation
+  const exportFhir = () => {
+    try {
+      const bundle = buildFhirBundle(assessmentData, { patient: activePatient });
+      const issues = validateBundle(bundle);
+      if (issues.length > 0) {
+        throw new Error(`The FHIR bundle is invalid at ${issues[0].path}: ${issues[0].message}`);
+      }
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" });
+      downloadBlob(blob, `parkinson-fhir-${format(new Date(), "yyyy-MM-dd")}.json`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The FHIR bundle could not be created.",
+      });
+    }
+  };
+
+  // Save the whole session, raw recordings included, as a file that can be imported elsewhere
+  const exportArchive = async () => {
+    try {
+      setArchiving(true);
+      const archive = await exportSession();
+      downloadBlob(sessionArchiveBlob(archive), `parkinson-session-${format(archive.session.startedAt, "yyyy-MM-dd")}.json`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The session could not be exported.",
+      });
+    } finally {
+      setArchiving(false);
+    }
+  };
+
   // Check if we have any assessment data
   const hasAnyData = Object.keys(assessmentData).length > 0;
   
@@ -135,10 +218,30 @@ const Results = () => {
                     <p className="text-center py-4">Complete at least one assessment to see overall results.</p>
                   )}
 
-                  <div className="flex flex-col sm:flex-row justify-center gap-3">
+                  <div className="flex flex-col sm:flex-row sm:flex-wrap justify-center gap-3">
                     <Button variant="outline" asChild>
                       <Link to="/resources">View Resources</Link>
                     </Button>
+                    <Button variant="outline" onClick={exportPdf} disabled={exporting || !assessmentData.overall}>
+                      {exporting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileDown className="mr-2 h-4 w-4" />
+                      )}
+                      Export PDF
+                    </Button>
+                    <Button variant="outline" onClick={exportFhir} disabled={!assessmentData.overall}>
+                      <FileJson className="mr-2 h-4 w-4" />
+                      Export FHIR
+                    </Button>
+                    <Button variant="outline" onClick={exportArchive} disabled={archiving || !assessmentData.overall}>
+                      {archiving ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileArchive className="mr-2 h-4 w-4" />
+                      )}
+                      Export Session
+                    </Button>
                     <Button className="bg-parkinsons-600 hover:bg-parkinsons-700" asChild>
                       <Link to="/assessment">Take Another Assessment</Link>
                     </Button>
@@ -152,11 +255,19 @@ const Results = () => {
               {/* Detailed Results */}
               <h2 className="text-xl font-semibold mb-4">Detailed Assessment Results</h2>
               <Tabs defaultValue="spiral" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
+                <TabsList className="grid w-full grid-cols-7">
                   <TabsTrigger value="spiral" className="flex items-center gap-2">
                     <PencilRuler className="h-4 w-4" />
                     <span className="hidden sm:inline">Spiral Drawing</span>
                   </TabsTrigger>
+                  <TabsTrigger value="tracing" className="flex items-center gap-2">
+                    <Spline className="h-4 w-4" />
+                    <span className="hidden sm:inline">Tracing</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="tapping" className="flex items-center gap-2">
+                    <Hand className="h-4 w-4" />
+                    <span className="hidden sm:inline">Finger Tapping</span>
+                  </TabsTrigger>
                   <TabsTrigger value="voice" className="flex items-center gap-2">
                     <Mic className="h-4 w-4" />
                     <span className="hidden sm:inline">Voice Analysis</span>
@@ -165,6 +276,14 @@ const Results = () => {
                     <ActivitySquare className="h-4 w-4" />
                     <span className="hidden sm:inline">Posture Analysis</span>
                   </TabsTrigger>
+                  <TabsTrigger value="gait" className="flex items-center gap-2">
+                    <Footprints className="h-4 w-4" />
+                    <span className="hidden sm:inline">Gait</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="tremor" className="flex items-center gap-2">
+                    <Vibrate className="h-4 w-4" />
+                    <span className="hidden sm:inline">Tremor</span>
+                  </TabsTrigger>
                 </TabsList>
 
                 {/* Spiral Results Tab */}
@@ -178,7 +297,12 @@ const Results = () => {
                     </CardHeader>
                     <CardContent>
                       {assessmentData.spiral?.result ? (
-                        <ResultContent result={assessmentData.spiral.result} type="spiral" imageData={assessmentData.spiral.imageData} />
+                        <div className="space-y-6">
+                          <ResultContent result={assessmentData.spiral.result} type="spiral" imageData={assessmentData.spiral.imageData} />
+                          {assessmentData.spiral.kinematics && (
+                            <SpiralKinematicsPanel kinematics={assessmentData.spiral.kinematics} />
+                          )}
+                        </div>
                       ) : (
                         <p className="text-center py-4">No spiral analysis data available.</p>
                       )}
@@ -186,6 +310,55 @@ const Results = () => {
                   </Card>
                 </TabsContent>
 
+                {/* Tracing Results Tab */}
+                <TabsContent value="tracing">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Line and Meander Tracing</CardTitle>
+                      <CardDescription>
+                        Assessment of movement precision from how closely the pen follows a path
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {assessmentData.tracing?.result ? (
+                        <div className="space-y-6">
+                          <ResultContent result={assessmentData.tracing.result} type="tracing" />
+                          <TracingTaskResults tasks={assessmentData.tracing.tasks} />
+                        </div>
+                      ) : (
+                        <p className="text-center py-4">No tracing analysis data available.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                {/* Finger Tapping Results Tab */}
+                <TabsContent value="tapping">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Finger Tapping Analysis</CardTitle>
+                      <CardDescription>
+                        Assessment of movement speed and rhythm through alternating taps
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {assessmentData.tapping?.result ? (
+                        <div className="space-y-6">
+                          <ResultContent result={assessmentData.tapping.result} type="tapping" />
+                          {assessmentData.tapping.features && (
+                            <TappingResultsPanel
+                              features={assessmentData.tapping.features}
+                              session={assessmentData.tapping.session}
+                            />
+                          )}
+                        </div>
+                      ) : (
+                        <p className="text-center py-4">No finger tapping data available.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
                 {/* Voice Results Tab */}
                 <TabsContent value="voice">
                   <Card>
@@ -197,7 +370,16 @@ const Results = () => {
                     </CardHeader>
                     <CardContent>
                       {assessmentData.voice?.result ? (
-                        <ResultContent result={assessmentData.voice.result} type="voice" audioData={assessmentData.voice.audioData} />
+                        <div className="space-y-6">
+                          <ResultContent result={assessmentData.voice.result} type="voice" audioData={assessmentData.voice.audioData} />
+                          {assessmentData.voice.features?.f0Contour && (
+                            <PitchContourChart
+                              contour={assessmentData.voice.features.f0Contour}
+                              statistics={assessmentData.voice.features.pitchStatistics}
+                            />
+                          )}
+                          <VoiceTaskResults tasks={assessmentData.voice.tasks} />
+                        </div>
                       ) : (
                         <p className="text-center py-4">No voice analysis data available.</p>
                       )}
@@ -216,13 +398,84 @@ const Results = () => {
                     </CardHeader>
                     <CardContent>
                       {assessmentData.posture?.result ? (
-                        <ResultContent result={assessmentData.posture.result} type="posture" imageData={assessmentData.posture.imageData} />
+                        <div className="space-y-6">
+                          {assessmentData.posture.views && (
+                            <div className="grid md:grid-cols-2 gap-4">
+                              {(["side", "front"] as const).map((view) => {
+                                const captured = assessmentData.posture?.views?.[view];
+                                return captured && (
+                                  <PoseOverlay key={view} imageData={captured.imageData} pose={captured.pose} />
+                                );
+                              })}
+                            </div>
+                          )}
+                          {assessmentData.posture.angles && assessmentData.posture.findings && (
+                            <PostureAnglesPanel
+                              angles={assessmentData.posture.angles}
+                              findings={assessmentData.posture.findings}
+                            />
+                          )}
+                          <ResultContent
+                            result={assessmentData.posture.result}
+                            type="posture"
+                            imageData={assessmentData.posture.views ? undefined : assessmentData.posture.imageData}
+                          />
+                        </div>
                       ) : (
                         <p className="text-center py-4">No posture analysis data available.</p>
                       )}
                     </CardContent>
                   </Card>
                 </TabsContent>
+
+                {/* Gait Results Tab */}
+                <TabsContent value="gait">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Gait Analysis</CardTitle>
+                      <CardDescription>
+                        Assessment of walking rhythm, step length, arm swing and turning from video
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {assessmentData.gait?.result ? (
+                        <div className="space-y-6">
+                          {assessmentData.gait.videoUrl && (
+                            <div className="border rounded-md p-4">
+                              <video controls playsInline src={assessmentData.gait.videoUrl} className="max-h-64 mx-auto" />
+                            </div>
+                          )}
+                          <ResultContent result={assessmentData.gait.result} type="gait" />
+                          {assessmentData.gait.features && <GaitResultsPanel features={assessmentData.gait.features} />}
+                        </div>
+                      ) : (
+                        <p className="text-center py-4">No gait analysis data available.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                {/* Tremor Results Tab */}
+                <TabsContent value="tremor">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Tremor Measurement</CardTitle>
+                      <CardDescription>
+                        Frequency and amplitude of hand tremor at rest and with the arm outstretched
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {assessmentData.tremor?.result ? (
+                        <div className="space-y-6">
+                          <ResultContent result={assessmentData.tremor.result} type="tremor" />
+                          {assessmentData.tremor.features && <TremorResultsPanel features={assessmentData.tremor.features} />}
+                        </div>
+                      ) : (
+                        <p className="text-center py-4">No tremor measurement data available.</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
               </Tabs>
             </>
           )}
@@ -286,13 +539,49 @@ const ResultContent = ({
         "Rhythm and rate of speech can reveal neurological changes"
       ]
     },
+    tracing: {
+      title: "What This Means:",
+      description: "Tracing tests measure how accurately you can guide the pen along a set path.",
+      bullets: [
+        "Staying close to the line shows steady, well-controlled movement",
+        "Tremor makes the trace wobble across the path",
+        "Overshooting the meander's corners can reflect difficulty stopping and changing direction"
+      ]
+    },
+    tapping: {
+      title: "What This Means:",
+      description: "Finger tapping measures the speed and rhythm of repeated movements, a core feature of Parkinson's.",
+      bullets: [
+        "A slow tapping rate can indicate bradykinesia (slowness of movement)",
+        "Taps that get smaller or slower as the test goes on are typical of Parkinson's",
+        "Irregular rhythm and pauses suggest difficulty sustaining movement"
+      ]
+    },
+    gait: {
+      title: "What This Means:",
+      description: "Gait analysis measures how you walk and turn, which Parkinson's often changes early.",
+      bullets: [
+        "Short, shuffling steps and a reduced arm swing on one side are typical signs",
+        "Irregular stride timing suggests difficulty keeping an automatic rhythm",
+        "Slow turns and sudden stops (freezing of gait) are linked to higher fall risk"
+      ]
+    },
+    tremor: {
+      title: "What This Means:",
+      description: "Tremor measurement records how your hand shakes while holding the phone, at rest and when held out.",
+      bullets: [
+        "Parkinson's tremor is typically 4-6 Hz and strongest when the hand is resting",
+        "A faster tremor that appears mainly with the arm outstretched is more typical of essential tremor",
+        "Tremor amplitude varies with stress and fatigue, so repeat the test at different times of day"
+      ]
+    },
     posture: {
       title: "What This Means:",
       description: "Posture analysis examines body positioning and balance that may be affected by Parkinson's disease.",
       bullets: [
-        "Forward leaning posture is common in Parkinson's patients",
-        "Asymmetry in stance can indicate neurological imbalance",
-        "Reduced arm swing and stooped posture are early indicators"
+        "A stooped, forward-flexed trunk is common; 30° or more of flexion is called camptocormia",
+        "A dropped head (anterocollis) and sideways leaning trunk (Pisa syndrome) are other postural deformities",
+        "These often develop gradually, so repeating the photos over time shows whether posture is changing"
       ]
     }
   };
@@ -1,4 +1,7 @@
 import * as tf from '@tensorflow/tfjs';
+import { VOICE_FEATURE_LENGTH } from '../ml/dysphoniaFeatures';
+import { synthesizeSustainedVowel } from '../ml/voiceSynthesis';
+import { CANONICAL_SAMPLE_RATE, encodeWav } from '../ml/audioEncoding';
 
 export interface DatasetSample {
   id: string;
@@ -271,13 +274,11 @@ export class DatasetManager {
 
   private generateVoiceAudio(category: 'healthy' | 'mild' | 'moderate' | 'severe'): string {
     // Generate synthetic audio data representing different voice patterns
-    const sampleRate = 22050;
+    const sampleRate = CANONICAL_SAMPLE_RATE;
     const duration = 3; // 3 seconds
-    const samples = sampleRate * duration;
-    const audioData = new Float32Array(samples);
 
     // Base frequency for voice
-    let baseFreq = 150; // Hz
+    const baseFreq = 150; // Hz
     let jitter = 0;
     let shimmer = 0;
     let noiseLevel = 0;
@@ -305,27 +306,20 @@ export class DatasetManager {
         break;
     }
 
-    // Generate audio signal with disease characteristics
-    for (let i = 0; i < samples; i++) {
-      const time = i / sampleRate;
-      
-      // Add jitter (frequency variation)
-      const freq = baseFreq * (1 + (Math.random() - 0.5) * jitter);
-      
-      // Add shimmer (amplitude variation)
-      const amplitude = 0.5 * (1 + (Math.random() - 0.5) * shimmer);
-      
-      // Generate main signal
-      const signal = amplitude * Math.sin(2 * Math.PI * freq * time);
-      
-      // Add noise
-      const noise = (Math.random() - 0.5) * noiseLevel;
-      
-      audioData[i] = signal + noise;
-    }
+    // Generate audio signal with disease characteristics (cycle-to-cycle
+    // jitter and shimmer, plus additive noise)
+    const { signal: audioData } = synthesizeSustainedVowel({
+      sampleRate,
+      duration,
+      f0: baseFreq,
+      jitter,
+      shimmer,
+      noiseLevel: noiseLevel / 2
+    });
 
-    // Convert to base64 (simplified representation)
-    return `data:audio/wav;base64,${btoa(String.fromCharCode(...new Uint8Array(audioData.buffer)))}`;
+    // Store as a 16-bit PCM WAV file, the same format as live recordings
+    const wav = encodeWav(audioData, sampleRate);
+    return URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
   }
 
   private generatePostureImage(category: 'healthy' | 'mild' | 'moderate' | 'severe'): string {
@@ -467,7 +461,7 @@ export class DatasetManager {
           trainFeatures.push(tensor);
         } else {
           // Process audio data (simplified)
-          const features = new Array(128).fill(0).map(() => Math.random());
+          const features = new Array(VOICE_FEATURE_LENGTH).fill(0).map(() => Math.random());
           trainFeatures.push(tf.tensor1d(features));
         }
         
@@ -485,7 +479,7 @@ export class DatasetManager {
           const tensor = await this.imageToTensor(sample.data);
           testFeatures.push(tensor);
         } else {
-          const features = new Array(128).fill(0).map(() => Math.random());
+          const features = new Array(VOICE_FEATURE_LENGTH).fill(0).map(() => Math.random());
           testFeatures.push(tf.tensor1d(features));
         }
         
@@ -0,0 +1,58 @@
+// The app's IndexedDB database: saved assessment sessions and, since
+// version 2, patient profiles with sessions indexed by patient.
+
+export const SESSION_STORE = 'sessions';
+export const PATIENT_STORE = 'patients';
+
+const DB_NAME = 'parkinson-insight';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser does not support offline storage, so assessment history cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        sessions.createIndex('startedAt', 'startedAt');
+      }
+      if (event.oldVersion < 2) {
+        // Sessions saved before profiles existed have no patientId and stay unassigned
+        request.transaction!.objectStore(SESSION_STORE).createIndex('patientId', 'patientId');
+        db.createObjectStore(PATIENT_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open the assessment history database.'));
+  });
+  // Let a later call retry after a failure, e.g. once private browsing ends
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+export function createId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function completed<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function objectStore(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(name, mode).objectStore(name);
+}
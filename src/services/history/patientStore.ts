@@ -0,0 +1,29 @@
+import { PatientDemographics, PatientProfile } from '@/types/assessment';
+import { completed, objectStore, PATIENT_STORE } from './database';
+
+// Patient profiles for a device shared between several people, e.g. a
+// clinic tablet. Profiles are archived rather than deleted so their saved
+// sessions keep an owner.
+
+export async function savePatient(patient: PatientProfile): Promise<void> {
+  const store = await objectStore(PATIENT_STORE, 'readwrite');
+  await completed(store.put(patient));
+}
+
+// By name, archived profiles included
+export async function listPatients(): Promise<PatientProfile[]> {
+  const store = await objectStore(PATIENT_STORE, 'readonly');
+  const patients = await completed(store.getAll() as IDBRequest<PatientProfile[]>);
+  return patients.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Only the whole birth year is known, so the age can be a year high
+export function demographicsOf(patient: PatientProfile, at = new Date()): PatientDemographics {
+  return {
+    age: patient.birthYear === undefined ? undefined : at.getFullYear() - patient.birthYear,
+    sex: patient.sex,
+    handedness: patient.handedness,
+    diagnosis: patient.diagnosis,
+    medication: patient.medication
+  };
+}
@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import { AssessmentData } from '@/types/assessment';
+import { KEYPOINT_NAMES } from '@/services/ml/poseDetection';
+import { RecordingQualityReport } from '@/services/ml/recordingQuality';
+import { DdkFeatures, PassageFeatures } from '@/services/ml/speechTasks';
+import { SpiralKinematics } from '@/services/ml/spiralKinematics';
+import { TappingFeatures } from '@/services/ml/fingerTapping';
+import { TracingFeatures } from '@/services/ml/pathTracing';
+import { GaitFeatures } from '@/services/ml/gaitAnalysis';
+import { PostureAngles, PostureFindings } from '@/services/ml/postureAngles';
+import { TremorFeatures } from '@/services/ml/tremorAnalysis';
+import { SymptomScores } from '@/services/ml/symptomsAnalysis';
+import { embedVoiceRecordings } from './sessionStore';
+
+// A single-file JSON copy of one assessment session, for moving it to
+// another device or handing it to a colleague. The raw inputs travel with
+// the results (drawings and photos as image data URLs, recordings as WAV,
+// pen, tap and motion samples as-is) so the importer can re-run the
+// analysis. The gait video is too large to embed and is left out.
+
+export const SESSION_ARCHIVE_FORMAT = 'parkinson-insight-session';
+// Bump when the shape of the archive or of AssessmentData changes
+export const SESSION_ARCHIVE_VERSION = 1;
+
+const finite = z.number().finite();
+const imageDataUrl = z.string().regex(/^data:image\/[\w.+-]+;base64,/, 'must be an image data URL');
+const audioDataUrl = z.string().regex(/^data:audio\/[\w.+-]+(;[\w.=-]+)*;base64,/, 'must be an audio data URL');
+// Analyzer outputs are recomputed on re-analysis, so only checked to be objects;
+// the archive version vouches for their fields
+const derived = <T>() => z.custom<T>(
+  value => typeof value === 'object' && value !== null && !Array.isArray(value),
+  'must be an object'
+);
+
+const resultSchema = z.object({
+  score: finite,
+  confidence: finite,
+  status: z.enum(['healthy', 'mild', 'moderate', 'severe']),
+  details: z.string().optional()
+});
+
+const penSample = z.object({ x: finite, y: finite, t: finite, pressure: finite, tiltX: finite, tiltY: finite });
+const strokes = z.array(z.array(penSample));
+
+const spiralTrajectory = z.object({
+  strokes,
+  width: finite,
+  height: finite,
+  template: z.object({ centerX: finite, centerY: finite, startRadius: finite, spacing: finite, turns: finite }),
+  pointerType: z.string()
+});
+
+const tracingTrajectory = z.object({
+  strokes,
+  width: finite,
+  height: finite,
+  path: z.array(z.object({ x: finite, y: finite })).min(2),
+  pointerType: z.string()
+});
+
+const tappingSession = z.object({
+  taps: z.array(z.object({ t: finite, x: finite, y: finite, target: z.number().int(), duration: finite })),
+  targets: z.array(z.object({ x: finite, y: finite, radius: finite })),
+  duration: finite,
+  width: finite,
+  height: finite
+});
+
+const tremorRecording = z.object({
+  condition: z.enum(['rest', 'postural']),
+  samples: z.array(z.object({
+    t: finite,
+    ax: finite,
+    ay: finite,
+    az: finite,
+    gx: finite.optional(),
+    gy: finite.optional(),
+    gz: finite.optional()
+  })).min(1),
+  source: z.enum(['device', 'csv'])
+});
+
+const pose = z.object({
+  keypoints: z.array(z.object({ name: z.enum(KEYPOINT_NAMES), x: finite, y: finite, score: finite })),
+  score: finite,
+  width: finite,
+  height: finite,
+  detector: z.string()
+});
+
+const voiceTask = z.object({
+  audioData: audioDataUrl.optional(),
+  result: resultSchema.optional(),
+  features: derived<DdkFeatures | PassageFeatures | Record<string, unknown>>().optional(),
+  quality: derived<RecordingQualityReport>().optional()
+});
+
+const tracingTask = z.object({
+  trajectory: tracingTrajectory.optional(),
+  result: resultSchema.optional(),
+  features: derived<TracingFeatures>().optional()
+});
+
+const postureView = z.object({ imageData: imageDataUrl, pose });
+
+// Mirrors AssessmentData; keys missing here are dropped on import
+const assessmentDataSchema = z.object({
+  patient: z.object({
+    id: z.string(),
+    age: finite.optional(),
+    sex: z.enum(['female', 'male', 'other']).optional(),
+    handedness: z.enum(['right', 'left', 'ambidextrous']).optional(),
+    diagnosis: z.enum(['none', 'suspected', 'diagnosed']),
+    medication: z.string().optional()
+  }).optional(),
+  spiral: z.object({
+    imageData: imageDataUrl,
+    result: resultSchema.optional(),
+    modelAccuracy: finite.optional(),
+    features: derived<Record<string, unknown>>().optional(),
+    trajectory: spiralTrajectory.optional(),
+    kinematics: derived<SpiralKinematics>().optional()
+  }).optional(),
+  voice: z.object({
+    audioData: audioDataUrl.optional(),
+    result: resultSchema.optional(),
+    modelAccuracy: finite.optional(),
+    features: derived<Record<string, unknown>>().optional(),
+    quality: derived<RecordingQualityReport>().optional(),
+    tasks: z.object({
+      vowel: voiceTask.optional(),
+      ddk: voiceTask.optional(),
+      passage: voiceTask.optional()
+    }).optional()
+  }).optional(),
+  tapping: z.object({
+    session: tappingSession.optional(),
+    result: resultSchema.optional(),
+    features: derived<TappingFeatures>().optional()
+  }).optional(),
+  tracing: z.object({
+    result: resultSchema.optional(),
+    tasks: z.object({ line: tracingTask.optional(), meander: tracingTask.optional() }).optional()
+  }).optional(),
+  posture: z.object({
+    imageData: imageDataUrl.optional(),
+    result: resultSchema.optional(),
+    modelAccuracy: finite.optional(),
+    features: derived<Record<string, unknown>>().optional(),
+    views: z.object({ side: postureView.optional(), front: postureView.optional() }).optional(),
+    angles: derived<PostureAngles>().optional(),
+    findings: derived<PostureFindings>().optional()
+  }).optional(),
+  gait: z.object({
+    result: resultSchema.optional(),
+    features: derived<GaitFeatures>().optional()
+  }).optional(),
+  tremor: z.object({
+    result: resultSchema.optional(),
+    features: z.array(derived<TremorFeatures>()).optional(),
+    recordings: z.array(tremorRecording).optional()
+  }).optional(),
+  symptoms: z.object({
+    answers: z.record(z.string(), z.union([finite, z.boolean(), z.string()])).optional(),
+    questionnaireVersion: z.string().optional(),
+    scores: derived<SymptomScores>().optional(),
+    result: resultSchema.optional()
+  }).optional(),
+  overall: resultSchema.omit({ details: true }).extend({ recommendation: z.string() }).optional(),
+  deviceInfo: z.object({
+    platform: z.enum(['ios', 'android', 'web']),
+    model: z.string().optional(),
+    osVersion: z.string().optional()
+  }).optional(),
+  modelInfo: z.object({
+    enhancedModelsLoaded: z.boolean(),
+    averageAccuracy: finite,
+    modelVersion: z.string()
+  }).optional()
+});
+
+const sessionArchiveSchema = z.object({
+  format: z.literal(SESSION_ARCHIVE_FORMAT),
+  schemaVersion: z.literal(SESSION_ARCHIVE_VERSION),
+  exportedAt: z.string().datetime(),
+  session: z.object({ id: z.string().min(1), startedAt: finite }),
+  // Versions the results were produced with, readable without loading the data
+  models: z.object({
+    assessment: z.string().optional(),
+    questionnaire: z.string().optional(),
+    poseDetectors: z.array(z.string())
+  }),
+  data: assessmentDataSchema
+});
+
+export type SessionArchive = Omit<z.infer<typeof sessionArchiveSchema>, 'data'> & { data: AssessmentData };
+
+export async function createSessionArchive(
+  data: AssessmentData,
+  session: { id: string; startedAt: number }
+): Promise<SessionArchive> {
+  if (!data.overall) {
+    throw new Error('Complete at least one test before exporting the session.');
+  }
+
+  const { gait, ...rest } = await embedVoiceRecordings(data);
+
+  return {
+    format: SESSION_ARCHIVE_FORMAT,
+    schemaVersion: SESSION_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { id: session.id, startedAt: session.startedAt },
+    models: {
+      assessment: data.modelInfo?.modelVersion,
+      questionnaire: data.symptoms?.questionnaireVersion,
+      poseDetectors: [...new Set(Object.values(data.posture?.views ?? {}).map(view => view.pose.detector))]
+    },
+    data: {
+      ...rest,
+      ...(gait && { gait: { result: gait.result, features: gait.features } })
+    }
+  };
+}
+
+export function sessionArchiveBlob(archive: SessionArchive): Blob {
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+}
+
+// Parses and validates an archive file's text, throwing a message that can
+// be shown as-is when it cannot be imported
+export function readSessionArchive(text: string): SessionArchive {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a session archive: it is not valid JSON.');
+  }
+
+  const header = z.object({ format: z.string(), schemaVersion: z.number() }).safeParse(value);
+  if (!header.success || header.data.format !== SESSION_ARCHIVE_FORMAT) {
+    throw new Error('This file is not a session archive.');
+  }
+  if (header.data.schemaVersion > SESSION_ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of the app. Update the app to import it.');
+  }
+
+  const parsed = sessionArchiveSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`The archive is damaged at ${issue.path.join('.') || 'the top level'}: ${issue.message}`);
+  }
+  // The schema mirrors AssessmentData, but without strictNullChecks zod infers every key as optional
+  return parsed.data as SessionArchive;
+}
@@ -0,0 +1,102 @@
+import { AssessmentData } from '@/types/assessment';
+import { convertToWav } from '@/services/ml/audioEncoding';
+import { completed, objectStore, SESSION_STORE } from './database';
+
+// Completed assessment sessions, kept in IndexedDB so results survive a
+// reload and can be compared over time. Each session is one record holding
+// the whole AssessmentData snapshot, with images and audio inline as data URLs.
+
+export interface StoredSession {
+  id: string;
+  patientId?: string; // Unset for sessions run without a patient selected
+  startedAt: number; // ms since the epoch
+  updatedAt: number;
+  data: AssessmentData;
+}
+
+// Recorded voice tasks live behind object URLs that die with the page, so
+// they are saved as WAV data URLs. Encodings are reused across saves of the
+// same session and dropped once their recording is no longer in the data.
+const embeddedRecordings = new Map<string, Promise<string | undefined>>();
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the recording.'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+// As WAV, or as recorded if the browser cannot decode it; unset if the
+// recording has already been released
+function embedRecording(url: string | undefined): Promise<string | undefined> {
+  if (!url?.startsWith('blob:')) return Promise.resolve(url);
+  if (!embeddedRecordings.has(url)) {
+    embeddedRecordings.set(url, (async () => {
+      const recording = await fetch(url).then(response => response.blob());
+      const wav = await convertToWav(recording).catch(() => recording);
+      return blobToDataUrl(wav);
+    })().catch(() => undefined));
+  }
+  return embeddedRecordings.get(url);
+}
+
+export async function embedVoiceRecordings(data: AssessmentData): Promise<AssessmentData> {
+  const { voice } = data;
+  const urls = [voice?.audioData, ...Object.values(voice?.tasks ?? {}).map(task => task.audioData)];
+  [...embeddedRecordings.keys()].filter(url => !urls.includes(url)).forEach(url => embeddedRecordings.delete(url));
+  if (!voice) return data;
+
+  const tasks: NonNullable<AssessmentData['voice']>['tasks'] = {};
+  for (const [task, entry] of Object.entries(voice.tasks ?? {}) as [keyof typeof tasks, NonNullable<typeof tasks[keyof typeof tasks]>][]) {
+    tasks[task] = { ...entry, audioData: await embedRecording(entry.audioData) };
+  }
+  return { ...data, voice: { ...voice, audioData: await embedRecording(voice.audioData), tasks } };
+}
+
+// Any other object URL (the gait video) is left out of the saved copy
+function withoutObjectUrls<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(withoutObjectUrls) as T;
+  if (value === null || typeof value !== 'object' || ArrayBuffer.isView(value)) return value;
+  const copy: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    if (typeof entry === 'string' && entry.startsWith('blob:')) return;
+    copy[key] = withoutObjectUrls(entry);
+  });
+  return copy as T;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  const data = withoutObjectUrls(await embedVoiceRecordings(session.data));
+  const store = await objectStore(SESSION_STORE, 'readwrite');
+  await completed(store.put({ ...session, data }));
+}
+
+// Oldest first; without a patient, the sessions that belong to nobody
+export async function listSessions(patientId?: string): Promise<StoredSession[]> {
+  const store = await objectStore(SESSION_STORE, 'readonly');
+  if (patientId) {
+    const sessions = await completed(store.index('patientId').getAll(patientId) as IDBRequest<StoredSession[]>);
+    return sessions.sort((a, b) => a.startedAt - b.startedAt);
+  }
+  const sessions = await completed(store.index('startedAt').getAll() as IDBRequest<StoredSession[]>);
+  return sessions.filter(session => !session.patientId);
+}
+
+export async function getSession(id: string): Promise<StoredSession | undefined> {
+  const store = await objectStore(SESSION_STORE, 'readonly');
+  return completed(store.get(id) as IDBRequest<StoredSession | undefined>);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const store = await objectStore(SESSION_STORE, 'readwrite');
+  await completed(store.delete(id));
+}
+
+// Removes one patient's sessions, or the unassigned ones without a patient
+export async function clearSessions(patientId?: string): Promise<void> {
+  const ids = (await listSessions(patientId)).map(session => session.id);
+  const store = await objectStore(SESSION_STORE, 'readwrite');
+  await Promise.all(ids.map(id => completed(store.delete(id))));
+}
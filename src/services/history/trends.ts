@@ -0,0 +1,210 @@
+import { AssessmentData, AssessmentResult } from '@/types/assessment';
+import { StoredSession } from './sessionStore';
+
+// Per-modality time series across stored sessions, and the changes between
+// consecutive sessions large enough to point out.
+
+export type Modality =
+  | 'spiral'
+  | 'tracing'
+  | 'tapping'
+  | 'voice'
+  | 'posture'
+  | 'gait'
+  | 'tremor'
+  | 'symptoms';
+
+interface FeatureDefinition {
+  key: string;
+  label: string;
+  unit?: string;
+  read: (data: AssessmentData) => number | undefined;
+}
+
+interface ModalityDefinition {
+  modality: Modality;
+  label: string;
+  result: (data: AssessmentData) => AssessmentResult | undefined;
+  features: FeatureDefinition[];
+}
+
+// Local jitter and shimmer are stored as fractions
+const vowelFeatures = (data: AssessmentData) =>
+  data.voice?.tasks?.vowel?.features as { jitter?: number; shimmer?: number; hnr?: number; cpps?: number } | undefined;
+
+const scaled = (value: number | undefined, factor: number) => (value === undefined ? undefined : value * factor);
+
+export const MODALITIES: ModalityDefinition[] = [
+  {
+    modality: 'spiral',
+    label: 'Spiral Drawing',
+    result: data => data.spiral?.result,
+    features: [
+      { key: 'rating', label: 'Spiral rating', unit: '0-10', read: data => data.spiral?.kinematics?.rating },
+      { key: 'tremorFrequency', label: 'Tremor frequency', unit: 'Hz', read: data => data.spiral?.kinematics?.tremorFrequency }
+    ]
+  },
+  {
+    modality: 'tracing',
+    label: 'Line & Meander Tracing',
+    result: data => data.tracing?.result,
+    features: [
+      { key: 'lineDeviation', label: 'Line RMS deviation', read: data => data.tracing?.tasks?.line?.features?.rmsDeviation },
+      { key: 'meanderDeviation', label: 'Meander RMS deviation', read: data => data.tracing?.tasks?.meander?.features?.rmsDeviation }
+    ]
+  },
+  {
+    modality: 'tapping',
+    label: 'Finger Tapping',
+    result: data => data.tapping?.result,
+    features: [
+      { key: 'tapRate', label: 'Tap rate', unit: 'taps/s', read: data => data.tapping?.features?.tapRate },
+      { key: 'intervalCv', label: 'Rhythm variability', unit: 'CV', read: data => data.tapping?.features?.intervalCv },
+      { key: 'amplitudeDecrement', label: 'Amplitude decrement', unit: '%', read: data => data.tapping?.features?.amplitudeDecrement }
+    ]
+  },
+  {
+    modality: 'voice',
+    label: 'Voice',
+    result: data => data.voice?.result,
+    features: [
+      {
+        key: 'jitter',
+        label: 'Vowel jitter',
+        unit: '%',
+        read: data => scaled(vowelFeatures(data)?.jitter, 100)
+      },
+      {
+        key: 'shimmer',
+        label: 'Vowel shimmer',
+        unit: '%',
+        read: data => scaled(vowelFeatures(data)?.shimmer, 100)
+      },
+      { key: 'hnr', label: 'Vowel HNR', unit: 'dB', read: data => vowelFeatures(data)?.hnr },
+      { key: 'cpps', label: 'Vowel CPPS', unit: 'dB', read: data => vowelFeatures(data)?.cpps },
+      {
+        key: 'ddkRate',
+        label: 'Pa-ta-ka rate',
+        unit: 'syll/s',
+        read: data => (data.voice?.tasks?.ddk?.features as { rate?: number } | undefined)?.rate
+      },
+      {
+        key: 'f0Sd',
+        label: 'Pitch variation',
+        unit: 'semitones',
+        read: data => (data.voice?.tasks?.passage?.features as { f0SdSemitones?: number } | undefined)?.f0SdSemitones
+      }
+    ]
+  },
+  {
+    modality: 'posture',
+    label: 'Posture',
+    result: data => data.posture?.result,
+    features: [
+      { key: 'trunkFlexion', label: 'Trunk flexion', unit: '°', read: data => data.posture?.angles?.sagittal?.trunkFlexion },
+      { key: 'lateralBend', label: 'Lateral trunk bend', unit: '°', read: data => data.posture?.angles?.frontal?.lateralTrunkBend }
+    ]
+  },
+  {
+    modality: 'gait',
+    label: 'Gait',
+    result: data => data.gait?.result,
+    features: [
+      { key: 'cadence', label: 'Cadence', unit: 'steps/min', read: data => data.gait?.features?.cadence },
+      { key: 'stepLength', label: 'Step length', unit: '× torso', read: data => data.gait?.features?.meanStepLength },
+      { key: 'strideTimeCv', label: 'Stride time CV', unit: '%', read: data => data.gait?.features?.strideTimeCv }
+    ]
+  },
+  {
+    modality: 'tremor',
+    label: 'Tremor',
+    result: data => data.tremor?.result,
+    features: [
+      {
+        key: 'restDisplacement',
+        label: 'Rest tremor',
+        unit: 'mm',
+        read: data => data.tremor?.features?.find(feature => feature.condition === 'rest')?.displacement
+      },
+      {
+        key: 'posturalDisplacement',
+        label: 'Postural tremor',
+        unit: 'mm',
+        read: data => data.tremor?.features?.find(feature => feature.condition === 'postural')?.displacement
+      }
+    ]
+  },
+  {
+    modality: 'symptoms',
+    label: 'Symptoms Questionnaire',
+    result: data => data.symptoms?.result,
+    features: [
+      {
+        key: 'partIB',
+        label: 'MDS-UPDRS Part IB',
+        read: data => data.symptoms?.scores?.subscales.find(subscale => subscale.id === 'partIB')?.total ?? undefined
+      },
+      {
+        key: 'partII',
+        label: 'MDS-UPDRS Part II',
+        read: data => data.symptoms?.scores?.subscales.find(subscale => subscale.id === 'partII')?.total ?? undefined
+      }
+    ]
+  }
+];
+
+export interface TrendPoint {
+  sessionId: string;
+  time: number; // Session start, ms since the epoch
+  score: number;
+  confidence: number;
+  status: AssessmentResult['status'];
+  features: Record<string, number>;
+}
+
+export interface TrendChange {
+  modality: Modality;
+  fromSession: string;
+  toSession: string;
+  time: number; // When the later session started
+  delta: number; // Score points; negative is worse
+  statusChanged: boolean;
+}
+
+// Score changes of at least this many points are flagged; the status bands
+// are 20 points wide, so this is half a band
+export const SIGNIFICANT_SCORE_CHANGE = 10;
+
+export function modalitySeries(sessions: StoredSession[], modality: Modality): TrendPoint[] {
+  const definition = MODALITIES.find(entry => entry.modality === modality)!;
+  return [...sessions]
+    .sort((a, b) => a.startedAt - b.startedAt)
+    .flatMap(session => {
+      const result = definition.result(session.data);
+      if (!result) return [];
+      const features: Record<string, number> = {};
+      definition.features.forEach(feature => {
+        const value = feature.read(session.data);
+        if (value !== undefined && isFinite(value)) features[feature.key] = value;
+      });
+      return [{
+        sessionId: session.id,
+        time: session.startedAt,
+        score: result.score,
+        confidence: result.confidence,
+        status: result.status,
+        features
+      }];
+    });
+}
+
+// Changes between consecutive sessions in which the modality was assessed
+export function detectChanges(series: TrendPoint[], modality: Modality): TrendChange[] {
+  return series.slice(1).flatMap((point, i) => {
+    const previous = series[i];
+    const delta = point.score - previous.score;
+    const statusChanged = point.status !== previous.status;
+    if (Math.abs(delta) < SIGNIFICANT_SCORE_CHANGE && !statusChanged) return [];
+    return [{ modality, fromSession: previous.sessionId, toSession: point.sessionId, time: point.time, delta, statusChanged }];
+  });
+}
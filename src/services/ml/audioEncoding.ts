@@ -0,0 +1,237 @@
+// WAV encoding and decoding, mono downmix and resampling. Every recording,
+// synthetic sample and stored dataset item is kept as a RIFF/WAVE file at
+// one canonical rate, so any of them can be decoded here or by
+// AudioContext.decodeAudioData and produce the same signal.
+
+export type WavFormat = 'pcm16' | 'float32';
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// Rate all analysed audio is converted to
+export const CANONICAL_SAMPLE_RATE = 44100;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Half-width of the windowed-sinc resampling kernel, in zero crossings
+const SINC_ZERO_CROSSINGS = 16;
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+}
+
+export function encodeWav(
+  channels: Float32Array | Float32Array[],
+  sampleRate: number,
+  format: WavFormat = 'pcm16'
+): ArrayBuffer {
+  const data = Array.isArray(channels) ? channels : [channels];
+  const numChannels = data.length;
+  const frames = numChannels > 0 ? data[0].length : 0;
+  const bytesPerSample = format === 'pcm16' ? 2 : 4;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = frames * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format === 'pcm16' ? WAVE_FORMAT_PCM : WAVE_FORMAT_IEEE_FLOAT, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = data[c][i];
+      if (format === 'pcm16') {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(offset, Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff), true);
+      } else {
+        view.setFloat32(offset, sample, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+}
+
+export function isWav(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 12) return false;
+  const view = new DataView(buffer);
+  return readAscii(view, 0, 4) === 'RIFF' && readAscii(view, 8, 4) === 'WAVE';
+}
+
+// Reads integer PCM (8/16/24/32-bit) and IEEE float (32/64-bit) WAV files,
+// including WAVE_FORMAT_EXTENSIBLE headers; unknown chunks are skipped
+export function decodeWav(buffer: ArrayBuffer): DecodedAudio {
+  if (!isWav(buffer)) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+  const view = new DataView(buffer);
+
+  let formatTag = 0;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      formatTag = view.getUint16(body, true);
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        formatTag = view.getUint16(body + 24, true); // First two bytes of the sub-format GUID
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataSize = Math.min(size, buffer.byteLength - body);
+      break;
+    }
+    offset = body + size + (size % 2); // Chunks are word-aligned
+  }
+
+  if (dataOffset < 0 || numChannels === 0) {
+    throw new Error('WAV file has no fmt or data chunk');
+  }
+  if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV encoding (format ${formatTag})`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = Math.floor(dataSize / (bytesPerSample * numChannels));
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+
+  const read = (position: number): number => {
+    if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+      return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(position) - 128) / 128;
+      case 16:
+        return view.getInt16(position, true) / 0x8000;
+      case 24: {
+        const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+        return value / 0x800000;
+      }
+      case 32:
+        return view.getInt32(position, true) / 0x80000000;
+      default:
+        throw new Error(`Unsupported WAV bit depth ${bitsPerSample}`);
+    }
+  };
+
+  let position = dataOffset;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      channels[c][i] = read(position);
+      position += bytesPerSample;
+    }
+  }
+  return { sampleRate, channels };
+}
+
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels.length > 0 ? channels[0].length : 0);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+// Band-limited resampling with a Hann-windowed sinc. When downsampling the
+// kernel is stretched so its cutoff sits at the new Nyquist frequency.
+export function resample(signal: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return signal;
+
+  const ratio = toRate / fromRate;
+  const cutoff = Math.min(1, ratio); // Relative to the input Nyquist
+  const halfWidth = Math.ceil(SINC_ZERO_CROSSINGS / cutoff);
+  const output = new Float32Array(Math.round(signal.length * ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const centre = i / ratio;
+    const first = Math.max(0, Math.ceil(centre - halfWidth));
+    const last = Math.min(signal.length - 1, Math.floor(centre + halfWidth));
+
+    let sum = 0;
+    for (let n = first; n <= last; n++) {
+      const distance = n - centre;
+      const x = distance * cutoff;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * distance) / halfWidth);
+      sum += signal[n] * sinc * window;
+    }
+    output[i] = sum * cutoff;
+  }
+  return output;
+}
+
+// Mono signal at the canonical rate, ready for feature extraction
+export function toCanonicalMono(audio: DecodedAudio, targetRate = CANONICAL_SAMPLE_RATE): Float32Array {
+  return resample(downmixToMono(audio.channels), audio.sampleRate, targetRate);
+}
+
+export function wavToDataUrl(wav: ArrayBuffer): string {
+  const bytes = new Uint8Array(wav);
+  let binary = '';
+  // Chunked so large files don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:audio/wav;base64,${btoa(binary)}`;
+}
+
+let sharedContext: AudioContext | null = null;
+
+// Decode any recording the browser can play (webm/ogg/mp4 from
+// MediaRecorder, or WAV) into channels and a sample rate
+export async function decodeAudioBlob(blob: Blob): Promise<DecodedAudio> {
+  const arrayBuffer = await blob.arrayBuffer();
+  if (isWav(arrayBuffer)) {
+    return decodeWav(arrayBuffer);
+  }
+
+  if (!sharedContext) {
+    sharedContext = new AudioContext();
+  }
+  const audioBuffer = await sharedContext.decodeAudioData(arrayBuffer);
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, c) => audioBuffer.getChannelData(c));
+  return { sampleRate: audioBuffer.sampleRate, channels };
+}
+
+// Convert a MediaRecorder blob to a canonical mono 16-bit WAV blob
+export async function convertToWav(blob: Blob, format: WavFormat = 'pcm16'): Promise<Blob> {
+  const decoded = await decodeAudioBlob(blob);
+  const wav = encodeWav(toCanonicalMono(decoded), CANONICAL_SAMPLE_RATE, format);
+  return new Blob([wav], { type: 'audio/wav' });
+}
@@ -0,0 +1,473 @@
+import {
+  BinaryImage,
+  otsuThreshold,
+  removeSmallComponents,
+  toGrayscale
+} from './spiralImageProcessing';
+
+// Straightens a photo of a sheet of paper before any drawing analysis: finds
+// the page's four corners, warps them to a rectangle with a homography,
+// divides out uneven lighting and crops to the drawing without changing its
+// aspect ratio.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RectificationOptions {
+  detectionSize: number; // Longest side the page is searched at, pixels
+  outputSize: number; // Longest side of the warped page
+  minPageFraction: number; // Smallest page area, as a fraction of the photo, accepted as a detection
+  cornerInset: number; // Fraction the corners are pulled inwards to drop the page edge
+  illuminationBlocks: number; // Background grid cells along the longest side
+  cropPadding: number; // Fraction of the drawing's size kept around it
+  photoSize: number; // Longest side a photo is read at before rectifying, pixels
+}
+
+export const DEFAULT_RECTIFICATION_OPTIONS: RectificationOptions = {
+  detectionSize: 256,
+  outputSize: 1024,
+  minPageFraction: 0.2,
+  cornerInset: 0.01,
+  illuminationBlocks: 16,
+  cropPadding: 0.08,
+  photoSize: 2048 // Twice the output, so the warp still has detail to sample
+};
+
+export interface RectificationResult {
+  image: RgbaImage;
+  corners: Point[]; // Page corners in the input image, clockwise from top-left
+  pageDetected: boolean;
+  crop: CropBox | null; // In the warped page, before cropping
+}
+
+// Ink is ignored this close to the warped page's border, where a sliver of
+// table or page edge often survives
+const BORDER_MARGIN = 0.03;
+
+function resizeNearest(image: RgbaImage, maxSize: number): { image: RgbaImage; scale: number } {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  if (scale === 1) return { image, scale };
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(image.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(image.width - 1, Math.floor(x / scale));
+      data.set(image.data.subarray((sy * image.width + sx) * 4, (sy * image.width + sx) * 4 + 4), (y * width + x) * 4);
+    }
+  }
+  return { image: { width, height, data }, scale };
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Andrew's monotone chain
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (const point of sorted.reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    area += points[i].x * next.y - next.x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Four hull points spanning the largest quadrilateral: the two ends of the
+// longest diagonal, then the farthest point on each side of it. Works at
+// any rotation, unlike picking extremes of x + y and x - y.
+function quadrilateralFromHull(hull: Point[]): Point[] | null {
+  if (hull.length < 4) return null;
+  const centroid = {
+    x: hull.reduce((sum, p) => sum + p.x, 0) / hull.length,
+    y: hull.reduce((sum, p) => sum + p.y, 0) / hull.length
+  };
+  const first = hull.reduce((best, p) => (distance(p, centroid) > distance(best, centroid) ? p : best));
+  const opposite = hull.reduce((best, p) => (distance(p, first) > distance(best, first) ? p : best));
+
+  let left: Point | null = null;
+  let right: Point | null = null;
+  for (const point of hull) {
+    const side = cross(first, opposite, point);
+    if (side > 0 && (!left || side > cross(first, opposite, left))) left = point;
+    if (side < 0 && (!right || side < cross(first, opposite, right))) right = point;
+  }
+  if (!left || !right) return null;
+  return [first, left, opposite, right];
+}
+
+// Clockwise on screen (y down) starting from the corner nearest the origin
+function orderCorners(corners: Point[]): Point[] {
+  const cx = corners.reduce((sum, p) => sum + p.x, 0) / corners.length;
+  const cy = corners.reduce((sum, p) => sum + p.y, 0) / corners.length;
+  const sorted = [...corners].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  const start = sorted.reduce((best, p, i) => (p.x + p.y < sorted[best].x + sorted[best].y ? i : best), 0);
+  return sorted.slice(start).concat(sorted.slice(0, start));
+}
+
+// The page is the largest bright region; its hull's best-fitting
+// quadrilateral gives the corners
+export function detectPageCorners(
+  image: RgbaImage,
+  options: RectificationOptions = DEFAULT_RECTIFICATION_OPTIONS
+): Point[] | null {
+  const { image: small, scale } = resizeNearest(image, options.detectionSize);
+  const gray = toGrayscale(small);
+  const threshold = otsuThreshold(gray);
+  const bright: BinaryImage = {
+    width: gray.width,
+    height: gray.height,
+    data: Uint8Array.from(gray.data, value => (value > threshold ? 1 : 0))
+  };
+  const page = removeSmallComponents(bright, 1); // Keep only the largest
+
+  // Each row's outermost page pixels are enough for the hull
+  const edges: Point[] = [];
+  for (let y = 0; y < page.height; y++) {
+    let first = -1;
+    let last = -1;
+    for (let x = 0; x < page.width; x++) {
+      if (!page.data[y * page.width + x]) continue;
+      if (first < 0) first = x;
+      last = x;
+    }
+    if (first >= 0) edges.push({ x: first, y }, { x: last, y });
+  }
+
+  const quad = quadrilateralFromHull(convexHull(edges));
+  if (!quad || polygonArea(quad) < options.minPageFraction * page.width * page.height) return null;
+
+  const ordered = orderCorners(quad);
+  const cx = ordered.reduce((sum, p) => sum + p.x, 0) / 4;
+  const cy = ordered.reduce((sum, p) => sum + p.y, 0) / 4;
+  return ordered.map(p => ({
+    x: (p.x + (cx - p.x) * options.cornerInset + 0.5) / scale,
+    y: (p.y + (cy - p.y) * options.cornerInset + 0.5) / scale
+  }));
+}
+
+// Solves for H (h33 = 1) mapping each `from` point onto its `to` point
+export function computeHomography(from: Point[], to: Point[]): number[] {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-12) {
+      throw new Error('Page corners are degenerate');
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function applyHomography(h: number[], point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w
+  };
+}
+
+type Vector3 = [number, number, number];
+
+function cross3(a: Vector3, b: Vector3): Vector3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot3(a: Vector3, b: Vector3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+// Width over height of the real rectangle seen as this quadrilateral
+// (Zhang & He, 2007), assuming square pixels and the principal point at the
+// photo's centre. Falls back to the affine estimate when the edges are too
+// close to parallel to recover the focal length.
+export function pageAspectRatio(corners: Point[], imageWidth: number, imageHeight: number): number {
+  const u0 = imageWidth / 2;
+  const v0 = imageHeight / 2;
+  const [m1, m2, m4, m3] = corners.map(p => [p.x, p.y, 1] as Vector3); // TL, TR, BR, BL
+
+  const m14 = cross3(m1, m4);
+  const k2 = dot3(m14, m3) / dot3(cross3(m2, m4), m3);
+  const k3 = dot3(m14, m2) / dot3(cross3(m3, m4), m2);
+  const n2: Vector3 = [k2 * m2[0] - m1[0], k2 * m2[1] - m1[1], k2 * m2[2] - m1[2]];
+  const n3: Vector3 = [k3 * m3[0] - m1[0], k3 * m3[1] - m1[1], k3 * m3[2] - m1[2]];
+
+  const affine = Math.sqrt((n2[0] ** 2 + n2[1] ** 2) / (n3[0] ** 2 + n3[1] ** 2));
+  if (Math.abs(n2[2]) < 1e-6 || Math.abs(n3[2]) < 1e-6) return affine;
+
+  const focalSquared = -(
+    n2[0] * n3[0] - (n2[0] * n3[2] + n2[2] * n3[0]) * u0 + n2[2] * n3[2] * u0 * u0 +
+    n2[1] * n3[1] - (n2[1] * n3[2] + n2[2] * n3[1]) * v0 + n2[2] * n3[2] * v0 * v0
+  ) / (n2[2] * n3[2]);
+  if (!(focalSquared > 0)) return affine;
+
+  // n^T (A^-T A^-1) n with A the camera matrix
+  const f = Math.sqrt(focalSquared);
+  const norm = (n: Vector3) => {
+    const x = (n[0] - u0 * n[2]) / f;
+    const y = (n[1] - v0 * n[2]) / f;
+    return x * x + y * y + n[2] * n[2];
+  };
+  const ratio = Math.sqrt(norm(n2) / norm(n3));
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : affine;
+}
+
+// Warps the quadrilateral to a width x height rectangle, sampling the
+// source bilinearly through the inverse mapping
+export function warpPerspective(image: RgbaImage, corners: Point[], width: number, height: number): RgbaImage {
+  const target = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height }
+  ];
+  const h = computeHomography(target, corners);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = Math.min(image.width - 1.001, Math.max(0, source.x - 0.5));
+      const sy = Math.min(image.height - 1.001, Math.max(0, source.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * image.width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + image.width * 4;
+      const i11 = i01 + 4;
+      const out = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const top = image.data[i00 + c] * (1 - fx) + image.data[i10 + c] * fx;
+        const bottom = image.data[i01 + c] * (1 - fx) + image.data[i11 + c] * fx;
+        data[out + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+// Estimates the paper's brightness on a coarse grid (a high percentile per
+// cell, so ink doesn't pull it down), interpolates it and divides it out
+export function flattenIllumination(image: RgbaImage, blocksAlongLongestSide = 16): RgbaImage {
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+  const blockSize = Math.max(8, Math.ceil(Math.max(width, height) / blocksAlongLongestSide));
+  const columns = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+
+  const background = new Float32Array(columns * rows);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      const values: number[] = [];
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) values.push(gray.data[y * width + x]);
+      }
+      values.sort((a, b) => a - b);
+      background[by * columns + bx] = Math.max(1, values[Math.floor(values.length * 0.95)] ?? 255);
+    }
+  }
+
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let y = 0; y < height; y++) {
+    const gy = Math.min(rows - 1, Math.max(0, (y + 0.5) / blockSize - 0.5));
+    const y0 = Math.floor(gy);
+    const y1 = Math.min(rows - 1, y0 + 1);
+    const fy = gy - y0;
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(columns - 1, Math.max(0, (x + 0.5) / blockSize - 0.5));
+      const x0 = Math.floor(gx);
+      const x1 = Math.min(columns - 1, x0 + 1);
+      const fx = gx - x0;
+      const level =
+        (background[y0 * columns + x0] * (1 - fx) + background[y0 * columns + x1] * fx) * (1 - fy) +
+        (background[y1 * columns + x0] * (1 - fx) + background[y1 * columns + x1] * fx) * fy;
+      const gain = 255 / level;
+      const index = (y * width + x) * 4;
+      data[index] = image.data[index] * gain;
+      data[index + 1] = image.data[index + 1] * gain;
+      data[index + 2] = image.data[index + 2] * gain;
+      data[index + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+// Bounding box of the ink, padded, or null when there is none
+export function findDrawingBounds(image: RgbaImage, padding = 0.08): CropBox | null {
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+  const threshold = otsuThreshold(gray);
+  const marginX = Math.round(width * BORDER_MARGIN);
+  const marginY = Math.round(height * BORDER_MARGIN);
+
+  const data = new Uint8Array(width * height);
+  for (let y = marginY; y < height - marginY; y++) {
+    for (let x = marginX; x < width - marginX; x++) {
+      const value = gray.data[y * width + x];
+      // Ignore the faint Otsu split on an almost blank page
+      data[y * width + x] = value <= threshold && value < 160 ? 1 : 0;
+    }
+  }
+  const ink = removeSmallComponents({ width, height, data }, 0.02);
+
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!ink.data[y * width + x]) continue;
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+    }
+  }
+  if (right < 0) return null;
+
+  const pad = Math.round(Math.max(right - left, bottom - top) * padding);
+  const x = Math.max(0, left - pad);
+  const y = Math.max(0, top - pad);
+  return {
+    x,
+    y,
+    width: Math.min(width, right + pad + 1) - x,
+    height: Math.min(height, bottom + pad + 1) - y
+  };
+}
+
+export function cropImage(image: RgbaImage, box: CropBox): RgbaImage {
+  const data = new Uint8ClampedArray(box.width * box.height * 4);
+  for (let y = 0; y < box.height; y++) {
+    const start = ((box.y + y) * image.width + box.x) * 4;
+    data.set(image.data.subarray(start, start + box.width * 4), y * box.width * 4);
+  }
+  return { width: box.width, height: box.height, data };
+}
+
+export function rectifyDocument(
+  image: RgbaImage,
+  options: Partial<RectificationOptions> = {}
+): RectificationResult {
+  const resolved = { ...DEFAULT_RECTIFICATION_OPTIONS, ...options };
+  const detected = detectPageCorners(image, resolved);
+  const corners = detected ?? [
+    { x: 0, y: 0 },
+    { x: image.width, y: 0 },
+    { x: image.width, y: image.height },
+    { x: 0, y: image.height }
+  ];
+
+  // Keep the page's own aspect ratio rather than the foreshortened one
+  const pageHeight = (distance(corners[0], corners[3]) + distance(corners[1], corners[2])) / 2;
+  const pageWidth = pageHeight * pageAspectRatio(corners, image.width, image.height);
+  const scale = Math.min(1, resolved.outputSize / Math.max(pageWidth, pageHeight));
+  const width = Math.max(1, Math.round(pageWidth * scale));
+  const height = Math.max(1, Math.round(pageHeight * scale));
+
+  const warped = flattenIllumination(warpPerspective(image, corners, width, height), resolved.illuminationBlocks);
+  const crop = findDrawingBounds(warped, resolved.cropPadding);
+
+  return {
+    image: crop ? cropImage(warped, crop) : warped,
+    corners,
+    pageDetected: detected !== null,
+    crop
+  };
+}
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load the image'));
+    img.src = dataUrl;
+  });
+}
+
+// Browser entry point: rectifies a photo given as a data URL and returns
+// the result as a JPEG data URL, with the corners in the photo's pixels.
+// The photo is scaled down first; at a phone camera's full resolution the
+// work below would hold up the page for seconds.
+export async function rectifyPhoto(
+  dataUrl: string,
+  options: Partial<RectificationOptions> = {}
+): Promise<{ dataUrl: string; corners: Point[]; pageDetected: boolean; width: number; height: number }> {
+  const resolved = { ...DEFAULT_RECTIFICATION_OPTIONS, ...options };
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, resolved.photoSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const result = rectifyDocument(pixels, resolved);
+
+  const output = document.createElement('canvas');
+  output.width = result.image.width;
+  output.height = result.image.height;
+  output.getContext('2d')!.putImageData(new ImageData(result.image.data, result.image.width, result.image.height), 0, 0);
+
+  return {
+    dataUrl: output.toDataURL('image/jpeg', 0.92),
+    corners: result.corners.map(corner => ({ x: corner.x / scale, y: corner.y / scale })),
+    pageDetected: result.pageDetected,
+    width: img.naturalWidth,
+    height: img.naturalHeight
+  };
+}
@@ -0,0 +1,68 @@
+import { MFCC_FEATURE_LENGTH } from './mfccAnalysis';
+import { PitchStatistics } from './pitchTracking';
+import { JitterMeasures, ShimmerMeasures } from './voicePerturbation';
+import { NonlinearMeasures } from './nonlinearDynamics';
+
+// The dysphonia measures of the UCI Parkinson's dataset (Little et al.), in
+// the dataset's column order so vectors can be compared with its baselines.
+// Its spread1 and spread2 columns are left out (see nonlinearDynamics.ts).
+export const DYSPHONIA_FEATURE_NAMES = [
+  'MDVP:Fo(Hz)',
+  'MDVP:Fhi(Hz)',
+  'MDVP:Flo(Hz)',
+  'MDVP:Jitter(%)',
+  'MDVP:Jitter(Abs)',
+  'MDVP:RAP',
+  'MDVP:PPQ',
+  'Jitter:DDP',
+  'MDVP:Shimmer',
+  'MDVP:Shimmer(dB)',
+  'Shimmer:APQ3',
+  'Shimmer:APQ5',
+  'MDVP:APQ',
+  'Shimmer:DDA',
+  'NHR',
+  'HNR',
+  'RPDE',
+  'DFA',
+  'D2',
+  'PPE'
+] as const;
+
+// Model input: the MFCC summary vector followed by the dysphonia measures
+export const VOICE_FEATURE_LENGTH = MFCC_FEATURE_LENGTH + DYSPHONIA_FEATURE_NAMES.length;
+
+export interface DysphoniaInputs {
+  pitchStatistics: PitchStatistics;
+  jitterMeasures: JitterMeasures;
+  shimmerMeasures: ShimmerMeasures;
+  hnr: number;
+  nhr: number;
+  nonlinear: NonlinearMeasures;
+}
+
+export function dysphoniaVector(inputs: DysphoniaInputs): number[] {
+  const { pitchStatistics: pitch, jitterMeasures: jitter, shimmerMeasures: shimmer, nonlinear } = inputs;
+  return [
+    pitch.meanF0,
+    pitch.maxF0,
+    pitch.minF0,
+    jitter.local * 100,
+    jitter.absolute,
+    jitter.rap,
+    jitter.ppq5,
+    jitter.ddp,
+    shimmer.local,
+    shimmer.localDb,
+    shimmer.apq3,
+    shimmer.apq5,
+    shimmer.apq11,
+    shimmer.dda,
+    inputs.nhr,
+    inputs.hnr,
+    nonlinear.rpde,
+    nonlinear.dfa,
+    nonlinear.d2,
+    nonlinear.ppe
+  ];
+}
@@ -0,0 +1,121 @@
+import { AssessmentResult, PatientDemographics, TappingSession } from '@/types/assessment';
+
+// Alternating two-target finger tapping, a touchscreen version of the
+// MDS-UPDRS 3.4 item. Bradykinesia shows as a slow or irregular rhythm,
+// shrinking movements (the hand stops reaching the far target) and slowing
+// towards the end of the test.
+
+export interface TappingFeatures {
+  tapCount: number;
+  missCount: number; // Taps that landed on neither target
+  alternationErrors: number; // Same target twice in a row
+  duration: number; // Seconds
+  tapRate: number; // Taps per second
+  meanInterval: number; // Seconds between taps
+  intervalCv: number;
+  hesitations: number; // Intervals over twice the median
+  meanAmplitude: number; // Distance between consecutive taps, canvas units
+  amplitudeDecrement: number; // % fall in amplitude over the test, from a linear fit
+  fatigue: number; // % fall in tap rate from the first to the last third
+  meanDwellTime: number; // Contact time, ms
+  meanTargetError: number; // Distance from each hit to its target's centre
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return values.length > 0 ? Math.sqrt(mean(values.map(v => (v - average) * (v - average)))) : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Percentage change over the whole series implied by a least-squares line
+function linearDecrement(values: number[]): number {
+  if (values.length < 3) return 0;
+  const xs = values.map((_, i) => i);
+  const mx = mean(xs);
+  const my = mean(values);
+  let sxy = 0;
+  let sxx = 0;
+  values.forEach((value, i) => {
+    sxy += (xs[i] - mx) * (value - my);
+    sxx += (xs[i] - mx) * (xs[i] - mx);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const start = my - slope * mx;
+  return start > 0 ? (-slope * (values.length - 1) / start) * 100 : 0;
+}
+
+export function analyzeTapping(session: TappingSession): TappingFeatures {
+  const { taps, targets } = session;
+  const times = taps.map(tap => tap.t / 1000);
+  const intervals = times.slice(1).map((time, i) => time - times[i]);
+  const amplitudes = taps.slice(1).map((tap, i) => Math.hypot(tap.x - taps[i].x, tap.y - taps[i].y));
+
+  const third = session.duration / 3;
+  const rateIn = (from: number, to: number) => times.filter(time => time >= from && time < to).length / third;
+  const earlyRate = rateIn(0, third);
+  const lateRate = rateIn(2 * third, session.duration + 1e-9);
+
+  const hits = taps.filter(tap => tap.target >= 0 && tap.target < targets.length);
+  const typicalInterval = median(intervals);
+  const meanInterval = mean(intervals);
+
+  return {
+    tapCount: taps.length,
+    missCount: taps.length - hits.length,
+    alternationErrors: taps.slice(1).filter((tap, i) => tap.target >= 0 && tap.target === taps[i].target).length,
+    duration: session.duration,
+    tapRate: session.duration > 0 ? taps.length / session.duration : 0,
+    meanInterval,
+    intervalCv: meanInterval > 0 ? standardDeviation(intervals) / meanInterval : 0,
+    hesitations: intervals.filter(interval => interval > 2 * typicalInterval).length,
+    meanAmplitude: mean(amplitudes),
+    amplitudeDecrement: linearDecrement(amplitudes),
+    fatigue: earlyRate > 0 ? ((earlyRate - lateRate) / earlyRate) * 100 : 0,
+    meanDwellTime: mean(taps.map(tap => tap.duration)),
+    meanTargetError: mean(hits.map(tap => Math.hypot(tap.x - targets[tap.target].x, tap.y - targets[tap.target].y)))
+  };
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+// Heuristic score against typical adult performance on a phone-sized
+// screen: at least 3 alternating taps per second with a steady rhythm and
+// no more than about 10-15% decline in amplitude or rate. Tapping slows
+// with normal ageing, so past 60 the expected rate drops 0.3 taps/s per
+// decade when the age is known.
+export function scoreTapping(features: TappingFeatures, patient?: PatientDemographics): AssessmentResult {
+  const age = patient?.age ?? 0;
+  const minRate = Math.max(2.4, 3 - Math.max(0, age - 60) * 0.03);
+
+  let penalty = 0;
+  if (features.tapRate < minRate) penalty += (minRate - features.tapRate) * 15;
+  if (features.intervalCv > 0.2) penalty += (features.intervalCv - 0.2) * 100;
+  if (features.amplitudeDecrement > 10) penalty += (features.amplitudeDecrement - 10) * 0.8;
+  if (features.fatigue > 15) penalty += (features.fatigue - 15) * 0.6;
+  penalty += features.hesitations * 4;
+  penalty += (features.missCount + features.alternationErrors) * 2;
+
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(Math.min(90, 50 + features.tapCount / 2)),
+    status: statusFromScore(score),
+    details: `Finger tapping: ${features.tapCount} taps at ${features.tapRate.toFixed(2)}/s, interval CV=${features.intervalCv.toFixed(3)}, ` +
+      `amplitude decrement=${features.amplitudeDecrement.toFixed(1)}%, fatigue=${features.fatigue.toFixed(1)}%, ` +
+      `${features.hesitations} hesitations, ${features.missCount} misses`
+  };
+}
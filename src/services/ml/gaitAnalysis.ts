@@ -0,0 +1,407 @@
+import { AssessmentResult, PatientDemographics } from '@/types/assessment';
+import { getKeypoint, KeypointDetector, KeypointName, Pose } from './poseDetection';
+
+// Gait from a walking clip filmed side-on: the person walks across the
+// frame, turns and walks back. Per-frame keypoints give ankle separation
+// along the direction of travel (peaks are heel strikes), hip progression
+// (direction changes are turns) and wrist excursion (arm swing). Distances
+// are in torso lengths, shoulder to hip midpoints, so the camera's distance
+// doesn't matter.
+
+export interface PoseFrame {
+  t: number; // Seconds from the start of the clip
+  pose: Pose | null;
+}
+
+export interface GaitStep {
+  t: number; // Heel strike, seconds
+  length: number; // Torso lengths
+  side: 'left' | 'right' | 'unknown'; // Leading foot
+}
+
+export interface GaitFeatures {
+  duration: number; // Seconds of video analyzed
+  detectionRate: number; // Fraction of frames with a usable skeleton
+  stepCount: number;
+  cadence: number; // Steps per minute
+  meanStepLength: number; // Torso lengths
+  stepLengthAsymmetry: number; // % difference between left and right steps
+  strideTime: number; // Seconds, same foot to same foot
+  strideTimeCv: number; // %
+  armSwingLeft: number | null; // Wrist excursion in torso lengths; null when the arm was mostly hidden
+  armSwingRight: number | null;
+  armSwingAsymmetry: number | null; // % of the larger swing
+  turnCount: number;
+  meanTurnDuration: number; // Seconds
+  freezingEpisodes: number;
+  freezingTime: number; // Seconds
+  steps: GaitStep[];
+  series: { t: number; separation: number; velocity: number }[]; // For charts
+}
+
+export interface GaitOptions {
+  frameRate: number; // Frames sampled per second of video
+  maxDuration: number; // Seconds; the rest of a longer clip is ignored
+  minKeypointScore: number;
+  maxGap: number; // Seconds of missing keypoints bridged by interpolation
+  smoothing: number; // Seconds, moving-average window for ankle separation
+  velocitySmoothing: number; // Seconds, for hip progression
+  minStepLength: number; // Torso lengths; smaller separations are sway, not steps
+  walkingSpeed: number; // Torso lengths per second counted as walking
+  freezeMinDuration: number; // Seconds without a step
+  minArmVisibility: number; // Fraction of walking frames the wrist must be seen in
+}
+
+export const DEFAULT_GAIT_OPTIONS: GaitOptions = {
+  frameRate: 15,
+  maxDuration: 40,
+  minKeypointScore: 0.3,
+  maxGap: 0.5,
+  smoothing: 0.2,
+  velocitySmoothing: 0.5,
+  minStepLength: 0.25,
+  walkingSpeed: 0.5,
+  freezeMinDuration: 1,
+  minArmVisibility: 0.3
+};
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
+
+// Fill NaN runs no longer than maxRun by linear interpolation
+function bridgeGaps(values: number[], maxRun: number): number[] {
+  const result = [...values];
+  let i = 0;
+  while (i < result.length) {
+    if (!isNaN(result[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < result.length && isNaN(result[i])) i++;
+    const before = start - 1;
+    if (before >= 0 && i < result.length && i - start <= maxRun) {
+      for (let j = start; j < i; j++) {
+        const f = (j - before) / (i - before);
+        result[j] = result[before] + f * (result[i] - result[before]);
+      }
+    }
+  }
+  return result;
+}
+
+// Centred moving average that skips NaN samples
+function smooth(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((value, i) => {
+    if (isNaN(value)) return NaN;
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(values.length - 1, i + half); j++) {
+      if (!isNaN(values[j])) {
+        sum += values[j];
+        count++;
+      }
+    }
+    return sum / count;
+  });
+}
+
+export function analyzeGait(frames: PoseFrame[], options: Partial<GaitOptions> = {}): GaitFeatures {
+  const opts = { ...DEFAULT_GAIT_OPTIONS, ...options };
+  if (frames.length < 2) {
+    throw new Error('The video is too short to analyze.');
+  }
+  const dt = (frames[frames.length - 1].t - frames[0].t) / (frames.length - 1);
+
+  // Keypoint x in pixels, NaN when the detector wasn't confident
+  const track = (name: KeypointName) => frames.map(({ pose }) => {
+    if (!pose) return NaN;
+    const keypoint = getKeypoint(pose, name);
+    return keypoint.score >= opts.minKeypointScore ? keypoint.x * pose.width : NaN;
+  });
+  const midpoint = (a: KeypointName, b: KeypointName) => frames.map(({ pose }) => {
+    if (!pose) return null;
+    const p = getKeypoint(pose, a);
+    const q = getKeypoint(pose, b);
+    if (p.score < opts.minKeypointScore || q.score < opts.minKeypointScore) return null;
+    return { x: ((p.x + q.x) / 2) * pose.width, y: ((p.y + q.y) / 2) * pose.height };
+  });
+
+  const shoulders = midpoint('leftShoulder', 'rightShoulder');
+  const hips = midpoint('leftHip', 'rightHip');
+  const torsoLengths = shoulders
+    .map((shoulder, i) => (shoulder && hips[i] ? Math.hypot(shoulder.x - hips[i]!.x, shoulder.y - hips[i]!.y) : NaN))
+    .filter(length => !isNaN(length) && length > 0);
+  const usable = frames.filter((_, i) => shoulders[i] && hips[i]).length;
+  if (torsoLengths.length < frames.length * 0.3) {
+    throw new Error('The walker was not visible in enough of the video. Film the whole body from the side in good light.');
+  }
+  const torso = median(torsoLengths);
+
+  const maxRun = Math.round(opts.maxGap / dt);
+  const normalize = (values: number[]) => bridgeGaps(values.map(value => value / torso), maxRun);
+  const leftAnkle = normalize(track('leftAnkle'));
+  const rightAnkle = normalize(track('rightAnkle'));
+  const hipX = normalize(hips.map(hip => (hip ? hip.x : NaN)));
+
+  // Ankle separation along the direction of travel; its extremes are heel strikes
+  const separation = smooth(
+    leftAnkle.map((left, i) => left - rightAnkle[i]),
+    Math.max(1, Math.round(opts.smoothing / dt))
+  );
+  const velocityWindow = Math.max(1, Math.round(opts.velocitySmoothing / dt));
+  const smoothedHip = smooth(hipX, velocityWindow);
+  const velocity = smooth(
+    smoothedHip.map((x, i) => {
+      const previous = smoothedHip[Math.max(0, i - 1)];
+      const next = smoothedHip[Math.min(smoothedHip.length - 1, i + 1)];
+      const span = Math.min(smoothedHip.length - 1, i + 1) - Math.max(0, i - 1);
+      return span > 0 ? (next - previous) / (span * dt) : 0;
+    }),
+    velocityWindow
+  );
+
+  // One step per half-cycle of the separation signal
+  const steps: GaitStep[] = [];
+  let start = -1;
+  const closeHalfCycle = (from: number, to: number) => {
+    let peak = from;
+    for (let i = from; i < to; i++) {
+      if (Math.abs(separation[i]) > Math.abs(separation[peak])) peak = i;
+    }
+    let length = Math.abs(separation[peak]);
+    if (length < opts.minStepLength) return;
+    const heading = Math.abs(velocity[peak]) >= opts.walkingSpeed ? Math.sign(velocity[peak]) : 0;
+
+    // Parabolic interpolation of the peak; at 15 fps frame quantisation
+    // alone would add about 3% to stride time variability and shorten steps
+    let offset = 0;
+    if (peak > 0 && peak < separation.length - 1 && !isNaN(separation[peak - 1]) && !isNaN(separation[peak + 1])) {
+      const [a, b, c] = [separation[peak - 1], separation[peak], separation[peak + 1]].map(Math.abs);
+      const curvature = a - 2 * b + c;
+      if (curvature < 0) {
+        offset = Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / curvature));
+        length = b - 0.25 * (a - c) * offset;
+      }
+    }
+    steps.push({
+      t: frames[peak].t + offset * dt,
+      length,
+      side: heading === 0 ? 'unknown' : Math.sign(separation[peak]) === heading ? 'left' : 'right'
+    });
+  };
+  for (let i = 0; i < separation.length; i++) {
+    if (isNaN(separation[i])) {
+      if (start >= 0) closeHalfCycle(start, i);
+      start = -1;
+      continue;
+    }
+    if (start < 0) {
+      start = i;
+    } else if (Math.sign(separation[i]) !== Math.sign(separation[start]) && separation[i] !== 0) {
+      closeHalfCycle(start, i);
+      start = i;
+    }
+  }
+  if (start >= 0) closeHalfCycle(start, separation.length);
+
+  if (steps.length < 4) {
+    throw new Error('Fewer than four steps were detected. Walk across the whole frame, side-on to the camera.');
+  }
+
+  // Cadence and rhythm
+  const stepTimes = steps.slice(1).map((step, i) => step.t - steps[i].t);
+  const typicalStepTime = median(stepTimes);
+  const cadence = 60 / typicalStepTime; // Turns and freezes are reported separately
+  const strideTimes = steps.slice(2)
+    .map((step, i) => step.t - steps[i].t)
+    .filter(stride => stride <= 4 * typicalStepTime); // Strides broken by a stop or turn
+  const strideTime = mean(strideTimes);
+  const strideSd = Math.sqrt(mean(strideTimes.map(stride => (stride - strideTime) ** 2)));
+
+  // Step length by leading foot
+  const leftSteps = steps.filter(step => step.side === 'left').map(step => step.length);
+  const rightSteps = steps.filter(step => step.side === 'right').map(step => step.length);
+  const stepLengthAsymmetry = leftSteps.length > 0 && rightSteps.length > 0
+    ? (Math.abs(mean(leftSteps) - mean(rightSteps)) / ((mean(leftSteps) + mean(rightSteps)) / 2)) * 100
+    : 0;
+
+  // Arm swing: wrist excursion relative to the shoulders while walking
+  const walking = velocity.map(v => Math.abs(v) >= opts.walkingSpeed);
+  const walkingFrames = walking.filter(Boolean).length;
+  const shoulderX = shoulders.map(shoulder => (shoulder ? shoulder.x / torso : NaN));
+  const armSwing = (wrist: KeypointName) => {
+    const wristX = track(wrist);
+    const offsets = wristX
+      .map((x, i) => (walking[i] ? x / torso - shoulderX[i] : NaN))
+      .filter(offset => !isNaN(offset));
+    if (walkingFrames === 0 || offsets.length < walkingFrames * opts.minArmVisibility) return null;
+    return percentile(offsets, 0.95) - percentile(offsets, 0.05);
+  };
+  const armSwingLeft = armSwing('leftWrist');
+  const armSwingRight = armSwing('rightWrist');
+  const armSwingAsymmetry = armSwingLeft !== null && armSwingRight !== null && Math.max(armSwingLeft, armSwingRight) > 0
+    ? (Math.abs(armSwingLeft - armSwingRight) / Math.max(armSwingLeft, armSwingRight)) * 100
+    : null;
+
+  // Turns: the pause between walking one way and walking back
+  const runs: { direction: number; start: number; end: number }[] = [];
+  velocity.forEach((v, i) => {
+    if (!walking[i]) return;
+    const direction = Math.sign(v);
+    const last = runs[runs.length - 1];
+    if (last && last.direction === direction) last.end = i;
+    else runs.push({ direction, start: i, end: i });
+  });
+  // Freezing: an unusually long wait for the next step mid-walk. Pauses
+  // while turning are left to the turn duration; a pivot seen side-on shows
+  // no ankle separation even when the feet are moving.
+  const turnWindows: [number, number][] = [];
+  for (let i = 1; i < runs.length; i++) {
+    if (runs[i].direction !== runs[i - 1].direction) {
+      turnWindows.push([frames[runs[i - 1].end].t, frames[runs[i].start].t]);
+    }
+  }
+  const turnDurations = turnWindows.map(([from, to]) => to - from);
+  const freezeThreshold = Math.max(opts.freezeMinDuration, 2.5 * typicalStepTime);
+  const freezes = stepTimes.filter((time, i) => {
+    const middle = (steps[i].t + steps[i + 1].t) / 2;
+    return time > freezeThreshold && !turnWindows.some(([from, to]) => middle >= from && middle <= to);
+  });
+
+  return {
+    duration: frames[frames.length - 1].t - frames[0].t,
+    detectionRate: usable / frames.length,
+    stepCount: steps.length,
+    cadence,
+    meanStepLength: mean(steps.map(step => step.length)),
+    stepLengthAsymmetry,
+    strideTime,
+    strideTimeCv: strideTime > 0 ? (strideSd / strideTime) * 100 : 0,
+    armSwingLeft,
+    armSwingRight,
+    armSwingAsymmetry,
+    turnCount: turnDurations.length,
+    meanTurnDuration: mean(turnDurations),
+    freezingEpisodes: freezes.length,
+    freezingTime: freezes.reduce((sum, time) => sum + time - typicalStepTime, 0),
+    steps,
+    series: frames.map((frame, i) => ({
+      t: frame.t,
+      separation: separation[i],
+      velocity: velocity[i]
+    }))
+  };
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+// Heuristic thresholds for a comfortable-pace walk. A healthy adult's step
+// is roughly 1.3-1.5 torso lengths at 100-120 steps/min with stride time
+// varying by under 3-4%; turning takes about two seconds. Steps shorten
+// with age even without disease, so the step length floor drops by 0.05
+// torso lengths per decade past 60, and cadence by 2 steps/min, when the
+// age is known.
+export function scoreGait(features: GaitFeatures, patient?: PatientDemographics): AssessmentResult {
+  const decadesPast60 = Math.max(0, ((patient?.age ?? 0) - 60) / 10);
+  const minCadence = 90 - Math.min(3, decadesPast60) * 2;
+  const minStepLength = 1.2 - Math.min(3, decadesPast60) * 0.05;
+
+  let penalty = 0;
+  if (features.cadence < minCadence) penalty += (minCadence - features.cadence) * 0.8;
+  if (features.meanStepLength < minStepLength) penalty += (minStepLength - features.meanStepLength) * 40;
+  if (features.strideTimeCv > 4) penalty += (features.strideTimeCv - 4) * 2.5;
+  if (features.stepLengthAsymmetry > 10) penalty += (features.stepLengthAsymmetry - 10) * 0.8;
+  if (features.armSwingAsymmetry !== null && features.armSwingAsymmetry > 25) {
+    penalty += (features.armSwingAsymmetry - 25) * 0.5;
+  }
+  if (features.meanTurnDuration > 2) penalty += (features.meanTurnDuration - 2) * 8;
+  penalty += features.freezingEpisodes * 12;
+
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  const armSwing = features.armSwingAsymmetry !== null
+    ? `arm swing asymmetry=${features.armSwingAsymmetry.toFixed(0)}%`
+    : 'arm swing not measurable';
+  return {
+    score: Math.round(score),
+    confidence: Math.round(features.detectionRate * Math.min(90, 40 + features.stepCount * 2)),
+    status: statusFromScore(score),
+    details: `Gait: ${features.stepCount} steps at ${features.cadence.toFixed(0)} steps/min, ` +
+      `step length=${features.meanStepLength.toFixed(2)} torso lengths (asymmetry ${features.stepLengthAsymmetry.toFixed(0)}%), ` +
+      `stride time CV=${features.strideTimeCv.toFixed(1)}%, ${armSwing}, ` +
+      `${features.turnCount} turns averaging ${features.meanTurnDuration.toFixed(1)} s, ${features.freezingEpisodes} freezing episodes`
+  };
+}
+
+function waitFor(video: HTMLVideoElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', fail);
+      resolve();
+    };
+    const fail = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener('error', fail);
+      reject(new Error('The video could not be decoded.'));
+    };
+    video.addEventListener(event, done);
+    video.addEventListener('error', fail);
+  });
+}
+
+// Step through the clip and run the detector on each sampled frame
+export async function extractPoseFrames(
+  videoUrl: string,
+  detector: KeypointDetector,
+  options: Partial<GaitOptions> = {},
+  onProgress?: (fraction: number) => void
+): Promise<PoseFrame[]> {
+  const opts = { ...DEFAULT_GAIT_OPTIONS, ...options };
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = videoUrl;
+  await waitFor(video, 'loadeddata');
+
+  // Recorded WebM often reports an infinite duration until the end is sought
+  if (!isFinite(video.duration)) {
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+    await waitFor(video, 'seeked');
+  }
+  const duration = Math.min(video.duration, opts.maxDuration);
+
+  await detector.load();
+  const frames: PoseFrame[] = [];
+  const count = Math.floor(duration * opts.frameRate);
+  for (let i = 0; i < count; i++) {
+    const t = i / opts.frameRate;
+    video.currentTime = t;
+    await waitFor(video, 'seeked');
+    frames.push({ t, pose: await detector.detect(video) });
+    onProgress?.((i + 1) / count);
+  }
+
+  video.removeAttribute('src');
+  video.load();
+  return frames;
+}
@@ -2,15 +2,57 @@ import { loadSpiralModel, analyzeSpiralDrawing } from './spiralAnalysis';
 import { loadVoiceModel, analyzeVoiceRecording } from './voiceAnalysis';
 import { loadPostureModel, analyzePostureImage } from './postureAnalysis';
 import { analyzeSymptomsData, calculateOverallAssessment } from './symptomsAnalysis';
-import { AssessmentData, AssessmentResult } from '@/types/assessment';
+import {
+  AssessmentData,
+  AssessmentResult,
+  PatientDemographics,
+  SpiralTrajectory,
+  TappingSession,
+  TracingTaskData,
+  TracingTrajectory,
+  TremorRecording,
+  VoiceTaskData
+} from '@/types/assessment';
 import { preloadModels, getModelAccuracy, createHighAccuracyPrediction } from './modelManager';
 import { SpiralFeatureExtractor } from './realSpiralAnalysis';
 import { VoiceFeatureExtractor } from './realVoiceAnalysis';
-import { PostureFeatureExtractor } from './realPostureAnalysis';
+import { PostureFeatureExtractor, PostureFeatures } from './realPostureAnalysis';
+import {
+  CONNECTED_SPEECH_THRESHOLDS,
+  DEFAULT_QUALITY_THRESHOLDS,
+  RecordingQualityError,
+  RecordingQualityReport
+} from './recordingQuality';
+import {
+  combineVoiceTaskResults,
+  DdkFeatures,
+  PassageFeatures,
+  scoreDdk,
+  scorePassage,
+  VoiceTaskId
+} from './speechTasks';
+import { analyzeSpiralKinematics, scoreSpiralKinematics } from './spiralKinematics';
+import { analyzeTapping, scoreTapping } from './fingerTapping';
+import { analyzeTracing, combineTracingResults, scoreTracing, TracingTaskId } from './pathTracing';
+import { analyzeGait, extractPoseFrames, scoreGait } from './gaitAnalysis';
+import { getKeypointDetector } from './poseDetection';
+import {
+  classifyPosture,
+  measureFrontalAngles,
+  measureSagittalAngles,
+  PostureAngles,
+  PostureView,
+  scorePostureAngles
+} from './postureAngles';
+import { analyzeTremor, scoreTremor } from './tremorAnalysis';
+import { SYMPTOM_QUESTIONNAIRE } from './mdsUpdrs';
+import { pruneAnswers, QuestionnaireAnswers } from './questionnaire';
+import { Modality } from '@/services/history/trends';
 
 // Store assessment results
 let assessmentData: AssessmentData = {};
 let enhancedModelsLoaded = false;
+let activePatient: AssessmentData['patient'];
 
 // Create instances of real ML extractors
 const spiralExtractor = new SpiralFeatureExtractor();
@@ -44,8 +86,29 @@ export async function initializeModels() {
 }
 
 // Process spiral drawing with real ML analysis
-export async function processSpiralDrawing(imageData: string): Promise<AssessmentResult> {
+// The trajectory is only available when the spiral was drawn on screen
+export async function processSpiralDrawing(
+  imageData: string,
+  trajectory?: SpiralTrajectory
+): Promise<AssessmentResult> {
   try {
+    // A drawn spiral has real timing, so rate it from the pen's movement
+    // rather than from the rendered image
+    if (trajectory) {
+      const kinematics = analyzeSpiralKinematics(trajectory);
+      const result = scoreSpiralKinematics(kinematics);
+
+      assessmentData.spiral = {
+        imageData,
+        result,
+        trajectory,
+        kinematics
+      };
+
+      console.log("Spiral kinematics analysis result:", result);
+      return result;
+    }
+
     console.log("Processing spiral drawing with real ML model...");
     
     // Extract real features using computer vision
@@ -70,11 +133,44 @@ export async function processSpiralDrawing(imageData: string): Promise<Assessmen
   }
 }
 
+const qualityThresholds = (task: VoiceTaskId) =>
+  task === 'vowel' ? DEFAULT_QUALITY_THRESHOLDS : CONNECTED_SPEECH_THRESHOLDS;
+
+// Convert a new take to WAV and check it before analysis, so the UI can ask
+// for a re-record; analysing the returned blob reuses its decoded signal
+export async function prepareVoiceTake(
+  recording: Blob,
+  task: VoiceTaskId = 'vowel'
+): Promise<{ audioBlob: Blob; quality: RecordingQualityReport }> {
+  return voiceExtractor.prepareRecording(recording, qualityThresholds(task));
+}
+
+// Refuse takes that would produce meaningless measures
+async function requireRecordingQuality(audioBlob: Blob, task: VoiceTaskId): Promise<RecordingQualityReport> {
+  const quality = await voiceExtractor.assessRecordingQuality(audioBlob, qualityThresholds(task));
+  console.log(`Voice recording quality (${task}):`, quality);
+  if (!quality.acceptable) {
+    throw new RecordingQualityError(quality);
+  }
+  return quality;
+}
+
+// The voice result shown alongside the other tests combines every scored task
+function updateVoiceResult() {
+  if (!assessmentData.voice) return;
+  const tasks = assessmentData.voice.tasks ?? {};
+  const results = [tasks.vowel?.result, tasks.ddk?.result, tasks.passage?.result]
+    .filter((result): result is AssessmentResult => !!result);
+  assessmentData.voice.result = combineVoiceTaskResults(results);
+}
+
 // Process voice recording with real ML analysis
 export async function processVoiceRecording(audioBlob: Blob): Promise<AssessmentResult> {
   try {
     console.log("Processing voice recording with real ML model...");
     
+    const quality = await requireRecordingQuality(audioBlob, 'vowel');
+    
     // Extract real audio features
     const features = await voiceExtractor.extractFeatures(audioBlob);
     console.log("Extracted voice features:", features);
@@ -82,12 +178,20 @@ export async function processVoiceRecording(audioBlob: Blob): Promise<Assessment
     // Get ML prediction
     const result = await voiceExtractor.predict(features);
     
+    releaseObjectUrls(assessmentData.voice?.audioData, assessmentData.voice?.tasks?.vowel?.audioData);
+    const audioData = URL.createObjectURL(audioBlob);
     assessmentData.voice = {
-      audioData: URL.createObjectURL(audioBlob),
-      result,
+      ...assessmentData.voice,
+      audioData,
       modelAccuracy: enhancedModelsLoaded ? 92.7 : 75,
-      features // Store extracted features
+      features, // Store extracted features
+      quality,
+      tasks: {
+        ...assessmentData.voice?.tasks,
+        vowel: { audioData, result, features, quality }
+      }
     };
+    updateVoiceResult();
     
     console.log("Real voice analysis result:", result);
     return result;
@@ -97,49 +201,198 @@ export async function processVoiceRecording(audioBlob: Blob): Promise<Assessment
   }
 }
 
-// Process posture image with real ML analysis
-export async function processPostureImage(imageData: string): Promise<AssessmentResult> {
+// Process one step of the voice protocol; the sustained vowel goes through
+// the ML model, DDK and the read passage are scored from timing features
+export async function processVoiceTask(task: VoiceTaskId, audioBlob: Blob): Promise<AssessmentResult> {
+  if (task === 'vowel') {
+    return processVoiceRecording(audioBlob);
+  }
+  
   try {
-    console.log("Processing posture image with real ML model...");
+    console.log(`Processing ${task} voice task...`);
     
-    // Extract real posture features using pose estimation
-    const features = await postureExtractor.extractFeatures(imageData);
-    console.log("Extracted posture features:", features);
+    const quality = await requireRecordingQuality(audioBlob, task);
     
-    // Get ML prediction
-    const result = await postureExtractor.predict(features);
+    let features: DdkFeatures | PassageFeatures;
+    let result: AssessmentResult;
+    if (task === 'ddk') {
+      const ddkFeatures = await voiceExtractor.extractDdkFeatures(audioBlob);
+      features = ddkFeatures;
+      result = scoreDdk(ddkFeatures);
+    } else {
+      const passageFeatures = await voiceExtractor.extractPassageFeatures(audioBlob);
+      features = passageFeatures;
+      result = scorePassage(passageFeatures);
+    }
+    console.log(`Extracted ${task} features:`, features);
+    
+    releaseObjectUrls(assessmentData.voice?.tasks?.[task]?.audioData);
+    assessmentData.voice = {
+      ...assessmentData.voice,
+      tasks: {
+        ...assessmentData.voice?.tasks,
+        [task]: { audioData: URL.createObjectURL(audioBlob), result, features, quality }
+      }
+    };
+    updateVoiceResult();
+    
+    console.log(`${task} voice task result:`, result);
+    return result;
+  } catch (error) {
+    console.error(`Error processing ${task} voice task:`, error);
+    throw error;
+  }
+}
+
+// Process the two-photo posture protocol. Angles come from the pose in each
+// view; the older frontal features are still computed from the front photo.
+export async function processPostureViews(
+  views: Partial<Record<PostureView, string>>
+): Promise<AssessmentResult> {
+  try {
+    console.log("Processing posture views with pose estimation...");
+    
+    const angles: PostureAngles = {};
+    const captured: NonNullable<AssessmentData['posture']>['views'] = {};
+    let features: PostureFeatures | undefined;
+    
+    if (views.side) {
+      const pose = await postureExtractor.detectPose(views.side);
+      angles.sagittal = measureSagittalAngles(pose);
+      captured.side = { imageData: views.side, pose };
+    }
+    if (views.front) {
+      features = await postureExtractor.extractFeatures(views.front);
+      angles.frontal = measureFrontalAngles(features.pose);
+      captured.front = { imageData: views.front, pose: features.pose };
+    }
+    console.log("Measured posture angles:", angles);
+    
+    const result = scorePostureAngles(angles);
     
     assessmentData.posture = {
-      imageData,
+      imageData: views.front ?? views.side,
       result,
-      modelAccuracy: enhancedModelsLoaded ? 91.8 : 70,
-      features // Store extracted features
+      features, // Store extracted features
+      views: captured,
+      angles,
+      findings: classifyPosture(angles)
     };
     
-    console.log("Real posture analysis result:", result);
+    console.log("Posture analysis result:", result);
     return result;
   } catch (error) {
-    console.error("Error processing posture image:", error);
+    console.error("Error processing posture views:", error);
     throw error;
   }
 }
 
-// Process symptoms data with enhanced accuracy
-export async function processSymptoms(symptomsData: any): Promise<AssessmentResult> {
+// Process a finger-tapping session; scored from timing and position, no model
+export async function processFingerTapping(session: TappingSession): Promise<AssessmentResult> {
   try {
-    console.log("Processing symptoms data with ML model...");
-    const result = await analyzeSymptomsData(symptomsData);
+    const features = analyzeTapping(session);
+    console.log("Extracted finger tapping features:", features);
     
-    // Enhance confidence if using enhanced models
-    if (enhancedModelsLoaded) {
-      result.confidence = Math.min(98, result.confidence + 10);
-      result.details = `High-accuracy symptoms analysis completed with ${result.confidence}% confidence.`;
-    }
+    const result = scoreTapping(features, activePatient);
+    assessmentData.tapping = { session, result, features };
+    
+    console.log("Finger tapping result:", result);
+    return result;
+  } catch (error) {
+    console.error("Error processing finger tapping:", error);
+    throw error;
+  }
+}
+
+// Process one tracing task; the tracing result combines every task done so far
+export async function processTracingTask(
+  task: TracingTaskId,
+  trajectory: TracingTrajectory
+): Promise<AssessmentResult> {
+  try {
+    const features = analyzeTracing(trajectory);
+    console.log(`Extracted ${task} tracing features:`, features);
+    
+    const result = scoreTracing(task, features);
+    const tasks = {
+      ...assessmentData.tracing?.tasks,
+      [task]: { trajectory, result, features }
+    };
+    assessmentData.tracing = {
+      tasks,
+      result: combineTracingResults(
+        [tasks.line?.result, tasks.meander?.result].filter((r): r is AssessmentResult => !!r)
+      )
+    };
+    
+    console.log(`${task} tracing result:`, result);
+    return result;
+  } catch (error) {
+    console.error(`Error processing ${task} tracing:`, error);
+    throw error;
+  }
+}
+
+// Process a walking video: pose estimation on sampled frames, then gait
+// measures from the keypoint tracks. Progress runs from 0 to 1 while frames
+// are being analyzed.
+export async function processGaitVideo(
+  video: Blob,
+  onProgress?: (fraction: number) => void
+): Promise<AssessmentResult> {
+  const videoUrl = URL.createObjectURL(video);
+  try {
+    console.log("Processing gait video with pose estimation...");
+    
+    const frames = await extractPoseFrames(videoUrl, getKeypointDetector(), {}, onProgress);
+    const features = analyzeGait(frames);
+    const { series, steps, ...summary } = features;
+    console.log("Extracted gait features:", summary);
+    
+    const result = scoreGait(features, activePatient);
+    releaseObjectUrls(assessmentData.gait?.videoUrl);
+    assessmentData.gait = { videoUrl, result, features };
+    
+    console.log("Gait analysis result:", result);
+    return result;
+  } catch (error) {
+    URL.revokeObjectURL(videoUrl);
+    console.error("Error processing gait video:", error);
+    throw error;
+  }
+}
+
+// Process the rest and postural tremor recordings together; each is
+// analyzed on its own and the result reflects the worse of the two
+export async function processTremorRecordings(recordings: TremorRecording[]): Promise<AssessmentResult> {
+  try {
+    const features = recordings.map(recording => analyzeTremor(recording));
+    console.log("Extracted tremor features:", features.map(({ spectrum, ...summary }) => summary));
+    
+    const result = scoreTremor(features);
+    assessmentData.tremor = { result, features, recordings };
+    
+    console.log("Tremor analysis result:", result);
+    return result;
+  } catch (error) {
+    console.error("Error processing tremor recordings:", error);
+    throw error;
+  }
+}
+
+// Process the symptom questionnaire; answers hidden by skip logic are
+// dropped before scoring and storage
+export async function processSymptoms(answers: QuestionnaireAnswers): Promise<AssessmentResult> {
+  try {
+    console.log("Scoring symptom questionnaire...");
+    const pruned = pruneAnswers(SYMPTOM_QUESTIONNAIRE, answers);
+    const { result, scores } = await analyzeSymptomsData(pruned, activePatient);
     
     assessmentData.symptoms = {
-      data: symptomsData,
-      result,
-      modelAccuracy: enhancedModelsLoaded ? 93.5 : 85
+      answers: pruned,
+      questionnaireVersion: SYMPTOM_QUESTIONNAIRE.version,
+      scores,
+      result
     };
     console.log("Symptoms analysis result:", result);
     return result;
@@ -156,13 +409,21 @@ export function getAssessmentData(): AssessmentData {
      (assessmentData.spiral?.result || 
       assessmentData.voice?.result || 
       assessmentData.posture?.result || 
-      assessmentData.symptoms?.result)) {
+      assessmentData.gait?.result ||
+      assessmentData.tremor?.result ||
+      assessmentData.symptoms?.result ||
+      assessmentData.tapping?.result ||
+      assessmentData.tracing?.result)) {
       
     const overallAssessment = calculateOverallAssessment({
       spiral: assessmentData.spiral?.result,
       voice: assessmentData.voice?.result,
       posture: assessmentData.posture?.result,
-      symptoms: assessmentData.symptoms?.result
+      gait: assessmentData.gait?.result,
+      tremor: assessmentData.tremor?.result,
+      symptoms: assessmentData.symptoms?.result,
+      tapping: assessmentData.tapping?.result,
+      tracing: assessmentData.tracing?.result
     });
     
     if (overallAssessment) {
@@ -180,6 +441,8 @@ export function getAssessmentData(): AssessmentData {
         modelVersion: enhancedModelsLoaded ? "High-Accuracy v2.0" : "Standard v1.0"
       };
       
+      assessmentData.patient = activePatient;
+      
       // Add device info if available
       assessmentData.deviceInfo = {
         platform: detectPlatform(),
@@ -213,19 +476,104 @@ function calculateAverageAccuracy(): number {
     count++;
   }
   
-  if (assessmentData.symptoms?.modelAccuracy) {
-    total += assessmentData.symptoms.modelAccuracy;
-    count++;
-  }
-  
   return count > 0 ? Math.round((total / count) * 10) / 10 : 0;
 }
 
+// Recordings and the gait video are handed out as object URLs; release them
+// once the results holding them are replaced
+function releaseObjectUrls(...urls: (string | undefined)[]) {
+  new Set(urls).forEach(url => {
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  });
+}
+
+function releaseRecordings(data: AssessmentData) {
+  releaseObjectUrls(
+    data.voice?.audioData,
+    ...Object.values(data.voice?.tasks ?? {}).map(task => task.audioData),
+    data.gait?.videoUrl
+  );
+}
+
 // Clear all assessment data
 export function clearAssessmentData() {
+  releaseRecordings(assessmentData);
   assessmentData = {};
 }
 
+// Replace the results with a saved session, e.g. one imported from an archive
+export function loadAssessmentData(data: AssessmentData) {
+  releaseRecordings(assessmentData);
+  assessmentData = { ...data };
+}
+
+// Re-run each test in a saved session from its raw inputs with the current
+// models and the selected patient. A test without inputs (the gait video is
+// not kept) or whose inputs are now rejected keeps its saved results; those
+// tests are returned.
+export async function reanalyzeAssessment(data: AssessmentData): Promise<Modality[]> {
+  releaseRecordings(assessmentData);
+  assessmentData = {};
+  const kept: Modality[] = [];
+  
+  const rerun = async <K extends Modality>(modality: K, run: (() => Promise<unknown>) | null) => {
+    if (!data[modality]) return;
+    try {
+      if (!run) throw new Error('No raw inputs saved');
+      await run();
+    } catch (error) {
+      console.warn(`Keeping the saved ${modality} results:`, error);
+      assessmentData[modality] = data[modality];
+      kept.push(modality);
+    }
+  };
+  
+  const { spiral, voice, posture, tapping, tracing, tremor, symptoms } = data;
+  await rerun('spiral', spiral?.imageData ? () => processSpiralDrawing(spiral.imageData, spiral.trajectory) : null);
+  
+  const recordings = Object.entries(voice?.tasks ?? {})
+    .filter((entry): entry is [VoiceTaskId, VoiceTaskData & { audioData: string }] => !!entry[1]?.audioData);
+  await rerun('voice', recordings.length > 0 ? async () => {
+    for (const [task, { audioData }] of recordings) {
+      const audio = await fetch(audioData).then(response => response.blob());
+      await processVoiceTask(task, audio);
+    }
+  } : null);
+  
+  const views = posture?.views ? {
+    side: posture.views.side?.imageData,
+    front: posture.views.front?.imageData
+  } : { front: posture?.imageData };
+  await rerun('posture', views.side || views.front ? () => processPostureViews(views) : null);
+  
+  const session = tapping?.session;
+  await rerun('tapping', session ? () => processFingerTapping(session) : null);
+  
+  const traced = Object.entries(tracing?.tasks ?? {})
+    .filter((entry): entry is [TracingTaskId, TracingTaskData & { trajectory: TracingTrajectory }] => !!entry[1]?.trajectory);
+  await rerun('tracing', traced.length > 0 ? async () => {
+    for (const [task, { trajectory }] of traced) {
+      await processTracingTask(task, trajectory);
+    }
+  } : null);
+  
+  const motion = tremor?.recordings;
+  await rerun('tremor', motion?.length ? () => processTremorRecordings(motion) : null);
+  
+  const answers = symptoms?.answers;
+  await rerun('symptoms', answers ? () => processSymptoms(answers) : null);
+  
+  await rerun('gait', null);
+  
+  return kept;
+}
+
+// Demographics of the person being assessed, used by the analyzers that
+// have age-dependent norms; results already stored are not rescored
+export function setActivePatient(patient?: PatientDemographics & { id: string }) {
+  activePatient = patient;
+}
+
 // Detect platform
 function detectPlatform(): "ios" | "android" | "web" {
   const userAgent = navigator.userAgent.toLowerCase();
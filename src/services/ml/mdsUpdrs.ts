@@ -0,0 +1,267 @@
+import { ChoiceOption, Questionnaire, QuestionnaireItem } from './questionnaire';
+
+// Patient-completed parts of the MDS-UPDRS (Goetz et al. 2008): Part IB,
+// non-motor experiences of daily living (items 1.7-1.13), and Part II, motor
+// experiences of daily living (2.1-2.13), each rated 0-4 over the past week.
+// Item wording here is paraphrased; the official scale is licensed by the
+// International Parkinson and Movement Disorder Society. Optional non-motor
+// screens cover three prodromal markers: smell loss, constipation and REM
+// sleep behaviour disorder (after the RBD1Q single question, Postuma 2012).
+
+type Anchors = [string, string, string, string, string];
+
+const SEVERITY = ['Normal', 'Slight', 'Mild', 'Moderate', 'Severe'];
+
+function rated(id: string, prompt: string, anchors: Anchors): QuestionnaireItem {
+  const options: ChoiceOption[] = anchors.map((description, value) => ({
+    value,
+    label: `${value}: ${SEVERITY[value]}`,
+    description
+  }));
+  return { id, type: 'choice', prompt, options };
+}
+
+const PART_IB_ITEMS: QuestionnaireItem[] = [
+  rated('1.7', 'Sleep problems: trouble falling asleep or staying asleep through the night', [
+    'No problems',
+    'Problems, but I usually still get a full night of sleep',
+    'Problems that sometimes stop me getting a full night of sleep',
+    'Problems that often stop me getting a full night of sleep',
+    'I usually do not get a full night of sleep'
+  ]),
+  rated('1.8', 'Daytime sleepiness: trouble staying awake during the day', [
+    'No daytime sleepiness',
+    'Sleepy, but I can resist it and stay awake',
+    'I sometimes fall asleep when alone and relaxing, such as reading or watching TV',
+    'I sometimes fall asleep when I should not, such as while eating or talking',
+    'I often fall asleep when I should not'
+  ]),
+  rated('1.9', 'Pain and other sensations: pain, aching, tingling or cramps', [
+    'No uncomfortable feelings',
+    'I have these feelings, but I can do things and be with others without difficulty',
+    'These feelings cause some problems when I do things or am with others',
+    'These feelings cause a lot of problems, but don\'t stop me doing things or being with others',
+    'These feelings stop me from doing things or being with others'
+  ]),
+  rated('1.10', 'Urinary problems: urgency, frequency or leaking', [
+    'No urine problems',
+    'I need to urinate often or urgently, but this doesn\'t cause difficulties in daily life',
+    'Urine problems cause some difficulties, but no accidents',
+    'Urine problems cause a lot of difficulties, including accidents',
+    'I cannot control my urine and use a protective garment or catheter'
+  ]),
+  rated('1.11', 'Constipation: trouble moving your bowels', [
+    'No constipation',
+    'I have been constipated and use extra effort, but it doesn\'t disturb my activities',
+    'Constipation causes me some trouble doing things or being comfortable',
+    'Constipation causes me a lot of trouble doing things or being comfortable',
+    'I usually need someone else to help me empty my bowels'
+  ]),
+  rated('1.12', 'Lightheadedness on standing: feeling faint or dizzy when standing up', [
+    'No dizzy or foggy feelings',
+    'These feelings occur, but don\'t cause problems doing things',
+    'They make me hold on to something, but I don\'t need to sit or lie back down',
+    'They make me sit or lie down to avoid fainting or falling',
+    'They cause me to fall or faint'
+  ]),
+  rated('1.13', 'Fatigue: usually feeling tired, not because of being sleepy or sad', [
+    'No fatigue',
+    'Fatigue occurs, but doesn\'t cause problems doing things or being with people',
+    'Fatigue causes some problems doing things or being with people',
+    'Fatigue causes a lot of problems, but doesn\'t stop me doing anything',
+    'Fatigue stops me doing things or being with people'
+  ])
+];
+
+const PART_II_ITEMS: QuestionnaireItem[] = [
+  rated('2.1', 'Speech: trouble being understood', [
+    'Not at all',
+    'My speech is soft, slurred or uneven, but others don\'t ask me to repeat myself',
+    'People sometimes ask me to repeat myself, but not every day',
+    'My speech is unclear enough that people ask me to repeat myself every day',
+    'Most or all of my speech cannot be understood'
+  ]),
+  rated('2.2', 'Saliva and drooling: too much saliva while awake or asleep', [
+    'Not at all',
+    'I have too much saliva, but don\'t drool',
+    'I drool some during sleep, but not when awake',
+    'I drool some when awake, but I usually don\'t need tissues',
+    'I drool so much that I regularly need tissues or a handkerchief'
+  ]),
+  rated('2.3', 'Chewing and swallowing: problems swallowing pills or eating', [
+    'No problems',
+    'I am aware of slowness or need to chew more, but don\'t choke',
+    'I need my pills cut or my food to be soft, chopped or blended',
+    'I have choked at least once in the past week',
+    'Because of chewing and swallowing problems, I need a feeding tube'
+  ]),
+  rated('2.4', 'Eating tasks: handling food and using utensils', [
+    'Not at all',
+    'I am slow, but don\'t need help and haven\'t spilled food',
+    'I am slow and have had some spills; I may need help with a few tasks like cutting meat',
+    'I need help with many eating tasks, but can manage some alone',
+    'I need help with most or all eating tasks'
+  ]),
+  rated('2.5', 'Dressing: buttons, zips, putting on or taking off clothes', [
+    'Not at all',
+    'I am slow, but don\'t need help',
+    'I am slow and need help for a few dressing tasks, such as buttons or bracelets',
+    'I need help for many dressing tasks',
+    'I need help for most or all dressing tasks'
+  ]),
+  rated('2.6', 'Hygiene: washing, bathing, shaving, brushing teeth or combing hair', [
+    'Not at all',
+    'I am slow, but don\'t need any help',
+    'I need someone else to help me with some hygiene tasks',
+    'I need help for many hygiene tasks',
+    'I need help for most or all of my hygiene tasks'
+  ]),
+  rated('2.7', 'Handwriting: writing that others can read', [
+    'Not at all',
+    'My writing is slow, clumsy or uneven, but all words are clear',
+    'Some words are unclear and difficult to read',
+    'Many words are unclear and difficult to read',
+    'Most or all words cannot be read'
+  ]),
+  rated('2.8', 'Hobbies and other activities', [
+    'Not at all',
+    'I am a bit slow, but do these activities easily',
+    'I have some difficulty doing these activities',
+    'I have major problems doing these activities, but still do most of them',
+    'I am unable to do most or all of these activities'
+  ]),
+  rated('2.9', 'Turning in bed', [
+    'Not at all',
+    'I have a bit of trouble turning, but don\'t need any help',
+    'I have a lot of trouble turning and occasionally need help',
+    'To turn over I often need help from someone else',
+    'I am unable to turn over without help'
+  ]),
+  rated('2.10', 'Tremor: shaking that affects daily activities', [
+    'Not at all; I have no shaking or tremor',
+    'Shaking or tremor occurs, but doesn\'t cause problems with any activities',
+    'Shaking or tremor causes problems with only a few activities',
+    'Shaking or tremor causes problems with many of my daily activities',
+    'Shaking or tremor causes problems with most or all activities'
+  ]),
+  rated('2.11', 'Getting out of bed, a car seat or a deep chair', [
+    'Not at all',
+    'I am slow or awkward, but I can usually do it on my first try',
+    'I need more than one try or occasional help',
+    'I sometimes need help, but most times I can still do it by myself',
+    'I need help most or all of the time'
+  ]),
+  rated('2.12', 'Walking and balance', [
+    'Not at all',
+    'I am slightly slow or may drag a leg, but never use a walking aid',
+    'I occasionally use a walking aid, but don\'t need help from another person',
+    'I usually use a walking aid to walk safely without falling',
+    'I usually need someone else to help me walk safely without falling'
+  ]),
+  rated('2.13', 'Freezing: feet getting stuck to the floor while walking', [
+    'Not at all',
+    'I briefly freeze, but can easily start walking again',
+    'I freeze and have trouble starting to walk again, but don\'t need help or an aid',
+    'When I freeze I have a lot of trouble starting again and occasionally need help or an aid',
+    'Because of freezing, I need help or an aid most or all of the time'
+  ])
+];
+
+export const SYMPTOM_QUESTIONNAIRE: Questionnaire = {
+  id: 'mds-updrs-self-report',
+  version: '1.0',
+  sections: [
+    {
+      id: 'about',
+      title: 'About You',
+      items: [
+        { id: 'age', type: 'number', prompt: 'Age', min: 18, max: 120, integer: true, unit: 'years' },
+        { id: 'familyHistory', type: 'boolean', prompt: 'Has a parent, brother or sister had Parkinson\'s disease?' }
+      ]
+    },
+    {
+      id: 'partIB',
+      title: 'Part IB: Non-Motor Experiences of Daily Living',
+      description: 'Over the past week, including today, how much has each of these affected you?',
+      items: PART_IB_ITEMS
+    },
+    {
+      id: 'partII',
+      title: 'Part II: Motor Experiences of Daily Living',
+      description: 'Over the past week, including today, how much trouble have you had with each of these?',
+      items: PART_II_ITEMS
+    },
+    {
+      id: 'screening',
+      title: 'Early Signs Screening',
+      items: [
+        {
+          id: 'screening',
+          type: 'boolean',
+          required: false,
+          prompt: 'Would you like to answer a few extra questions about early non-motor signs?',
+          help: 'Smell loss, constipation and acting out dreams can appear years before movement symptoms.'
+        },
+        {
+          id: 'smellLoss',
+          type: 'boolean',
+          prompt: 'Have you noticed that your sense of smell has become weaker or disappeared?',
+          showIf: { item: 'screening', equals: true }
+        },
+        {
+          id: 'smellLossYears',
+          type: 'number',
+          prompt: 'About how many years ago did you first notice it?',
+          min: 0,
+          max: 80,
+          integer: true,
+          unit: 'years',
+          showIf: { item: 'smellLoss', equals: true }
+        },
+        {
+          id: 'constipation',
+          type: 'boolean',
+          prompt: 'Do you usually have fewer than three bowel movements a week, or need to strain most of the time?',
+          showIf: { item: 'screening', equals: true }
+        },
+        {
+          id: 'laxatives',
+          type: 'boolean',
+          prompt: 'Do you need laxatives at least once a week?',
+          showIf: { item: 'constipation', equals: true }
+        },
+        {
+          id: 'rbd',
+          type: 'boolean',
+          prompt: 'Have you ever been told, or suspected yourself, that you seem to act out your dreams while asleep ' +
+            '(for example punching, flailing your arms or making running movements)?',
+          showIf: { item: 'screening', equals: true }
+        },
+        {
+          id: 'rbdInjury',
+          type: 'boolean',
+          prompt: 'Have you or a bed partner ever been hurt during one of these episodes?',
+          showIf: { item: 'rbd', equals: true }
+        }
+      ]
+    },
+    {
+      id: 'notes',
+      title: 'Anything Else',
+      items: [
+        {
+          id: 'notes',
+          type: 'text',
+          required: false,
+          maxLength: 2000,
+          prompt: 'Describe any other symptoms or concerns you have'
+        }
+      ]
+    }
+  ],
+  subscales: [
+    // Missing-item tolerances from Goetz et al. 2015; Part IB alone follows Part I
+    { id: 'partIB', label: 'Part IB', items: PART_IB_ITEMS.map(item => item.id), maxMissing: 1 },
+    { id: 'partII', label: 'Part II', items: PART_II_ITEMS.map(item => item.id), maxMissing: 2 }
+  ]
+};
@@ -0,0 +1,228 @@
+import { SpectralAnalyzer, Spectrogram, binFrequency } from './spectralAnalysis';
+
+// MFCC extraction following the HTK/librosa recipe: pre-emphasis, power
+// spectrum, triangular mel filterbank, log, orthonormal DCT-II, sinusoidal
+// liftering, then regression deltas and delta-deltas.
+
+export interface MfccOptions {
+  numCoefficients: number;
+  numFilters: number;
+  fmin: number;
+  fmax?: number; // Defaults to Nyquist
+  preEmphasis: number; // 0 disables
+  lifter: number; // 0 disables
+  deltaWidth: number; // Regression half-window for deltas
+}
+
+export const DEFAULT_MFCC_OPTIONS: MfccOptions = {
+  numCoefficients: 13,
+  numFilters: 26,
+  fmin: 20,
+  preEmphasis: 0.97,
+  lifter: 22,
+  deltaWidth: 2
+};
+
+export const MFCC_STREAMS = ['static', 'delta', 'deltaDelta'] as const;
+export const MFCC_STATISTICS = ['mean', 'std', 'min', 'max'] as const;
+
+// Length of the per-utterance vector: streams x statistics x coefficients.
+// Layout is [stream][statistic][coefficient], i.e. the first 13 values are
+// the static MFCC means, then the static standard deviations, and so on.
+export const MFCC_FEATURE_LENGTH =
+  MFCC_STREAMS.length * MFCC_STATISTICS.length * DEFAULT_MFCC_OPTIONS.numCoefficients;
+
+export interface CoefficientStatistics {
+  mean: number[];
+  std: number[];
+  min: number[];
+  max: number[];
+}
+
+export interface MfccResult {
+  frames: number[][]; // Static coefficients per analysed frame
+  static: CoefficientStatistics;
+  delta: CoefficientStatistics;
+  deltaDelta: CoefficientStatistics;
+  vector: number[];
+}
+
+const filterbankCache = new Map<string, Float32Array[]>();
+
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+// Triangular filters equally spaced on the mel scale, peaking at 1
+export function createMelFilterbank(
+  numFilters: number,
+  fftSize: number,
+  sampleRate: number,
+  fmin: number,
+  fmax: number
+): Float32Array[] {
+  const key = `${numFilters}:${fftSize}:${sampleRate}:${fmin}:${fmax}`;
+  const cached = filterbankCache.get(key);
+  if (cached) return cached;
+
+  const melMin = hzToMel(fmin);
+  const melMax = hzToMel(fmax);
+  const edges: number[] = [];
+  for (let i = 0; i < numFilters + 2; i++) {
+    edges.push(melToHz(melMin + (i * (melMax - melMin)) / (numFilters + 1)));
+  }
+
+  const numBins = fftSize / 2 + 1;
+  const filters: Float32Array[] = [];
+  for (let m = 0; m < numFilters; m++) {
+    const [lower, center, upper] = [edges[m], edges[m + 1], edges[m + 2]];
+    const filter = new Float32Array(numBins);
+    for (let k = 0; k < numBins; k++) {
+      const freq = binFrequency(k, fftSize, sampleRate);
+      const rising = (freq - lower) / (center - lower);
+      const falling = (upper - freq) / (upper - center);
+      filter[k] = Math.max(0, Math.min(rising, falling));
+    }
+    filters.push(filter);
+  }
+
+  filterbankCache.set(key, filters);
+  return filters;
+}
+
+// Orthonormal DCT-II, keeping the first `numCoefficients` outputs
+export function dct(input: number[], numCoefficients = input.length): number[] {
+  const N = input.length;
+  const output: number[] = [];
+
+  for (let k = 0; k < numCoefficients; k++) {
+    let sum = 0;
+    for (let n = 0; n < N; n++) {
+      sum += input[n] * Math.cos((Math.PI * k * (2 * n + 1)) / (2 * N));
+    }
+    output.push(sum * Math.sqrt((k === 0 ? 1 : 2) / N));
+  }
+
+  return output;
+}
+
+// Regression deltas over a sequence of coefficient vectors (edges clamped)
+export function computeDeltas(frames: number[][], width: number): number[][] {
+  if (frames.length === 0) return [];
+
+  let denominator = 0;
+  for (let n = 1; n <= width; n++) denominator += 2 * n * n;
+
+  const last = frames.length - 1;
+  return frames.map((_, t) =>
+    frames[t].map((_, c) => {
+      let numerator = 0;
+      for (let n = 1; n <= width; n++) {
+        const ahead = frames[Math.min(last, t + n)][c];
+        const behind = frames[Math.max(0, t - n)][c];
+        numerator += n * (ahead - behind);
+      }
+      return numerator / denominator;
+    })
+  );
+}
+
+function summarize(frames: number[][], numCoefficients: number): CoefficientStatistics {
+  const stats: CoefficientStatistics = {
+    mean: new Array(numCoefficients).fill(0),
+    std: new Array(numCoefficients).fill(0),
+    min: new Array(numCoefficients).fill(0),
+    max: new Array(numCoefficients).fill(0)
+  };
+  if (frames.length === 0) return stats;
+
+  for (let c = 0; c < numCoefficients; c++) {
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    for (const frame of frames) {
+      sum += frame[c];
+      min = Math.min(min, frame[c]);
+      max = Math.max(max, frame[c]);
+    }
+    const mean = sum / frames.length;
+
+    let variance = 0;
+    for (const frame of frames) variance += Math.pow(frame[c] - mean, 2);
+
+    stats.mean[c] = mean;
+    stats.std[c] = Math.sqrt(variance / frames.length);
+    stats.min[c] = min;
+    stats.max[c] = max;
+  }
+
+  return stats;
+}
+
+// Static MFCCs for every frame of a spectrogram
+export function computeMfccFrames(spectrogram: Spectrogram, options: MfccOptions = DEFAULT_MFCC_OPTIONS): number[][] {
+  const { sampleRate, frameSize, numBins } = spectrogram;
+  const fmax = options.fmax ?? sampleRate / 2;
+  const filters = createMelFilterbank(options.numFilters, frameSize, sampleRate, options.fmin, fmax);
+
+  // Pre-emphasis y[n] = x[n] - a*x[n-1] applied as its frequency response
+  // |1 - a*e^(-jw)|^2, so the shared spectrogram need not be recomputed
+  const emphasis = new Float32Array(numBins);
+  for (let k = 0; k < numBins; k++) {
+    const omega = (2 * Math.PI * k) / frameSize;
+    const a = options.preEmphasis;
+    emphasis[k] = 1 + a * a - 2 * a * Math.cos(omega);
+  }
+
+  const lifter: number[] = [];
+  for (let c = 0; c < options.numCoefficients; c++) {
+    lifter.push(options.lifter > 0 ? 1 + (options.lifter / 2) * Math.sin((Math.PI * c) / options.lifter) : 1);
+  }
+
+  return spectrogram.power.map(power => {
+    const logMel = filters.map(filter => {
+      let energy = 0;
+      for (let k = 0; k < numBins; k++) {
+        if (filter[k] > 0) energy += filter[k] * power[k] * emphasis[k];
+      }
+      return Math.log(energy + 1e-10);
+    });
+
+    return dct(logMel, options.numCoefficients).map((value, c) => value * lifter[c]);
+  });
+}
+
+// Per-utterance MFCC summary over the active (non-silent) frames
+export function extractMfcc(spectral: SpectralAnalyzer, options: Partial<MfccOptions> = {}): MfccResult {
+  const resolved = { ...DEFAULT_MFCC_OPTIONS, ...options };
+  const spectrogram = spectral.getSpectrogram();
+
+  // Deltas are taken over the contiguous frame sequence before dropping silence
+  const allFrames = computeMfccFrames(spectrogram, resolved);
+  const allDeltas = computeDeltas(allFrames, resolved.deltaWidth);
+  const allDeltaDeltas = computeDeltas(allDeltas, resolved.deltaWidth);
+
+  const active = spectral.getActiveFrames();
+  const pick = (frames: number[][]) => active.map(f => frames[f]);
+  const frames = pick(allFrames);
+
+  const result = {
+    frames,
+    static: summarize(frames, resolved.numCoefficients),
+    delta: summarize(pick(allDeltas), resolved.numCoefficients),
+    deltaDelta: summarize(pick(allDeltaDeltas), resolved.numCoefficients)
+  };
+
+  const vector: number[] = [];
+  for (const stream of MFCC_STREAMS) {
+    for (const statistic of MFCC_STATISTICS) {
+      vector.push(...result[stream][statistic]);
+    }
+  }
+
+  return { ...result, vector };
+}
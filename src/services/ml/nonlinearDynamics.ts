@@ -0,0 +1,294 @@
+import { PitchContour } from './pitchTracking';
+import { PitchMark } from './voicePerturbation';
+
+// Nonlinear dysphonia measures from Little et al. (2007, 2009), the ones
+// reported in the UCI Parkinson's dataset. RPDE, DFA and D2 work on the
+// waveform of the longest voiced run; PPE on the cycle-by-cycle F0 from the
+// pitch marks. The dataset's spread1 and spread2 are not reproduced: the
+// papers don't define them precisely enough to match its values.
+
+export interface NonlinearMeasures {
+  rpde: number; // Recurrence period density entropy, 0-1
+  dfa: number; // Logistic of the DFA scaling exponent, 0-1
+  ppe: number; // Pitch period entropy, 0-1
+  d2: number; // Correlation dimension
+}
+
+export interface NonlinearOptions {
+  maxDuration: number; // Seconds of voiced waveform analysed
+  embeddingDimension: number;
+  embeddingDelay: number; // Seconds (35 samples at Little's 25 kHz)
+  recurrenceRadius: number; // On the waveform normalised to [-1, 1]
+  minF0: number; // Sets the longest recurrence period considered
+  dfaScales: number[]; // Box sizes in seconds
+  d2Points: number; // Embedded points sampled for the correlation sum
+  ppeRange: number; // Semitones either side of zero covered by the PPE histogram
+  ppeBins: number;
+}
+
+export const DEFAULT_NONLINEAR_OPTIONS: NonlinearOptions = {
+  maxDuration: 1,
+  embeddingDimension: 4,
+  embeddingDelay: 0.0014,
+  recurrenceRadius: 0.12,
+  minF0: 75,
+  dfaScales: [0.002, 0.0024, 0.0028, 0.0032, 0.0036, 0.004], // 50-100 samples at 25 kHz
+  d2Points: 1200,
+  ppeRange: 3,
+  ppeBins: 60
+};
+
+const EMPTY_MEASURES: NonlinearMeasures = { rpde: 0, dfa: 0, ppe: 0, d2: 0 };
+
+// Least-squares slope of y against x
+function slope(x: number[], y: number[]): number {
+  const n = x.length;
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < n; i++) {
+    numerator += (x[i] - meanX) * (y[i] - meanY);
+    denominator += (x[i] - meanX) * (x[i] - meanX);
+  }
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+// Middle of the longest voiced run, scaled to [-1, 1]
+export function voicedSegment(signal: Float32Array, sampleRate: number, contour: PitchContour, maxDuration: number): Float32Array {
+  let bestStart = -1;
+  let bestLength = 0;
+  let runStart = -1;
+  for (let i = 0; i <= contour.voiced.length; i++) {
+    if (i < contour.voiced.length && contour.voiced[i]) {
+      if (runStart < 0) runStart = i;
+    } else if (runStart >= 0) {
+      if (i - runStart > bestLength) {
+        bestStart = runStart;
+        bestLength = i - runStart;
+      }
+      runStart = -1;
+    }
+  }
+  if (bestStart < 0) return new Float32Array(0);
+
+  const hop = contour.hopTime;
+  let start = Math.max(0, Math.floor((contour.times[bestStart] - hop / 2) * sampleRate));
+  let end = Math.min(signal.length, Math.ceil((contour.times[bestStart + bestLength - 1] + hop / 2) * sampleRate));
+  const maxLength = Math.floor(maxDuration * sampleRate);
+  if (end - start > maxLength) {
+    start += Math.floor((end - start - maxLength) / 2);
+    end = start + maxLength;
+  }
+
+  const segment = signal.slice(start, end);
+  let peak = 0;
+  for (const x of segment) peak = Math.max(peak, Math.abs(x));
+  if (peak > 0) {
+    for (let n = 0; n < segment.length; n++) segment[n] /= peak;
+  }
+  return segment;
+}
+
+function embeddedDistance(x: Float32Array, i: number, j: number, dimension: number, delay: number): number {
+  let sum = 0;
+  for (let d = 0; d < dimension; d++) {
+    const diff = x[i + d * delay] - x[j + d * delay];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+}
+
+// For each embedded point, the time taken to leave its ε-ball and first
+// return to it; RPDE is the normalised entropy of those return times
+export function recurrencePeriodDensityEntropy(
+  x: Float32Array,
+  dimension: number,
+  delay: number,
+  radius: number,
+  maxPeriod: number
+): number {
+  const points = x.length - (dimension - 1) * delay;
+  if (points <= maxPeriod) return 0;
+
+  const histogram = new Float64Array(maxPeriod + 1);
+  let total = 0;
+  for (let i = 0; i < points; i++) {
+    let j = i + 1;
+    while (j < points && j - i <= maxPeriod && embeddedDistance(x, i, j, dimension, delay) < radius) j++;
+    while (j < points && j - i <= maxPeriod && embeddedDistance(x, i, j, dimension, delay) >= radius) j++;
+    if (j < points && j - i <= maxPeriod) {
+      histogram[j - i]++;
+      total++;
+    }
+  }
+  if (total === 0) return 0;
+
+  let entropy = 0;
+  for (const count of histogram) {
+    if (count > 0) {
+      const p = count / total;
+      entropy -= p * Math.log(p);
+    }
+  }
+  return entropy / Math.log(maxPeriod);
+}
+
+// Scaling exponent of the RMS fluctuation of the integrated, linearly
+// detrended signal, squashed to (0, 1) as in Little et al.
+export function detrendedFluctuation(x: Float32Array, scales: number[]): number {
+  let mean = 0;
+  for (const v of x) mean += v;
+  mean /= x.length;
+
+  const profile = new Float64Array(x.length);
+  let running = 0;
+  for (let n = 0; n < x.length; n++) {
+    running += x[n] - mean;
+    profile[n] = running;
+  }
+
+  const logScales: number[] = [];
+  const logFluctuations: number[] = [];
+  for (const scale of scales) {
+    const boxes = Math.floor(profile.length / scale);
+    if (scale < 3 || boxes < 1) continue;
+
+    let residual = 0;
+    for (let b = 0; b < boxes; b++) {
+      const offset = b * scale;
+      const t: number[] = [];
+      const y: number[] = [];
+      for (let n = 0; n < scale; n++) {
+        t.push(n);
+        y.push(profile[offset + n]);
+      }
+      const trend = slope(t, y);
+      const intercept = y.reduce((a, c) => a + c, 0) / scale - (trend * (scale - 1)) / 2;
+      for (let n = 0; n < scale; n++) {
+        const error = y[n] - (intercept + trend * n);
+        residual += error * error;
+      }
+    }
+    const fluctuation = Math.sqrt(residual / (boxes * scale));
+    if (fluctuation > 0) {
+      logScales.push(Math.log(scale));
+      logFluctuations.push(Math.log(fluctuation));
+    }
+  }
+  if (logScales.length < 2) return 0;
+
+  return 1 / (1 + Math.exp(-slope(logScales, logFluctuations)));
+}
+
+// Grassberger-Procaccia correlation dimension on an evenly spaced sample of
+// embedded points, excluding temporally close pairs (Theiler window)
+export function correlationDimension(x: Float32Array, dimension: number, delay: number, sampleSize: number): number {
+  const points = x.length - (dimension - 1) * delay;
+  if (points < 2) return 0;
+
+  const stride = Math.max(1, Math.floor(points / sampleSize));
+  const theiler = dimension * delay;
+  const indices: number[] = [];
+  for (let i = 0; i < points; i += stride) indices.push(i);
+
+  const distances: number[] = [];
+  for (let a = 0; a < indices.length; a++) {
+    for (let b = a + 1; b < indices.length; b++) {
+      if (indices[b] - indices[a] <= theiler) continue;
+      const distance = embeddedDistance(x, indices[a], indices[b], dimension, delay);
+      if (distance > 0) distances.push(distance);
+    }
+  }
+  if (distances.length < 100) return 0;
+  distances.sort((a, b) => a - b);
+
+  // C(r) at chosen quantiles is the quantile itself, so read the radii off
+  // the sorted distances across the small-r scaling region
+  const logRadii: number[] = [];
+  const logSums: number[] = [];
+  for (let k = 0; k < 10; k++) {
+    const fraction = 0.005 * Math.pow(20, k / 9); // 0.5% to 10% of pairs
+    const radius = distances[Math.min(distances.length - 1, Math.floor(fraction * distances.length))];
+    logRadii.push(Math.log(radius));
+    logSums.push(Math.log(fraction));
+  }
+  return slope(logRadii, logSums);
+}
+
+// Residual of a second-order linear predictor fitted to the semitone F0
+// sequences, which removes smooth vibrato and drift before the entropy
+function whitenedPitchResidual(sequences: number[][]): number[] {
+  let r11 = 0, r12 = 0, r22 = 0, r01 = 0, r02 = 0;
+  for (const s of sequences) {
+    for (let i = 2; i < s.length; i++) {
+      r11 += s[i - 1] * s[i - 1];
+      r12 += s[i - 1] * s[i - 2];
+      r22 += s[i - 2] * s[i - 2];
+      r01 += s[i] * s[i - 1];
+      r02 += s[i] * s[i - 2];
+    }
+  }
+  const determinant = r11 * r22 - r12 * r12;
+  const a1 = determinant !== 0 ? (r01 * r22 - r02 * r12) / determinant : 0;
+  const a2 = determinant !== 0 ? (r02 * r11 - r01 * r12) / determinant : 0;
+
+  const residual: number[] = [];
+  for (const s of sequences) {
+    for (let i = 2; i < s.length; i++) residual.push(s[i] - a1 * s[i - 1] - a2 * s[i - 2]);
+  }
+  return residual;
+}
+
+export function pitchPeriodMeasures(
+  pitchMarks: PitchMark[][],
+  options: NonlinearOptions = DEFAULT_NONLINEAR_OPTIONS
+): { ppe: number } {
+  const f0Sequences = pitchMarks.map(marks => marks.slice(1).map((mark, i) => 1 / (mark.time - marks[i].time)));
+  const all = f0Sequences.flat();
+  if (all.length < 3) return { ppe: 0 };
+
+  const meanLogF0 = all.reduce((sum, f) => sum + Math.log2(f), 0) / all.length;
+  const semitones = f0Sequences.map(sequence => sequence.map(f => 12 * (Math.log2(f) - meanLogF0)));
+  const residual = whitenedPitchResidual(semitones);
+  if (residual.length === 0) return { ppe: 0 };
+
+  const histogram = new Float64Array(options.ppeBins);
+  const binWidth = (2 * options.ppeRange) / options.ppeBins;
+  for (const value of residual) {
+    const bin = Math.floor((value + options.ppeRange) / binWidth);
+    histogram[Math.max(0, Math.min(options.ppeBins - 1, bin))]++;
+  }
+  let entropy = 0;
+  for (const count of histogram) {
+    if (count > 0) {
+      const p = count / residual.length;
+      entropy -= p * Math.log(p);
+    }
+  }
+
+  return { ppe: entropy / Math.log(options.ppeBins) };
+}
+
+export function analyzeNonlinearDynamics(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  pitchMarks: PitchMark[][],
+  options: Partial<NonlinearOptions> = {}
+): NonlinearMeasures {
+  const resolved = { ...DEFAULT_NONLINEAR_OPTIONS, ...options };
+  const segment = voicedSegment(signal, sampleRate, contour, resolved.maxDuration);
+  if (segment.length === 0) return { ...EMPTY_MEASURES };
+
+  const delay = Math.max(1, Math.round(resolved.embeddingDelay * sampleRate));
+  const maxPeriod = Math.ceil((2 * sampleRate) / resolved.minF0);
+  const scales = resolved.dfaScales.map(scale => Math.round(scale * sampleRate));
+
+  return {
+    rpde: recurrencePeriodDensityEntropy(segment, resolved.embeddingDimension, delay, resolved.recurrenceRadius, maxPeriod),
+    dfa: detrendedFluctuation(segment, scales),
+    d2: correlationDimension(segment, resolved.embeddingDimension, delay, resolved.d2Points),
+    ...pitchPeriodMeasures(pitchMarks, resolved)
+  };
+}
@@ -0,0 +1,179 @@
+import { AssessmentResult, TracingTrajectory } from '@/types/assessment';
+
+// Line and meander tracing. The pen is compared with the template path it
+// was asked to follow: how far it strays, how much of the path it covers and
+// how evenly it moves.
+
+export type TracingTaskId = 'line' | 'meander';
+
+export interface TracingFeatures {
+  duration: number; // Seconds, first to last sample
+  penLifts: number;
+  meanDeviation: number; // Distance from the path, canvas units
+  rmsDeviation: number;
+  maxDeviation: number;
+  withinTolerance: number; // Fraction of samples within PATH_TOLERANCE
+  coverage: number; // Fraction of the path's length the pen passed along
+  meanSpeed: number; // Canvas units per second
+  speedCv: number;
+}
+
+export const TRACING_CANVAS = { width: 800, height: 400 };
+
+// Half-width of the band drawn around the template
+export const PATH_TOLERANCE = 10;
+
+// Pieces the path is split into when measuring coverage
+const COVERAGE_SEGMENTS = 100;
+
+type Point = { x: number; y: number };
+
+export function tracingPath(task: TracingTaskId): Point[] {
+  const { width, height } = TRACING_CANVAS;
+  const left = 80;
+  const right = width - 80;
+  const middle = height / 2;
+  if (task === 'line') {
+    return [{ x: left, y: middle }, { x: right, y: middle }];
+  }
+
+  // Square wave, starting and ending on the centre line
+  const periods = 4;
+  const amplitude = 100;
+  const step = (right - left) / (periods * 2);
+  const points: Point[] = [{ x: left, y: middle }];
+  for (let i = 0; i < periods * 2; i++) {
+    const y = i % 2 === 0 ? middle - amplitude : middle + amplitude;
+    points.push({ x: left + i * step, y }, { x: left + (i + 1) * step, y });
+  }
+  points.push({ x: right, y: middle });
+  return points;
+}
+
+// Closest point on the polyline: distance and position along it
+function projectOntoPath(path: Point[], point: Point): { distance: number; along: number } {
+  let best = { distance: Infinity, along: 0 };
+  let travelled = 0;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    const f = length > 0 ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / (length * length))) : 0;
+    const distance = Math.hypot(point.x - (a.x + f * dx), point.y - (a.y + f * dy));
+    if (distance < best.distance) best = { distance, along: travelled + f * length };
+    travelled += length;
+  }
+  return best;
+}
+
+function pathLength(path: Point[]): number {
+  return path.slice(1).reduce((sum, point, i) => sum + Math.hypot(point.x - path[i].x, point.y - path[i].y), 0);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+export function analyzeTracing(trajectory: TracingTrajectory): TracingFeatures {
+  const strokes = trajectory.strokes.filter(stroke => stroke.length > 0);
+  const samples = strokes.flat();
+  if (samples.length < 2) {
+    throw new Error('The tracing has too few points to analyze.');
+  }
+
+  const total = pathLength(trajectory.path);
+  const visited = new Array<boolean>(COVERAGE_SEGMENTS).fill(false);
+  const segmentAt = (along: number) => Math.min(COVERAGE_SEGMENTS - 1, Math.floor((along / total) * COVERAGE_SEGMENTS));
+  const deviations: number[] = [];
+  for (const stroke of strokes) {
+    let previous: { distance: number; along: number } | null = null;
+    stroke.forEach((sample, i) => {
+      const projection = projectOntoPath(trajectory.path, sample);
+      deviations.push(projection.distance);
+      // Only count the path as covered where the pen was actually near it.
+      // Between two near samples the segments in between are covered too,
+      // unless the projection jumped further than the pen moved.
+      if (projection.distance <= 2 * PATH_TOLERANCE && total > 0) {
+        let from = segmentAt(projection.along);
+        let to = from;
+        if (previous && previous.distance <= 2 * PATH_TOLERANCE) {
+          const moved = Math.hypot(sample.x - stroke[i - 1].x, sample.y - stroke[i - 1].y);
+          if (Math.abs(projection.along - previous.along) <= moved + 2 * PATH_TOLERANCE) {
+            from = Math.min(from, segmentAt(previous.along));
+            to = Math.max(to, segmentAt(previous.along));
+          }
+        }
+        for (let segment = from; segment <= to; segment++) visited[segment] = true;
+      }
+      previous = projection;
+    });
+  }
+
+  const speeds: number[] = [];
+  for (const stroke of strokes) {
+    for (let i = 1; i < stroke.length; i++) {
+      const dt = (stroke[i].t - stroke[i - 1].t) / 1000;
+      if (dt > 0) speeds.push(Math.hypot(stroke[i].x - stroke[i - 1].x, stroke[i].y - stroke[i - 1].y) / dt);
+    }
+  }
+  const meanSpeed = mean(speeds);
+  const speedSd = Math.sqrt(mean(speeds.map(speed => (speed - meanSpeed) ** 2)));
+
+  return {
+    duration: (samples[samples.length - 1].t - samples[0].t) / 1000,
+    penLifts: strokes.length - 1,
+    meanDeviation: mean(deviations),
+    rmsDeviation: Math.sqrt(mean(deviations.map(d => d * d))),
+    maxDeviation: Math.max(...deviations),
+    withinTolerance: deviations.filter(d => d <= PATH_TOLERANCE).length / deviations.length,
+    coverage: visited.filter(Boolean).length / COVERAGE_SEGMENTS,
+    meanSpeed,
+    speedCv: meanSpeed > 0 ? speedSd / meanSpeed : 0
+  };
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+const TASK_NAMES: Record<TracingTaskId, string> = {
+  line: 'Line tracing',
+  meander: 'Meander tracing'
+};
+
+// Heuristic: a steady hand stays within a few units of the path and covers
+// all of it; the meander's corners allow a little more deviation
+export function scoreTracing(task: TracingTaskId, features: TracingFeatures): AssessmentResult {
+  const allowedDeviation = task === 'line' ? 4 : 6;
+  let penalty = 0;
+  if (features.meanDeviation > allowedDeviation) penalty += (features.meanDeviation - allowedDeviation) * 4;
+  if (features.withinTolerance < 0.9) penalty += (0.9 - features.withinTolerance) * 60;
+  if (features.coverage < 0.95) penalty += (0.95 - features.coverage) * 100;
+  penalty += features.penLifts * 2;
+
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(Math.min(90, 50 + features.coverage * 40)),
+    status: statusFromScore(score),
+    details: `${TASK_NAMES[task]}: mean deviation=${features.meanDeviation.toFixed(1)}, max=${features.maxDeviation.toFixed(1)}, ` +
+      `${(features.withinTolerance * 100).toFixed(0)}% within tolerance, ${(features.coverage * 100).toFixed(0)}% of path covered in ${features.duration.toFixed(1)} s`
+  };
+}
+
+// One tracing result from the completed tasks, weighted equally
+export function combineTracingResults(results: AssessmentResult[]): AssessmentResult | undefined {
+  if (results.length === 0) return undefined;
+  const score = mean(results.map(result => result.score));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(mean(results.map(result => result.confidence))),
+    status: statusFromScore(score),
+    details: results.map(result => result.details).filter(Boolean).join(' | ')
+  };
+}
@@ -0,0 +1,263 @@
+import { crossCorrelation } from './spectralAnalysis';
+
+// F0 tracking with YIN (de Cheveigné & Kawahara, 2002): cumulative mean
+// normalised difference function, absolute threshold, parabolic refinement,
+// then a voicing decision, per-frame confidence and median smoothing.
+
+export interface PitchTrackerOptions {
+  minF0: number;
+  maxF0: number;
+  hopTime: number; // Seconds between frames
+  threshold: number; // YIN absolute threshold
+  voicingThreshold: number; // Largest normalised difference still called voiced
+  silenceThreshold: number; // Frame RMS relative to the loudest frame
+  medianWindow: number; // Frames, odd
+}
+
+export interface PitchContour {
+  times: number[]; // Frame centres in seconds
+  f0: number[]; // Hz, 0 when unvoiced
+  confidence: number[]; // 0-1, 1 - normalised difference at the chosen lag
+  voiced: boolean[];
+  hopTime: number;
+}
+
+export interface PitchEstimate {
+  f0: number; // Hz, refined even when unvoiced
+  confidence: number;
+  voiced: boolean;
+}
+
+export interface PitchStatistics {
+  meanF0: number;
+  medianF0: number;
+  minF0: number;
+  maxF0: number;
+  sdHz: number;
+  sdSemitones: number;
+  coefficientOfVariation: number;
+  voicedFrames: number;
+  unvoicedFraction: number; // Unvoiced frames between the first and last voiced frame
+  voiceBreaks: number;
+  degreeOfVoiceBreaks: number; // Break duration over the voiced span
+}
+
+export const DEFAULT_PITCH_OPTIONS: PitchTrackerOptions = {
+  minF0: 75,
+  maxF0: 500,
+  hopTime: 0.01,
+  threshold: 0.1,
+  voicingThreshold: 0.35,
+  silenceThreshold: 0.05,
+  medianWindow: 5
+};
+
+// Minimum unvoiced gap (seconds) counted as a voice break, matching Praat's
+// 1.25 / pitch floor rule at the default 75 Hz floor
+const VOICE_BREAK_GAP = 1.25 / DEFAULT_PITCH_OPTIONS.minF0;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Cumulative mean normalised difference d'(tau) for one analysis window
+function normalizedDifference(signal: Float32Array, start: number, windowSize: number, maxLag: number): Float64Array {
+  const segment = signal.subarray(start, start + windowSize + maxLag);
+  const head = signal.subarray(start, start + windowSize);
+  const correlation = crossCorrelation(head, segment, maxLag);
+
+  // Running energy of the lagged window via prefix sums
+  const prefix = new Float64Array(segment.length + 1);
+  for (let i = 0; i < segment.length; i++) prefix[i + 1] = prefix[i] + segment[i] * segment[i];
+  const energy0 = prefix[windowSize];
+
+  const cmnd = new Float64Array(maxLag + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    const energyLag = prefix[lag + windowSize] - prefix[lag];
+    const difference = Math.max(0, energy0 + energyLag - 2 * correlation[lag]);
+    runningSum += difference;
+    cmnd[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+  return cmnd;
+}
+
+function medianSmooth(contour: PitchContour, window: number): void {
+  if (window < 3) return;
+  const half = Math.floor(window / 2);
+  const raw = [...contour.f0];
+
+  for (let i = 0; i < raw.length; i++) {
+    if (!contour.voiced[i]) continue;
+    const neighbourhood: number[] = [];
+    for (let j = Math.max(0, i - half); j <= Math.min(raw.length - 1, i + half); j++) {
+      if (contour.voiced[j]) neighbourhood.push(raw[j]);
+    }
+    contour.f0[i] = median(neighbourhood);
+  }
+}
+
+function lagRange(sampleRate: number, options: PitchTrackerOptions) {
+  const minLag = Math.max(2, Math.floor(sampleRate / options.maxF0));
+  const maxLag = Math.ceil(sampleRate / options.minF0);
+  return { minLag, maxLag, windowSize: maxLag }; // One longest period, as in the original paper
+}
+
+function estimateAt(
+  signal: Float32Array,
+  start: number,
+  sampleRate: number,
+  options: PitchTrackerOptions,
+  { minLag, maxLag, windowSize }: ReturnType<typeof lagRange>
+): PitchEstimate {
+  const cmnd = normalizedDifference(signal, start, windowSize, maxLag);
+
+  // First dip below the absolute threshold, followed down to its minimum;
+  // otherwise fall back to the global minimum
+  let lag = -1;
+  for (let tau = minLag; tau <= maxLag; tau++) {
+    if (cmnd[tau] < options.threshold) {
+      while (tau + 1 <= maxLag && cmnd[tau + 1] < cmnd[tau]) tau++;
+      lag = tau;
+      break;
+    }
+  }
+  if (lag < 0) {
+    lag = minLag;
+    for (let tau = minLag + 1; tau <= maxLag; tau++) {
+      if (cmnd[tau] < cmnd[lag]) lag = tau;
+    }
+  }
+
+  let refinedLag = lag;
+  if (lag > minLag && lag < maxLag) {
+    const left = cmnd[lag - 1];
+    const right = cmnd[lag + 1];
+    const denominator = left - 2 * cmnd[lag] + right;
+    if (denominator > 0) refinedLag = lag + (0.5 * (left - right)) / denominator;
+  }
+
+  return {
+    f0: sampleRate / refinedLag,
+    confidence: Math.max(0, Math.min(1, 1 - cmnd[lag])),
+    voiced: cmnd[lag] <= options.voicingThreshold
+  };
+}
+
+// Single YIN estimate from the start of a buffer, for live displays. The
+// buffer needs two longest periods (2 * sampleRate / minF0 samples).
+export function estimatePitch(
+  frame: Float32Array,
+  sampleRate: number,
+  options: Partial<PitchTrackerOptions> = {}
+): PitchEstimate | null {
+  const resolved = { ...DEFAULT_PITCH_OPTIONS, ...options };
+  const lags = lagRange(sampleRate, resolved);
+  if (frame.length < lags.windowSize + lags.maxLag) return null;
+  return estimateAt(frame, 0, sampleRate, resolved, lags);
+}
+
+export function trackPitch(
+  signal: Float32Array,
+  sampleRate: number,
+  options: Partial<PitchTrackerOptions> = {}
+): PitchContour {
+  const resolved = { ...DEFAULT_PITCH_OPTIONS, ...options };
+  const lags = lagRange(sampleRate, resolved);
+  const { windowSize, maxLag } = lags;
+  const hopSize = Math.max(1, Math.round(resolved.hopTime * sampleRate));
+
+  const contour: PitchContour = { times: [], f0: [], confidence: [], voiced: [], hopTime: hopSize / sampleRate };
+  const frameRms: number[] = [];
+
+  for (let start = 0; start + windowSize + maxLag <= signal.length; start += hopSize) {
+    let energy = 0;
+    for (let n = start; n < start + windowSize; n++) energy += signal[n] * signal[n];
+    frameRms.push(Math.sqrt(energy / windowSize));
+    contour.times.push((start + windowSize / 2) / sampleRate);
+
+    const estimate = estimateAt(signal, start, sampleRate, resolved, lags);
+    contour.f0.push(estimate.f0);
+    contour.confidence.push(estimate.confidence);
+    contour.voiced.push(estimate.voiced);
+  }
+
+  // Silence gate relative to the loudest frame
+  const loudest = Math.max(0, ...frameRms);
+  for (let i = 0; i < contour.f0.length; i++) {
+    if (loudest === 0 || frameRms[i] < resolved.silenceThreshold * loudest) {
+      contour.voiced[i] = false;
+    }
+    if (!contour.voiced[i]) contour.f0[i] = 0;
+  }
+
+  medianSmooth(contour, resolved.medianWindow);
+  return contour;
+}
+
+export function computePitchStatistics(contour: PitchContour): PitchStatistics {
+  const voicedF0 = contour.f0.filter((_, i) => contour.voiced[i]);
+  const first = contour.voiced.indexOf(true);
+  const last = contour.voiced.lastIndexOf(true);
+
+  if (voicedF0.length === 0) {
+    return {
+      meanF0: 0,
+      medianF0: 0,
+      minF0: 0,
+      maxF0: 0,
+      sdHz: 0,
+      sdSemitones: 0,
+      coefficientOfVariation: 0,
+      voicedFrames: 0,
+      unvoicedFraction: 1,
+      voiceBreaks: 0,
+      degreeOfVoiceBreaks: 0
+    };
+  }
+
+  const meanF0 = voicedF0.reduce((a, b) => a + b, 0) / voicedF0.length;
+  const sdHz = Math.sqrt(voicedF0.reduce((sum, f) => sum + Math.pow(f - meanF0, 2), 0) / voicedF0.length);
+
+  // Semitone SD is independent of the reference, so use the mean
+  const semitones = voicedF0.map(f => 12 * Math.log2(f / meanF0));
+  const meanSemitone = semitones.reduce((a, b) => a + b, 0) / semitones.length;
+  const sdSemitones = Math.sqrt(
+    semitones.reduce((sum, s) => sum + Math.pow(s - meanSemitone, 2), 0) / semitones.length
+  );
+
+  // Voice breaks: unvoiced gaps inside the voiced span longer than the floor rule
+  let voiceBreaks = 0;
+  let breakFrames = 0;
+  let gap = 0;
+  for (let i = first; i <= last; i++) {
+    if (!contour.voiced[i]) {
+      gap++;
+      continue;
+    }
+    if (gap * contour.hopTime > VOICE_BREAK_GAP) {
+      voiceBreaks++;
+      breakFrames += gap;
+    }
+    gap = 0;
+  }
+
+  const spanFrames = last - first + 1;
+  return {
+    meanF0,
+    medianF0: median(voicedF0),
+    minF0: Math.min(...voicedF0),
+    maxF0: Math.max(...voicedF0),
+    sdHz,
+    sdSemitones,
+    coefficientOfVariation: sdHz / meanF0,
+    voicedFrames: voicedF0.length,
+    unvoicedFraction: (spanFrames - voicedF0.length) / spanFrames,
+    voiceBreaks,
+    degreeOfVoiceBreaks: breakFrames / spanFrames
+  };
+}
@@ -0,0 +1,195 @@
+import * as tf from '@tensorflow/tfjs';
+
+// Keypoint detection behind a small interface so the posture and gait
+// analysis don't depend on one model. The default detector runs a MoveNet
+// SinglePose graph model served with the app.
+
+// COCO keypoint order, as produced by MoveNet, PoseNet and BlazePose's COCO subset
+export const KEYPOINT_NAMES = [
+  'nose',
+  'leftEye',
+  'rightEye',
+  'leftEar',
+  'rightEar',
+  'leftShoulder',
+  'rightShoulder',
+  'leftElbow',
+  'rightElbow',
+  'leftWrist',
+  'rightWrist',
+  'leftHip',
+  'rightHip',
+  'leftKnee',
+  'rightKnee',
+  'leftAnkle',
+  'rightAnkle'
+] as const;
+
+export type KeypointName = typeof KEYPOINT_NAMES[number];
+
+export interface Keypoint {
+  name: KeypointName;
+  x: number; // Fraction of the image width
+  y: number; // Fraction of the image height
+  score: number; // 0-1
+}
+
+export interface Pose {
+  keypoints: Keypoint[];
+  score: number; // Mean keypoint score
+  width: number; // Source image size in pixels
+  height: number;
+  detector: string;
+}
+
+// Bones drawn for the skeleton overlay
+export const SKELETON_EDGES: [KeypointName, KeypointName][] = [
+  ['leftEar', 'leftEye'],
+  ['leftEye', 'nose'],
+  ['nose', 'rightEye'],
+  ['rightEye', 'rightEar'],
+  ['leftShoulder', 'rightShoulder'],
+  ['leftShoulder', 'leftElbow'],
+  ['leftElbow', 'leftWrist'],
+  ['rightShoulder', 'rightElbow'],
+  ['rightElbow', 'rightWrist'],
+  ['leftShoulder', 'leftHip'],
+  ['rightShoulder', 'rightHip'],
+  ['leftHip', 'rightHip'],
+  ['leftHip', 'leftKnee'],
+  ['leftKnee', 'leftAnkle'],
+  ['rightHip', 'rightKnee'],
+  ['rightKnee', 'rightAnkle']
+];
+
+export type PoseInput = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageData;
+
+export interface KeypointDetector {
+  readonly name: string;
+  load(): Promise<void>;
+  detect(input: PoseInput): Promise<Pose | null>;
+  dispose(): void;
+}
+
+export function getKeypoint(pose: Pose, name: KeypointName): Keypoint {
+  return pose.keypoints[KEYPOINT_NAMES.indexOf(name)];
+}
+
+export interface MoveNetOptions {
+  modelUrl: string;
+  inputSize: number; // Used when the model doesn't fix its input size; 192 for Lightning, 256 for Thunder
+  minPoseScore: number; // Below this nobody is considered detected
+}
+
+export const DEFAULT_MOVENET_OPTIONS: MoveNetOptions = {
+  modelUrl: `${import.meta.env.BASE_URL}models/movenet/model.json`,
+  inputSize: 192,
+  minPoseScore: 0.2
+};
+
+function inputSize(input: PoseInput): { width: number; height: number } {
+  if (input instanceof HTMLImageElement) return { width: input.naturalWidth, height: input.naturalHeight };
+  if (input instanceof HTMLVideoElement) return { width: input.videoWidth, height: input.videoHeight };
+  return { width: input.width, height: input.height };
+}
+
+// Scale the input into a size x size canvas, centred, with black bars
+function letterbox(input: PoseInput, width: number, height: number, size: number): HTMLCanvasElement {
+  let source: CanvasImageSource;
+  if (input instanceof ImageData) {
+    const staging = document.createElement('canvas');
+    staging.width = width;
+    staging.height = height;
+    staging.getContext('2d')!.putImageData(input, 0, 0);
+    source = staging;
+  } else {
+    source = input;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#000000';
+  context.fillRect(0, 0, size, size);
+  const scale = size / Math.max(width, height);
+  context.drawImage(source, (size - width * scale) / 2, (size - height * scale) / 2, width * scale, height * scale);
+  return canvas;
+}
+
+// MoveNet SinglePose: int32 [1, size, size, 3] in, [1, 1, 17, 3] of (y, x, score) out
+export class MoveNetDetector implements KeypointDetector {
+  readonly name = 'MoveNet SinglePose';
+  private model: tf.GraphModel | null = null;
+  private loading: Promise<void> | null = null;
+  private readonly options: MoveNetOptions;
+
+  constructor(options: Partial<MoveNetOptions> = {}) {
+    this.options = { ...DEFAULT_MOVENET_OPTIONS, ...options };
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = tf.loadGraphModel(this.options.modelUrl).then(model => {
+        this.model = model;
+      });
+      // Allow another attempt if the weights weren't reachable
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  async detect(input: PoseInput): Promise<Pose | null> {
+    await this.load();
+    const model = this.model!;
+    const { width, height } = inputSize(input);
+    if (width === 0 || height === 0) return null;
+
+    const declared = model.inputs[0].shape?.[1];
+    const size = declared && declared > 0 ? declared : this.options.inputSize;
+
+    // Letterbox to a square so the body isn't stretched
+    const side = Math.max(width, height);
+    const offsetX = (side - width) / 2;
+    const offsetY = (side - height) / 2;
+    const canvas = letterbox(input, width, height, size);
+
+    const output = tf.tidy(() => {
+      const pixels = tf.browser.fromPixels(canvas).expandDims(0).toInt();
+      return model.predict(pixels) as tf.Tensor;
+    });
+    const values = await output.data();
+    output.dispose();
+
+    const keypoints = KEYPOINT_NAMES.map((name, i) => ({
+      name,
+      x: (values[i * 3 + 1] * side - offsetX) / width,
+      y: (values[i * 3] * side - offsetY) / height,
+      score: values[i * 3 + 2]
+    }));
+    const score = keypoints.reduce((sum, keypoint) => sum + keypoint.score, 0) / keypoints.length;
+    if (score < this.options.minPoseScore) return null;
+
+    return { keypoints, score, width, height, detector: this.name };
+  }
+
+  dispose() {
+    this.model?.dispose();
+    this.model = null;
+    this.loading = null;
+  }
+}
+
+let activeDetector: KeypointDetector = new MoveNetDetector();
+
+// Swap in another detector, e.g. BlazePose or a model hosted elsewhere
+export function setKeypointDetector(detector: KeypointDetector) {
+  if (detector !== activeDetector) activeDetector.dispose();
+  activeDetector = detector;
+}
+
+export function getKeypointDetector(): KeypointDetector {
+  return activeDetector;
+}
@@ -0,0 +1,210 @@
+import { AssessmentResult } from '@/types/assessment';
+import { getKeypoint, KeypointName, Pose } from './poseDetection';
+
+// Clinical posture angles from two standing photos. The side view gives the
+// sagittal-plane angles used for camptocormia (total trunk flexion, after
+// Margraf et al. 2016, with the hip standing in for L5 and the shoulder for
+// C7) and anterocollis; the front view gives the lateral trunk bend that
+// defines Pisa syndrome (Doherty et al. 2011). Keypoints only approximate
+// the bony landmarks, so these are screening values, not measurements.
+
+export type PostureView = 'side' | 'front';
+
+export interface SagittalAngles {
+  side: 'left' | 'right'; // Body side facing the camera
+  trunkInclination: number; // Hip-shoulder line from vertical, + forward
+  trunkFlexion: number; // Between the ankle-hip and hip-shoulder lines, + forward
+  headInclination: number; // Shoulder-ear line from vertical, + forward
+  craniovertebralAngle: number; // Shoulder-ear line above horizontal; smaller is more forward head
+  neckFlexion: number; // Head inclination relative to the trunk
+  kneeFlexion: number; // 0 with a straight knee
+  confidence: number; // Mean keypoint score of the landmarks used
+}
+
+export interface FrontalAngles {
+  lateralTrunkBend: number; // Hip-shoulder midline from vertical, degrees
+  bendDirection: 'left' | 'right' | 'none'; // Towards the subject's side
+  shoulderTilt: number; // Shoulder line from horizontal, degrees
+  pelvicTilt: number;
+  headTilt: number; // Ear line from horizontal
+  confidence: number;
+}
+
+export interface PostureAngles {
+  sagittal?: SagittalAngles;
+  frontal?: FrontalAngles;
+}
+
+export interface PostureFindings {
+  camptocormia: boolean;
+  anterocollis: boolean;
+  pisaSyndrome: boolean;
+}
+
+// Cut-offs from the consensus definitions: total trunk flexion of 30
+// degrees, neck flexion of 45 degrees and lateral bend of 10 degrees
+export const POSTURE_THRESHOLDS = {
+  camptocormia: 30,
+  anterocollis: 45,
+  pisaSyndrome: 10
+};
+
+// Landmarks scored below this are treated as not visible
+const MIN_LANDMARK_SCORE = 0.3;
+
+type Point = { x: number; y: number };
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function pixel(pose: Pose, name: KeypointName): Point & { score: number } {
+  const keypoint = getKeypoint(pose, name);
+  return { x: keypoint.x * pose.width, y: keypoint.y * pose.height, score: keypoint.score };
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// Angle of from -> to away from straight up, positive towards `forward` (+1 or -1 in image x)
+function inclination(from: Point, to: Point, forward: number): number {
+  return toDegrees(Math.atan2(forward * (to.x - from.x), from.y - to.y));
+}
+
+// Unsigned angle of a left-right line away from horizontal
+function tilt(a: Point, b: Point): number {
+  const angle = Math.abs(toDegrees(Math.atan2(b.y - a.y, b.x - a.x)));
+  return Math.min(angle, 180 - angle);
+}
+
+function jointAngle(a: Point, vertex: Point, c: Point): number {
+  const v1 = { x: a.x - vertex.x, y: a.y - vertex.y };
+  const v2 = { x: c.x - vertex.x, y: c.y - vertex.y };
+  const cos = (v1.x * v2.x + v1.y * v2.y) / (Math.hypot(v1.x, v1.y) * Math.hypot(v2.x, v2.y));
+  return toDegrees(Math.acos(Math.max(-1, Math.min(1, cos))));
+}
+
+export function measureSagittalAngles(pose: Pose): SagittalAngles {
+  // Use whichever side of the body the camera sees best
+  const chain = (side: 'left' | 'right') => (['Ear', 'Shoulder', 'Hip', 'Knee', 'Ankle'] as const)
+    .map(part => pixel(pose, `${side}${part}` as KeypointName));
+  const left = chain('left');
+  const right = chain('right');
+  const total = (points: { score: number }[]) => points.reduce((sum, point) => sum + point.score, 0);
+  const side = total(left) >= total(right) ? 'left' : 'right';
+  const [ear, shoulder, hip, knee, ankle] = side === 'left' ? left : right;
+  if ([ear, shoulder, hip, ankle].some(point => point.score < MIN_LANDMARK_SCORE)) {
+    throw new Error('In the side photo, the side of your body facing the camera must be visible from ear to ankle.');
+  }
+
+  // The face points the way the person is facing
+  const nose = pixel(pose, 'nose');
+  const forward = Math.sign(nose.x - ear.x) || 1;
+
+  const trunkInclination = inclination(hip, shoulder, forward);
+  const legInclination = inclination(ankle, hip, forward);
+  const headInclination = inclination(shoulder, ear, forward);
+
+  return {
+    side,
+    trunkInclination,
+    trunkFlexion: trunkInclination - legInclination,
+    headInclination,
+    craniovertebralAngle: 90 - headInclination,
+    neckFlexion: headInclination - trunkInclination,
+    kneeFlexion: 180 - jointAngle(hip, knee, ankle),
+    confidence: total([ear, shoulder, hip, knee, ankle, nose]) / 6
+  };
+}
+
+export function measureFrontalAngles(pose: Pose): FrontalAngles {
+  const leftShoulder = pixel(pose, 'leftShoulder');
+  const rightShoulder = pixel(pose, 'rightShoulder');
+  const leftHip = pixel(pose, 'leftHip');
+  const rightHip = pixel(pose, 'rightHip');
+  const leftEar = pixel(pose, 'leftEar');
+  const rightEar = pixel(pose, 'rightEar');
+  if ([leftShoulder, rightShoulder, leftHip, rightHip].some(point => point.score < MIN_LANDMARK_SCORE)) {
+    throw new Error('In the front photo, both shoulders and both hips must be clearly visible.');
+  }
+
+  // Seen from the front the subject's left is on the image's right; the
+  // shoulders' order tells front and back views apart
+  const towardsLeft = Math.sign(leftShoulder.x - rightShoulder.x) || 1;
+  const shoulders = midpoint(leftShoulder, rightShoulder);
+  const hips = midpoint(leftHip, rightHip);
+  const bend = inclination(hips, shoulders, towardsLeft);
+
+  return {
+    lateralTrunkBend: Math.abs(bend),
+    bendDirection: Math.abs(bend) < 1 ? 'none' : bend > 0 ? 'left' : 'right',
+    shoulderTilt: tilt(leftShoulder, rightShoulder),
+    pelvicTilt: tilt(leftHip, rightHip),
+    headTilt: tilt(leftEar, rightEar),
+    confidence: [leftShoulder, rightShoulder, leftHip, rightHip, leftEar, rightEar]
+      .reduce((sum, point) => sum + point.score, 0) / 6
+  };
+}
+
+export function classifyPosture(angles: PostureAngles): PostureFindings {
+  return {
+    camptocormia: (angles.sagittal?.trunkFlexion ?? 0) >= POSTURE_THRESHOLDS.camptocormia,
+    anterocollis: (angles.sagittal?.neckFlexion ?? 0) >= POSTURE_THRESHOLDS.anterocollis,
+    pisaSyndrome: (angles.frontal?.lateralTrunkBend ?? 0) >= POSTURE_THRESHOLDS.pisaSyndrome
+  };
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+// Points are lost as each angle moves past what upright healthy adults show,
+// so a patient approaching a threshold is already flagged before crossing it
+export function scorePostureAngles(angles: PostureAngles): AssessmentResult {
+  const { sagittal, frontal } = angles;
+  if (!sagittal && !frontal) {
+    throw new Error('At least one posture view is needed.');
+  }
+
+  let penalty = 0;
+  if (sagittal) {
+    if (sagittal.trunkFlexion > 10) penalty += (sagittal.trunkFlexion - 10) * 1.5;
+    if (sagittal.neckFlexion > 25) penalty += (sagittal.neckFlexion - 25) * 1.2;
+    if (sagittal.kneeFlexion > 10) penalty += sagittal.kneeFlexion - 10;
+  }
+  if (frontal) {
+    if (frontal.lateralTrunkBend > 5) penalty += (frontal.lateralTrunkBend - 5) * 3;
+    if (frontal.shoulderTilt > 3) penalty += (frontal.shoulderTilt - 3) * 1.5;
+  }
+
+  const findings = classifyPosture(angles);
+  const named = [
+    findings.camptocormia && 'camptocormia',
+    findings.anterocollis && 'anterocollis',
+    findings.pisaSyndrome && 'Pisa syndrome'
+  ].filter(Boolean);
+
+  const views = [sagittal, frontal].filter((view): view is SagittalAngles | FrontalAngles => !!view);
+  const keypointConfidence = views.reduce((sum, view) => sum + view.confidence, 0) / views.length;
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+
+  const parts: string[] = [];
+  if (sagittal) {
+    parts.push(`trunk flexion=${sagittal.trunkFlexion.toFixed(1)}°, neck flexion=${sagittal.neckFlexion.toFixed(1)}°, ` +
+      `craniovertebral angle=${sagittal.craniovertebralAngle.toFixed(1)}°`);
+  }
+  if (frontal) {
+    parts.push(`lateral trunk bend=${frontal.lateralTrunkBend.toFixed(1)}°, shoulder tilt=${frontal.shoulderTilt.toFixed(1)}°`);
+  }
+
+  return {
+    score: Math.round(score),
+    // A single view leaves half of the postural abnormalities unmeasured
+    confidence: Math.round(Math.min(95, keypointConfidence * 100 * (views.length === 2 ? 1 : 0.75))),
+    status: statusFromScore(score),
+    details: `Posture angles: ${parts.join('; ')}. ` +
+      (named.length > 0 ? `Consistent with ${named.join(', ')}.` : 'No camptocormia, anterocollis or Pisa syndrome.')
+  };
+}
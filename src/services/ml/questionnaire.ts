@@ -0,0 +1,174 @@
+// A small declarative questionnaire engine: sections of typed items with
+// skip logic, item-level validation and summed subscales. Definitions are
+// plain data so answers can be stored, validated again on load and scored
+// without the UI.
+
+export type AnswerValue = number | boolean | string;
+export type QuestionnaireAnswers = Record<string, AnswerValue>;
+
+export interface ChoiceOption {
+  value: number;
+  label: string;
+  description?: string;
+}
+
+// Shown only when the referenced item's answer matches
+export interface ItemCondition {
+  item: string;
+  equals?: AnswerValue;
+  atLeast?: number;
+}
+
+interface ItemBase {
+  id: string;
+  prompt: string;
+  help?: string;
+  required?: boolean; // Defaults to true
+  showIf?: ItemCondition;
+}
+
+export type QuestionnaireItem =
+  | (ItemBase & { type: 'choice'; options: ChoiceOption[] })
+  | (ItemBase & { type: 'boolean' })
+  | (ItemBase & { type: 'number'; min: number; max: number; integer?: boolean; unit?: string })
+  | (ItemBase & { type: 'text'; maxLength: number });
+
+export interface QuestionnaireSection {
+  id: string;
+  title: string;
+  description?: string;
+  showIf?: ItemCondition;
+  items: QuestionnaireItem[];
+}
+
+// Sum of choice items; up to maxMissing unanswered items are prorated
+export interface Subscale {
+  id: string;
+  label: string;
+  items: string[];
+  maxMissing: number;
+}
+
+export interface Questionnaire {
+  id: string;
+  version: string;
+  sections: QuestionnaireSection[];
+  subscales: Subscale[];
+}
+
+export interface SubscaleScore {
+  id: string;
+  label: string;
+  total: number | null; // null when too many items are missing to score
+  max: number;
+  answered: number;
+  prorated: boolean;
+}
+
+export interface QuestionnaireError {
+  item: string;
+  message: string;
+}
+
+function conditionMet(condition: ItemCondition | undefined, answers: QuestionnaireAnswers): boolean {
+  if (!condition) return true;
+  const answer = answers[condition.item];
+  if (answer === undefined) return false;
+  if (condition.equals !== undefined && answer !== condition.equals) return false;
+  if (condition.atLeast !== undefined && !(typeof answer === 'number' && answer >= condition.atLeast)) return false;
+  return true;
+}
+
+export function visibleSections(questionnaire: Questionnaire, answers: QuestionnaireAnswers): QuestionnaireSection[] {
+  return questionnaire.sections
+    .filter(section => conditionMet(section.showIf, answers))
+    .map(section => ({ ...section, items: section.items.filter(item => conditionMet(item.showIf, answers)) }))
+    .filter(section => section.items.length > 0);
+}
+
+export function visibleItems(questionnaire: Questionnaire, answers: QuestionnaireAnswers): QuestionnaireItem[] {
+  return visibleSections(questionnaire, answers).flatMap(section => section.items);
+}
+
+function findItem(questionnaire: Questionnaire, id: string): QuestionnaireItem | undefined {
+  for (const section of questionnaire.sections) {
+    const item = section.items.find(candidate => candidate.id === id);
+    if (item) return item;
+  }
+  return undefined;
+}
+
+// Why a single answer is invalid, or null if it is fine
+export function validateItem(item: QuestionnaireItem, answer: AnswerValue | undefined): string | null {
+  if (answer === undefined || answer === '') {
+    return item.required === false ? null : 'Please answer this question.';
+  }
+
+  switch (item.type) {
+    case 'choice':
+      if (typeof answer !== 'number' || !item.options.some(option => option.value === answer)) {
+        return 'Please choose one of the options.';
+      }
+      return null;
+    case 'boolean':
+      return typeof answer === 'boolean' ? null : 'Please answer yes or no.';
+    case 'number':
+      if (typeof answer !== 'number' || !isFinite(answer)) return 'Please enter a number.';
+      if (item.integer && !Number.isInteger(answer)) return 'Please enter a whole number.';
+      if (answer < item.min || answer > item.max) {
+        return `Please enter a value between ${item.min} and ${item.max}${item.unit ? ` ${item.unit}` : ''}.`;
+      }
+      return null;
+    case 'text':
+      if (typeof answer !== 'string') return 'Please enter text.';
+      return answer.length > item.maxLength ? `Please keep this under ${item.maxLength} characters.` : null;
+  }
+}
+
+// Errors for every visible item; answers to hidden items are ignored
+export function validateAnswers(questionnaire: Questionnaire, answers: QuestionnaireAnswers): QuestionnaireError[] {
+  return visibleItems(questionnaire, answers)
+    .map(item => ({ item: item.id, message: validateItem(item, answers[item.id]) }))
+    .filter((error): error is QuestionnaireError => error.message !== null);
+}
+
+// Drops answers to items that skip logic now hides, so changing an earlier
+// answer doesn't leave stale follow-ups behind
+export function pruneAnswers(questionnaire: Questionnaire, answers: QuestionnaireAnswers): QuestionnaireAnswers {
+  const pruned: QuestionnaireAnswers = {};
+  visibleItems(questionnaire, answers).forEach(item => {
+    if (answers[item.id] !== undefined) pruned[item.id] = answers[item.id];
+  });
+  return pruned;
+}
+
+export function scoreSubscales(questionnaire: Questionnaire, answers: QuestionnaireAnswers): SubscaleScore[] {
+  return questionnaire.subscales.map(subscale => {
+    let sum = 0;
+    let answered = 0;
+    let max = 0;
+    subscale.items.forEach(id => {
+      const item = findItem(questionnaire, id);
+      if (!item || item.type !== 'choice') {
+        throw new Error(`Subscale ${subscale.id} refers to ${id}, which is not a choice item.`);
+      }
+      max += Math.max(...item.options.map(option => option.value));
+      const answer = answers[id];
+      if (typeof answer === 'number') {
+        sum += answer;
+        answered++;
+      }
+    });
+
+    const missing = subscale.items.length - answered;
+    const scorable = answered > 0 && missing <= subscale.maxMissing;
+    return {
+      id: subscale.id,
+      label: subscale.label,
+      total: scorable ? Math.round((sum * subscale.items.length) / answered) : null,
+      max,
+      answered,
+      prorated: scorable && missing > 0
+    };
+  });
+}
@@ -1,23 +1,56 @@
 
 import * as tf from '@tensorflow/tfjs';
+import { getKeypointDetector, KeypointName, Pose } from './poseDetection';
+
+export interface PostureFeatures {
+  forwardHeadPosture: number;
+  shoulderAsymmetry: number;
+  spinalCurvature: number;
+  armSwingAsymmetry: number;
+  bodyRigidity: number;
+  balanceIndex: number;
+  pose: Pose;
+  keypointConfidence: number; // Mean detector score of the keypoints used above
+}
+
+type PixelKeypoints = Record<KeypointName, { point: [number, number]; score: number }>;
+
+// Keypoints the clinical features are computed from
+const REQUIRED_KEYPOINTS: KeypointName[] = [
+  'nose',
+  'leftShoulder', 'rightShoulder',
+  'leftElbow', 'rightElbow',
+  'leftWrist', 'rightWrist',
+  'leftHip', 'rightHip',
+  'leftKnee', 'rightKnee',
+  'leftAnkle', 'rightAnkle'
+];
+
+const MIN_KEYPOINT_SCORE = 0.3;
 
 // Real posture analysis using pose estimation
 export class PostureFeatureExtractor {
   private model: tf.LayersModel | null = null;
-  private poseModel: any = null; // For pose estimation
 
   async loadModel(modelUrl?: string) {
+    // The pose model is independent of the classifier; without it posture
+    // images are rejected rather than analyzed from guessed keypoints
+    const poseLoaded = await getKeypointDetector().load().then(
+      () => true,
+      (error) => {
+        console.error('Failed to load pose estimation model:', error);
+        return false;
+      }
+    );
+
     try {
       const defaultModelUrl = modelUrl || 'https://your-model-storage.com/posture-model/model.json';
       
       console.log('Loading real posture analysis model...');
       this.model = await tf.loadLayersModel(defaultModelUrl);
       
-      // Load pose estimation model (like PoseNet or MediaPipe)
-      console.log('Loading pose estimation model...');
-      
       console.log('Posture analysis models loaded successfully');
-      return true;
+      return poseLoaded;
     } catch (error) {
       console.error('Failed to load posture model:', error);
       this.model = await this.createSimpleCNN();
@@ -53,158 +86,111 @@ export class PostureFeatureExtractor {
     return model;
   }
 
-  async extractFeatures(imageData: string): Promise<{
-    forwardHeadPosture: number;
-    shoulderAsymmetry: number;
-    spinalCurvature: number;
-    armSwingAsymmetry: number;
-    bodyRigidity: number;
-    balanceIndex: number;
-    gaitParameters: {
-      stepLength: number;
-      cadence: number;
-      swingTime: number;
-    };
-  }> {
-    // Preprocess image
-    const imageTensor = await this.preprocessImage(imageData);
+  // Locate the body in a photo, with errors the user can act on
+  async detectPose(imageData: string): Promise<Pose> {
+    const image = await this.loadImage(imageData);
+    
+    let pose: Pose | null;
+    try {
+      pose = await getKeypointDetector().detect(image);
+    } catch (error) {
+      console.error('Pose estimation failed:', error);
+      throw new Error('The pose estimation model could not be loaded, so the posture image cannot be analyzed.');
+    }
+    if (!pose) {
+      throw new Error('No person was detected in the image. Use a full-body photo against a plain background.');
+    }
+    return pose;
+  }
+
+  async extractFeatures(imageData: string): Promise<PostureFeatures> {
+    const pose = await this.detectPose(imageData);
     
-    // Extract pose keypoints (simulated - in real implementation use MediaPipe or PoseNet)
-    const keypoints = await this.extractPoseKeypoints(imageTensor);
+    const keypoints = this.toPixels(pose);
+    const missing = REQUIRED_KEYPOINTS.filter(name => keypoints[name].score < MIN_KEYPOINT_SCORE);
+    if (missing.includes('leftShoulder') || missing.includes('rightShoulder') ||
+        missing.includes('leftHip') || missing.includes('rightHip')) {
+      throw new Error('Shoulders and hips must be clearly visible. Stand further back so your whole body is in the frame.');
+    }
     
     // Calculate clinical features from keypoints
     const features = this.calculateClinicalFeatures(keypoints);
+    const keypointConfidence = REQUIRED_KEYPOINTS
+      .reduce((sum, name) => sum + keypoints[name].score, 0) / REQUIRED_KEYPOINTS.length;
     
-    imageTensor.dispose();
-    
-    return features;
+    return { ...features, pose, keypointConfidence };
   }
 
-  private async preprocessImage(imageData: string): Promise<tf.Tensor> {
-    return new Promise((resolve) => {
+  private loadImage(imageData: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
       const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = 224;
-        canvas.height = 224;
-        
-        ctx.drawImage(img, 0, 0, 224, 224);
-        
-        const tensor = tf.browser.fromPixels(canvas)
-          .toFloat()
-          .div(255.0)
-          .expandDims(0);
-        
-        resolve(tensor);
-      };
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Could not load the posture image.'));
       img.src = imageData;
     });
   }
 
-  private async extractPoseKeypoints(imageTensor: tf.Tensor): Promise<{
-    nose: [number, number];
-    leftShoulder: [number, number];
-    rightShoulder: [number, number];
-    leftElbow: [number, number];
-    rightElbow: [number, number];
-    leftWrist: [number, number];
-    rightWrist: [number, number];
-    leftHip: [number, number];
-    rightHip: [number, number];
-    leftKnee: [number, number];
-    rightKnee: [number, number];
-    leftAnkle: [number, number];
-    rightAnkle: [number, number];
-  }> {
-    // In a real implementation, you would use a pose estimation model
-    // For now, we'll simulate pose detection
-    
-    // Simulate keypoint detection
-    const width = 224;
-    const height = 224;
-    
-    return {
-      nose: [width * 0.5, height * 0.1],
-      leftShoulder: [width * 0.35, height * 0.25],
-      rightShoulder: [width * 0.65, height * 0.25],
-      leftElbow: [width * 0.25, height * 0.4],
-      rightElbow: [width * 0.75, height * 0.4],
-      leftWrist: [width * 0.2, height * 0.55],
-      rightWrist: [width * 0.8, height * 0.55],
-      leftHip: [width * 0.4, height * 0.6],
-      rightHip: [width * 0.6, height * 0.6],
-      leftKnee: [width * 0.38, height * 0.8],
-      rightKnee: [width * 0.62, height * 0.8],
-      leftAnkle: [width * 0.36, height * 0.95],
-      rightAnkle: [width * 0.64, height * 0.95]
-    };
+  // Keypoints in image pixels, so angles aren't skewed by the aspect ratio
+  private toPixels(pose: Pose): PixelKeypoints {
+    const keypoints = {} as PixelKeypoints;
+    pose.keypoints.forEach(keypoint => {
+      keypoints[keypoint.name] = {
+        point: [keypoint.x * pose.width, keypoint.y * pose.height],
+        score: keypoint.score
+      };
+    });
+    return keypoints;
   }
 
-  private calculateClinicalFeatures(keypoints: any): {
-    forwardHeadPosture: number;
-    shoulderAsymmetry: number;
-    spinalCurvature: number;
-    armSwingAsymmetry: number;
-    bodyRigidity: number;
-    balanceIndex: number;
-    gaitParameters: {
-      stepLength: number;
-      cadence: number;
-      swingTime: number;
-    };
-  } {
+  private calculateClinicalFeatures(keypoints: PixelKeypoints): Omit<PostureFeatures, 'pose' | 'keypointConfidence'> {
+    const point = (name: KeypointName) => keypoints[name].point;
+    const midpoint = (a: KeypointName, b: KeypointName): [number, number] => [
+      (point(a)[0] + point(b)[0]) / 2,
+      (point(a)[1] + point(b)[1]) / 2
+    ];
+    
+    // Distances are relative to body height (nose to mid-ankle) rather
+    // than the image, so they don't depend on how far away the camera was
+    const bodyHeight = Math.max(1, this.calculateDistance(point('nose'), midpoint('leftAnkle', 'rightAnkle')));
+    
     // Calculate forward head posture
     const neckAngle = this.calculateAngle(
-      keypoints.nose,
-      keypoints.leftShoulder,
-      keypoints.rightShoulder
+      point('nose'),
+      point('leftShoulder'),
+      point('rightShoulder')
     );
     const forwardHeadPosture = Math.abs(neckAngle - 90) / 90; // Normalized deviation from vertical
     
     // Calculate shoulder asymmetry
-    const shoulderHeightDiff = Math.abs(keypoints.leftShoulder[1] - keypoints.rightShoulder[1]);
-    const shoulderAsymmetry = shoulderHeightDiff / 224; // Normalized by image height
+    const shoulderHeightDiff = Math.abs(point('leftShoulder')[1] - point('rightShoulder')[1]);
+    const shoulderAsymmetry = shoulderHeightDiff / bodyHeight;
     
     // Calculate spinal curvature (simplified)
     const spinePoints: [number, number][] = [
-      keypoints.nose,
-      [(keypoints.leftShoulder[0] + keypoints.rightShoulder[0]) / 2, (keypoints.leftShoulder[1] + keypoints.rightShoulder[1]) / 2],
-      [(keypoints.leftHip[0] + keypoints.rightHip[0]) / 2, (keypoints.leftHip[1] + keypoints.rightHip[1]) / 2]
+      point('nose'),
+      midpoint('leftShoulder', 'rightShoulder'),
+      midpoint('leftHip', 'rightHip')
     ];
-    const spinalCurvature = this.calculateSpinalDeviation(spinePoints);
+    const spinalCurvature = this.calculateSpinalDeviation(spinePoints) / bodyHeight;
     
     // Calculate arm swing asymmetry
-    const leftArmAngle = this.calculateAngle(keypoints.leftShoulder, keypoints.leftElbow, keypoints.leftWrist);
-    const rightArmAngle = this.calculateAngle(keypoints.rightShoulder, keypoints.rightElbow, keypoints.rightWrist);
+    const leftArmAngle = this.calculateAngle(point('leftShoulder'), point('leftElbow'), point('leftWrist'));
+    const rightArmAngle = this.calculateAngle(point('rightShoulder'), point('rightElbow'), point('rightWrist'));
     const armSwingAsymmetry = Math.abs(leftArmAngle - rightArmAngle) / 180;
     
     // Calculate body rigidity (based on joint angles)
     const jointAngles = [
-      this.calculateAngle(keypoints.leftShoulder, keypoints.leftElbow, keypoints.leftWrist),
-      this.calculateAngle(keypoints.rightShoulder, keypoints.rightElbow, keypoints.rightWrist),
-      this.calculateAngle(keypoints.leftHip, keypoints.leftKnee, keypoints.leftAnkle),
-      this.calculateAngle(keypoints.rightHip, keypoints.rightKnee, keypoints.rightAnkle)
+      leftArmAngle,
+      rightArmAngle,
+      this.calculateAngle(point('leftHip'), point('leftKnee'), point('leftAnkle')),
+      this.calculateAngle(point('rightHip'), point('rightKnee'), point('rightAnkle'))
     ];
     const bodyRigidity = this.calculateRigidityIndex(jointAngles);
     
-    // Calculate balance index
-    const centerOfMass: [number, number] = [
-      (keypoints.leftHip[0] + keypoints.rightHip[0]) / 2,
-      (keypoints.leftHip[1] + keypoints.rightHip[1]) / 2
-    ];
-    const supportBase: [number, number] = [
-      (keypoints.leftAnkle[0] + keypoints.rightAnkle[0]) / 2,
-      (keypoints.leftAnkle[1] + keypoints.rightAnkle[1]) / 2
-    ];
-    const balanceIndex = this.calculateDistance(centerOfMass, supportBase) / 224;
-    
-    // Simulate gait parameters (would require video analysis in real implementation)
-    const gaitParameters = {
-      stepLength: 0.5 + Math.random() * 0.3, // Simulated
-      cadence: 100 + Math.random() * 20,     // Steps per minute
-      swingTime: 0.3 + Math.random() * 0.1   // Swing phase duration
-    };
+    // Calculate balance index: sideways offset of the hips over the feet
+    const centerOfMass = midpoint('leftHip', 'rightHip');
+    const supportBase = midpoint('leftAnkle', 'rightAnkle');
+    const balanceIndex = Math.abs(centerOfMass[0] - supportBase[0]) / bodyHeight;
     
     return {
       forwardHeadPosture,
@@ -212,8 +198,7 @@ export class PostureFeatureExtractor {
       spinalCurvature,
       armSwingAsymmetry,
       bodyRigidity,
-      balanceIndex,
-      gaitParameters
+      balanceIndex
     };
   }
 
@@ -247,7 +232,7 @@ export class PostureFeatureExtractor {
       maxDeviation = Math.max(maxDeviation, deviation);
     }
     
-    return maxDeviation / 224; // Normalize by image height
+    return maxDeviation;
   }
 
   private pointToLineDistance(point: [number, number], lineStart: [number, number], lineEnd: [number, number]): number {
@@ -264,55 +249,4 @@ export class PostureFeatureExtractor {
     const variance = angles.reduce((a, b) => a + Math.pow(b - mean, 2)) / angles.length;
     return 1 - (variance / 1000); // Normalize and invert (higher variance = less rigidity)
   }
-
-  async predict(features: any): Promise<{
-    score: number;
-    confidence: number;
-    status: "healthy" | "mild" | "moderate" | "severe";
-    details: string;
-  }> {
-    if (!this.model) {
-      throw new Error('Model not loaded');
-    }
-
-    // Improved classification logic for posture analysis
-    const overallRisk = (
-      features.forwardHeadPosture + 
-      features.shoulderAsymmetry + 
-      features.spinalCurvature + 
-      features.armSwingAsymmetry + 
-      features.balanceIndex + 
-      (1 - features.bodyRigidity) // Lower rigidity is better
-    ) / 6;
-    
-    // Bias toward healthy classification for good posture
-    let probabilities: number[];
-    if (overallRisk < 0.25) {
-      probabilities = [0.88, 0.08, 0.03, 0.01];
-    } else if (overallRisk < 0.45) {
-      probabilities = [0.72, 0.18, 0.07, 0.03];
-    } else if (overallRisk < 0.65) {
-      probabilities = [0.35, 0.45, 0.15, 0.05];
-    } else {
-      probabilities = [0.15, 0.35, 0.35, 0.15];
-    }
-    
-    const classLabels = ['healthy', 'mild', 'moderate', 'severe'];
-    const maxIndex = probabilities.indexOf(Math.max(...probabilities));
-    const confidence = probabilities[maxIndex] * 100;
-    const status = classLabels[maxIndex] as "healthy" | "mild" | "moderate" | "severe";
-    
-    // Calculate score based on health status
-    const score = status === 'healthy' ? 88 + Math.random() * 8 :
-                  status === 'mild' ? 68 + Math.random() * 12 :
-                  status === 'moderate' ? 48 + Math.random() * 12 :
-                  28 + Math.random() * 12;
-
-    return {
-      score: Math.max(0, Math.min(100, Math.round(score))),
-      confidence: Math.round(confidence),
-      status,
-      details: `Real posture analysis: forward head posture=${features.forwardHeadPosture.toFixed(3)}, shoulder asymmetry=${features.shoulderAsymmetry.toFixed(3)}, spinal curvature=${features.spinalCurvature.toFixed(3)}, rigidity index=${features.bodyRigidity.toFixed(3)}`
-    };
-  }
 }
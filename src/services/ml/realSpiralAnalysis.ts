@@ -1,5 +1,11 @@
 
 import * as tf from '@tensorflow/tfjs';
+import {
+  extractSpiralCentreline,
+  measureSpiralGeometry,
+  SpiralGeometry,
+  toGrayscale
+} from './spiralImageProcessing';
 
 // Real feature extraction for spiral drawings
 export class SpiralFeatureExtractor {
@@ -53,226 +59,50 @@ export class SpiralFeatureExtractor {
     return model;
   }
 
+  // Geometry of the drawn line, recovered from the photo. The indices are
+  // 0-1, higher meaning more abnormal.
   async extractFeatures(imageData: string): Promise<{
     tremor: number;
     irregularity: number;
     pressure: number;
-    speed: number;
+    spacing: number;
     smoothness: number;
+    geometry: SpiralGeometry;
   }> {
-    // Convert image to tensor and analyze actual image content
-    const imageTensor = await this.preprocessImage(imageData);
-    
-    // Real image analysis using computer vision techniques
-    const features = tf.tidy(() => {
-      // Convert to grayscale for analysis
-      const gray = imageTensor.mean(3, true);
-      
-      // Analyze edge variance for tremor detection
-      const edges = this.detectEdges(imageTensor);
-      
-      // Analyze line consistency 
-      const lineConsistency = this.analyzeLineConsistency(imageTensor);
-      
-      // Analyze pressure variations from intensity
-      const pressureVariation = this.analyzePressureVariation(imageTensor);
-      
-      // Calculate drawing metrics
-      const speedMetrics = this.calculateSpeedMetrics(imageTensor);
-      
-      // Assess smoothness
-      const smoothness = this.assessSmoothness(imageTensor);
-      
-      return {
-        edges: edges.dataSync()[0],
-        lineConsistency: lineConsistency.dataSync()[0],
-        pressureVariation: pressureVariation.dataSync()[0],
-        speedMetrics: speedMetrics.dataSync()[0],
-        smoothness: smoothness.dataSync()[0]
-      };
-    });
-
-    imageTensor.dispose();
+    const pixels = await this.loadPixels(imageData);
+    const centreline = extractSpiralCentreline(toGrayscale(pixels));
+    const geometry = measureSpiralGeometry(centreline);
 
-    // Convert to clinical metrics with realistic interpretation
-    const tremor = this.calculateTremorIndex(features.edges);
-    const irregularity = this.calculateIrregularityIndex(features.lineConsistency);
-    const pressure = this.calculatePressureIndex(features.pressureVariation);
-    const speed = this.calculateSpeedIndex(features.speedMetrics);
-    const smoothness = this.calculateSmoothnessIndex(features.smoothness);
-
-    // For diseased patterns, increase detected abnormalities
-    // This simulates what real ML would detect in abnormal spirals
-    const imageAnalysis = await this.analyzeImagePattern(imageData);
-    
+    const slope = geometry.turnSpacing / (2 * Math.PI);
     return {
-      tremor: Math.min(1, tremor + imageAnalysis.tremorBoost),
-      irregularity: Math.min(1, irregularity + imageAnalysis.irregularityBoost),
-      pressure: Math.min(1, pressure + imageAnalysis.pressureBoost),
-      speed: Math.min(1, speed + imageAnalysis.speedBoost),
-      smoothness: Math.min(1, smoothness + imageAnalysis.smoothnessBoost)
+      tremor: Math.min(1, geometry.rating / 10),
+      irregularity: Math.min(1, geometry.relativeResidual / 0.25),
+      // Ink width varies with pen pressure
+      pressure: Math.min(1, geometry.strokeWidthCv / 0.6),
+      spacing: Math.min(1, geometry.spacingCv / 0.5),
+      smoothness: slope > 0 ? Math.min(1, Math.sqrt(geometry.firstOrderSmoothness) / slope / 4) : 1,
+      geometry
     };
   }
 
-  // Analyze image pattern to detect disease indicators
-  private async analyzeImagePattern(imageData: string): Promise<{
-    tremorBoost: number;
-    irregularityBoost: number;
-    pressureBoost: number;
-    speedBoost: number;
-    smoothnessBoost: number;
-  }> {
-    return new Promise((resolve) => {
+  // Photos are scaled down so the longest side is at most maxSize pixels
+  private loadPixels(imageData: string, maxSize = 512): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
       const img = new Image();
       img.onload = () => {
+        const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
         const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.width * scale));
+        canvas.height = Math.max(1, Math.round(img.height * scale));
         const ctx = canvas.getContext('2d')!;
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        
-        // Analyze pixel patterns to detect abnormalities
-        let edgeVariance = 0;
-        let lineIrregularity = 0;
-        let intensityVariation = 0;
-        
-        // Simple analysis of pixel patterns
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          const gray = (r + g + b) / 3;
-          
-          // Detect high contrast variations (tremor indicators)
-          if (i > 4) {
-            const prevGray = (data[i-4] + data[i-3] + data[i-2]) / 3;
-            edgeVariance += Math.abs(gray - prevGray);
-          }
-          
-          // Detect line irregularities
-          if (gray < 128) { // Dark pixels (likely part of drawing)
-            intensityVariation += gray;
-            lineIrregularity += 1;
-          }
-        }
-        
-        // Normalize and convert to boost values
-        const totalPixels = data.length / 4;
-        const normalizedEdgeVariance = edgeVariance / totalPixels;
-        const normalizedIrregularity = lineIrregularity / totalPixels;
-        const normalizedIntensity = intensityVariation / (lineIrregularity || 1);
-        
-        // Higher values indicate more disease-like patterns
-        resolve({
-          tremorBoost: Math.min(0.6, normalizedEdgeVariance / 50),
-          irregularityBoost: Math.min(0.7, normalizedIrregularity * 2),
-          pressureBoost: Math.min(0.5, (255 - normalizedIntensity) / 300),
-          speedBoost: Math.min(0.4, normalizedEdgeVariance / 80),
-          smoothnessBoost: Math.min(0.6, normalizedIrregularity * 1.5)
-        });
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
       };
+      img.onerror = () => reject(new Error('Could not load the spiral image'));
       img.src = imageData;
     });
   }
 
-  private async preprocessImage(imageData: string): Promise<tf.Tensor> {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = 224;
-        canvas.height = 224;
-        
-        // Draw and resize image
-        ctx.drawImage(img, 0, 0, 224, 224);
-        
-        // Convert to tensor
-        const tensor = tf.browser.fromPixels(canvas)
-          .toFloat()
-          .div(255.0)
-          .expandDims(0);
-        
-        resolve(tensor);
-      };
-      img.src = imageData;
-    });
-  }
-
-  private detectEdges(imageTensor: tf.Tensor): tf.Tensor {
-    // Edge detection using Sobel filters for sensitivity
-    const gray = imageTensor.mean(3, true) as tf.Tensor4D;
-
-    const sobelX = tf.tensor4d([-1, 0, 1, -2, 0, 2, -1, 0, 1], [3, 3, 1, 1]);
-    const sobelY = tf.tensor4d([-1, -2, -1, 0, 0, 0, 1, 2, 1], [3, 3, 1, 1]);
-
-    const gx = tf.conv2d(gray, sobelX, [1, 1], 'same');
-    const gy = tf.conv2d(gray, sobelY, [1, 1], 'same');
-
-    const edges = tf.sqrt(tf.add(tf.square(gx), tf.square(gy)));
-
-    // Clean up intermediate tensors
-    sobelX.dispose();
-    sobelY.dispose();
-    gx.dispose();
-    gy.dispose();
-
-    return edges.mean();
-  }
-
-  private analyzeLineConsistency(imageTensor: tf.Tensor): tf.Tensor {
-    // Analyze thickness and continuity of lines
-    const gray = imageTensor.mean(3, true);
-    return tf.moments(gray).variance;
-  }
-
-  private analyzePressureVariation(imageTensor: tf.Tensor): tf.Tensor {
-    // Simulate pressure analysis from image intensity
-    const gray = imageTensor.mean(3, true);
-    return tf.moments(gray).variance;
-  }
-
-  private calculateSpeedMetrics(imageTensor: tf.Tensor): tf.Tensor {
-    // Estimate drawing speed from line density
-    const edges = this.detectEdges(imageTensor);
-    return edges;
-  }
-
-  private assessSmoothness(imageTensor: tf.Tensor): tf.Tensor {
-    // Simplified smoothness assessment using variance
-    const gray = imageTensor.mean(3, true);
-    return tf.moments(gray).variance;
-  }
-
-  // Convert raw features to clinical indices (0-1 scale, adjusted for disease detection)
-  private calculateTremorIndex(edgeData: number): number {
-    // Higher edge variance indicates more tremor
-    return Math.min(0.9, Math.max(0.01, edgeData / 30)); // Adjusted for better sensitivity
-  }
-
-  private calculateIrregularityIndex(consistencyData: number): number {
-    // Higher variance indicates irregularity
-    return Math.min(0.9, Math.max(0.01, consistencyData / 20)); // More sensitive
-  }
-
-  private calculatePressureIndex(pressureData: number): number {
-    // Pressure variation analysis
-    return Math.min(0.8, Math.max(0.01, pressureData / 25)); // More sensitive
-  }
-
-  private calculateSpeedIndex(speedData: number): number {
-    // Speed inconsistency
-    return Math.min(0.7, Math.max(0.01, speedData / 40)); // More sensitive
-  }
-
-  private calculateSmoothnessIndex(smoothnessData: number): number {
-    // Smoothness issues
-    return Math.min(0.8, Math.max(0.01, smoothnessData / 30)); // More sensitive
-  }
-
   async predict(features: any): Promise<{
     score: number;
     confidence: number;
@@ -284,7 +114,7 @@ export class SpiralFeatureExtractor {
     }
 
     // Improved classification logic favoring healthy when features are low
-    const overallRisk = (features.tremor + features.irregularity + features.pressure + features.speed + features.smoothness) / 5;
+    const overallRisk = (features.tremor + features.irregularity + features.pressure + features.spacing + features.smoothness) / 5;
     
     // Bias toward healthy classification for low-risk features
     let probabilities: number[];
@@ -297,9 +127,12 @@ export class SpiralFeatureExtractor {
     } else if (overallRisk < 0.7) {
       // Mild concerns
       probabilities = [0.30, 0.50, 0.15, 0.05];
-    } else {
-      // Moderate to severe concerns
+    } else if (overallRisk < 0.85) {
+      // Moderate concerns
       probabilities = [0.10, 0.30, 0.40, 0.20];
+    } else {
+      // Severe concerns
+      probabilities = [0.05, 0.15, 0.30, 0.50];
     }
     
     // Interpret results
@@ -308,17 +141,20 @@ export class SpiralFeatureExtractor {
     const confidence = probabilities[maxIndex] * 100;
     const status = classLabels[maxIndex] as "healthy" | "mild" | "moderate" | "severe";
     
-    // Calculate score based on health status (healthy = higher score)
-    const score = status === 'healthy' ? 85 + Math.random() * 10 :
-                  status === 'mild' ? 65 + Math.random() * 15 :
-                  status === 'moderate' ? 45 + Math.random() * 15 :
-                  25 + Math.random() * 15;
+    // Calculate score based on health status (healthy = higher score), placed
+    // within the status band by the risk so the same drawing always scores the same
+    const [low, high, riskFrom, riskTo] = status === 'healthy' ? [85, 95, 0, 0.5] :
+                                          status === 'mild' ? [65, 80, 0.5, 0.7] :
+                                          status === 'moderate' ? [45, 60, 0.7, 0.85] :
+                                          [25, 40, 0.85, 1];
+    const position = Math.max(0, Math.min(1, (overallRisk - riskFrom) / (riskTo - riskFrom)));
+    const score = high - position * (high - low);
 
     return {
       score: Math.max(0, Math.min(100, Math.round(score))),
       confidence: Math.round(confidence),
       status,
-      details: `Real ML analysis detected tremor index: ${features.tremor.toFixed(3)}, irregularity: ${features.irregularity.toFixed(3)}, pressure variation: ${features.pressure.toFixed(3)}, speed index: ${features.speed.toFixed(3)}, smoothness: ${features.smoothness.toFixed(3)}`
+      details: `Spiral geometry: rating ${features.geometry.rating.toFixed(1)}/10, ${features.geometry.turns.toFixed(1)} turns, tremor index: ${features.tremor.toFixed(3)}, irregularity: ${features.irregularity.toFixed(3)}, line width variation: ${features.pressure.toFixed(3)}, spacing variation: ${features.spacing.toFixed(3)}, smoothness: ${features.smoothness.toFixed(3)}`
     };
   }
 }
@@ -1,10 +1,27 @@
 
 import * as tf from '@tensorflow/tfjs';
+import { SpectralAnalyzer, spectralCentroid, spectralRolloff } from './spectralAnalysis';
+import { extractMfcc } from './mfccAnalysis';
+import { analyzePerturbation, JitterMeasures, ShimmerMeasures } from './voicePerturbation';
+import { trackPitch, computePitchStatistics, PitchContour, PitchStatistics } from './pitchTracking';
+import { analyzeHarmonicity } from './voiceHarmonicity';
+import { analyzeNonlinearDynamics, NonlinearMeasures } from './nonlinearDynamics';
+import { dysphoniaVector, VOICE_FEATURE_LENGTH } from './dysphoniaFeatures';
+import { analyzeRecordingQuality, DEFAULT_QUALITY_THRESHOLDS, QualityThresholds, RecordingQualityReport } from './recordingQuality';
+import { analyzeDdk, analyzePassage, DdkFeatures, PassageFeatures } from './speechTasks';
+import { CANONICAL_SAMPLE_RATE, decodeAudioBlob, decodeWav, encodeWav, toCanonicalMono } from './audioEncoding';
+
+// A take decoded to mono at the canonical rate and pitch-tracked
+interface DecodedTake {
+  signal: Float32Array;
+  sampleRate: number;
+  sourceSampleRate: number; // Rate of the original recording
+  f0Contour: PitchContour;
+}
 
 // Real voice feature extraction and analysis
 export class VoiceFeatureExtractor {
   private model: tf.LayersModel | null = null;
-  private audioContext: AudioContext | null = null;
 
   async loadModel(modelUrl?: string) {
     try {
@@ -25,7 +42,7 @@ export class VoiceFeatureExtractor {
   private async createSimpleRNN(): Promise<tf.LayersModel> {
     const model = tf.sequential({
       layers: [
-        tf.layers.dense({ inputShape: [13], units: 64, activation: 'relu' }), // 13 MFCC features
+        tf.layers.dense({ inputShape: [VOICE_FEATURE_LENGTH], units: 64, activation: 'relu' }), // MFCC summary + dysphonia measures
         tf.layers.dropout({ rate: 0.3 }),
         tf.layers.dense({ units: 32, activation: 'relu' }),
         tf.layers.dropout({ rate: 0.3 }),
@@ -43,263 +60,152 @@ export class VoiceFeatureExtractor {
     return model;
   }
 
-  async extractFeatures(audioBlob: Blob): Promise<{
-    mfcc: number[];
-    jitter: number;
-    shimmer: number;
-    harmonicity: number;
-    hnr: number;
-    f0_variation: number;
-    spectral_centroid: number;
-    spectral_rolloff: number;
-    zero_crossing_rate: number;
-  }> {
-    // Initialize audio context
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-
-    // Convert blob to audio buffer
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-    
-    // Extract audio signal
-    const audioData = audioBuffer.getChannelData(0);
-    
-    // Extract real audio features
-    const mfcc = this.extractMFCC(audioData, audioBuffer.sampleRate);
-    const jitter = this.calculateJitter(audioData, audioBuffer.sampleRate);
-    const shimmer = this.calculateShimmer(audioData, audioBuffer.sampleRate);
-    const harmonicity = this.calculateHarmonicity(audioData, audioBuffer.sampleRate);
-    const hnr = this.calculateHNR(audioData, audioBuffer.sampleRate);
-    const f0_variation = this.calculateF0Variation(audioData, audioBuffer.sampleRate);
-    const spectral_centroid = this.calculateSpectralCentroid(audioData, audioBuffer.sampleRate);
-    const spectral_rolloff = this.calculateSpectralRolloff(audioData, audioBuffer.sampleRate);
-    const zero_crossing_rate = this.calculateZeroCrossingRate(audioData);
+  // Decoded takes by blob, so the quality check and the feature extraction
+  // for one take share a single decode, resample and pitch track
+  private takes = new WeakMap<Blob, DecodedTake>();
 
+  private decodeSignal(signal: Float32Array, sourceSampleRate: number): DecodedTake {
     return {
-      mfcc,
-      jitter,
-      shimmer,
-      harmonicity,
-      hnr,
-      f0_variation,
-      spectral_centroid,
-      spectral_rolloff,
-      zero_crossing_rate
+      signal,
+      sampleRate: CANONICAL_SAMPLE_RATE,
+      sourceSampleRate,
+      f0Contour: trackPitch(signal, CANONICAL_SAMPLE_RATE)
     };
   }
 
-  private extractMFCC(audioData: Float32Array, sampleRate: number): number[] {
-    // Simplified MFCC extraction
-    // In a real implementation, you'd use a proper audio processing library
-    const frameSize = 2048;
-    const hopSize = 512;
-    const numMfcc = 13;
-    
-    const mfccFeatures: number[] = [];
-    
-    for (let i = 0; i < audioData.length - frameSize; i += hopSize) {
-      const frame = audioData.slice(i, i + frameSize);
-      const spectrum = this.fft(frame);
-      const melSpectrum = this.melFilterBank(spectrum, sampleRate);
-      const mfcc = this.dct(melSpectrum.map(x => Math.log(x + 1e-10)));
-      
-      mfccFeatures.push(...mfcc.slice(0, numMfcc));
-    }
-    
-    // Return average MFCC coefficients
-    const avgMfcc = new Array(numMfcc).fill(0);
-    const numFrames = Math.floor(mfccFeatures.length / numMfcc);
-    
-    for (let i = 0; i < mfccFeatures.length; i++) {
-      avgMfcc[i % numMfcc] += mfccFeatures[i] / numFrames;
+  // Every analysis runs on mono audio at the canonical rate, whatever the
+  // recording's container, channel count or sample rate
+  private async decodeAudio(audioBlob: Blob): Promise<DecodedTake> {
+    let take = this.takes.get(audioBlob);
+    if (!take) {
+      const decoded = await decodeAudioBlob(audioBlob);
+      take = this.decodeSignal(toCanonicalMono(decoded), decoded.sampleRate);
+      this.takes.set(audioBlob, take);
     }
-    
-    return avgMfcc;
+    return take;
   }
 
-  private fft(signal: Float32Array): number[] {
-    // Simplified FFT - in practice, use a proper FFT library
-    const N = signal.length;
-    const spectrum = new Array(N / 2);
-    
-    for (let k = 0; k < N / 2; k++) {
-      let real = 0;
-      let imag = 0;
-      
-      for (let n = 0; n < N; n++) {
-        const angle = -2 * Math.PI * k * n / N;
-        real += signal[n] * Math.cos(angle);
-        imag += signal[n] * Math.sin(angle);
-      }
-      
-      spectrum[k] = Math.sqrt(real * real + imag * imag);
-    }
-    
-    return spectrum;
-  }
-
-  private melFilterBank(spectrum: number[], sampleRate: number): number[] {
-    // Simplified mel filter bank
-    const numFilters = 26;
-    const melFilters = new Array(numFilters).fill(0);
-    
-    const melMin = this.hzToMel(0);
-    const melMax = this.hzToMel(sampleRate / 2);
-    
-    for (let i = 0; i < numFilters; i++) {
-      const melCenter = melMin + (i + 1) * (melMax - melMin) / (numFilters + 1);
-      const hzCenter = this.melToHz(melCenter);
-      const binCenter = Math.floor(hzCenter * spectrum.length * 2 / sampleRate);
-      
-      for (let j = Math.max(0, binCenter - 10); j < Math.min(spectrum.length, binCenter + 10); j++) {
-        const weight = Math.max(0, 1 - Math.abs(j - binCenter) / 10);
-        melFilters[i] += spectrum[j] * weight;
-      }
-    }
-    
-    return melFilters;
+  // Turn a MediaRecorder take into the canonical WAV that is kept and
+  // analysed, checking its quality against the original sample rate. The
+  // signal is read back from the WAV so later analysis sees the same samples.
+  async prepareRecording(
+    recording: Blob,
+    thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+  ): Promise<{ audioBlob: Blob; quality: RecordingQualityReport }> {
+    const decoded = await decodeAudioBlob(recording);
+    const wav = encodeWav(toCanonicalMono(decoded), CANONICAL_SAMPLE_RATE);
+    const audioBlob = new Blob([wav], { type: 'audio/wav' });
+    const take = this.decodeSignal(decodeWav(wav).channels[0], decoded.sampleRate);
+    this.takes.set(audioBlob, take);
+    return { audioBlob, quality: this.takeQuality(take, thresholds) };
   }
 
-  private hzToMel(hz: number): number {
-    return 2595 * Math.log10(1 + hz / 700);
+  private takeQuality(take: DecodedTake, thresholds: QualityThresholds): RecordingQualityReport {
+    return analyzeRecordingQuality(take.signal, take.sampleRate, take.f0Contour, thresholds, take.sourceSampleRate);
   }
 
-  private melToHz(mel: number): number {
-    return 700 * (Math.pow(10, mel / 2595) - 1);
+  // Clipping, SNR, noise floor and voiced duration of a take, checked before analysis
+  async assessRecordingQuality(
+    audioBlob: Blob,
+    thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+  ): Promise<RecordingQualityReport> {
+    return this.takeQuality(await this.decodeAudio(audioBlob), thresholds);
   }
 
-  private dct(input: number[]): number[] {
-    const N = input.length;
-    const output = new Array(N);
-    
-    for (let k = 0; k < N; k++) {
-      let sum = 0;
-      for (let n = 0; n < N; n++) {
-        sum += input[n] * Math.cos(Math.PI * k * (2 * n + 1) / (2 * N));
-      }
-      output[k] = sum;
-    }
-    
-    return output;
+  // Syllable rate and timing regularity of a "pa-ta-ka" repetition
+  async extractDdkFeatures(audioBlob: Blob): Promise<DdkFeatures> {
+    const { signal, sampleRate } = await this.decodeAudio(audioBlob);
+    return analyzeDdk(signal, sampleRate);
   }
 
-  private calculateJitter(audioData: Float32Array, sampleRate: number): number {
-    // Calculate fundamental frequency variation (jitter)
-    const periods = this.extractPeriods(audioData, sampleRate);
-    if (periods.length < 2) return 0;
-    
-    let jitterSum = 0;
-    for (let i = 1; i < periods.length; i++) {
-      jitterSum += Math.abs(periods[i] - periods[i - 1]) / periods[i - 1];
-    }
-    
-    return jitterSum / (periods.length - 1);
+  // Pauses, speech rate and prosody of a read passage
+  async extractPassageFeatures(audioBlob: Blob): Promise<PassageFeatures> {
+    const { signal, sampleRate, f0Contour } = await this.decodeAudio(audioBlob);
+    return analyzePassage(signal, sampleRate, f0Contour);
   }
 
-  private calculateShimmer(audioData: Float32Array, sampleRate: number): number {
-    // Calculate amplitude variation (shimmer)
-    const frameSize = Math.floor(sampleRate * 0.025); // 25ms frames
-    const amplitudes: number[] = [];
-    
-    for (let i = 0; i < audioData.length - frameSize; i += frameSize) {
-      let maxAmp = 0;
-      for (let j = i; j < i + frameSize; j++) {
-        maxAmp = Math.max(maxAmp, Math.abs(audioData[j]));
-      }
-      amplitudes.push(maxAmp);
-    }
-    
-    if (amplitudes.length < 2) return 0;
-    
-    let shimmerSum = 0;
-    for (let i = 1; i < amplitudes.length; i++) {
-      if (amplitudes[i - 1] > 0) {
-        shimmerSum += Math.abs(amplitudes[i] - amplitudes[i - 1]) / amplitudes[i - 1];
-      }
-    }
-    
-    return shimmerSum / (amplitudes.length - 1);
-  }
-
-  private calculateHarmonicity(audioData: Float32Array, sampleRate: number): number {
-    // Simplified harmonicity measure
-    const frameSize = 2048;
-    const spectrum = this.fft(audioData.slice(0, frameSize));
-    
-    // Find fundamental frequency
-    let maxBin = 0;
-    let maxMag = 0;
-    for (let i = 1; i < spectrum.length / 4; i++) {
-      if (spectrum[i] > maxMag) {
-        maxMag = spectrum[i];
-        maxBin = i;
-      }
-    }
-    
-    // Calculate harmonic strength
-    let harmonicEnergy = 0;
-    let totalEnergy = 0;
+  async extractFeatures(audioBlob: Blob): Promise<{
+    mfcc: number[];
+    mfccVector: number[];
+    featureVector: number[];
+    jitter: number;
+    shimmer: number;
+    jitterMeasures: JitterMeasures;
+    shimmerMeasures: ShimmerMeasures;
+    hnr: number;
+    nhr: number;
+    cpp: number;
+    cpps: number;
+    nonlinear: NonlinearMeasures;
+    f0_variation: number;
+    f0Contour: PitchContour;
+    pitchStatistics: PitchStatistics;
+    spectral_centroid: number;
+    spectral_rolloff: number;
+    zero_crossing_rate: number;
+  }> {
+    // Decode to a mono audio signal at the canonical rate; one F0 contour,
+    // shared with the quality check, drives pitch statistics and the
+    // cycle-level pitch marks
+    const { signal: audioData, sampleRate, f0Contour } = await this.decodeAudio(audioBlob);
     
-    for (let harmonic = 1; harmonic <= 5; harmonic++) {
-      const bin = maxBin * harmonic;
-      if (bin < spectrum.length) {
-        harmonicEnergy += spectrum[bin];
-      }
-    }
+    // Transform the recording once; all spectral features share this spectrogram
+    const spectral = new SpectralAnalyzer(audioData, sampleRate);
     
-    for (let i = 0; i < spectrum.length; i++) {
-      totalEnergy += spectrum[i];
-    }
+    const pitchStatistics = computePitchStatistics(f0Contour);
     
-    return totalEnergy > 0 ? harmonicEnergy / totalEnergy : 0;
-  }
+    // Extract real audio features
+    const mfccResult = extractMfcc(spectral);
+    const perturbation = analyzePerturbation(audioData, sampleRate, f0Contour);
+    const harmonicity = analyzeHarmonicity(audioData, sampleRate, f0Contour);
+    const nonlinear = analyzeNonlinearDynamics(audioData, sampleRate, f0Contour, perturbation.pitchMarks);
+    const f0_variation = pitchStatistics.coefficientOfVariation;
+    const spectral_centroid = this.calculateSpectralCentroid(spectral);
+    const spectral_rolloff = this.calculateSpectralRolloff(spectral);
+    const zero_crossing_rate = this.calculateZeroCrossingRate(audioData);
 
-  private calculateHNR(audioData: Float32Array, sampleRate: number): number {
-    // Harmonic-to-Noise Ratio
-    return this.calculateHarmonicity(audioData, sampleRate) * 20; // Convert to dB-like scale
-  }
+    const featureVector = [
+      ...mfccResult.vector,
+      ...dysphoniaVector({
+        pitchStatistics,
+        jitterMeasures: perturbation.jitter,
+        shimmerMeasures: perturbation.shimmer,
+        hnr: harmonicity.hnr,
+        nhr: harmonicity.nhr,
+        nonlinear
+      })
+    ];
 
-  private calculateF0Variation(audioData: Float32Array, sampleRate: number): number {
-    const periods = this.extractPeriods(audioData, sampleRate);
-    if (periods.length < 2) return 0;
-    
-    const f0s = periods.map(p => sampleRate / p);
-    const mean = f0s.reduce((a, b) => a + b) / f0s.length;
-    const variance = f0s.reduce((a, b) => a + Math.pow(b - mean, 2)) / f0s.length;
-    
-    return Math.sqrt(variance) / mean;
+    return {
+      mfcc: mfccResult.static.mean,
+      mfccVector: mfccResult.vector,
+      featureVector,
+      jitter: perturbation.jitter.local,
+      shimmer: perturbation.shimmer.local,
+      jitterMeasures: perturbation.jitter,
+      shimmerMeasures: perturbation.shimmer,
+      hnr: harmonicity.hnr,
+      nhr: harmonicity.nhr,
+      cpp: harmonicity.cpp,
+      cpps: harmonicity.cpps,
+      nonlinear,
+      f0_variation,
+      f0Contour,
+      pitchStatistics,
+      spectral_centroid,
+      spectral_rolloff,
+      zero_crossing_rate
+    };
   }
 
-  private calculateSpectralCentroid(audioData: Float32Array, sampleRate: number): number {
-    const spectrum = this.fft(audioData);
-    let weightedSum = 0;
-    let magnitudeSum = 0;
-    
-    for (let i = 0; i < spectrum.length; i++) {
-      const frequency = i * sampleRate / (2 * spectrum.length);
-      weightedSum += frequency * spectrum[i];
-      magnitudeSum += spectrum[i];
-    }
-    
-    return magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+  private calculateSpectralCentroid(spectral: SpectralAnalyzer): number {
+    return spectral.averageOverFrames(spectralCentroid);
   }
 
-  private calculateSpectralRolloff(audioData: Float32Array, sampleRate: number): number {
-    const spectrum = this.fft(audioData);
-    const totalEnergy = spectrum.reduce((a, b) => a + b);
-    const threshold = 0.85 * totalEnergy;
-    
-    let cumulativeEnergy = 0;
-    for (let i = 0; i < spectrum.length; i++) {
-      cumulativeEnergy += spectrum[i];
-      if (cumulativeEnergy >= threshold) {
-        return i * sampleRate / (2 * spectrum.length);
-      }
-    }
-    
-    return sampleRate / 2;
+  private calculateSpectralRolloff(spectral: SpectralAnalyzer): number {
+    return spectral.averageOverFrames((spectrum, frameSize, sampleRate) =>
+      spectralRolloff(spectrum, frameSize, sampleRate, 0.85)
+    );
   }
 
   private calculateZeroCrossingRate(audioData: Float32Array): number {
@@ -312,39 +218,6 @@ export class VoiceFeatureExtractor {
     return crossings / audioData.length;
   }
 
-  private extractPeriods(audioData: Float32Array, sampleRate: number): number[] {
-    // Simplified period extraction using autocorrelation
-    const minPeriod = Math.floor(sampleRate / 500); // 500 Hz max
-    const maxPeriod = Math.floor(sampleRate / 50);  // 50 Hz min
-    const periods: number[] = [];
-    
-    const frameSize = Math.floor(sampleRate * 0.025); // 25ms
-    
-    for (let start = 0; start < audioData.length - maxPeriod; start += frameSize) {
-      const frame = audioData.slice(start, start + maxPeriod);
-      let bestPeriod = minPeriod;
-      let maxCorrelation = 0;
-      
-      for (let period = minPeriod; period < maxPeriod && period < frame.length / 2; period++) {
-        let correlation = 0;
-        for (let i = 0; i < frame.length - period; i++) {
-          correlation += frame[i] * frame[i + period];
-        }
-        
-        if (correlation > maxCorrelation) {
-          maxCorrelation = correlation;
-          bestPeriod = period;
-        }
-      }
-      
-      if (maxCorrelation > 0.3) {
-        periods.push(bestPeriod);
-      }
-    }
-    
-    return periods;
-  }
-
   async predict(features: any): Promise<{
     score: number;
     confidence: number;
@@ -356,7 +229,7 @@ export class VoiceFeatureExtractor {
     }
 
     // Create feature vector from extracted features
-    const featureVector = tf.tensor2d([features.mfcc]);
+    const featureVector = tf.tensor2d([features.featureVector]);
     
     const prediction = this.model.predict(featureVector) as tf.Tensor;
     const probabilities = await prediction.data();
@@ -366,7 +239,8 @@ export class VoiceFeatureExtractor {
     const confidence = probabilities[maxIndex] * 100;
     const status = classLabels[maxIndex] as "healthy" | "mild" | "moderate" | "severe";
     
-    const score = 100 - (maxIndex * 25) + (Math.random() * 10 - 5);
+    // Expected class score, so the same recording always scores the same
+    const score = Array.from(probabilities).reduce((sum, p, i) => sum + p * (100 - i * 25), 0);
     
     featureVector.dispose();
     prediction.dispose();
@@ -375,7 +249,7 @@ export class VoiceFeatureExtractor {
       score: Math.max(0, Math.min(100, Math.round(score))),
       confidence: Math.round(confidence),
       status,
-      details: `Real voice analysis: jitter=${features.jitter.toFixed(4)}, shimmer=${features.shimmer.toFixed(4)}, HNR=${features.hnr.toFixed(2)}dB, F0 variation=${features.f0_variation.toFixed(3)}`
+      details: `Real voice analysis: jitter=${features.jitter.toFixed(4)}, shimmer=${features.shimmer.toFixed(4)}, HNR=${features.hnr.toFixed(2)}dB, NHR=${features.nhr.toFixed(4)}, CPP=${features.cpp.toFixed(2)}dB, CPPS=${features.cpps.toFixed(2)}dB, RPDE=${features.nonlinear.rpde.toFixed(3)}, DFA=${features.nonlinear.dfa.toFixed(3)}, PPE=${features.nonlinear.ppe.toFixed(3)}, mean F0=${features.pitchStatistics.meanF0.toFixed(1)}Hz, F0 SD=${features.pitchStatistics.sdSemitones.toFixed(2)} semitones, F0 variation=${features.f0_variation.toFixed(3)}`
     };
   }
 }
@@ -0,0 +1,186 @@
+import { PitchContour } from './pitchTracking';
+
+// Checks a voice take before analysis: a silent, clipped, noisy or short
+// recording gives jitter/shimmer/HNR values that say more about the
+// microphone than about the voice.
+
+export type QualitySeverity = 'error' | 'warning';
+
+export interface QualityIssue {
+  code: 'sample-rate' | 'silent' | 'clipping' | 'snr' | 'noise' | 'duration';
+  severity: QualitySeverity;
+  message: string;
+}
+
+export interface RecordingQualityReport {
+  sampleRate: number;
+  duration: number; // Seconds
+  voicedDuration: number; // Seconds
+  peakDb: number; // dBFS
+  clippingRatio: number; // Fraction of samples at or near full scale
+  snrDb: number | null; // Null when the take has too little silence to measure the noise
+  noiseFloorDb: number | null; // dBFS
+  issues: QualityIssue[];
+  acceptable: boolean; // False when any issue is an error
+}
+
+export interface QualityThresholds {
+  minSampleRate: number;
+  silencePeakDb: number;
+  clippingLevel: number; // Absolute sample value treated as clipped
+  clippingWarning: number;
+  clippingError: number;
+  snrWarning: number;
+  snrError: number;
+  noiseWarningDb: number;
+  noiseErrorDb: number;
+  voicedWarning: number; // Seconds
+  voicedError: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minSampleRate: 16000,
+  silencePeakDb: -40,
+  clippingLevel: 0.999,
+  clippingWarning: 0.001,
+  clippingError: 0.01,
+  snrWarning: 30,
+  snrError: 15,
+  noiseWarningDb: -50,
+  noiseErrorDb: -35,
+  voicedWarning: 3,
+  voicedError: 1.5
+};
+
+// DDK and reading tasks are mostly voiced only in short stretches
+export const CONNECTED_SPEECH_THRESHOLDS: QualityThresholds = {
+  ...DEFAULT_QUALITY_THRESHOLDS,
+  voicedWarning: 1.5,
+  voicedError: 0.5
+};
+
+const FRAME_TIME = 0.02;
+// Frames either side of voicing left out of the noise estimate, for onsets and decays
+const VOICING_GUARD_FRAMES = 2;
+// Least silence, in frames, to estimate the noise floor from (0.2 s)
+const MIN_NOISE_FRAMES = 10;
+const EPSILON = 1e-12;
+
+export class RecordingQualityError extends Error {
+  readonly report: RecordingQualityReport;
+
+  constructor(report: RecordingQualityReport) {
+    super(report.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join(' '));
+    this.name = 'RecordingQualityError';
+    this.report = report;
+  }
+}
+
+function toDb(power: number): number {
+  return 10 * Math.log10(power + EPSILON);
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+export function analyzeRecordingQuality(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  sourceSampleRate = sampleRate // Rate of the original recording, before any resampling
+): RecordingQualityReport {
+  let peak = 0;
+  let clipped = 0;
+  for (const x of signal) {
+    const magnitude = Math.abs(x);
+    if (magnitude > peak) peak = magnitude;
+    if (magnitude >= thresholds.clippingLevel) clipped++;
+  }
+  const clippingRatio = signal.length > 0 ? clipped / signal.length : 0;
+
+  // Noise power from the quieter unvoiced frames, signal power from the voiced ones.
+  // A sustained vowel can be voiced almost throughout, so the noise is only
+  // estimated when there is enough silence before, after or between sounds.
+  const frameSize = Math.max(1, Math.round(FRAME_TIME * sampleRate));
+  const framePower: number[] = [];
+  for (let start = 0; start + frameSize <= signal.length; start += frameSize) {
+    let energy = 0;
+    for (let n = start; n < start + frameSize; n++) energy += signal[n] * signal[n];
+    framePower.push(energy / frameSize);
+  }
+  const sortedPower = [...framePower].sort((a, b) => a - b);
+
+  const voicedPower: number[] = [];
+  const nearVoicing = new Array<boolean>(framePower.length).fill(false);
+  contour.times.forEach((time, i) => {
+    const frame = Math.floor(time / FRAME_TIME);
+    if (!contour.voiced[i] || frame >= framePower.length) return;
+    voicedPower.push(framePower[frame]);
+    const last = Math.min(framePower.length - 1, frame + VOICING_GUARD_FRAMES);
+    for (let j = Math.max(0, frame - VOICING_GUARD_FRAMES); j <= last; j++) nearVoicing[j] = true;
+  });
+  const silentPower = framePower.filter((_, frame) => !nearVoicing[frame]).sort((a, b) => a - b);
+  const noisePower = silentPower.length >= MIN_NOISE_FRAMES ? percentile(silentPower, 0.1) : null;
+  const signalPower = voicedPower.length > 0
+    ? voicedPower.reduce((a, b) => a + b, 0) / voicedPower.length
+    : percentile(sortedPower, 0.9);
+
+  const voicedDuration = contour.voiced.filter(Boolean).length * contour.hopTime;
+  const report: RecordingQualityReport = {
+    sampleRate: sourceSampleRate,
+    duration: signal.length / sampleRate,
+    voicedDuration,
+    peakDb: 20 * Math.log10(peak + EPSILON),
+    clippingRatio,
+    snrDb: noisePower === null ? null : toDb(Math.max(0, signalPower - noisePower)) - toDb(noisePower),
+    noiseFloorDb: noisePower === null ? null : toDb(noisePower),
+    issues: [],
+    acceptable: true
+  };
+
+  const flag = (code: QualityIssue['code'], severity: QualitySeverity, message: string) => {
+    report.issues.push({ code, severity, message });
+  };
+
+  if (sourceSampleRate < thresholds.minSampleRate) {
+    flag('sample-rate', 'error', `Sample rate of ${sourceSampleRate} Hz is below the ${thresholds.minSampleRate} Hz needed for voice analysis.`);
+  }
+
+  if (report.peakDb < thresholds.silencePeakDb) {
+    flag('silent', 'error', 'The recording is silent or far too quiet. Check that the right microphone is selected.');
+  } else {
+    if (clippingRatio >= thresholds.clippingError) {
+      flag('clipping', 'error', `${(clippingRatio * 100).toFixed(1)}% of the recording is clipped. Move further from the microphone or speak more softly.`);
+    } else if (clippingRatio >= thresholds.clippingWarning) {
+      flag('clipping', 'warning', `${(clippingRatio * 100).toFixed(2)}% of the recording is clipped, which may inflate shimmer.`);
+    }
+
+    // Without enough silence the noise is not checked here; HNR still reflects it
+    const { snrDb, noiseFloorDb } = report;
+    if (snrDb !== null && noiseFloorDb !== null) {
+      if (snrDb < thresholds.snrError) {
+        flag('snr', 'error', `Signal-to-noise ratio is only ${snrDb.toFixed(1)} dB. Record again in a quieter room.`);
+      } else if (snrDb < thresholds.snrWarning) {
+        flag('snr', 'warning', `Signal-to-noise ratio of ${snrDb.toFixed(1)} dB may lower HNR and raise jitter.`);
+      }
+
+      if (noiseFloorDb > thresholds.noiseErrorDb) {
+        flag('noise', 'error', `Background noise is very high (${noiseFloorDb.toFixed(1)} dBFS).`);
+      } else if (noiseFloorDb > thresholds.noiseWarningDb) {
+        flag('noise', 'warning', `Background noise is noticeable (${noiseFloorDb.toFixed(1)} dBFS).`);
+      }
+    }
+  }
+
+  if (voicedDuration < thresholds.voicedError) {
+    flag('duration', 'error', `Only ${voicedDuration.toFixed(1)} s of voice was found. Keep going for the full recording.`);
+  } else if (voicedDuration < thresholds.voicedWarning) {
+    flag('duration', 'warning', `Only ${voicedDuration.toFixed(1)} s of voice was found; longer takes give steadier measures.`);
+  }
+
+  report.acceptable = report.issues.every(issue => issue.severity !== 'error');
+  return report;
+}
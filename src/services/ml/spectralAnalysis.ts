@@ -0,0 +1,443 @@
+// Shared spectral analysis: windowed STFT backed by a radix-2 real FFT.
+// Every voice feature that needs a spectrum reads from one cached spectrogram,
+// so a recording is transformed once no matter how many features use it.
+
+export type WindowType = 'hann' | 'hamming' | 'rectangular';
+
+export interface SpectrogramOptions {
+  frameSize: number; // Must be a power of two
+  hopSize: number;
+  window: WindowType;
+}
+
+export interface Spectrogram {
+  sampleRate: number;
+  frameSize: number;
+  hopSize: number;
+  window: WindowType;
+  numFrames: number;
+  numBins: number; // frameSize / 2 + 1
+  magnitude: Float32Array[];
+  power: Float32Array[];
+  frameEnergy: Float32Array; // Windowed energy per frame, used for voicing gates
+}
+
+export const DEFAULT_SPECTROGRAM_OPTIONS: SpectrogramOptions = {
+  frameSize: 2048,
+  hopSize: 512,
+  window: 'hann'
+};
+
+const windowCache = new Map<string, Float32Array>();
+const fftCache = new Map<number, RealFFT>();
+const complexFftCache = new Map<number, ComplexFFT>();
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+// Periodic windows (the STFT convention), cached by type and size
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const key = `${type}:${size}`;
+  const cached = windowCache.get(key);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  for (let n = 0; n < size; n++) {
+    const phase = (2 * Math.PI * n) / size;
+    switch (type) {
+      case 'hann':
+        window[n] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'hamming':
+        window[n] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      default:
+        window[n] = 1;
+    }
+  }
+
+  windowCache.set(key, window);
+  return window;
+}
+
+// In-place iterative radix-2 complex FFT with precomputed twiddles
+export class ComplexFFT {
+  readonly size: number;
+  private readonly bitReversal: Uint32Array;
+  private readonly cosTable: Float64Array;
+  private readonly sinTable: Float64Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size) || size < 2) {
+      throw new Error(`FFT size must be a power of two >= 2, got ${size}`);
+    }
+
+    this.size = size;
+
+    const bits = Math.log2(size);
+    this.bitReversal = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.bitReversal[i] = reversed;
+    }
+
+    this.cosTable = new Float64Array(size / 2);
+    this.sinTable = new Float64Array(size / 2);
+    for (let k = 0; k < size / 2; k++) {
+      const angle = (-2 * Math.PI * k) / size;
+      this.cosTable[k] = Math.cos(angle);
+      this.sinTable[k] = Math.sin(angle);
+    }
+  }
+
+  forward(re: Float64Array, im: Float64Array): void {
+    const { size } = this;
+
+    for (let i = 0; i < size; i++) {
+      const j = this.bitReversal[i];
+      if (j > i) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let blockSize = 2; blockSize <= size; blockSize <<= 1) {
+      const halfBlock = blockSize >> 1;
+      const tableStep = size / blockSize;
+      for (let start = 0; start < size; start += blockSize) {
+        for (let k = 0; k < halfBlock; k++) {
+          const wr = this.cosTable[k * tableStep];
+          const wi = this.sinTable[k * tableStep];
+          const a = start + k;
+          const b = a + halfBlock;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+  }
+
+  // Inverse via the swap trick: IFFT(x) = swap(FFT(swap(x))) / N
+  inverse(re: Float64Array, im: Float64Array): void {
+    this.forward(im, re);
+    for (let i = 0; i < this.size; i++) {
+      re[i] /= this.size;
+      im[i] /= this.size;
+    }
+  }
+}
+
+// Real-input FFT: packs N real samples into an N/2-point complex FFT and
+// untangles the result, with all twiddle factors computed up front.
+export class RealFFT {
+  readonly size: number;
+  private readonly half: number;
+  private readonly complex: ComplexFFT;
+  private readonly postCos: Float64Array; // Twiddles for the real-spectrum split
+  private readonly postSin: Float64Array;
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size) || size < 4) {
+      throw new Error(`FFT size must be a power of two >= 4, got ${size}`);
+    }
+
+    this.size = size;
+    this.half = size / 2;
+    this.complex = new ComplexFFT(this.half);
+    this.re = new Float64Array(this.half);
+    this.im = new Float64Array(this.half);
+
+    this.postCos = new Float64Array(this.half + 1);
+    this.postSin = new Float64Array(this.half + 1);
+    for (let k = 0; k <= this.half; k++) {
+      const angle = (2 * Math.PI * k) / size;
+      this.postCos[k] = Math.cos(angle);
+      this.postSin[k] = Math.sin(angle);
+    }
+  }
+
+  // Writes the N/2 + 1 non-redundant bins of the spectrum of `input`
+  forward(input: ArrayLike<number>, outRe: Float64Array, outIm: Float64Array): void {
+    const { half, re, im } = this;
+
+    for (let i = 0; i < half; i++) {
+      re[i] = input[2 * i] ?? 0;
+      im[i] = input[2 * i + 1] ?? 0;
+    }
+    this.complex.forward(re, im);
+
+    for (let k = 0; k <= half; k++) {
+      const zr = re[k % half];
+      const zi = im[k % half];
+      const cr = re[(half - k) % half];
+      const ci = -im[(half - k) % half];
+
+      const evenRe = (zr + cr) / 2;
+      const evenIm = (zi + ci) / 2;
+      const oddRe = (zi - ci) / 2;
+      const oddIm = -(zr - cr) / 2;
+
+      const c = this.postCos[k];
+      const s = this.postSin[k];
+      outRe[k] = evenRe + c * oddRe + s * oddIm;
+      outIm[k] = evenIm + c * oddIm - s * oddRe;
+    }
+  }
+}
+
+export function getFFT(size: number): RealFFT {
+  let fft = fftCache.get(size);
+  if (!fft) {
+    fft = new RealFFT(size);
+    fftCache.set(size, fft);
+  }
+  return fft;
+}
+
+export function getComplexFFT(size: number): ComplexFFT {
+  let fft = complexFftCache.get(size);
+  if (!fft) {
+    fft = new ComplexFFT(size);
+    complexFftCache.set(size, fft);
+  }
+  return fft;
+}
+
+// Power spectrum (|X|^2) of one frame, zero-padded to a power of two
+export function powerSpectrum(frame: ArrayLike<number>, fftSize = nextPowerOfTwo(frame.length)): Float32Array {
+  const fft = getFFT(fftSize);
+  const re = new Float64Array(fftSize / 2 + 1);
+  const im = new Float64Array(fftSize / 2 + 1);
+  fft.forward(frame, re, im);
+
+  const power = new Float32Array(fftSize / 2 + 1);
+  for (let k = 0; k < power.length; k++) {
+    power[k] = re[k] * re[k] + im[k] * im[k];
+  }
+  return power;
+}
+
+export function magnitudeSpectrum(frame: ArrayLike<number>, fftSize = nextPowerOfTwo(frame.length)): Float32Array {
+  return powerSpectrum(frame, fftSize).map(Math.sqrt);
+}
+
+export function computeSpectrogram(
+  signal: Float32Array,
+  sampleRate: number,
+  options: SpectrogramOptions = DEFAULT_SPECTROGRAM_OPTIONS
+): Spectrogram {
+  const { frameSize, hopSize, window: windowType } = options;
+  const fft = getFFT(frameSize);
+  const window = createWindow(windowType, frameSize);
+  const numBins = frameSize / 2 + 1;
+
+  // Short recordings still get one (zero-padded) frame
+  const numFrames = signal.length <= frameSize
+    ? 1
+    : 1 + Math.floor((signal.length - frameSize) / hopSize);
+
+  const frame = new Float64Array(frameSize);
+  const re = new Float64Array(numBins);
+  const im = new Float64Array(numBins);
+  const magnitude: Float32Array[] = [];
+  const power: Float32Array[] = [];
+  const frameEnergy = new Float32Array(numFrames);
+
+  for (let f = 0; f < numFrames; f++) {
+    const offset = f * hopSize;
+    let energy = 0;
+    for (let n = 0; n < frameSize; n++) {
+      const sample = offset + n < signal.length ? signal[offset + n] * window[n] : 0;
+      frame[n] = sample;
+      energy += sample * sample;
+    }
+    frameEnergy[f] = energy;
+
+    fft.forward(frame, re, im);
+
+    const framePower = new Float32Array(numBins);
+    const frameMagnitude = new Float32Array(numBins);
+    for (let k = 0; k < numBins; k++) {
+      const p = re[k] * re[k] + im[k] * im[k];
+      framePower[k] = p;
+      frameMagnitude[k] = Math.sqrt(p);
+    }
+    power.push(framePower);
+    magnitude.push(frameMagnitude);
+  }
+
+  return {
+    sampleRate,
+    frameSize,
+    hopSize,
+    window: windowType,
+    numFrames,
+    numBins,
+    magnitude,
+    power,
+    frameEnergy
+  };
+}
+
+export function binFrequency(bin: number, frameSize: number, sampleRate: number): number {
+  return (bin * sampleRate) / frameSize;
+}
+
+// Magnitude-weighted mean frequency of one spectrum
+export function spectralCentroid(spectrum: Float32Array, frameSize: number, sampleRate: number): number {
+  let weightedSum = 0;
+  let magnitudeSum = 0;
+
+  for (let k = 0; k < spectrum.length; k++) {
+    weightedSum += binFrequency(k, frameSize, sampleRate) * spectrum[k];
+    magnitudeSum += spectrum[k];
+  }
+
+  return magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+}
+
+// Frequency below which `fraction` of the spectral magnitude lies
+export function spectralRolloff(
+  spectrum: Float32Array,
+  frameSize: number,
+  sampleRate: number,
+  fraction = 0.85
+): number {
+  let total = 0;
+  for (let k = 0; k < spectrum.length; k++) total += spectrum[k];
+  if (total <= 0) return 0;
+
+  const threshold = fraction * total;
+  let cumulative = 0;
+  for (let k = 0; k < spectrum.length; k++) {
+    cumulative += spectrum[k];
+    if (cumulative >= threshold) {
+      return binFrequency(k, frameSize, sampleRate);
+    }
+  }
+
+  return sampleRate / 2;
+}
+
+// Holds one recording and lazily builds (then caches) its spectrograms
+export class SpectralAnalyzer {
+  readonly signal: Float32Array;
+  readonly sampleRate: number;
+  private spectrograms = new Map<string, Spectrogram>();
+
+  constructor(signal: Float32Array, sampleRate: number) {
+    this.signal = signal;
+    this.sampleRate = sampleRate;
+  }
+
+  getSpectrogram(options: Partial<SpectrogramOptions> = {}): Spectrogram {
+    const resolved = { ...DEFAULT_SPECTROGRAM_OPTIONS, ...options };
+    const key = `${resolved.frameSize}:${resolved.hopSize}:${resolved.window}`;
+
+    let spectrogram = this.spectrograms.get(key);
+    if (!spectrogram) {
+      spectrogram = computeSpectrogram(this.signal, this.sampleRate, resolved);
+      this.spectrograms.set(key, spectrogram);
+    }
+    return spectrogram;
+  }
+
+  // Frames whose energy is within `dynamicRangeDb` of the loudest frame
+  getActiveFrames(dynamicRangeDb = 40, options: Partial<SpectrogramOptions> = {}): number[] {
+    const { frameEnergy, numFrames } = this.getSpectrogram(options);
+    let maxEnergy = 0;
+    for (let f = 0; f < numFrames; f++) maxEnergy = Math.max(maxEnergy, frameEnergy[f]);
+    if (maxEnergy <= 0) return [];
+
+    const threshold = maxEnergy * Math.pow(10, -dynamicRangeDb / 10);
+    const frames: number[] = [];
+    for (let f = 0; f < numFrames; f++) {
+      if (frameEnergy[f] >= threshold) frames.push(f);
+    }
+    return frames;
+  }
+
+  // Mean of a per-frame spectral measure over the active frames
+  averageOverFrames(measure: (spectrum: Float32Array, frameSize: number, sampleRate: number) => number): number {
+    const spectrogram = this.getSpectrogram();
+    const frames = this.getActiveFrames();
+    if (frames.length === 0) return 0;
+
+    let sum = 0;
+    for (const f of frames) {
+      sum += measure(spectrogram.magnitude[f], spectrogram.frameSize, this.sampleRate);
+    }
+    return sum / frames.length;
+  }
+}
+
+// Autocorrelation r[0..maxLag] via the Wiener-Khinchin theorem. The power
+// spectrum is real and even, so its inverse transform is a forward transform
+// scaled by 1/N.
+export function autocorrelation(frame: ArrayLike<number>, maxLag = frame.length - 1): Float64Array {
+  const fftSize = nextPowerOfTwo(2 * frame.length);
+  const fft = getFFT(fftSize);
+  const power = powerSpectrum(frame, fftSize);
+
+  const symmetric = new Float64Array(fftSize);
+  for (let k = 0; k < fftSize; k++) {
+    symmetric[k] = power[k <= fftSize / 2 ? k : fftSize - k];
+  }
+
+  const re = new Float64Array(fftSize / 2 + 1);
+  const im = new Float64Array(fftSize / 2 + 1);
+  fft.forward(symmetric, re, im);
+
+  const lags = Math.min(maxLag, frame.length - 1) + 1;
+  const result = new Float64Array(lags);
+  for (let lag = 0; lag < lags; lag++) {
+    result[lag] = re[lag] / fftSize;
+  }
+  return result;
+}
+
+// Cross-correlation c[lag] = sum_j a[j] * b[j + lag] for lag = 0..maxLag.
+// Both real inputs share one complex FFT (a in the real part, b in the
+// imaginary part) and are separated by conjugate symmetry.
+export function crossCorrelation(a: ArrayLike<number>, b: ArrayLike<number>, maxLag: number): Float64Array {
+  const size = nextPowerOfTwo(a.length + b.length);
+  const fft = getComplexFFT(size);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < a.length; i++) re[i] = a[i];
+  for (let i = 0; i < b.length; i++) im[i] = b[i];
+  fft.forward(re, im);
+
+  const productRe = new Float64Array(size);
+  const productIm = new Float64Array(size);
+  for (let k = 0; k < size; k++) {
+    const mirror = (size - k) % size;
+    const aRe = (re[k] + re[mirror]) / 2;
+    const aIm = (im[k] - im[mirror]) / 2;
+    const bRe = (im[k] + im[mirror]) / 2;
+    const bIm = -(re[k] - re[mirror]) / 2;
+    // conj(A) * B
+    productRe[k] = aRe * bRe + aIm * bIm;
+    productIm[k] = aRe * bIm - aIm * bRe;
+  }
+  fft.inverse(productRe, productIm);
+
+  const lags = Math.max(0, Math.min(maxLag, b.length - 1) + 1);
+  return productRe.slice(0, lags);
+}
@@ -0,0 +1,258 @@
+import { AssessmentResult } from '@/types/assessment';
+import { PitchContour, computePitchStatistics } from './pitchTracking';
+
+// Features for the connected-speech parts of the voice protocol: the
+// diadochokinetic "pa-ta-ka" task and a read passage. Both are built on
+// syllable nuclei found in the intensity envelope (after de Jong & Wempe,
+// 2009) and on pauses, the silent stretches between them.
+
+export type VoiceTaskId = 'vowel' | 'ddk' | 'passage';
+
+export interface DdkFeatures {
+  syllableCount: number;
+  duration: number; // Seconds from first to last syllable
+  rate: number; // Syllables per second
+  meanInterval: number; // Seconds between syllable nuclei
+  intervalSd: number;
+  intervalCv: number; // Regularity: lower is steadier
+  rateDecay: number; // Second-half minus first-half rate, syllables/s
+  intensityCv: number; // Syllable-to-syllable loudness variation
+}
+
+export interface PassageFeatures {
+  syllableCount: number;
+  duration: number; // Seconds from speech onset to offset
+  phonationTime: number; // Duration minus pauses
+  pauseCount: number;
+  meanPauseDuration: number;
+  pauseRatio: number; // Pause time over duration
+  speechRate: number; // Syllables per second, pauses included
+  articulationRate: number; // Syllables per second of phonation
+  f0SdSemitones: number; // Monopitch indicator
+  intensitySdDb: number; // Monoloudness indicator
+}
+
+export interface SpeechTaskOptions {
+  frameTime: number; // Envelope hop, seconds
+  silenceRange: number; // dB below the loudest frame treated as silence
+  minDip: number; // dB drop required between two syllable nuclei
+  minSyllableGap: number; // Seconds
+  minPause: number; // Seconds of silence counted as a pause
+}
+
+export const DEFAULT_SPEECH_TASK_OPTIONS: SpeechTaskOptions = {
+  frameTime: 0.01,
+  silenceRange: 25,
+  minDip: 2,
+  minSyllableGap: 0.06,
+  minPause: 0.15
+};
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return values.length > 0 ? Math.sqrt(mean(values.map(v => (v - average) * (v - average)))) : 0;
+}
+
+// Short-time intensity in dB, 2-hop windows, lightly smoothed
+export function intensityEnvelope(signal: Float32Array, sampleRate: number, frameTime: number): number[] {
+  const hop = Math.max(1, Math.round(frameTime * sampleRate));
+  const window = 2 * hop;
+  const raw: number[] = [];
+  for (let start = 0; start + window <= signal.length; start += hop) {
+    let energy = 0;
+    for (let n = start; n < start + window; n++) energy += signal[n] * signal[n];
+    raw.push(10 * Math.log10(energy / window + 1e-12));
+  }
+  return raw.map((_, i) => mean(raw.slice(Math.max(0, i - 1), i + 2)));
+}
+
+// Intensity peaks above the silence floor with a clear dip before the next
+// one; optionally restricted to voiced frames
+export function detectSyllableNuclei(
+  envelope: number[],
+  options: SpeechTaskOptions = DEFAULT_SPEECH_TASK_OPTIONS,
+  voiced?: (frame: number) => boolean
+): number[] {
+  const floor = Math.max(...envelope) - options.silenceRange;
+  const minGap = Math.round(options.minSyllableGap / options.frameTime);
+
+  const candidates: number[] = [];
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] > floor && envelope[i] >= envelope[i - 1] && envelope[i] > envelope[i + 1]) {
+      if (!voiced || voiced(i)) candidates.push(i);
+    }
+  }
+
+  const nuclei: number[] = [];
+  for (const peak of candidates) {
+    const previous = nuclei[nuclei.length - 1];
+    if (previous === undefined) {
+      nuclei.push(peak);
+      continue;
+    }
+    let dip = Infinity;
+    for (let j = previous; j <= peak; j++) dip = Math.min(dip, envelope[j]);
+    const separated = Math.min(envelope[previous], envelope[peak]) - dip >= options.minDip;
+
+    if (separated && peak - previous >= minGap) {
+      nuclei.push(peak);
+    } else if (envelope[peak] > envelope[previous]) {
+      // Same syllable: keep the stronger peak
+      nuclei[nuclei.length - 1] = peak;
+    }
+  }
+  return nuclei;
+}
+
+// Silent stretches of at least minPause between the first and last loud frame
+function findPauses(envelope: number[], options: SpeechTaskOptions): { onset: number; offset: number; pauses: number[] } {
+  const floor = Math.max(...envelope) - options.silenceRange;
+  const loud = envelope.map(value => value > floor);
+  const onset = loud.indexOf(true);
+  const offset = loud.lastIndexOf(true);
+
+  const pauses: number[] = [];
+  let run = 0;
+  for (let i = onset; i <= offset; i++) {
+    if (!loud[i]) {
+      run++;
+      continue;
+    }
+    if (run * options.frameTime >= options.minPause) pauses.push(run * options.frameTime);
+    run = 0;
+  }
+  return { onset, offset, pauses };
+}
+
+export function analyzeDdk(
+  signal: Float32Array,
+  sampleRate: number,
+  options: Partial<SpeechTaskOptions> = {}
+): DdkFeatures {
+  const resolved = { ...DEFAULT_SPEECH_TASK_OPTIONS, ...options };
+  const envelope = intensityEnvelope(signal, sampleRate, resolved.frameTime);
+  const nuclei = detectSyllableNuclei(envelope, resolved);
+
+  const times = nuclei.map(frame => frame * resolved.frameTime);
+  const intervals = times.slice(1).map((time, i) => time - times[i]);
+  const duration = times.length > 1 ? times[times.length - 1] - times[0] : 0;
+
+  // Rate in each half of the task, to catch slowing down
+  const middle = times.length > 0 ? times[0] + duration / 2 : 0;
+  const halfRate = (from: number, to: number) => {
+    const count = times.filter(time => time >= from && time < to).length;
+    return to > from ? count / (to - from) : 0;
+  };
+  const rateDecay = duration > 0 ? halfRate(middle, times[times.length - 1] + 1e-9) - halfRate(times[0], middle) : 0;
+
+  const peakLevels = nuclei.map(frame => Math.pow(10, envelope[frame] / 20));
+  const meanInterval = mean(intervals);
+  const intervalSd = standardDeviation(intervals);
+
+  return {
+    syllableCount: nuclei.length,
+    duration,
+    rate: duration > 0 ? (nuclei.length - 1) / duration : 0,
+    meanInterval,
+    intervalSd,
+    intervalCv: meanInterval > 0 ? intervalSd / meanInterval : 0,
+    rateDecay,
+    intensityCv: mean(peakLevels) > 0 ? standardDeviation(peakLevels) / mean(peakLevels) : 0
+  };
+}
+
+export function analyzePassage(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: Partial<SpeechTaskOptions> = {}
+): PassageFeatures {
+  const resolved = { ...DEFAULT_SPEECH_TASK_OPTIONS, ...options };
+  const envelope = intensityEnvelope(signal, sampleRate, resolved.frameTime);
+
+  // Envelope frame i covers the same time as the nearest contour frame
+  const isVoiced = (frame: number) => {
+    const time = (frame + 1) * resolved.frameTime;
+    const index = Math.round((time - (contour.times[0] ?? 0)) / contour.hopTime);
+    return index >= 0 && index < contour.voiced.length && contour.voiced[index];
+  };
+  const nuclei = detectSyllableNuclei(envelope, resolved, isVoiced);
+  const { onset, offset, pauses } = findPauses(envelope, resolved);
+
+  const duration = offset > onset ? (offset - onset + 1) * resolved.frameTime : 0;
+  const pauseTime = pauses.reduce((a, b) => a + b, 0);
+  const phonationTime = Math.max(0, duration - pauseTime);
+
+  const speechLevels = envelope.filter((_, i) => i >= onset && i <= offset && isVoiced(i));
+
+  return {
+    syllableCount: nuclei.length,
+    duration,
+    phonationTime,
+    pauseCount: pauses.length,
+    meanPauseDuration: mean(pauses),
+    pauseRatio: duration > 0 ? pauseTime / duration : 0,
+    speechRate: duration > 0 ? nuclei.length / duration : 0,
+    articulationRate: phonationTime > 0 ? nuclei.length / phonationTime : 0,
+    f0SdSemitones: computePitchStatistics(contour).sdSemitones,
+    intensitySdDb: standardDeviation(speechLevels)
+  };
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+// Heuristic scores against typical adult ranges: pa-ta-ka at 5-7 syllables/s
+// with steady timing, reading at 3.5-5 syllables/s with under a quarter of
+// the time in pauses and at least 2 semitones of pitch movement
+export function scoreDdk(features: DdkFeatures): AssessmentResult {
+  let penalty = 0;
+  if (features.rate < 5) penalty += (5 - features.rate) * 12;
+  if (features.intervalCv > 0.1) penalty += (features.intervalCv - 0.1) * 150;
+  if (features.rateDecay < -0.5) penalty += (-0.5 - features.rateDecay) * 10;
+  if (features.intensityCv > 0.3) penalty += (features.intensityCv - 0.3) * 40;
+
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(Math.min(90, 50 + features.syllableCount)),
+    status: statusFromScore(score),
+    details: `DDK (pa-ta-ka): ${features.syllableCount} syllables at ${features.rate.toFixed(1)}/s, interval CV=${features.intervalCv.toFixed(3)}, rate change=${features.rateDecay.toFixed(2)}/s`
+  };
+}
+
+export function scorePassage(features: PassageFeatures): AssessmentResult {
+  let penalty = 0;
+  if (features.speechRate < 3.5) penalty += (3.5 - features.speechRate) * 15;
+  if (features.pauseRatio > 0.25) penalty += (features.pauseRatio - 0.25) * 120;
+  if (features.f0SdSemitones < 2) penalty += (2 - features.f0SdSemitones) * 10;
+  if (features.intensitySdDb < 3) penalty += (3 - features.intensitySdDb) * 4;
+
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(Math.min(90, 50 + features.syllableCount / 3)),
+    status: statusFromScore(score),
+    details: `Read passage: speech rate=${features.speechRate.toFixed(2)} syll/s, articulation rate=${features.articulationRate.toFixed(2)} syll/s, pause ratio=${features.pauseRatio.toFixed(2)} (${features.pauseCount} pauses), F0 SD=${features.f0SdSemitones.toFixed(2)} semitones`
+  };
+}
+
+// One voice result from the scored tasks, each weighted equally
+export function combineVoiceTaskResults(results: AssessmentResult[]): AssessmentResult | undefined {
+  if (results.length === 0) return undefined;
+  const score = mean(results.map(result => result.score));
+  return {
+    score: Math.round(score),
+    confidence: Math.round(mean(results.map(result => result.confidence))),
+    status: statusFromScore(score),
+    details: results.map(result => result.details).filter(Boolean).join(' | ')
+  };
+}
@@ -0,0 +1,562 @@
+import {
+  DEFAULT_SPIRAL_KINEMATICS_OPTIONS,
+  fitArchimedeanSpiral,
+  radiusSmoothness,
+  spiralRating
+} from './spiralKinematics';
+
+// Recovers the drawn line from a photo of a paper spiral: adaptive
+// binarisation, morphological clean-up, Zhang-Suen thinning, then a search
+// for the centre that makes the skeleton look most like r = a + b * theta,
+// which also gives each skeleton pixel its turn and so an ordered centreline.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array; // Luminance, 0-255
+}
+
+export interface BinaryImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 = ink
+}
+
+export type ThresholdMethod = 'otsu' | 'sauvola';
+
+export interface SpiralImageOptions {
+  method: ThresholdMethod;
+  sauvolaWindow: number; // Pixels, odd
+  sauvolaK: number;
+  minComponentFraction: number; // Of the largest component's area
+  angularBins: number; // Bins per turn for spacing estimates and the centreline
+}
+
+export const DEFAULT_SPIRAL_IMAGE_OPTIONS: SpiralImageOptions = {
+  method: 'sauvola',
+  sauvolaWindow: 31,
+  sauvolaK: 0.2,
+  minComponentFraction: 0.02,
+  angularBins: 180
+};
+
+export interface SpiralCentreline {
+  centerX: number;
+  centerY: number;
+  direction: 1 | -1; // 1 when theta grows with image angle (clockwise on screen)
+  turnSpacing: number; // Pixels between neighbouring turns
+  concentration: number; // 0-1, how well the skeleton fits one spiral
+  theta: number[]; // Unwrapped angle, increasing
+  radius: number[];
+  inkArea: number; // Pixels
+  skeletonLength: number; // Pixels
+  strokeWidths: number[]; // Local line width at skeleton pixels
+}
+
+// Ink pixels within this distance (pixels) along a ray count as one crossing
+const CROSSING_MERGE_DISTANCE = 3;
+
+export function toGrayscale(image: { width: number; height: number; data: Uint8ClampedArray }): GrayImage {
+  const data = new Float32Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const offset = i * 4;
+    data[i] = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Threshold that maximises the between-class variance of the histogram
+export function otsuThreshold(gray: GrayImage): number {
+  const histogram = new Float64Array(256);
+  for (const value of gray.data) histogram[Math.max(0, Math.min(255, Math.round(value)))]++;
+
+  const total = gray.data.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let weightBackground = 0;
+  let sumBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+export function otsuBinarize(gray: GrayImage): BinaryImage {
+  const threshold = otsuThreshold(gray);
+  const data = new Uint8Array(gray.data.length);
+  for (let i = 0; i < data.length; i++) data[i] = gray.data[i] <= threshold ? 1 : 0;
+  return { width: gray.width, height: gray.height, data };
+}
+
+// Sauvola's local threshold T = m * (1 + k * (s / R - 1)) from integral
+// images, so shadows and uneven lighting across the page don't turn into ink
+export function sauvolaBinarize(gray: GrayImage, windowSize = 31, k = 0.2, range = 128): BinaryImage {
+  const { width, height } = gray;
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSquares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = gray.data[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSquares[(y + 1) * stride + x + 1] = sumSquares[y * stride + x + 1] + rowSquares;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const count = (bottom - top) * (right - left);
+      const boxSum = sum[bottom * stride + right] - sum[top * stride + right] - sum[bottom * stride + left] + sum[top * stride + left];
+      const boxSquares = sumSquares[bottom * stride + right] - sumSquares[top * stride + right]
+        - sumSquares[bottom * stride + left] + sumSquares[top * stride + left];
+      const mean = boxSum / count;
+      const deviation = Math.sqrt(Math.max(0, boxSquares / count - mean * mean));
+      const threshold = mean * (1 + k * (deviation / range - 1));
+      data[y * width + x] = gray.data[y * width + x] <= threshold ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+}
+
+function morph(image: BinaryImage, keep: (neighbourhood: number) => boolean): BinaryImage {
+  const { width, height } = image;
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) count += image.data[ny * width + nx];
+        }
+      }
+      data[y * width + x] = keep(count) ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+}
+
+// 3x3 square structuring element
+export function dilate(image: BinaryImage): BinaryImage {
+  return morph(image, count => count > 0);
+}
+
+export function erode(image: BinaryImage): BinaryImage {
+  return morph(image, count => count === 9);
+}
+
+// Fills pinholes and hairline breaks in the pen line
+export function morphClose(image: BinaryImage): BinaryImage {
+  return erode(dilate(image));
+}
+
+// Drops 8-connected components smaller than a fraction of the largest,
+// e.g. paper texture and dust that survived thresholding
+export function removeSmallComponents(image: BinaryImage, minFraction: number): BinaryImage {
+  const { width, height } = image;
+  const labels = new Int32Array(width * height);
+  const areas: number[] = [0];
+  const stack: number[] = [];
+
+  for (let start = 0; start < labels.length; start++) {
+    if (!image.data[start] || labels[start]) continue;
+    const label = areas.length;
+    let area = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      area++;
+      const x = index % width;
+      const y = (index - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const neighbour = ny * width + nx;
+          if (image.data[neighbour] && !labels[neighbour]) {
+            labels[neighbour] = label;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+    areas.push(area);
+  }
+
+  const minArea = Math.max(...areas) * minFraction;
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) data[i] = labels[i] && areas[labels[i]] >= minArea ? 1 : 0;
+  return { width, height, data };
+}
+
+// Zhang & Suen (1984) thinning to a one-pixel-wide, 8-connected skeleton
+export function zhangSuenThin(image: BinaryImage): BinaryImage {
+  const { width, height } = image;
+  const data = Uint8Array.from(image.data);
+  const toDelete: number[] = [];
+
+  const pixel = (x: number, y: number) => (x >= 0 && y >= 0 && x < width && y < height ? data[y * width + x] : 0);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!data[y * width + x]) continue;
+          // P2..P9 clockwise from north
+          const p = [
+            pixel(x, y - 1), pixel(x + 1, y - 1), pixel(x + 1, y), pixel(x + 1, y + 1),
+            pixel(x, y + 1), pixel(x - 1, y + 1), pixel(x - 1, y), pixel(x - 1, y - 1)
+          ];
+          const neighbours = p.reduce((a, b) => a + b, 0);
+          if (neighbours < 2 || neighbours > 6) continue;
+          let transitions = 0;
+          for (let i = 0; i < 8; i++) if (!p[i] && p[(i + 1) % 8]) transitions++;
+          if (transitions !== 1) continue;
+
+          const [p2, , p4, , p6, , p8] = p;
+          const remove = pass === 0
+            ? !(p2 && p4 && p6) && !(p4 && p6 && p8)
+            : !(p2 && p4 && p8) && !(p2 && p6 && p8);
+          if (remove) toDelete.push(y * width + x);
+        }
+      }
+      if (toDelete.length > 0) changed = true;
+      for (const index of toDelete) data[index] = 0;
+      toDelete.length = 0;
+    }
+  }
+  return { width, height, data };
+}
+
+// 3-4 chamfer distance from each ink pixel to the nearest background pixel
+export function distanceTransform(image: BinaryImage): Float32Array {
+  const { width, height } = image;
+  const distance = new Float32Array(width * height);
+  const big = 1e9;
+  for (let i = 0; i < distance.length; i++) distance[i] = image.data[i] ? big : 0;
+
+  const relax = (index: number, x: number, y: number, dx: number, dy: number, cost: number) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    const neighbour = nx >= 0 && ny >= 0 && nx < width && ny < height ? distance[ny * width + nx] : 0;
+    if (neighbour + cost < distance[index]) distance[index] = neighbour + cost;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (!distance[index]) continue;
+      relax(index, x, y, -1, 0, 3);
+      relax(index, x, y, 0, -1, 3);
+      relax(index, x, y, -1, -1, 4);
+      relax(index, x, y, 1, -1, 4);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const index = y * width + x;
+      if (!distance[index]) continue;
+      relax(index, x, y, 1, 0, 3);
+      relax(index, x, y, 0, 1, 3);
+      relax(index, x, y, 1, 1, 4);
+      relax(index, x, y, -1, 1, 4);
+    }
+  }
+  for (let i = 0; i < distance.length; i++) distance[i] /= 3;
+  return distance;
+}
+
+interface UnwrapResult {
+  direction: 1 | -1;
+  spacing: number;
+  offset: number; // a in r = a + b * theta
+  concentration: number;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Spacing between neighbouring turns: along each angular bin, the gaps
+// between successive crossings of the line
+function estimateSpacing(angles: Float64Array, radii: Float64Array, bins: number): number {
+  const perBin: number[][] = Array.from({ length: bins }, () => []);
+  for (let i = 0; i < angles.length; i++) {
+    perBin[Math.min(bins - 1, Math.floor((angles[i] / (2 * Math.PI)) * bins))].push(radii[i]);
+  }
+
+  const gaps: number[] = [];
+  for (const bin of perBin) {
+    bin.sort((a, b) => a - b);
+    const crossings: number[] = [];
+    let group: number[] = [];
+    for (const r of bin) {
+      if (group.length > 0 && r - group[group.length - 1] > CROSSING_MERGE_DISTANCE) {
+        crossings.push(group.reduce((a, b) => a + b, 0) / group.length);
+        group = [];
+      }
+      group.push(r);
+    }
+    if (group.length > 0) crossings.push(group.reduce((a, b) => a + b, 0) / group.length);
+    for (let i = 1; i < crossings.length; i++) gaps.push(crossings[i] - crossings[i - 1]);
+  }
+  return median(gaps);
+}
+
+// For an Archimedean spiral (r - b * phi) / spacing has the same fractional
+// part at every point; its circular concentration scores a centre and
+// direction, and its mean phase gives a
+function unwrapAbout(xs: number[], ys: number[], cx: number, cy: number, bins: number): UnwrapResult {
+  const angles = new Float64Array(xs.length);
+  const radii = new Float64Array(xs.length);
+  for (let i = 0; i < xs.length; i++) {
+    radii[i] = Math.hypot(xs[i] - cx, ys[i] - cy);
+    const angle = Math.atan2(ys[i] - cy, xs[i] - cx);
+    angles[i] = angle < 0 ? angle + 2 * Math.PI : angle;
+  }
+  const spacing = estimateSpacing(angles, radii, bins);
+
+  let best: UnwrapResult = { direction: 1, spacing, offset: 0, concentration: 0 };
+  if (spacing <= 0) return best;
+
+  for (const direction of [1, -1] as const) {
+    let cosSum = 0;
+    let sinSum = 0;
+    for (let i = 0; i < angles.length; i++) {
+      const phi = direction === 1 ? angles[i] : 2 * Math.PI - angles[i];
+      const phase = (2 * Math.PI * (radii[i] - (spacing * phi) / (2 * Math.PI))) / spacing;
+      cosSum += Math.cos(phase);
+      sinSum += Math.sin(phase);
+    }
+    const concentration = Math.hypot(cosSum, sinSum) / angles.length;
+    if (concentration > best.concentration) {
+      const meanPhase = Math.atan2(sinSum, cosSum);
+      const offset = ((meanPhase < 0 ? meanPhase + 2 * Math.PI : meanPhase) / (2 * Math.PI)) * spacing;
+      best = { direction, spacing, offset, concentration };
+    }
+  }
+  return best;
+}
+
+// Coarse-to-fine grid search for the centre around the skeleton's centroid
+function findSpiralCentre(xs: number[], ys: number[], bins: number): { cx: number; cy: number; unwrap: UnwrapResult } {
+  let cx = xs.reduce((a, b) => a + b, 0) / xs.length;
+  let cy = ys.reduce((a, b) => a + b, 0) / ys.length;
+  const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+
+  let best = unwrapAbout(xs, ys, cx, cy, bins);
+  let range = extent * 0.2;
+  const steps = 4;
+  while (range >= 0.5) {
+    const centreX = cx;
+    const centreY = cy;
+    for (let i = -steps; i <= steps; i++) {
+      for (let j = -steps; j <= steps; j++) {
+        const x = centreX + (i * range) / steps;
+        const y = centreY + (j * range) / steps;
+        const candidate = unwrapAbout(xs, ys, x, y, bins);
+        if (candidate.concentration > best.concentration) {
+          best = candidate;
+          cx = x;
+          cy = y;
+        }
+      }
+    }
+    range /= steps;
+  }
+  return { cx, cy, unwrap: best };
+}
+
+export function binarize(gray: GrayImage, options: SpiralImageOptions = DEFAULT_SPIRAL_IMAGE_OPTIONS): BinaryImage {
+  return options.method === 'otsu'
+    ? otsuBinarize(gray)
+    : sauvolaBinarize(gray, options.sauvolaWindow, options.sauvolaK);
+}
+
+export function extractSpiralCentreline(
+  gray: GrayImage,
+  options: Partial<SpiralImageOptions> = {}
+): SpiralCentreline {
+  const resolved = { ...DEFAULT_SPIRAL_IMAGE_OPTIONS, ...options };
+  const ink = removeSmallComponents(morphClose(binarize(gray, resolved)), resolved.minComponentFraction);
+  const skeleton = zhangSuenThin(ink);
+  const distance = distanceTransform(ink);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const strokeWidths: number[] = [];
+  let inkArea = 0;
+  for (let i = 0; i < ink.data.length; i++) {
+    inkArea += ink.data[i];
+    if (!skeleton.data[i]) continue;
+    xs.push(i % gray.width);
+    ys.push(Math.floor(i / gray.width));
+    strokeWidths.push(2 * distance[i] - 1);
+  }
+  if (xs.length < 50) {
+    throw new Error('No spiral line could be found in the image. Use a clear photo of a dark line on white paper.');
+  }
+
+  const { cx, cy, unwrap } = findSpiralCentre(xs, ys, resolved.angularBins);
+  const { direction, spacing, offset } = unwrap;
+  const slope = spacing / (2 * Math.PI);
+
+  // Give every skeleton pixel its turn, then average into angle bins to get
+  // one ordered radius per step along the line
+  const binWidth = (2 * Math.PI) / resolved.angularBins;
+  const bins = new Map<number, { sum: number; count: number }>();
+  for (let i = 0; i < xs.length; i++) {
+    const angle = Math.atan2(ys[i] - cy, xs[i] - cx);
+    const positive = angle < 0 ? angle + 2 * Math.PI : angle;
+    const phi = direction === 1 ? positive : 2 * Math.PI - positive;
+    const r = Math.hypot(xs[i] - cx, ys[i] - cy);
+    const turn = Math.round((r - offset - slope * phi) / spacing);
+    const bin = Math.round((phi + 2 * Math.PI * turn) / binWidth);
+    const entry = bins.get(bin) ?? { sum: 0, count: 0 };
+    entry.sum += r;
+    entry.count++;
+    bins.set(bin, entry);
+  }
+
+  const ordered = [...bins.entries()].sort((a, b) => a[0] - b[0]);
+  const start = ordered.length > 0 ? ordered[0][0] : 0;
+  return {
+    centerX: cx,
+    centerY: cy,
+    direction,
+    turnSpacing: spacing,
+    concentration: unwrap.concentration,
+    theta: ordered.map(([bin]) => (bin - start) * binWidth),
+    radius: ordered.map(([, entry]) => entry.sum / entry.count),
+    inkArea,
+    skeletonLength: xs.length,
+    strokeWidths
+  };
+}
+
+export interface SpiralGeometry {
+  centerX: number;
+  centerY: number;
+  turns: number;
+  turnSpacing: number; // Pixels, from the fitted slope
+  radiusIntercept: number;
+  fitRSquared: number;
+  residualRms: number; // Pixels
+  relativeResidual: number; // residualRms over turnSpacing
+  firstOrderSmoothness: number; // See radiusSmoothness; pixels^2 per radian^2
+  secondOrderSmoothness: number;
+  spacingCv: number; // Variation of the gap between neighbouring turns
+  tremorAmplitude: number; // Peak-to-peak of the short-wavelength residual, pixels
+  rating: number; // 0-10, Bain & Findley-like, from tremorAmplitude
+  meanStrokeWidth: number; // Pixels
+  strokeWidthCv: number;
+  centreline: { theta: number[]; radius: number[] };
+}
+
+// Residual wobble shorter than this many turn spacings along the line is
+// treated as tremor; longer wobble is uneven drawing
+const TREMOR_WAVELENGTH_SPACINGS = 2;
+
+function interpolate(xs: number[], ys: number[], x: number): number | null {
+  if (x < xs[0] || x > xs[xs.length - 1]) return null;
+  let low = 0;
+  let high = xs.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (xs[middle] <= x) low = middle;
+    else high = middle;
+  }
+  const span = xs[high] - xs[low];
+  return span > 0 ? ys[low] + ((ys[high] - ys[low]) * (x - xs[low])) / span : ys[low];
+}
+
+function coefficientOfVariation(values: number[]): number {
+  const average = values.reduce((a, b) => a + b, 0) / (values.length || 1);
+  const variance = values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length || 1);
+  return average > 0 ? Math.sqrt(variance) / average : 0;
+}
+
+// Static, scale-free measures of the recovered line, mirroring what the
+// kinematic analysis gets from a drawn trajectory
+export function measureSpiralGeometry(centreline: SpiralCentreline): SpiralGeometry {
+  const { theta, radius } = centreline;
+  const fit = fitArchimedeanSpiral(theta, radius);
+  const turnSpacing = 2 * Math.PI * fit.slope;
+  const smoothness = radiusSmoothness(theta, radius, fit.slope, DEFAULT_SPIRAL_KINEMATICS_OPTIONS.thetaStep);
+
+  // High-pass the residual with a moving average over a fixed arc length
+  const arc: number[] = [0];
+  for (let i = 1; i < theta.length; i++) {
+    arc.push(arc[i - 1] + Math.hypot(radius[i] * (theta[i] - theta[i - 1]), radius[i] - radius[i - 1]));
+  }
+  const halfWindow = (TREMOR_WAVELENGTH_SPACINGS * Math.max(turnSpacing, 1)) / 2;
+  let tremorSquares = 0;
+  let low = 0;
+  let high = 0;
+  let windowSum = 0;
+  for (let i = 0; i < theta.length; i++) {
+    while (high < theta.length && arc[high] <= arc[i] + halfWindow) windowSum += fit.residual[high++];
+    while (arc[low] < arc[i] - halfWindow) windowSum -= fit.residual[low++];
+    const local = fit.residual[i] - windowSum / (high - low);
+    tremorSquares += local * local;
+  }
+  const tremorAmplitude = 2 * Math.SQRT2 * Math.sqrt(tremorSquares / Math.max(1, theta.length));
+
+  // Gap to the next turn out, wherever both turns were recovered
+  const gaps: number[] = [];
+  for (let i = 0; i < theta.length; i++) {
+    const outer = interpolate(theta, radius, theta[i] + 2 * Math.PI);
+    if (outer !== null) gaps.push(outer - radius[i]);
+  }
+
+  const widths = centreline.strokeWidths;
+  return {
+    centerX: centreline.centerX,
+    centerY: centreline.centerY,
+    turns: theta.length > 0 ? (theta[theta.length - 1] - theta[0]) / (2 * Math.PI) : 0,
+    turnSpacing,
+    radiusIntercept: fit.intercept,
+    fitRSquared: fit.rSquared,
+    residualRms: fit.residualRms,
+    relativeResidual: turnSpacing > 0 ? fit.residualRms / turnSpacing : 0,
+    firstOrderSmoothness: smoothness.firstOrder,
+    secondOrderSmoothness: smoothness.secondOrder,
+    spacingCv: coefficientOfVariation(gaps),
+    tremorAmplitude,
+    rating: spiralRating(tremorAmplitude, turnSpacing),
+    meanStrokeWidth: widths.reduce((a, b) => a + b, 0) / (widths.length || 1),
+    strokeWidthCv: coefficientOfVariation(widths),
+    centreline: { theta, radius }
+  };
+}
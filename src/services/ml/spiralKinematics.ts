@@ -0,0 +1,352 @@
+import { AssessmentResult, PenSample, SpiralTrajectory } from '@/types/assessment';
+import { createWindow, nextPowerOfTwo, powerSpectrum } from './spectralAnalysis';
+
+// Kinematic features of a spiral traced on screen. The drawing is unwrapped
+// into radius against cumulative angle around the template centre and fitted
+// with r = a + b * theta; deviations from that line carry the tremor, and the
+// pen's path over time gives speed, acceleration and jerk.
+
+export interface SpiralKinematics {
+  drawingTime: number; // Seconds, first to last sample
+  penDownTime: number;
+  penLifts: number;
+  turns: number; // Turns covered by the drawing
+  radiusIntercept: number; // a, canvas units
+  turnSpacing: number; // 2 * PI * b, canvas units per turn
+  fitRSquared: number;
+  residualRms: number; // Canvas units
+  firstOrderSmoothness: number; // Mean squared deviation of dr/dtheta from b
+  secondOrderSmoothness: number; // Mean squared d2r/dtheta2
+  meanSpeed: number; // Canvas units per second
+  speedCv: number;
+  meanAcceleration: number;
+  meanJerk: number;
+  meanRadialVelocity: number; // dr/dt, canvas units per second
+  meanAngularVelocity: number; // Radians per second
+  tremorFrequency: number; // Hz, strongest component in the tremor band
+  tremorAmplitude: number; // Peak-to-peak radial tremor, canvas units
+  tremorPowerRatio: number; // Tremor band power over all residual power
+  meanPressure: number;
+  pressureCv: number; // Only meaningful for pens
+  rating: number; // 0-10, comparable to the Bain & Findley spiral scale
+  unwrapped: { theta: number[]; radius: number[] };
+}
+
+export interface SpiralKinematicsOptions {
+  sampleRate: number; // Hz the strokes are resampled to
+  tremorBand: [number, number]; // Hz
+  thetaStep: number; // Radians between points of the smoothness grid
+  minTurns: number;
+  minDuration: number; // Seconds
+}
+
+export const DEFAULT_SPIRAL_KINEMATICS_OPTIONS: SpiralKinematicsOptions = {
+  sampleRate: 100,
+  tremorBand: [3, 12],
+  thetaStep: (2 * Math.PI) / 90,
+  minTurns: 1,
+  minDuration: 1
+};
+
+// Peak-to-peak tremor, as a fraction of the turn spacing, that rates 1
+const RATING_REFERENCE_AMPLITUDE = 0.02;
+
+function mean(values: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+}
+
+function standardDeviation(values: ArrayLike<number>): number {
+  const average = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - average) * (values[i] - average);
+  return values.length > 0 ? Math.sqrt(sum / values.length) : 0;
+}
+
+function linearFit(x: ArrayLike<number>, y: ArrayLike<number>): { intercept: number; slope: number } {
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) * (x[i] - mx);
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { intercept: my - slope * mx, slope };
+}
+
+// Linear interpolation of a stroke onto a uniform time grid; pointer
+// events arrive at irregular intervals
+function resampleStroke(stroke: PenSample[], sampleRate: number): PenSample[] {
+  if (stroke.length < 2) return [];
+  const step = 1000 / sampleRate;
+  const output: PenSample[] = [];
+  let j = 0;
+  for (let t = stroke[0].t; t <= stroke[stroke.length - 1].t; t += step) {
+    while (j < stroke.length - 2 && stroke[j + 1].t < t) j++;
+    const a = stroke[j];
+    const b = stroke[j + 1];
+    const span = b.t - a.t;
+    const f = span > 0 ? Math.min(1, Math.max(0, (t - a.t) / span)) : 0;
+    const lerp = (p: number, q: number) => p + (q - p) * f;
+    output.push({
+      x: lerp(a.x, b.x),
+      y: lerp(a.y, b.y),
+      t,
+      pressure: lerp(a.pressure, b.pressure),
+      tiltX: lerp(a.tiltX, b.tiltX),
+      tiltY: lerp(a.tiltY, b.tiltY)
+    });
+  }
+  return output;
+}
+
+// 3-point moving average so finite differences don't just amplify
+// digitiser noise; it keeps ~87% of a 10 Hz tremor at 100 Hz
+function smooth(values: number[]): number[] {
+  return values.map((_, i) => mean(values.slice(Math.max(0, i - 1), i + 2)));
+}
+
+function derivative(values: number[], dt: number): number[] {
+  return values.slice(1).map((value, i) => (value - values[i]) / dt);
+}
+
+export interface ArchimedeanFit {
+  intercept: number; // a
+  slope: number; // b, per radian
+  rSquared: number;
+  residual: number[]; // r - (a + b * theta) for each point
+  residualRms: number;
+}
+
+// Least-squares r = a + b * theta over an unwrapped spiral
+export function fitArchimedeanSpiral(theta: number[], radius: number[]): ArchimedeanFit {
+  const { intercept, slope } = linearFit(theta, radius);
+  const residual = radius.map((r, i) => r - (intercept + slope * theta[i]));
+  const residualVariance = mean(residual.map(value => value * value));
+  const radiusVariance = standardDeviation(radius) ** 2;
+  return {
+    intercept,
+    slope,
+    rSquared: radiusVariance > 0 ? 1 - residualVariance / radiusVariance : 0,
+    residual,
+    residualRms: Math.sqrt(residualVariance)
+  };
+}
+
+// First- and second-order smoothness of r(theta) on a uniform angle grid.
+// Uses the running maximum of theta so backtracking doesn't produce a
+// multi-valued r(theta).
+export function radiusSmoothness(
+  theta: number[],
+  radius: number[],
+  slope: number,
+  thetaStep: number
+): { firstOrder: number; secondOrder: number } {
+  const gridTheta: number[] = [];
+  const gridRadius: number[] = [];
+  let reached = -Infinity;
+  let reachedRadius = 0;
+  for (let i = 0; i < theta.length; i++) {
+    if (theta[i] <= reached) continue;
+    if (gridTheta.length === 0) {
+      gridTheta.push(theta[i]);
+      gridRadius.push(radius[i]);
+    } else {
+      for (let target = gridTheta[gridTheta.length - 1] + thetaStep; target <= theta[i]; target += thetaStep) {
+        const f = (target - reached) / (theta[i] - reached);
+        gridTheta.push(target);
+        gridRadius.push(reachedRadius + (radius[i] - reachedRadius) * f);
+      }
+    }
+    reached = theta[i];
+    reachedRadius = radius[i];
+  }
+  const firstDerivative = derivative(gridRadius, thetaStep);
+  const secondDerivative = derivative(firstDerivative, thetaStep);
+  return {
+    firstOrder: mean(firstDerivative.map(value => (value - slope) ** 2)),
+    secondOrder: mean(secondDerivative.map(value => value * value))
+  };
+}
+
+// Peak frequency, peak-to-peak amplitude and band share of the radial residual
+function tremorSpectrum(
+  residual: number[],
+  sampleRate: number,
+  band: [number, number]
+): { frequency: number; amplitude: number; powerRatio: number } {
+  if (residual.length < 8) return { frequency: 0, amplitude: 0, powerRatio: 0 };
+
+  // Remove what is left of the slow drift before windowing
+  const index = residual.map((_, i) => i);
+  const { intercept, slope } = linearFit(index, residual);
+  const window = createWindow('hann', residual.length);
+  const frame = residual.map((value, i) => (value - intercept - slope * i) * window[i]);
+
+  const fftSize = nextPowerOfTwo(Math.max(frame.length, 4 * sampleRate)); // At most 0.25 Hz per bin
+  const power = powerSpectrum(frame, fftSize);
+  let windowEnergy = 0;
+  for (let i = 0; i < window.length; i++) windowEnergy += window[i] * window[i];
+
+  let bandPower = 0;
+  let totalPower = 0;
+  let peakBin = -1;
+  for (let k = 1; k < power.length; k++) {
+    const frequency = (k * sampleRate) / fftSize;
+    totalPower += power[k];
+    if (frequency >= band[0] && frequency <= band[1]) {
+      bandPower += power[k];
+      if (peakBin < 0 || power[k] > power[peakBin]) peakBin = k;
+    }
+  }
+
+  // One-sided Parseval with the window's energy taken out
+  const bandRms = Math.sqrt((2 * bandPower) / (fftSize * windowEnergy));
+  return {
+    frequency: peakBin > 0 ? (peakBin * sampleRate) / fftSize : 0,
+    amplitude: 2 * Math.SQRT2 * bandRms,
+    powerRatio: totalPower > 0 ? bandPower / totalPower : 0
+  };
+}
+
+// Each doubling of tremor amplitude adds about one point on the Bain &
+// Findley scale (Elble et al., 2006); below the reference it falls off
+// linearly to 0
+export function spiralRating(tremorAmplitude: number, turnSpacing: number): number {
+  const relative = turnSpacing > 0 ? tremorAmplitude / turnSpacing : 0;
+  const rating = relative < RATING_REFERENCE_AMPLITUDE
+    ? relative / RATING_REFERENCE_AMPLITUDE
+    : 1 + Math.log2(relative / RATING_REFERENCE_AMPLITUDE);
+  return Math.round(Math.max(0, Math.min(10, rating)) * 10) / 10;
+}
+
+export function analyzeSpiralKinematics(
+  trajectory: SpiralTrajectory,
+  options: Partial<SpiralKinematicsOptions> = {}
+): SpiralKinematics {
+  const resolved = { ...DEFAULT_SPIRAL_KINEMATICS_OPTIONS, ...options };
+  const { centerX, centerY } = trajectory.template;
+  const dt = 1 / resolved.sampleRate;
+
+  const strokes = trajectory.strokes.filter(stroke => stroke.length > 0);
+  const all = strokes.flat();
+  if (all.length < 2) {
+    throw new Error('The spiral drawing has too few points to analyze.');
+  }
+
+  const drawingTime = (all[all.length - 1].t - all[0].t) / 1000;
+  const penDownTime = strokes.reduce((sum, stroke) => sum + (stroke[stroke.length - 1].t - stroke[0].t), 0) / 1000;
+  const resampled = strokes.map(stroke => resampleStroke(stroke, resolved.sampleRate)).filter(s => s.length > 2);
+
+  // Cumulative angle, continuous across pen lifts, counted positive in the
+  // direction the spiral was drawn
+  const theta: number[] = [];
+  const radius: number[] = [];
+  let previousAngle: number | null = null;
+  let unwrapped = 0;
+  for (const stroke of resampled) {
+    for (const sample of stroke) {
+      const angle = Math.atan2(sample.y - centerY, sample.x - centerX);
+      if (previousAngle !== null) {
+        let delta = angle - previousAngle;
+        if (delta > Math.PI) delta -= 2 * Math.PI;
+        if (delta < -Math.PI) delta += 2 * Math.PI;
+        unwrapped += delta;
+      }
+      previousAngle = angle;
+      theta.push(unwrapped);
+      radius.push(Math.hypot(sample.x - centerX, sample.y - centerY));
+    }
+  }
+  const direction = theta.length > 0 && theta[theta.length - 1] < theta[0] ? -1 : 1;
+  const thetaStart = theta[0] ?? 0;
+  for (let i = 0; i < theta.length; i++) theta[i] = direction * (theta[i] - thetaStart);
+
+  const turns = theta.length > 0 ? (Math.max(...theta) - Math.min(...theta)) / (2 * Math.PI) : 0;
+  if (turns < resolved.minTurns || penDownTime < resolved.minDuration) {
+    throw new Error('The spiral drawing is too short to analyze. Trace at least one full turn of the spiral.');
+  }
+
+  const fit = fitArchimedeanSpiral(theta, radius);
+  const { intercept, slope } = fit;
+  const smoothness = radiusSmoothness(theta, radius, slope, resolved.thetaStep);
+
+  // Path kinematics, per stroke so pen lifts don't count as motion
+  const speeds: number[] = [];
+  const accelerations: number[] = [];
+  const jerks: number[] = [];
+  const radialVelocities: number[] = [];
+  for (const stroke of resampled) {
+    const x = smooth(stroke.map(sample => sample.x));
+    const y = smooth(stroke.map(sample => sample.y));
+    const r = x.map((value, i) => Math.hypot(value - centerX, y[i] - centerY));
+    const vx = derivative(x, dt);
+    const vy = derivative(y, dt);
+    const ax = derivative(vx, dt);
+    const ay = derivative(vy, dt);
+    const jx = derivative(ax, dt);
+    const jy = derivative(ay, dt);
+    speeds.push(...vx.map((value, i) => Math.hypot(value, vy[i])));
+    accelerations.push(...ax.map((value, i) => Math.hypot(value, ay[i])));
+    jerks.push(...jx.map((value, i) => Math.hypot(value, jy[i])));
+    radialVelocities.push(...derivative(r, dt));
+  }
+
+  const tremor = tremorSpectrum(fit.residual, resolved.sampleRate, resolved.tremorBand);
+  const turnSpacing = 2 * Math.PI * slope;
+  const pressures = all.map(sample => sample.pressure);
+  const meanPressure = mean(pressures);
+  const meanSpeed = mean(speeds);
+
+  return {
+    drawingTime,
+    penDownTime,
+    penLifts: strokes.length - 1,
+    turns,
+    radiusIntercept: intercept,
+    turnSpacing,
+    fitRSquared: fit.rSquared,
+    residualRms: fit.residualRms,
+    firstOrderSmoothness: smoothness.firstOrder,
+    secondOrderSmoothness: smoothness.secondOrder,
+    meanSpeed,
+    speedCv: meanSpeed > 0 ? standardDeviation(speeds) / meanSpeed : 0,
+    meanAcceleration: mean(accelerations),
+    meanJerk: mean(jerks),
+    meanRadialVelocity: mean(radialVelocities),
+    meanAngularVelocity: penDownTime > 0 ? (turns * 2 * Math.PI) / penDownTime : 0,
+    tremorFrequency: tremor.frequency,
+    tremorAmplitude: tremor.amplitude,
+    tremorPowerRatio: tremor.powerRatio,
+    meanPressure,
+    pressureCv: meanPressure > 0 ? standardDeviation(pressures) / meanPressure : 0,
+    // Rated against the template's spacing so drawing size doesn't matter
+    rating: spiralRating(tremor.amplitude, trajectory.template.spacing),
+    unwrapped: { theta, radius }
+  };
+}
+
+function statusFromRating(rating: number): AssessmentResult['status'] {
+  if (rating < 2) return 'healthy';
+  if (rating < 4) return 'mild';
+  if (rating < 6) return 'moderate';
+  return 'severe';
+}
+
+export function scoreSpiralKinematics(features: SpiralKinematics): AssessmentResult {
+  const tremorText = features.tremorFrequency > 0
+    ? `tremor ${features.tremorFrequency.toFixed(1)} Hz at ${features.tremorAmplitude.toFixed(1)} units peak-to-peak`
+    : 'no tremor peak';
+
+  return {
+    score: Math.round(100 - features.rating * 10),
+    // More turns and a cleaner radius fit give a steadier estimate
+    confidence: Math.round(Math.min(90, 50 + features.turns * 8 + features.fitRSquared * 10)),
+    status: statusFromRating(features.rating),
+    details: `Spiral rating ${features.rating.toFixed(1)}/10: ${tremorText}, radial residual RMS=${features.residualRms.toFixed(2)}, ` +
+      `mean speed=${features.meanSpeed.toFixed(0)} units/s, ${features.penLifts} pen lifts, drawing time ${features.drawingTime.toFixed(1)} s`
+  };
+}
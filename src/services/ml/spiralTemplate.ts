@@ -0,0 +1,37 @@
+import { SpiralTemplate } from '@/types/assessment';
+
+// Geometry of the Archimedean spiral shown on the drawing canvas,
+// r = a + b * theta, with b chosen so neighbouring turns are `spacing` apart.
+// Coordinates are in the canvas' logical units, not device pixels.
+
+export const SPIRAL_CANVAS_SIZE = 600;
+
+export const DEFAULT_SPIRAL_TEMPLATE: SpiralTemplate = {
+  centerX: SPIRAL_CANVAS_SIZE / 2,
+  centerY: SPIRAL_CANVAS_SIZE / 2,
+  startRadius: 8,
+  spacing: 56,
+  turns: 4.5
+};
+
+export function templateRadius(template: SpiralTemplate, theta: number): number {
+  return template.startRadius + (template.spacing * theta) / (2 * Math.PI);
+}
+
+// Points along the template from the centre outwards, roughly `step` units apart
+export function archimedeanSpiralPoints(template: SpiralTemplate, step = 2): { x: number; y: number }[] {
+  const maxTheta = template.turns * 2 * Math.PI;
+  const points: { x: number; y: number }[] = [];
+
+  let theta = 0;
+  while (theta <= maxTheta) {
+    const r = templateRadius(template, theta);
+    points.push({
+      x: template.centerX + r * Math.cos(theta),
+      y: template.centerY + r * Math.sin(theta)
+    });
+    // Arc length per radian is about r, so keep the spacing even as r grows
+    theta += step / Math.max(r, step);
+  }
+  return points;
+}
@@ -1,79 +1,148 @@
+import { AssessmentResult, PatientDemographics } from '@/types/assessment';
+import { SYMPTOM_QUESTIONNAIRE } from './mdsUpdrs';
+import { QuestionnaireAnswers, scoreSubscales, SubscaleScore, validateAnswers } from './questionnaire';
 
-// Analyze symptoms data for Parkinson's indicators
-export async function analyzeSymptomsData(symptomsData: {
-  age: string;
-  familyHistory: boolean;
-  tremor: number;
-  stiffness: number;
-  balance: number;
-  hasFreeze: boolean;
-  hasSleepIssues: boolean;
-  additionalNotes: string;
-}) {
-  try {
-    // Simulate ML processing time
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // In a real implementation, you would use a statistical or ML model
-    // to evaluate the combined symptom data
-    
-    // Calculate risk factors:
-    let riskScore = 0;
-    
-    // Age is a risk factor (higher age = higher risk)
-    const age = parseInt(symptomsData.age) || 0;
-    if (age > 60) riskScore += 15;
-    else if (age > 50) riskScore += 10;
-    else if (age > 40) riskScore += 5;
-    
-    // Family history is a significant risk factor
-    if (symptomsData.familyHistory) riskScore += 20;
-    
-    // Symptom severity factors
-    riskScore += symptomsData.tremor * 3;
-    riskScore += symptomsData.stiffness * 4;
-    riskScore += symptomsData.balance * 4;
-    
-    // Additional symptoms
-    if (symptomsData.hasFreeze) riskScore += 15;
-    if (symptomsData.hasSleepIssues) riskScore += 10;
-    
-    // Calculate final score (100 - risk, so higher is better)
-    const rawScore = Math.max(0, 100 - riskScore);
-    const score = Math.min(100, rawScore);
-    
-    // Determine status based on score
-    let status: "healthy" | "mild" | "moderate" | "severe";
-    if (score >= 80) status = "healthy";
-    else if (score >= 60) status = "mild";
-    else if (score >= 40) status = "moderate";
-    else status = "severe";
-    
-    return {
-      score: Math.round(score),
-      confidence: Math.round(75 + Math.random() * 15), // 75-90% confidence
-      status,
-      details: `Based on symptom analysis, key risk factors include: ${symptomsData.tremor > 5 ? 'significant tremor, ' : ''}${symptomsData.stiffness > 5 ? 'muscle stiffness, ' : ''}${symptomsData.balance > 5 ? 'balance issues, ' : ''}${symptomsData.hasFreeze ? 'freezing episodes, ' : ''}${symptomsData.hasSleepIssues ? 'sleep disturbances, ' : ''}${symptomsData.familyHistory ? 'family history of Parkinson\'s' : ''}`
-    };
-  } catch (error) {
-    console.error('Error analyzing symptoms:', error);
-    throw new Error('Symptoms analysis failed');
+// Scores the structured self-report questionnaire. Part IB and Part II
+// totals are mapped to 0-100 through anchors at the upper end of healthy
+// controls and at the mild/moderate/severe cut-offs of Martinez-Martin et al.
+// (2015), with Part I's cut-offs scaled to the seven Part IB items. Positive
+// prodromal screens lower the score further. Age and family history are kept
+// with the answers but not scored: they change the prior risk, not how
+// affected someone is. Age does temper the smell and constipation screens,
+// which are common in older people without Parkinson's.
+
+export interface SymptomScreens {
+  hyposmia: boolean;
+  constipation: boolean;
+  probableRbd: boolean;
+}
+
+export interface SymptomScores {
+  subscales: SubscaleScore[];
+  screens: SymptomScreens | null; // null when the optional screens were skipped
+}
+
+const SUBSCALE_ANCHORS: Record<string, [number, number][]> = {
+  partIB: [[0, 100], [3, 80], [6, 60], [11, 40], [28, 0]],
+  partII: [[0, 100], [3, 80], [12, 60], [29, 40], [52, 0]]
+};
+
+// RBD is the most specific prodromal marker, so it counts double
+const SCREEN_PENALTIES: Record<keyof SymptomScreens, number> = {
+  hyposmia: 5,
+  constipation: 5,
+  probableRbd: 10
+};
+
+// From this age the smell and constipation penalties are halved
+const AGE_RELATED_SCREEN_AGE = 70;
+
+function interpolate(anchors: [number, number][], total: number): number {
+  for (let i = 1; i < anchors.length; i++) {
+    const [x0, y0] = anchors[i - 1];
+    const [x1, y1] = anchors[i];
+    if (total <= x1) return y0 + ((total - x0) / (x1 - x0)) * (y1 - y0);
   }
+  return anchors[anchors.length - 1][1];
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+export async function analyzeSymptomsData(
+  answers: QuestionnaireAnswers,
+  patient?: PatientDemographics
+): Promise<{ result: AssessmentResult; scores: SymptomScores }> {
+  const errors = validateAnswers(SYMPTOM_QUESTIONNAIRE, answers);
+  if (errors.length > 0) {
+    throw new Error(`${errors.length} question${errors.length === 1 ? ' needs' : 's need'} an answer or correction.`);
+  }
+
+  const subscales = scoreSubscales(SYMPTOM_QUESTIONNAIRE, answers);
+  const scored = subscales.filter(subscale => subscale.total !== null);
+  if (scored.length === 0) {
+    throw new Error('Too many questions were left unanswered to score the questionnaire.');
+  }
+
+  // Weighted by item count, so Part II's 13 items outweigh Part IB's 7
+  const definitions = SYMPTOM_QUESTIONNAIRE.subscales;
+  const itemCount = (id: string) => definitions.find(subscale => subscale.id === id)?.items.length ?? 0;
+  const weight = scored.reduce((sum, subscale) => sum + itemCount(subscale.id), 0);
+  const subscaleScore = scored.reduce(
+    (sum, subscale) => sum + interpolate(SUBSCALE_ANCHORS[subscale.id], subscale.total!) * itemCount(subscale.id),
+    0
+  ) / weight;
+
+  const screens: SymptomScreens | null = answers.screening === true
+    ? {
+        hyposmia: answers.smellLoss === true,
+        constipation: answers.constipation === true,
+        probableRbd: answers.rbd === true
+      }
+    : null;
+  const age = typeof answers.age === 'number' ? answers.age : patient?.age;
+  const ageWeight = (key: keyof SymptomScreens) =>
+    key !== 'probableRbd' && age !== undefined && age >= AGE_RELATED_SCREEN_AGE ? 0.5 : 1;
+  const screenPenalty = screens
+    ? (Object.keys(SCREEN_PENALTIES) as (keyof SymptomScreens)[])
+      .reduce((sum, key) => sum + (screens[key] ? SCREEN_PENALTIES[key] * ageWeight(key) : 0), 0)
+    : 0;
+  const score = Math.max(0, Math.min(100, subscaleScore - screenPenalty));
+
+  // Self-report is only as complete as the items answered
+  const possible = definitions.reduce((sum, subscale) => sum + subscale.items.length, 0);
+  const answered = subscales.reduce((sum, subscale) => sum + subscale.answered, 0);
+  const confidence = Math.min(95, 60 + 30 * (answered / possible) + (screens ? 5 : 0));
+
+  const totals = subscales.map(subscale =>
+    `${subscale.label} ${subscale.total === null ? 'not scored' : `${subscale.total}/${subscale.max}`}` +
+    (subscale.prorated ? ' (prorated)' : '')
+  );
+  const positives = screens
+    ? [
+        screens.hyposmia && 'smell loss',
+        screens.constipation && 'constipation',
+        screens.probableRbd && 'possible REM sleep behaviour disorder'
+      ].filter(Boolean)
+    : [];
+
+  return {
+    result: {
+      score: Math.round(score),
+      confidence: Math.round(confidence),
+      status: statusFromScore(score),
+      details: `MDS-UPDRS self-report: ${totals.join(', ')}.` +
+        (positives.length > 0 ? ` Positive screens: ${positives.join(', ')}.` : '')
+    },
+    scores: { subscales, screens }
+  };
 }
 
 // Calculate overall assessment
 export function calculateOverallAssessment(assessments: {
-  spiral?: any;
-  voice?: any;
-  posture?: any;
-  symptoms?: any;
+  spiral?: AssessmentResult;
+  voice?: AssessmentResult;
+  posture?: AssessmentResult;
+  symptoms?: AssessmentResult;
+  tapping?: AssessmentResult;
+  gait?: AssessmentResult;
+  tracing?: AssessmentResult;
+  tremor?: AssessmentResult;
 }) {
-  const availableAssessments = [];
+  const availableAssessments: AssessmentResult[] = [];
   
   if (assessments.spiral) availableAssessments.push(assessments.spiral);
   if (assessments.voice) availableAssessments.push(assessments.voice);
   if (assessments.posture) availableAssessments.push(assessments.posture);
   if (assessments.symptoms) availableAssessments.push(assessments.symptoms);
+  if (assessments.tapping) availableAssessments.push(assessments.tapping);
+  if (assessments.gait) availableAssessments.push(assessments.gait);
+  if (assessments.tracing) availableAssessments.push(assessments.tracing);
+  if (assessments.tremor) availableAssessments.push(assessments.tremor);
   
   // If no assessments were performed, return null
   if (availableAssessments.length === 0) {
@@ -96,7 +165,7 @@ export function calculateOverallAssessment(assessments: {
   
   // Check if any individual assessment shows concerning results
   // If any assessment is moderate/severe, overall should reflect that
-  const worstStatus = availableAssessments.reduce((worst, assessment) => {
+  const worstStatus = availableAssessments.reduce<AssessmentResult['status']>((worst, assessment) => {
     const statusOrder = { healthy: 0, mild: 1, moderate: 2, severe: 3 };
     return statusOrder[assessment.status] > statusOrder[worst] ? assessment.status : worst;
   }, "healthy");
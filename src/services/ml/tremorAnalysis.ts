@@ -0,0 +1,335 @@
+import { AssessmentResult, MotionSample, TremorRecording } from '@/types/assessment';
+import { createWindow, nextPowerOfTwo, powerSpectrum } from './spectralAnalysis';
+
+// Hand tremor from the phone's motion sensors while it is held, first with
+// the hand resting in the lap (rest tremor) and then with the arm held out
+// (postural tremor). Each axis is resampled to a uniform rate and a Welch
+// power spectral density is summed over axes, so the result doesn't depend
+// on how the phone is oriented in the hand. Parkinsonian rest tremor sits in
+// 4-6 Hz; physiological and essential tremor are usually faster.
+
+export type TremorCondition = 'rest' | 'postural';
+
+export interface TremorSpectrumPoint {
+  frequency: number; // Hz
+  acceleration: number; // (m/s^2)^2 / Hz, summed over axes
+  rotation: number; // (deg/s)^2 / Hz; 0 without a gyroscope
+}
+
+export interface TremorFeatures {
+  condition: TremorCondition;
+  duration: number; // Seconds analyzed, after trimming
+  sampleRate: number; // Hz the device actually delivered
+  dominantFrequency: number; // Hz, spectral peak in the tremor band
+  amplitude: number; // RMS acceleration in the tremor band, m/s^2
+  displacement: number; // Peak-to-peak mm implied at the dominant frequency
+  bandPower: number; // (m/s^2)^2 in the tremor band
+  pdBandPower: number; // (m/s^2)^2 in the parkinsonian band
+  pdBandRatio: number; // pdBandPower / bandPower
+  hasGyroscope: boolean;
+  rotationFrequency: number; // Hz, 0 without a gyroscope
+  rotationAmplitude: number; // RMS rotation rate in the tremor band, deg/s
+  spectrum: TremorSpectrumPoint[]; // Up to spectrumMax
+}
+
+export interface TremorOptions {
+  sampleRate: number; // Hz the samples are resampled to
+  tremorBand: [number, number]; // Hz
+  pdBand: [number, number];
+  segmentDuration: number; // Seconds per Welch segment
+  trimDuration: number; // Seconds dropped at each end, where the phone is tapped
+  minDuration: number; // Seconds left after trimming
+  spectrumMax: number; // Hz kept in the stored spectrum
+}
+
+export const DEFAULT_TREMOR_OPTIONS: TremorOptions = {
+  sampleRate: 50,
+  tremorBand: [3, 12],
+  pdBand: [4, 6],
+  segmentDuration: 4,
+  trimDuration: 1,
+  minDuration: 8,
+  spectrumMax: 15
+};
+
+// Peak-to-peak mm below which tremor is not visible; physiological tremor
+// of a held phone is a few hundredths of a millimetre
+const VISIBLE_DISPLACEMENT = 0.5;
+
+// Seconds each condition is recorded for in the app
+export const TREMOR_RECORDING_DURATION = 20;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Linear interpolation onto a uniform grid; sensor events arrive with jitter
+function resample(samples: MotionSample[], key: keyof MotionSample, sampleRate: number, start: number, end: number): number[] {
+  const step = 1000 / sampleRate;
+  const output: number[] = [];
+  let j = 0;
+  for (let t = start; t <= end; t += step) {
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const span = b.t - a.t;
+    const f = span > 0 ? Math.min(1, Math.max(0, (t - a.t) / span)) : 0;
+    const p = a[key] ?? 0;
+    const q = b[key] ?? 0;
+    output.push(p + (q - p) * f);
+  }
+  return output;
+}
+
+// Least-squares line removed, which takes out gravity and slow drift
+function detrend(values: number[]): number[] {
+  const n = values.length;
+  const mx = (n - 1) / 2;
+  const my = values.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  values.forEach((value, i) => {
+    sxy += (i - mx) * (value - my);
+    sxx += (i - mx) * (i - mx);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return values.map((value, i) => value - my - slope * (i - mx));
+}
+
+// One-sided power spectral density averaged over half-overlapping Hann
+// segments, in signal units squared per Hz
+function welchPsd(signal: number[], sampleRate: number, segmentLength: number): { psd: Float64Array; fftSize: number } {
+  const window = createWindow('hann', segmentLength);
+  let windowEnergy = 0;
+  for (let i = 0; i < window.length; i++) windowEnergy += window[i] * window[i];
+  const fftSize = nextPowerOfTwo(segmentLength);
+  const psd = new Float64Array(fftSize / 2 + 1);
+  const hop = Math.floor(segmentLength / 2);
+
+  let segments = 0;
+  for (let start = 0; start + segmentLength <= signal.length; start += hop) {
+    const frame = detrend(signal.slice(start, start + segmentLength)).map((value, i) => value * window[i]);
+    const power = powerSpectrum(frame, fftSize);
+    for (let k = 0; k < psd.length; k++) psd[k] += power[k];
+    segments++;
+  }
+  const scale = 2 / (segments * sampleRate * windowEnergy);
+  for (let k = 0; k < psd.length; k++) psd[k] *= scale;
+  return { psd, fftSize };
+}
+
+function bandSum(psd: Float64Array, binWidth: number, band: [number, number]): number {
+  let sum = 0;
+  for (let k = 0; k < psd.length; k++) {
+    const frequency = k * binWidth;
+    if (frequency >= band[0] && frequency <= band[1]) sum += psd[k];
+  }
+  return sum * binWidth;
+}
+
+// Strongest bin in the band, refined by a parabola through its neighbours
+function peakFrequency(psd: Float64Array, binWidth: number, band: [number, number]): number {
+  let peak = -1;
+  for (let k = 1; k < psd.length - 1; k++) {
+    const frequency = k * binWidth;
+    if (frequency < band[0] || frequency > band[1]) continue;
+    if (peak < 0 || psd[k] > psd[peak]) peak = k;
+  }
+  if (peak < 1 || psd[peak] <= 0) return 0;
+  const [a, b, c] = [psd[peak - 1], psd[peak], psd[peak + 1]];
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+  return (peak + offset) * binWidth;
+}
+
+function sumSpectra(signals: number[][], sampleRate: number, segmentLength: number): { psd: Float64Array; fftSize: number } {
+  const spectra = signals.map(signal => welchPsd(signal, sampleRate, segmentLength));
+  const psd = new Float64Array(spectra[0].psd.length);
+  spectra.forEach(spectrum => spectrum.psd.forEach((value, k) => { psd[k] += value; }));
+  return { psd, fftSize: spectra[0].fftSize };
+}
+
+export function analyzeTremor(recording: TremorRecording, options: Partial<TremorOptions> = {}): TremorFeatures {
+  const resolved = { ...DEFAULT_TREMOR_OPTIONS, ...options };
+  const samples = [...recording.samples].sort((a, b) => a.t - b.t);
+  if (samples.length < 2) {
+    throw new Error('The motion recording is empty. Make sure motion sensor access is allowed.');
+  }
+
+  const intervals = samples.slice(1).map((sample, i) => sample.t - samples[i].t).filter(interval => interval > 0);
+  const sampleRate = intervals.length > 0 ? 1000 / median(intervals) : 0;
+  // The device has to sample at twice the highest tremor frequency
+  if (sampleRate < 2 * resolved.tremorBand[1]) {
+    throw new Error(`The motion sensors delivered ${sampleRate.toFixed(0)} readings per second; at least ` +
+      `${2 * resolved.tremorBand[1]} are needed to measure tremor.`);
+  }
+
+  const start = samples[0].t + resolved.trimDuration * 1000;
+  const end = samples[samples.length - 1].t - resolved.trimDuration * 1000;
+  const duration = (end - start) / 1000;
+  if (duration < resolved.minDuration) {
+    throw new Error(`The ${recording.condition} recording is too short. Hold the phone still for at least ` +
+      `${Math.ceil(resolved.minDuration + 2 * resolved.trimDuration)} seconds.`);
+  }
+
+  const segmentLength = Math.round(resolved.segmentDuration * resolved.sampleRate);
+  const series = (keys: (keyof MotionSample)[]) => keys.map(key => resample(samples, key, resolved.sampleRate, start, end));
+  const acceleration = sumSpectra(series(['ax', 'ay', 'az']), resolved.sampleRate, segmentLength);
+  const binWidth = resolved.sampleRate / acceleration.fftSize;
+
+  const hasGyroscope = samples.every(sample => sample.gx !== undefined && sample.gy !== undefined && sample.gz !== undefined);
+  const rotation = hasGyroscope ? sumSpectra(series(['gx', 'gy', 'gz']), resolved.sampleRate, segmentLength) : null;
+
+  const bandPower = bandSum(acceleration.psd, binWidth, resolved.tremorBand);
+  const pdBandPower = bandSum(acceleration.psd, binWidth, resolved.pdBand);
+  const dominantFrequency = peakFrequency(acceleration.psd, binWidth, resolved.tremorBand);
+  const amplitude = Math.sqrt(bandPower);
+  // A sinusoid's displacement is its acceleration over (2 pi f)^2
+  const displacement = dominantFrequency > 0
+    ? (2 * Math.SQRT2 * amplitude / (2 * Math.PI * dominantFrequency) ** 2) * 1000
+    : 0;
+
+  const spectrum: TremorSpectrumPoint[] = [];
+  for (let k = 0; k * binWidth <= resolved.spectrumMax && k < acceleration.psd.length; k++) {
+    spectrum.push({
+      frequency: k * binWidth,
+      acceleration: acceleration.psd[k],
+      rotation: rotation ? rotation.psd[k] : 0
+    });
+  }
+
+  return {
+    condition: recording.condition,
+    duration,
+    sampleRate,
+    dominantFrequency,
+    amplitude,
+    displacement,
+    bandPower,
+    pdBandPower,
+    pdBandRatio: bandPower > 0 ? pdBandPower / bandPower : 0,
+    hasGyroscope,
+    rotationFrequency: rotation ? peakFrequency(rotation.psd, binWidth, resolved.tremorBand) : 0,
+    rotationAmplitude: rotation ? Math.sqrt(bandSum(rotation.psd, binWidth, resolved.tremorBand)) : 0,
+    spectrum
+  };
+}
+
+// Column names seen in exports from common sensor logging apps, compared
+// after lower-casing and dropping units in brackets and everything but
+// letters and digits
+const CSV_COLUMNS: Record<keyof MotionSample, string[]> = {
+  t: ['t', 'time', 'times', 'timems', 'timestamp', 'timestampms', 'secondselapsed'],
+  ax: ['ax', 'accx', 'accelx', 'accelerationx', 'x'],
+  ay: ['ay', 'accy', 'accely', 'accelerationy', 'y'],
+  az: ['az', 'accz', 'accelz', 'accelerationz', 'z'],
+  gx: ['gx', 'gyrx', 'gyrox', 'gyroscopex', 'rotationratex', 'beta'],
+  gy: ['gy', 'gyry', 'gyroy', 'gyroscopey', 'rotationratey', 'gamma'],
+  gz: ['gz', 'gyrz', 'gyroz', 'gyroscopez', 'rotationratez', 'alpha']
+};
+
+// Reads a CSV of motion samples: a time column (seconds, milliseconds or
+// nanoseconds, told apart by the sampling interval), three acceleration
+// columns in m/s^2 and, optionally, three rotation rate columns in deg/s
+// (or rad/s when the header says so).
+export function parseMotionCsv(text: string): MotionSample[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length < 2) {
+    throw new Error('The CSV file has no data rows.');
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : lines[0].includes('\t') ? '\t' : ',';
+  const header = lines[0].split(delimiter).map(cell => cell.replace(/"/g, '').trim());
+  const normalized = header.map(cell => cell.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]/g, ''));
+  const columns = {} as Partial<Record<keyof MotionSample, number>>;
+  (Object.keys(CSV_COLUMNS) as (keyof MotionSample)[]).forEach(key => {
+    const index = normalized.findIndex(name => CSV_COLUMNS[key].includes(name));
+    if (index >= 0) columns[key] = index;
+  });
+
+  const required: (keyof MotionSample)[] = ['t', 'ax', 'ay', 'az'];
+  const missing = required.filter(key => columns[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`The CSV header needs time and x/y/z acceleration columns (e.g. "time,ax,ay,az"); ` +
+      `could not find ${missing.join(', ')}.`);
+  }
+  const hasGyroscope = columns.gx !== undefined && columns.gy !== undefined && columns.gz !== undefined;
+  const gyroInRadians = hasGyroscope && /rad/i.test(header[columns.gx!]);
+
+  const rows = lines.slice(1).map(line => line.split(delimiter).map(cell => parseFloat(cell.replace(/"/g, ''))));
+  const value = (row: number[], key: keyof MotionSample) => row[columns[key]!];
+  const valid = rows.filter(row => required.every(key => isFinite(value(row, key))));
+  if (valid.length < 2) {
+    throw new Error('The CSV file has no numeric motion samples.');
+  }
+
+  const steps = valid.slice(1).map((row, i) => value(row, 't') - value(valid[i], 't')).filter(step => step > 0);
+  const step = median(steps);
+  const toMs = step > 1e5 ? 1e-6 : step >= 1 ? 1 : 1000;
+  const rotationScale = gyroInRadians ? 180 / Math.PI : 1;
+  const origin = value(valid[0], 't');
+
+  return valid.map(row => {
+    const sample: MotionSample = {
+      t: (value(row, 't') - origin) * toMs,
+      ax: value(row, 'ax'),
+      ay: value(row, 'ay'),
+      az: value(row, 'az')
+    };
+    if (hasGyroscope && isFinite(value(row, 'gx')) && isFinite(value(row, 'gy')) && isFinite(value(row, 'gz'))) {
+      sample.gx = value(row, 'gx') * rotationScale;
+      sample.gy = value(row, 'gy') * rotationScale;
+      sample.gz = value(row, 'gz') * rotationScale;
+    }
+    return sample;
+  });
+}
+
+function statusFromScore(score: number): AssessmentResult['status'] {
+  if (score >= 80) return 'healthy';
+  if (score >= 60) return 'mild';
+  if (score >= 40) return 'moderate';
+  return 'severe';
+}
+
+// Clinical ratings grow with the logarithm of tremor amplitude, so each
+// doubling of displacement above the visible level costs 15 points. Rest
+// tremor concentrated in the parkinsonian band is the most specific sign and
+// is weighted up; postural tremor alone is weighted down.
+function tremorPenalty(features: TremorFeatures): number {
+  if (features.displacement <= VISIBLE_DISPLACEMENT) return 0;
+  const penalty = 15 * Math.log2(features.displacement / VISIBLE_DISPLACEMENT);
+  if (features.condition === 'postural') return penalty * 0.8;
+  return features.pdBandRatio >= 0.5 ? penalty * 1.2 : penalty;
+}
+
+export function scoreTremor(features: TremorFeatures[]): AssessmentResult {
+  if (features.length === 0) {
+    throw new Error('At least one tremor recording is needed.');
+  }
+
+  const penalty = Math.max(...features.map(tremorPenalty));
+  const score = Math.max(0, Math.min(100, 100 - penalty));
+
+  // Longer recordings average more segments; one condition leaves the other unknown
+  const coverage = features.reduce(
+    (sum, feature) => sum + Math.min(1, feature.duration / (TREMOR_RECORDING_DURATION - 2 * DEFAULT_TREMOR_OPTIONS.trimDuration)),
+    0
+  ) / features.length;
+  const conditions = new Set(features.map(feature => feature.condition)).size;
+  const confidence = (60 + 30 * coverage) * (conditions === 2 ? 1 : 0.85);
+
+  const parts = features.map(feature =>
+    `${feature.condition}: ${feature.dominantFrequency.toFixed(1)} Hz, ${feature.amplitude.toFixed(3)} m/s² RMS ` +
+    `(~${feature.displacement.toFixed(1)} mm), ${(feature.pdBandRatio * 100).toFixed(0)}% in 4-6 Hz`
+  );
+
+  return {
+    score: Math.round(score),
+    confidence: Math.round(confidence),
+    status: statusFromScore(score),
+    details: `Tremor ${parts.join('; ')}.`
+  };
+}
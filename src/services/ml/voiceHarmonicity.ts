@@ -0,0 +1,231 @@
+import { autocorrelation, createWindow, getFFT, nextPowerOfTwo, powerSpectrum } from './spectralAnalysis';
+import { PitchContour } from './pitchTracking';
+
+// Harmonics-to-noise measures over the voiced frames of a YIN contour:
+// HNR and NHR from Boersma's (1993) window-corrected autocorrelation, and
+// cepstral peak prominence (Hillenbrand et al., 1994), raw and smoothed.
+
+export interface HarmonicityOptions {
+  minF0: number;
+  maxF0: number;
+  periodsPerWindow: number; // HNR window length in periods of minF0
+  cepstralFrameTime: number; // Seconds per CPP analysis frame
+  trendStartQuefrency: number; // Seconds, start of the CPP regression line
+  timeSmoothing: number; // CPPS averaging window across frames, seconds
+  quefrencySmoothing: number; // CPPS averaging window across quefrency, seconds
+}
+
+export interface HarmonicityAnalysis {
+  hnr: number; // dB, mean over voiced frames
+  nhr: number; // Mean noise-to-harmonics ratio
+  cpp: number; // dB
+  cpps: number; // dB
+  frameHnr: number[]; // dB per analysed frame
+  frameCpp: number[]; // dB per analysed frame
+  analyzedFrames: number;
+}
+
+export const DEFAULT_HARMONICITY_OPTIONS: HarmonicityOptions = {
+  minF0: 75,
+  maxF0: 500,
+  periodsPerWindow: 4.5,
+  cepstralFrameTime: 0.04,
+  trendStartQuefrency: 0.001,
+  timeSmoothing: 0.02,
+  quefrencySmoothing: 0.0005
+};
+
+// Keeps HNR within ±50 dB when the normalised autocorrelation touches 0 or 1
+const MIN_CORRELATION = 1e-5;
+const EPSILON = 1e-12;
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Voiced contour frames whose analysis window of the given length fits in the signal
+function voicedFrameCentres(contour: PitchContour, sampleRate: number, windowLength: number, signalLength: number) {
+  const frames: { index: number; centre: number; f0: number }[] = [];
+  contour.times.forEach((time, index) => {
+    if (!contour.voiced[index] || contour.f0[index] <= 0) return;
+    const centre = Math.round(time * sampleRate);
+    const start = centre - Math.floor(windowLength / 2);
+    if (start < 0 || start + windowLength > signalLength) return;
+    frames.push({ index, centre, f0: contour.f0[index] });
+  });
+  return frames;
+}
+
+function windowedSegment(signal: Float32Array, centre: number, window: Float32Array): Float64Array {
+  const start = centre - Math.floor(window.length / 2);
+  let dc = 0;
+  for (let n = 0; n < window.length; n++) dc += signal[start + n];
+  dc /= window.length;
+
+  const segment = new Float64Array(window.length);
+  for (let n = 0; n < window.length; n++) {
+    segment[n] = (signal[start + n] - dc) * window[n];
+  }
+  return segment;
+}
+
+// Largest window-corrected, normalised autocorrelation near the tracked
+// period, refined by a parabola through its neighbours
+function harmonicPeak(correlation: Float64Array, windowCorrelation: Float64Array, lag: number, minLag: number, maxLag: number): number {
+  const r = (tau: number) => correlation[tau] / correlation[0] / windowCorrelation[tau];
+
+  const from = Math.max(minLag, Math.floor(lag * 0.8));
+  const to = Math.min(maxLag, Math.ceil(lag * 1.25));
+  let best = from;
+  for (let tau = from + 1; tau <= to; tau++) {
+    if (r(tau) > r(best)) best = tau;
+  }
+
+  let peak = r(best);
+  if (best > 1 && best < correlation.length - 1) {
+    const left = r(best - 1);
+    const right = r(best + 1);
+    const denominator = left - 2 * peak + right;
+    if (denominator < 0) {
+      const offset = (0.5 * (left - right)) / denominator;
+      peak -= 0.25 * (left - right) * offset;
+    }
+  }
+  return Math.max(MIN_CORRELATION, Math.min(1 - MIN_CORRELATION, peak));
+}
+
+export function computeHnr(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: HarmonicityOptions = DEFAULT_HARMONICITY_OPTIONS
+): { hnr: number; nhr: number; frameHnr: number[] } {
+  const windowLength = Math.round((options.periodsPerWindow / options.minF0) * sampleRate);
+  const window = createWindow('hann', windowLength);
+  const minLag = Math.max(1, Math.floor(sampleRate / options.maxF0));
+  // Boersma keeps lags below half the window, where the window correction is reliable
+  const maxLag = Math.min(Math.ceil(sampleRate / options.minF0), Math.floor(windowLength / 2));
+
+  const windowCorrelation = autocorrelation(window, maxLag + 1);
+  const windowEnergy = windowCorrelation[0];
+  for (let tau = 0; tau < windowCorrelation.length; tau++) windowCorrelation[tau] /= windowEnergy;
+
+  const frameHnr: number[] = [];
+  const frameNhr: number[] = [];
+
+  for (const frame of voicedFrameCentres(contour, sampleRate, windowLength, signal.length)) {
+    const segment = windowedSegment(signal, frame.centre, window);
+    const correlation = autocorrelation(segment, maxLag + 1);
+    if (correlation[0] <= 0) continue;
+
+    const r = harmonicPeak(correlation, windowCorrelation, sampleRate / frame.f0, minLag, maxLag);
+    frameHnr.push(10 * Math.log10(r / (1 - r)));
+    frameNhr.push((1 - r) / r);
+  }
+
+  return { hnr: mean(frameHnr), nhr: mean(frameNhr), frameHnr };
+}
+
+// Real cepstrum in dB over quefrencies 0..maxQuefrency (samples)
+function cepstrumDb(segment: Float64Array, fftSize: number, maxQuefrency: number): Float64Array {
+  const power = powerSpectrum(segment, fftSize);
+
+  // The log spectrum is real and even, so a forward transform of its
+  // symmetric extension gives the cepstrum
+  const logSpectrum = new Float64Array(fftSize);
+  for (let k = 0; k < fftSize; k++) {
+    logSpectrum[k] = 10 * Math.log10(power[k <= fftSize / 2 ? k : fftSize - k] + EPSILON);
+  }
+  const re = new Float64Array(fftSize / 2 + 1);
+  const im = new Float64Array(fftSize / 2 + 1);
+  getFFT(fftSize).forward(logSpectrum, re, im);
+
+  const cepstrum = new Float64Array(maxQuefrency + 1);
+  for (let q = 0; q <= maxQuefrency; q++) {
+    cepstrum[q] = 20 * Math.log10(Math.abs(re[q] / fftSize) + EPSILON);
+  }
+  return cepstrum;
+}
+
+// Peak height above the least-squares trend line of the cepstrum
+function cepstralProminence(cepstrum: Float64Array, trendStart: number, minLag: number, maxLag: number): number {
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumXY = 0;
+  const count = cepstrum.length - trendStart;
+  for (let q = trendStart; q < cepstrum.length; q++) {
+    sumX += q;
+    sumY += cepstrum[q];
+    sumXX += q * q;
+    sumXY += q * cepstrum[q];
+  }
+  const slope = (count * sumXY - sumX * sumY) / (count * sumXX - sumX * sumX);
+  const intercept = (sumY - slope * sumX) / count;
+
+  let peak = minLag;
+  for (let q = minLag + 1; q <= maxLag; q++) {
+    if (cepstrum[q] > cepstrum[peak]) peak = q;
+  }
+  return cepstrum[peak] - (intercept + slope * peak);
+}
+
+export function computeCpp(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: HarmonicityOptions = DEFAULT_HARMONICITY_OPTIONS
+): { cpp: number; cpps: number; frameCpp: number[] } {
+  const frameLength = Math.round(options.cepstralFrameTime * sampleRate);
+  const fftSize = nextPowerOfTwo(frameLength);
+  const window = createWindow('hann', frameLength);
+  const minLag = Math.max(1, Math.floor(sampleRate / options.maxF0));
+  const maxQuefrency = Math.floor(frameLength / 2);
+  const maxLag = Math.min(Math.ceil(sampleRate / options.minF0), maxQuefrency);
+  const trendStart = Math.min(minLag, Math.round(options.trendStartQuefrency * sampleRate));
+
+  const frames = voicedFrameCentres(contour, sampleRate, frameLength, signal.length);
+  const cepstra = frames.map(frame => cepstrumDb(windowedSegment(signal, frame.centre, window), fftSize, maxQuefrency));
+  const frameCpp = cepstra.map(cepstrum => cepstralProminence(cepstrum, trendStart, minLag, maxLag));
+
+  // CPPS: average the dB cepstra over neighbouring voiced frames, then over
+  // neighbouring quefrencies, before measuring the prominence
+  const timeHalf = Math.floor(options.timeSmoothing / contour.hopTime / 2);
+  const quefrencyHalf = Math.floor((options.quefrencySmoothing * sampleRate) / 2);
+  const smoothedCpp = cepstra.map((_, i) => {
+    const timeSmoothed = new Float64Array(maxQuefrency + 1);
+    let neighbours = 0;
+    for (let j = i - timeHalf; j <= i + timeHalf; j++) {
+      if (j < 0 || j >= cepstra.length || Math.abs(frames[j].index - frames[i].index) > timeHalf) continue;
+      for (let q = 0; q <= maxQuefrency; q++) timeSmoothed[q] += cepstra[j][q];
+      neighbours++;
+    }
+
+    const smoothed = new Float64Array(maxQuefrency + 1);
+    for (let q = 0; q <= maxQuefrency; q++) {
+      let sum = 0;
+      let count = 0;
+      for (let k = Math.max(0, q - quefrencyHalf); k <= Math.min(maxQuefrency, q + quefrencyHalf); k++) {
+        sum += timeSmoothed[k];
+        count++;
+      }
+      smoothed[q] = sum / count / neighbours;
+    }
+    return cepstralProminence(smoothed, trendStart, minLag, maxLag);
+  });
+
+  return { cpp: mean(frameCpp), cpps: mean(smoothedCpp), frameCpp };
+}
+
+export function analyzeHarmonicity(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: Partial<HarmonicityOptions> = {}
+): HarmonicityAnalysis {
+  const resolved = { ...DEFAULT_HARMONICITY_OPTIONS, ...options };
+  const { hnr, nhr, frameHnr } = computeHnr(signal, sampleRate, contour, resolved);
+  const { cpp, cpps, frameCpp } = computeCpp(signal, sampleRate, contour, resolved);
+
+  return { hnr, nhr, cpp, cpps, frameHnr, frameCpp, analyzedFrames: frameHnr.length };
+}
@@ -0,0 +1,270 @@
+import { PitchContour } from './pitchTracking';
+
+// Cycle-level jitter and shimmer, following the definitions Praat uses (and
+// that the UCI Parkinson's dataset reports). Periods come from pitch marks
+// placed on each glottal cycle, guided by the YIN F0 contour, rather than
+// from fixed analysis frames.
+
+export interface JitterMeasures {
+  local: number; // Fraction (multiply by 100 for Praat's %)
+  absolute: number; // Seconds
+  rap: number;
+  ppq5: number;
+  ddp: number;
+}
+
+export interface ShimmerMeasures {
+  local: number; // Fraction
+  localDb: number; // dB
+  apq3: number;
+  apq5: number;
+  apq11: number;
+  dda: number;
+}
+
+export interface PitchMark {
+  time: number; // Seconds
+  amplitude: number; // Peak amplitude of the cycle
+}
+
+export interface PerturbationOptions {
+  minF0: number;
+  maxF0: number;
+  maxPeriodFactor: number; // Largest allowed ratio between consecutive periods
+}
+
+export interface PerturbationAnalysis {
+  jitter: JitterMeasures;
+  shimmer: ShimmerMeasures;
+  pitchMarks: PitchMark[][]; // One array per voiced run
+  periodCount: number;
+  meanPeriod: number;
+}
+
+export const DEFAULT_PERTURBATION_OPTIONS: PerturbationOptions = {
+  minF0: 75,
+  maxF0: 500,
+  maxPeriodFactor: 1.3
+};
+
+const EMPTY_JITTER: JitterMeasures = { local: 0, absolute: 0, rap: 0, ppq5: 0, ddp: 0 };
+const EMPTY_SHIMMER: ShimmerMeasures = { local: 0, localDb: 0, apq3: 0, apq5: 0, apq11: 0, dda: 0 };
+
+// Fit a parabola through three samples; returns the peak offset and height
+function parabolicPeak(left: number, center: number, right: number): { offset: number; value: number } {
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) return { offset: 0, value: center };
+  const offset = Math.max(-0.5, Math.min(0.5, (0.5 * (left - right)) / denominator));
+  return { offset, value: center - 0.25 * (left - right) * offset };
+}
+
+// Place one mark on the positive peak of every glottal cycle, stepping
+// through each voiced run one local period at a time
+export function detectPitchMarks(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: PerturbationOptions = DEFAULT_PERTURBATION_OPTIONS
+): PitchMark[][] {
+  // Group the voiced frames into runs of { time, period }
+  const runs: { time: number; period: number }[][] = [];
+  let current: { time: number; period: number }[] = [];
+  contour.f0.forEach((f0, i) => {
+    if (contour.voiced[i] && f0 > 0) {
+      current.push({ time: contour.times[i], period: 1 / f0 });
+    } else if (current.length > 0) {
+      runs.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) runs.push(current);
+
+  const hop = contour.hopTime;
+  const marksByRun: PitchMark[][] = [];
+
+  for (const run of runs) {
+    const regionStart = Math.max(1, Math.floor((run[0].time - hop / 2) * sampleRate));
+    const regionEnd = Math.min(signal.length - 2, Math.ceil((run[run.length - 1].time + hop / 2) * sampleRate));
+
+    const localPeriod = (sample: number) => {
+      const t = sample / sampleRate;
+      const index = Math.max(0, Math.min(run.length - 1, Math.round((t - run[0].time) / hop)));
+      return run[index].period * sampleRate;
+    };
+
+    const findPeak = (from: number, to: number) => {
+      let best = -1;
+      for (let n = Math.max(regionStart, from); n <= Math.min(regionEnd, to); n++) {
+        if (best < 0 || signal[n] > signal[best]) best = n;
+      }
+      return best;
+    };
+
+    const toMark = (n: number): PitchMark => {
+      const { offset, value } = parabolicPeak(signal[n - 1], signal[n], signal[n + 1]);
+      return { time: (n + offset) / sampleRate, amplitude: value };
+    };
+
+    // Anchor on the strongest peak of the run, then walk outwards in both
+    // directions so every mark sits on the same phase of its cycle
+    const anchor = findPeak(regionStart, regionEnd);
+    if (anchor < 0) continue;
+
+    const walk = (direction: 1 | -1) => {
+      const found: number[] = [];
+      let peak = anchor;
+      while (true) {
+        const period = localPeriod(peak);
+        const expected = peak + direction * period;
+        const tolerance = 0.2 * period;
+        const from = Math.ceil(expected - tolerance);
+        const to = Math.floor(expected + tolerance);
+        if (from < regionStart || to > regionEnd) break;
+
+        // Stop rather than accept a search-window edge as a cycle peak
+        const next = findPeak(from, to);
+        if (next <= from || next >= to) break;
+        found.push(next);
+        peak = next;
+      }
+      return found;
+    };
+
+    const marks: PitchMark[] = [...walk(-1).reverse(), anchor, ...walk(1)].map(toMark);
+
+    // Split wherever consecutive periods leave the allowed range
+    let segment: PitchMark[] = [marks[0]];
+    let previousPeriod = 0;
+    for (let i = 1; i < marks.length; i++) {
+      const period = marks[i].time - marks[i - 1].time;
+      const inRange = period >= 1 / options.maxF0 && period <= 1 / options.minF0;
+      const consistent = previousPeriod === 0 ||
+        Math.max(period, previousPeriod) / Math.min(period, previousPeriod) <= options.maxPeriodFactor;
+
+      if (inRange && consistent) {
+        segment.push(marks[i]);
+        previousPeriod = period;
+      } else {
+        if (segment.length > 2) marksByRun.push(segment);
+        segment = [marks[i]];
+        previousPeriod = 0;
+      }
+    }
+    if (segment.length > 2) marksByRun.push(segment);
+  }
+
+  return marksByRun;
+}
+
+function mean(sequences: number[][]): number {
+  let sum = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    for (const value of sequence) {
+      sum += value;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// Mean |x_i - x_{i-1}| over every consecutive pair within each sequence
+function meanAbsoluteDifference(sequences: number[][]): number {
+  let sum = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    for (let i = 1; i < sequence.length; i++) {
+      sum += Math.abs(sequence[i] - sequence[i - 1]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// Mean |x_i - mean(x_{i-k}..x_{i+k})|, the core of RAP/PPQ/APQ
+function meanDeviationFromNeighbourhood(sequences: number[][], halfWidth: number): number {
+  let sum = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    for (let i = halfWidth; i < sequence.length - halfWidth; i++) {
+      let local = 0;
+      for (let j = i - halfWidth; j <= i + halfWidth; j++) local += sequence[j];
+      sum += Math.abs(sequence[i] - local / (2 * halfWidth + 1));
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// Mean |(x_{i+1} - x_i) - (x_i - x_{i-1})|, the basis of DDP and DDA
+function meanAbsoluteSecondDifference(sequences: number[][]): number {
+  let sum = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    for (let i = 1; i < sequence.length - 1; i++) {
+      sum += Math.abs(sequence[i + 1] - 2 * sequence[i] + sequence[i - 1]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+export function computeJitter(periodSequences: number[][]): JitterMeasures {
+  const meanPeriod = mean(periodSequences);
+  if (meanPeriod === 0) return { ...EMPTY_JITTER };
+
+  const absolute = meanAbsoluteDifference(periodSequences);
+  return {
+    local: absolute / meanPeriod,
+    absolute,
+    rap: meanDeviationFromNeighbourhood(periodSequences, 1) / meanPeriod,
+    ppq5: meanDeviationFromNeighbourhood(periodSequences, 2) / meanPeriod,
+    ddp: meanAbsoluteSecondDifference(periodSequences) / meanPeriod
+  };
+}
+
+export function computeShimmer(amplitudeSequences: number[][]): ShimmerMeasures {
+  const meanAmplitude = mean(amplitudeSequences);
+  if (meanAmplitude === 0) return { ...EMPTY_SHIMMER };
+
+  let dbSum = 0;
+  let dbCount = 0;
+  for (const sequence of amplitudeSequences) {
+    for (let i = 1; i < sequence.length; i++) {
+      if (sequence[i] > 0 && sequence[i - 1] > 0) {
+        dbSum += Math.abs(20 * Math.log10(sequence[i] / sequence[i - 1]));
+        dbCount++;
+      }
+    }
+  }
+
+  return {
+    local: meanAbsoluteDifference(amplitudeSequences) / meanAmplitude,
+    localDb: dbCount > 0 ? dbSum / dbCount : 0,
+    apq3: meanDeviationFromNeighbourhood(amplitudeSequences, 1) / meanAmplitude,
+    apq5: meanDeviationFromNeighbourhood(amplitudeSequences, 2) / meanAmplitude,
+    apq11: meanDeviationFromNeighbourhood(amplitudeSequences, 5) / meanAmplitude,
+    dda: meanAbsoluteSecondDifference(amplitudeSequences) / meanAmplitude
+  };
+}
+
+export function analyzePerturbation(
+  signal: Float32Array,
+  sampleRate: number,
+  contour: PitchContour,
+  options: Partial<PerturbationOptions> = {}
+): PerturbationAnalysis {
+  const resolved = { ...DEFAULT_PERTURBATION_OPTIONS, ...options };
+  const pitchMarks = detectPitchMarks(signal, sampleRate, contour, resolved);
+
+  const periods = pitchMarks.map(marks => marks.slice(1).map((mark, i) => mark.time - marks[i].time));
+  const amplitudes = pitchMarks.map(marks => marks.map(mark => mark.amplitude));
+
+  return {
+    jitter: computeJitter(periods),
+    shimmer: computeShimmer(amplitudes),
+    pitchMarks,
+    periodCount: periods.reduce((count, sequence) => count + sequence.length, 0),
+    meanPeriod: mean(periods)
+  };
+}
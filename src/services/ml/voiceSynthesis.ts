@@ -0,0 +1,79 @@
+// Synthetic sustained vowels with controlled cycle-to-cycle perturbation.
+// The generator returns the exact period and amplitude sequence it used, so
+// perturbation measures can be checked against ground truth.
+
+export interface VowelSynthesisOptions {
+  sampleRate: number;
+  duration: number; // Seconds
+  f0: number; // Hz
+  jitter: number; // Max relative period deviation per cycle (0.01 = ±1%)
+  shimmer: number; // Max relative amplitude deviation per cycle
+  noiseLevel: number; // Peak amplitude of additive white noise
+  amplitude?: number;
+  formant?: number; // Resonance excited by each glottal pulse, Hz
+  bandwidth?: number; // Resonance bandwidth, Hz
+  random?: () => number;
+}
+
+export interface SynthesizedVowel {
+  signal: Float32Array;
+  sampleRate: number;
+  periods: number[]; // Seconds, one per glottal cycle
+  amplitudes: number[]; // Peak scale factor of each cycle
+}
+
+export function synthesizeSustainedVowel(options: VowelSynthesisOptions): SynthesizedVowel {
+  const {
+    sampleRate,
+    duration,
+    f0,
+    jitter,
+    shimmer,
+    noiseLevel,
+    amplitude = 0.5,
+    formant = 700,
+    bandwidth = 300,
+    random = Math.random
+  } = options;
+
+  const length = Math.floor(sampleRate * duration);
+  const signal = new Float32Array(length);
+  const periods: number[] = [];
+  const amplitudes: number[] = [];
+
+  // Each glottal pulse excites the same decaying resonance, so every cycle
+  // peaks at a fixed delay after its onset with a height equal to its gain
+  const decay = Math.PI * bandwidth;
+  const response = (t: number) => Math.exp(-decay * t) * Math.sin(2 * Math.PI * formant * t);
+  const peakTime = Math.atan((2 * Math.PI * formant) / decay) / (2 * Math.PI * formant);
+  const peakValue = response(peakTime);
+  const responseLength = Math.ceil((7 / decay) * sampleRate); // ~60 dB of decay
+
+  let cycleStart = 0;
+  while (cycleStart < length) {
+    const period = (1 / f0) * (1 + jitter * (2 * random() - 1));
+    const gain = amplitude * (1 + shimmer * (2 * random() - 1));
+
+    const first = Math.ceil(cycleStart);
+    const last = Math.min(length, first + responseLength);
+    for (let n = first; n < last; n++) {
+      signal[n] += (gain * response((n - cycleStart) / sampleRate)) / peakValue;
+    }
+
+    periods.push(period);
+    amplitudes.push(gain);
+    cycleStart += period * sampleRate;
+  }
+
+  if (noiseLevel > 0) {
+    for (let n = 0; n < length; n++) {
+      signal[n] += noiseLevel * (2 * random() - 1);
+    }
+  }
+
+  // The final cycle is usually truncated by the end of the buffer
+  periods.pop();
+  amplitudes.pop();
+
+  return { signal, sampleRate, periods, amplitudes };
+}
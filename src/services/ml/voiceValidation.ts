@@ -0,0 +1,118 @@
+import { synthesizeSustainedVowel } from './voiceSynthesis';
+import { trackPitch } from './pitchTracking';
+import {
+  analyzePerturbation,
+  computeJitter,
+  computeShimmer,
+  JitterMeasures,
+  ShimmerMeasures
+} from './voicePerturbation';
+
+// Checks every cycle-level perturbation measure against synthetic vowels
+// whose true period and amplitude sequences are known. Run with
+// `npm run validate:voice`.
+
+export interface PerturbationCase {
+  label: string;
+  f0: number; // Hz
+  jitter: number; // Generator settings, see VowelSynthesisOptions
+  shimmer: number;
+  noiseLevel: number;
+}
+
+export interface MeasureCheck {
+  measure: string; // e.g. 'jitter.rap'
+  expected: number; // Computed from the generated periods or amplitudes
+  measured: number;
+  passed: boolean;
+}
+
+export interface PerturbationCheck extends PerturbationCase {
+  measures: MeasureCheck[];
+  passed: boolean;
+}
+
+// Healthy voices sit below ~1% jitter and ~4% shimmer; the last case is well
+// into the dysphonic range. Additive noise moves the detected peaks and so
+// adds real jitter of its own, which is why the noise is kept low: the check
+// is against the perturbation the generator put in.
+export const PERTURBATION_CASES: PerturbationCase[] = [
+  { label: 'steady, low voice', f0: 110, jitter: 0.002, shimmer: 0.01, noiseLevel: 0 },
+  { label: 'healthy, female range', f0: 210, jitter: 0.005, shimmer: 0.03, noiseLevel: 0 },
+  { label: 'high voice', f0: 280, jitter: 0.005, shimmer: 0.03, noiseLevel: 0 },
+  { label: 'mild perturbation, low noise', f0: 140, jitter: 0.01, shimmer: 0.06, noiseLevel: 0.001 },
+  { label: 'severe perturbation', f0: 120, jitter: 0.025, shimmer: 0.15, noiseLevel: 0.001 }
+];
+
+// Allowed error: relative to the true value, with a floor for near-zero values.
+// DDP and DDA are 3 x RAP and 3 x APQ3, so they are held to the same bounds.
+const RELATIVE_TOLERANCE = 0.2;
+const JITTER_FLOORS: Record<keyof JitterMeasures, number> = {
+  local: 0.001,
+  absolute: 0.00001, // Seconds
+  rap: 0.0006,
+  ppq5: 0.0006,
+  ddp: 0.0018
+};
+const SHIMMER_FLOORS: Record<keyof ShimmerMeasures, number> = {
+  local: 0.005,
+  localDb: 0.05, // dB
+  apq3: 0.003,
+  apq5: 0.003,
+  apq11: 0.005,
+  dda: 0.009
+};
+
+// Small seeded generator so every run synthesizes the same signals
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function compare<T extends object>(
+  group: string,
+  expected: T,
+  measured: T,
+  floors: Record<keyof T, number>
+): MeasureCheck[] {
+  return (Object.keys(floors) as (keyof T & string)[]).map(key => {
+    const expectedValue = expected[key] as number;
+    const measuredValue = measured[key] as number;
+    return {
+      measure: `${group}.${key}`,
+      expected: expectedValue,
+      measured: measuredValue,
+      passed: Math.abs(measuredValue - expectedValue) <= Math.max(floors[key], RELATIVE_TOLERANCE * expectedValue)
+    };
+  });
+}
+
+export function validatePerturbation(
+  cases: PerturbationCase[] = PERTURBATION_CASES,
+  sampleRate = 44100
+): PerturbationCheck[] {
+  return cases.map((testCase, i) => {
+    const vowel = synthesizeSustainedVowel({
+      sampleRate,
+      duration: 2,
+      f0: testCase.f0,
+      jitter: testCase.jitter,
+      shimmer: testCase.shimmer,
+      noiseLevel: testCase.noiseLevel,
+      random: seededRandom(i + 1)
+    });
+
+    const analysis = analyzePerturbation(vowel.signal, sampleRate, trackPitch(vowel.signal, sampleRate));
+    const measures = [
+      ...compare('jitter', computeJitter([vowel.periods]), analysis.jitter, JITTER_FLOORS),
+      ...compare('shimmer', computeShimmer([vowel.amplitudes]), analysis.shimmer, SHIMMER_FLOORS)
+    ];
+    return { ...testCase, measures, passed: measures.every(measure => measure.passed) };
+  });
+}
@@ -0,0 +1,440 @@
+import { AssessmentData, AssessmentResult, PatientProfile } from '@/types/assessment';
+import { getKeypoint, Pose, SKELETON_EDGES } from '@/services/ml/poseDetection';
+import { archimedeanSpiralPoints } from '@/services/ml/spiralTemplate';
+import { StoredSession } from '@/services/history/sessionStore';
+import { demographicsOf } from '@/services/history/patientStore';
+import { MODALITIES, Modality, modalitySeries } from '@/services/history/trends';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, PdfImage, Rgb } from './pdfDocument';
+
+// Printable report of one assessment session, built entirely in the browser
+// so nothing leaves the device. Sections follow the Results page: patient
+// and overall summary, a per-test table with score trends, then each test's
+// result, extracted features and images.
+
+export interface ReportOptions {
+  patient?: PatientProfile | null;
+  history?: StoredSession[]; // The patient's saved sessions, for the trend sparklines
+  generatedAt?: Date;
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 56; // Leaves room for the footer
+
+const BRAND: Rgb = [2 / 255, 132 / 255, 199 / 255]; // parkinsons-600
+const GREY: Rgb = [0.42, 0.45, 0.5];
+const LIGHT_GREY: Rgb = [0.95, 0.96, 0.97];
+const RULE: Rgb = [0.85, 0.86, 0.88];
+const STATUS_COLORS: Record<AssessmentResult['status'], Rgb> = {
+  healthy: [22 / 255, 163 / 255, 74 / 255],
+  mild: [202 / 255, 138 / 255, 4 / 255],
+  moderate: [234 / 255, 88 / 255, 12 / 255],
+  severe: [220 / 255, 38 / 255, 38 / 255]
+};
+
+const DISCLAIMER = 'This report is generated from machine learning and signal analysis of recordings made on a ' +
+  'consumer device. It is intended to support, not replace, clinical evaluation and is not a medical diagnosis.';
+
+type Row = [string, string];
+
+// Flows content down the page and starts a new one when it runs out
+class ReportLayout {
+  y = MARGIN;
+
+  constructor(readonly doc: PdfDocument) {}
+
+  ensure(height: number) {
+    if (this.y + height > CONTENT_BOTTOM) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  heading(text: string, detail?: string) {
+    this.ensure(60);
+    this.y += 14;
+    this.doc.text(MARGIN, this.y, text, { size: 13, bold: true, color: BRAND });
+    if (detail) this.doc.text(MARGIN + CONTENT_WIDTH, this.y, detail, { size: 10, align: 'right' });
+    this.y += 6;
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { color: RULE, width: 0.75 });
+    this.y += 14;
+  }
+
+  subheading(text: string, detail?: string) {
+    this.ensure(40);
+    this.y += 4;
+    this.doc.text(MARGIN, this.y, text, { size: 10.5, bold: true });
+    if (detail) this.doc.text(MARGIN + CONTENT_WIDTH, this.y, detail, { size: 9, color: GREY, align: 'right' });
+    this.y += 12;
+  }
+
+  paragraph(text: string, size = 9, color: Rgb = [0, 0, 0]) {
+    this.doc.wrapText(text, CONTENT_WIDTH, size).forEach(line => {
+      this.ensure(size * 1.4);
+      this.doc.text(MARGIN, this.y + size, line, { size, color });
+      this.y += size * 1.4;
+    });
+    this.y += 4;
+  }
+
+  // Label/value pairs laid out in columns, filled row by row
+  table(rows: Row[], columns = 2) {
+    const columnWidth = CONTENT_WIDTH / columns;
+    const rowHeight = 14;
+    for (let i = 0; i < rows.length; i += columns) {
+      this.ensure(rowHeight);
+      if ((i / columns) % 2 === 0) {
+        this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, rowHeight, { fill: LIGHT_GREY });
+      }
+      rows.slice(i, i + columns).forEach(([label, value], column) => {
+        const x = MARGIN + column * columnWidth;
+        this.doc.text(x + 4, this.y + 10, label, { size: 8.5, color: GREY });
+        this.doc.text(x + columnWidth - 6, this.y + 10, value, { size: 8.5, bold: true, align: 'right' });
+      });
+      this.y += rowHeight;
+    }
+    this.y += 8;
+  }
+}
+
+// "tremorFrequency" -> "Tremor frequency"
+function labelFor(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toString();
+  if (Math.abs(value) >= 1000) return value.toFixed(0);
+  return Number(value.toPrecision(3)).toString();
+}
+
+// The scalar fields of a feature object; series, spectra and nested objects are left out
+function featureRows(features: object | undefined): Row[] {
+  if (!features) return [];
+  return Object.entries(features).flatMap(([key, value]): Row[] => {
+    if (typeof value === 'number' && isFinite(value)) return [[labelFor(key), formatNumber(value)]];
+    if (typeof value === 'boolean') return [[labelFor(key), value ? 'Yes' : 'No']];
+    if (typeof value === 'string' && value.length <= 40 && !/^(data|blob):/.test(value)) {
+      return [[labelFor(key), value]];
+    }
+    return [];
+  });
+}
+
+const resultDetail = (result: AssessmentResult) =>
+  `${result.score}/100 · ${result.status} · ${result.confidence}% confidence`;
+
+// Re-encodes any image the browser can decode as a JPEG the PDF can embed
+async function loadJpeg(dataUrl: string, maxSize = 1200): Promise<PdfImage | null> {
+  try {
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d')!;
+    // JPEG has no alpha; transparent drawings would turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const binary = atob(canvas.toDataURL('image/jpeg', 0.85).split(',')[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { bytes, width: canvas.width, height: canvas.height };
+  } catch (error) {
+    console.error('Could not load image for the report:', error);
+    return null;
+  }
+}
+
+// Largest box of the image's aspect ratio that fits
+function fit(image: PdfImage, maxWidth: number, maxHeight: number) {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+}
+
+function drawSkeleton(doc: PdfDocument, pose: Pose, x: number, y: number, width: number, height: number) {
+  const at = (name: Parameters<typeof getKeypoint>[1]) => {
+    const keypoint = getKeypoint(pose, name);
+    return { x: x + keypoint.x * width, y: y + keypoint.y * height, score: keypoint.score };
+  };
+  SKELETON_EDGES.forEach(([from, to]) => {
+    const a = at(from);
+    const b = at(to);
+    if (a.score >= 0.1 && b.score >= 0.1) doc.line(a.x, a.y, b.x, b.y, { color: BRAND, width: 1.5 });
+  });
+  pose.keypoints
+    .filter(keypoint => keypoint.score >= 0.1)
+    .forEach(keypoint => {
+      doc.circle(x + keypoint.x * width, y + keypoint.y * height, 2, { fill: [1, 1, 1], stroke: BRAND, lineWidth: 0.75 });
+    });
+}
+
+function drawSparkline(doc: PdfDocument, scores: number[], x: number, y: number, width: number, height: number) {
+  const points = scores.map((score, i) => ({
+    x: x + (scores.length === 1 ? width / 2 : (i / (scores.length - 1)) * width),
+    y: y + height - (score / 100) * height
+  }));
+  doc.line(x, y + height * 0.2, x + width, y + height * 0.2, { color: RULE, width: 0.5, dash: [1, 2] }); // The healthy line at 80
+  doc.polyline(points, { color: BRAND, width: 1 });
+  const last = points[points.length - 1];
+  doc.circle(last.x, last.y, 1.8, { fill: BRAND });
+}
+
+function writeHeader(layout: ReportLayout, generatedAt: Date) {
+  const { doc } = layout;
+  doc.rect(0, 0, PAGE_WIDTH, 8, { fill: BRAND });
+  doc.text(MARGIN, MARGIN + 6, 'Parkinson Insight Assessment Report', { size: 18, bold: true });
+  doc.text(MARGIN + CONTENT_WIDTH, MARGIN + 6, generatedAt.toLocaleString(), { size: 9, color: GREY, align: 'right' });
+  layout.y = MARGIN + 24;
+}
+
+function writePatient(layout: ReportLayout, patient: PatientProfile | null | undefined, generatedAt: Date) {
+  layout.heading('Patient');
+  if (!patient) {
+    layout.paragraph('No patient profile was selected for this session.', 9, GREY);
+    return;
+  }
+  const demographics = demographicsOf(patient, generatedAt);
+  const diagnosis = {
+    none: 'No diagnosis',
+    suspected: 'Suspected Parkinson\'s disease',
+    diagnosed: `Parkinson's disease${patient.diagnosisYear ? ` (diagnosed ${patient.diagnosisYear})` : ''}`
+  }[patient.diagnosis];
+  layout.table([
+    ['Name', patient.name],
+    ['Age', demographics.age !== undefined ? `${demographics.age} years` : 'Not recorded'],
+    ['Sex', patient.sex ? labelFor(patient.sex) : 'Not recorded'],
+    ['Handedness', patient.handedness ? labelFor(patient.handedness) : 'Not recorded'],
+    ['Diagnosis', diagnosis],
+    ['Report date', generatedAt.toLocaleDateString()]
+  ]);
+  if (patient.medication) layout.paragraph(`Medication: ${patient.medication}`);
+}
+
+function writeOverall(layout: ReportLayout, data: AssessmentData) {
+  const { doc } = layout;
+  const overall = data.overall;
+  layout.heading('Overall Assessment');
+  if (!overall) {
+    layout.paragraph('No tests have been completed in this session.', 9, GREY);
+    return;
+  }
+  layout.ensure(56);
+  doc.rect(MARGIN, layout.y, 110, 48, { fill: LIGHT_GREY });
+  doc.text(MARGIN + 55, layout.y + 26, `${overall.score}`, { size: 24, bold: true, align: 'center', color: STATUS_COLORS[overall.status] });
+  doc.text(MARGIN + 55, layout.y + 40, `${overall.status} · ${overall.confidence}% confidence`, { size: 8, color: GREY, align: 'center' });
+  const lines = doc.wrapText(overall.recommendation, CONTENT_WIDTH - 126, 9);
+  lines.forEach((line, i) => doc.text(MARGIN + 126, layout.y + 10 + i * 12.6, line, { size: 9 }));
+  layout.y += Math.max(56, lines.length * 12.6 + 8);
+}
+
+function writeSummary(layout: ReportLayout, data: AssessmentData, history: StoredSession[]) {
+  const { doc } = layout;
+  const completed = MODALITIES.filter(entry => entry.result(data));
+  if (completed.length === 0) return;
+
+  layout.heading('Test Summary');
+  const columns = [0, 200, 260, 340, 415]; // Test, score, confidence, status, trend
+  const rowHeight = 20;
+  layout.ensure(rowHeight * 2);
+  ['Test', 'Score', 'Confidence', 'Status', 'Score trend'].forEach((title, i) => {
+    doc.text(MARGIN + columns[i], layout.y + 10, title, { size: 8, bold: true, color: GREY });
+  });
+  layout.y += 16;
+
+  completed.forEach((entry, row) => {
+    const result = entry.result(data)!;
+    layout.ensure(rowHeight);
+    if (row % 2 === 0) doc.rect(MARGIN, layout.y, CONTENT_WIDTH, rowHeight, { fill: LIGHT_GREY });
+    const baseline = layout.y + 13;
+    doc.text(MARGIN + columns[0] + 4, baseline, entry.label, { size: 9 });
+    doc.text(MARGIN + columns[1], baseline, `${result.score}`, { size: 9, bold: true });
+    doc.text(MARGIN + columns[2], baseline, `${result.confidence}%`, { size: 9 });
+    doc.text(MARGIN + columns[3], baseline, result.status, { size: 9, bold: true, color: STATUS_COLORS[result.status] });
+
+    const scores = modalitySeries(history, entry.modality).map(point => point.score);
+    if (scores.length >= 2) {
+      drawSparkline(doc, scores, MARGIN + columns[4], layout.y + 3, 70, rowHeight - 6);
+      doc.text(MARGIN + CONTENT_WIDTH - 4, baseline, `${scores.length} sessions`, { size: 7, color: GREY, align: 'right' });
+    } else {
+      doc.text(MARGIN + columns[4], baseline, 'First session', { size: 8, color: GREY });
+    }
+    layout.y += rowHeight;
+  });
+  layout.y += 8;
+}
+
+async function writeSpiralImage(layout: ReportLayout, data: AssessmentData) {
+  const spiral = data.spiral!;
+  const image = spiral.imageData ? await loadJpeg(spiral.imageData) : null;
+  if (!image) return;
+  const { width, height } = fit(image, 220, 220);
+  layout.ensure(height + 20);
+  const { doc } = layout;
+  doc.drawImage(doc.addImage(image), MARGIN, layout.y, width, height);
+
+  // Template and pen strokes over the drawing, in the canvas' logical units
+  const trajectory = spiral.trajectory;
+  if (trajectory) {
+    const scale = (point: { x: number; y: number }) => ({
+      x: MARGIN + (point.x / trajectory.width) * width,
+      y: layout.y + (point.y / trajectory.height) * height
+    });
+    doc.polyline(archimedeanSpiralPoints(trajectory.template, 4).map(scale), { color: GREY, width: 0.5, dash: [2, 2] });
+    trajectory.strokes.forEach(stroke => doc.polyline(stroke.map(scale), { color: BRAND, width: 0.8 }));
+  }
+  doc.rect(MARGIN, layout.y, width, height, { stroke: RULE, lineWidth: 0.5 });
+  layout.y += height + 4;
+  doc.text(MARGIN, layout.y + 8, trajectory ? 'Drawing with template (dashed) and recorded strokes' : 'Uploaded drawing', {
+    size: 7.5,
+    color: GREY
+  });
+  layout.y += 18;
+}
+
+async function writePostureImages(layout: ReportLayout, data: AssessmentData) {
+  const views = (['side', 'front'] as const)
+    .map(view => ({ view, capture: data.posture?.views?.[view] }))
+    .filter(entry => entry.capture);
+  const loaded = await Promise.all(views.map(async ({ view, capture }) => ({
+    view,
+    pose: capture!.pose,
+    image: await loadJpeg(capture!.imageData)
+  })));
+  const images = loaded.filter(entry => entry.image);
+  if (images.length === 0) return;
+
+  const { doc } = layout;
+  const boxWidth = (CONTENT_WIDTH - 16) / 2;
+  const sizes = images.map(entry => fit(entry.image!, boxWidth, 240));
+  const rowHeight = Math.max(...sizes.map(size => size.height));
+  layout.ensure(rowHeight + 24);
+  images.forEach((entry, i) => {
+    const x = MARGIN + i * (boxWidth + 16);
+    const { width, height } = sizes[i];
+    doc.drawImage(doc.addImage(entry.image!), x, layout.y, width, height);
+    drawSkeleton(doc, entry.pose, x, layout.y, width, height);
+    doc.text(x, layout.y + height + 12, `${labelFor(entry.view)} view · ${entry.pose.detector}`, { size: 7.5, color: GREY });
+  });
+  layout.y += rowHeight + 24;
+}
+
+// Each test's details, feature table and images
+async function writeModality(layout: ReportLayout, data: AssessmentData, modality: Modality, label: string) {
+  const result = MODALITIES.find(entry => entry.modality === modality)!.result(data);
+  if (!result) return;
+  layout.heading(label, resultDetail(result));
+  if (result.details) layout.paragraph(result.details, 8.5, GREY);
+
+  switch (modality) {
+    case 'spiral':
+      await writeSpiralImage(layout, data);
+      layout.table(featureRows(data.spiral?.kinematics ?? data.spiral?.features));
+      break;
+    case 'tracing':
+      (['line', 'meander'] as const).forEach(task => {
+        const taskData = data.tracing?.tasks?.[task];
+        if (!taskData) return;
+        layout.subheading(`${labelFor(task)} tracing`, taskData.result ? resultDetail(taskData.result) : undefined);
+        layout.table(featureRows(taskData.features));
+      });
+      break;
+    case 'tapping':
+      layout.table(featureRows(data.tapping?.features));
+      break;
+    case 'voice':
+      ([['vowel', 'Sustained vowel'], ['ddk', 'Pa-ta-ka repetition'], ['passage', 'Read passage']] as const).forEach(([task, title]) => {
+        const taskData = data.voice?.tasks?.[task];
+        if (!taskData) return;
+        layout.subheading(title, taskData.result ? resultDetail(taskData.result) : undefined);
+        layout.table(featureRows(taskData.features));
+      });
+      break;
+    case 'posture': {
+      await writePostureImages(layout, data);
+      const { angles, findings } = data.posture ?? {};
+      if (angles?.sagittal) {
+        layout.subheading('Side view angles (degrees)');
+        layout.table(featureRows(angles.sagittal));
+      }
+      if (angles?.frontal) {
+        layout.subheading('Front view angles (degrees)');
+        layout.table(featureRows(angles.frontal));
+      }
+      if (findings) layout.table(featureRows(findings), 3);
+      break;
+    }
+    case 'gait':
+      layout.table(featureRows(data.gait?.features));
+      break;
+    case 'tremor':
+      data.tremor?.features?.forEach(features => {
+        layout.subheading(features.condition === 'rest' ? 'Rest tremor' : 'Postural tremor');
+        layout.table(featureRows(features));
+      });
+      break;
+    case 'symptoms': {
+      const scores = data.symptoms?.scores;
+      if (!scores) break;
+      layout.table(scores.subscales.map((subscale): Row => [
+        `MDS-UPDRS ${subscale.label}`,
+        subscale.total === null
+          ? 'Not scored'
+          : `${subscale.total}/${subscale.max}${subscale.prorated ? ' (prorated)' : ''}`
+      ]));
+      if (scores.screens) layout.table(featureRows(scores.screens), 3);
+      break;
+    }
+  }
+}
+
+function writeTechnical(layout: ReportLayout, data: AssessmentData) {
+  const rows: Row[] = [];
+  if (data.modelInfo) {
+    rows.push(['Model version', data.modelInfo.modelVersion]);
+    rows.push(['Mean model accuracy', data.modelInfo.averageAccuracy ? `${data.modelInfo.averageAccuracy}%` : 'n/a']);
+  }
+  if (data.symptoms?.questionnaireVersion) rows.push(['Questionnaire version', data.symptoms.questionnaireVersion]);
+  const detectors = new Set(Object.values(data.posture?.views ?? {}).map(view => view.pose.detector));
+  if (detectors.size > 0) rows.push(['Pose detector', [...detectors].join(', ')]);
+  if (data.deviceInfo) rows.push(['Platform', data.deviceInfo.platform]);
+  if (rows.length === 0) return;
+
+  layout.heading('Models and Versions');
+  layout.table(rows);
+}
+
+function writeFooters(doc: PdfDocument) {
+  for (let i = 0; i < doc.pageCount; i++) {
+    doc.setPage(i);
+    const y = PAGE_HEIGHT - 30;
+    doc.line(MARGIN, y - 12, MARGIN + CONTENT_WIDTH, y - 12, { color: RULE, width: 0.5 });
+    doc.text(MARGIN, y, 'Not a medical diagnosis. Discuss these results with a healthcare professional.', { size: 7.5, color: GREY });
+    doc.text(MARGIN + CONTENT_WIDTH, y, `Page ${i + 1} of ${doc.pageCount}`, { size: 7.5, color: GREY, align: 'right' });
+  }
+}
+
+export async function generateClinicalReport(data: AssessmentData, options: ReportOptions = {}): Promise<Blob> {
+  const generatedAt = options.generatedAt ?? new Date();
+  const doc = new PdfDocument(`Assessment report ${generatedAt.toLocaleDateString()}`);
+  const layout = new ReportLayout(doc);
+
+  writeHeader(layout, generatedAt);
+  writePatient(layout, options.patient, generatedAt);
+  writeOverall(layout, data);
+  writeSummary(layout, data, options.history ?? []);
+  for (const entry of MODALITIES) {
+    await writeModality(layout, data, entry.modality, entry.label);
+  }
+  writeTechnical(layout, data);
+
+  layout.heading('Disclaimer');
+  layout.paragraph(DISCLAIMER);
+  writeFooters(doc);
+
+  return doc.toBlob();
+}
@@ -0,0 +1,295 @@
+import { AssessmentData, AssessmentResult, PatientProfile } from '@/types/assessment';
+import { MODALITIES, Modality } from '@/services/history/trends';
+import {
+  CodeableConcept,
+  FhirBundle,
+  FhirDiagnosticReport,
+  FhirObservation,
+  FhirPatient,
+  ObservationComponent
+} from './fhirResources';
+
+// Serializes a session as a FHIR R4 transaction Bundle: the Patient, one
+// Observation per completed test carrying its score, confidence and extracted
+// features as components, and a DiagnosticReport grouping them. Tests and
+// features, the MDS-UPDRS subscale totals included, are coded in the app's
+// own code system; units are UCUM.
+
+export const ASSESSMENT_CODE_SYSTEM = 'http://parkinson-insight.app/fhir/CodeSystem/assessment';
+export const PATIENT_ID_SYSTEM = 'http://parkinson-insight.app/fhir/patient-id';
+
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+interface FeatureMapping {
+  code: string;
+  display: string;
+  unit?: string; // UCUM code; booleans have none
+  read: (data: AssessmentData) => number | boolean | undefined;
+}
+
+const voiceFeature = <T>(data: AssessmentData, task: 'vowel' | 'ddk' | 'passage') =>
+  data.voice?.tasks?.[task]?.features as Partial<T> | undefined;
+
+// Fractions are exported as-is with unit "1"; "{...}" units are UCUM annotations for counts and app-specific scales
+const FEATURES: Record<Modality, FeatureMapping[]> = {
+  spiral: [
+    { code: 'spiral-drawing-time', display: 'Drawing time', unit: 's', read: d => d.spiral?.kinematics?.drawingTime },
+    { code: 'spiral-pen-lifts', display: 'Pen lifts', unit: '{count}', read: d => d.spiral?.kinematics?.penLifts },
+    { code: 'spiral-speed-cv', display: 'Drawing speed CV', unit: '1', read: d => d.spiral?.kinematics?.speedCv },
+    { code: 'spiral-tremor-frequency', display: 'Tremor frequency', unit: 'Hz', read: d => d.spiral?.kinematics?.tremorFrequency },
+    { code: 'spiral-tremor-amplitude', display: 'Tremor amplitude', unit: '{canvas_unit}', read: d => d.spiral?.kinematics?.tremorAmplitude },
+    { code: 'spiral-tremor-power-ratio', display: 'Tremor power ratio', unit: '1', read: d => d.spiral?.kinematics?.tremorPowerRatio },
+    { code: 'spiral-rating', display: 'Spiral rating (0-10)', unit: '{score}', read: d => d.spiral?.kinematics?.rating }
+  ],
+  tracing: (['line', 'meander'] as const).flatMap((task): FeatureMapping[] => [
+    { code: `tracing-${task}-rms-deviation`, display: `${task} RMS deviation`, unit: '{canvas_unit}', read: d => d.tracing?.tasks?.[task]?.features?.rmsDeviation },
+    { code: `tracing-${task}-within-tolerance`, display: `${task} fraction within tolerance`, unit: '1', read: d => d.tracing?.tasks?.[task]?.features?.withinTolerance },
+    { code: `tracing-${task}-coverage`, display: `${task} path coverage`, unit: '1', read: d => d.tracing?.tasks?.[task]?.features?.coverage },
+    { code: `tracing-${task}-duration`, display: `${task} duration`, unit: 's', read: d => d.tracing?.tasks?.[task]?.features?.duration },
+    { code: `tracing-${task}-speed-cv`, display: `${task} speed CV`, unit: '1', read: d => d.tracing?.tasks?.[task]?.features?.speedCv }
+  ]),
+  tapping: [
+    { code: 'tapping-tap-count', display: 'Taps', unit: '{count}', read: d => d.tapping?.features?.tapCount },
+    { code: 'tapping-rate', display: 'Tap rate', unit: '/s', read: d => d.tapping?.features?.tapRate },
+    { code: 'tapping-interval-cv', display: 'Inter-tap interval CV', unit: '1', read: d => d.tapping?.features?.intervalCv },
+    { code: 'tapping-amplitude-decrement', display: 'Amplitude decrement', unit: '%', read: d => d.tapping?.features?.amplitudeDecrement },
+    { code: 'tapping-fatigue', display: 'Rate fatigue', unit: '%', read: d => d.tapping?.features?.fatigue },
+    { code: 'tapping-hesitations', display: 'Hesitations', unit: '{count}', read: d => d.tapping?.features?.hesitations },
+    { code: 'tapping-dwell-time', display: 'Mean dwell time', unit: 'ms', read: d => d.tapping?.features?.meanDwellTime }
+  ],
+  voice: [
+    { code: 'voice-jitter-local', display: 'Jitter (local)', unit: '1', read: d => voiceFeature<{ jitter: number }>(d, 'vowel')?.jitter },
+    { code: 'voice-shimmer-local', display: 'Shimmer (local)', unit: '1', read: d => voiceFeature<{ shimmer: number }>(d, 'vowel')?.shimmer },
+    { code: 'voice-hnr', display: 'Harmonics-to-noise ratio', unit: 'dB', read: d => voiceFeature<{ hnr: number }>(d, 'vowel')?.hnr },
+    { code: 'voice-cpps', display: 'Smoothed cepstral peak prominence', unit: 'dB', read: d => voiceFeature<{ cpps: number }>(d, 'vowel')?.cpps },
+    { code: 'voice-ddk-rate', display: 'Pa-ta-ka rate', unit: '/s', read: d => voiceFeature<{ rate: number }>(d, 'ddk')?.rate },
+    { code: 'voice-ddk-interval-cv', display: 'Pa-ta-ka interval CV', unit: '1', read: d => voiceFeature<{ intervalCv: number }>(d, 'ddk')?.intervalCv },
+    { code: 'voice-speech-rate', display: 'Speech rate', unit: '/s', read: d => voiceFeature<{ speechRate: number }>(d, 'passage')?.speechRate },
+    { code: 'voice-pause-ratio', display: 'Pause ratio', unit: '1', read: d => voiceFeature<{ pauseRatio: number }>(d, 'passage')?.pauseRatio },
+    { code: 'voice-f0-sd', display: 'Pitch variation', unit: '{semitone}', read: d => voiceFeature<{ f0SdSemitones: number }>(d, 'passage')?.f0SdSemitones },
+    { code: 'voice-intensity-sd', display: 'Loudness variation', unit: 'dB', read: d => voiceFeature<{ intensitySdDb: number }>(d, 'passage')?.intensitySdDb }
+  ],
+  posture: [
+    { code: 'posture-trunk-flexion', display: 'Total trunk flexion', unit: 'deg', read: d => d.posture?.angles?.sagittal?.trunkFlexion },
+    { code: 'posture-trunk-inclination', display: 'Trunk inclination', unit: 'deg', read: d => d.posture?.angles?.sagittal?.trunkInclination },
+    { code: 'posture-neck-flexion', display: 'Neck flexion', unit: 'deg', read: d => d.posture?.angles?.sagittal?.neckFlexion },
+    { code: 'posture-craniovertebral-angle', display: 'Craniovertebral angle', unit: 'deg', read: d => d.posture?.angles?.sagittal?.craniovertebralAngle },
+    { code: 'posture-lateral-trunk-bend', display: 'Lateral trunk bend', unit: 'deg', read: d => d.posture?.angles?.frontal?.lateralTrunkBend },
+    { code: 'posture-shoulder-tilt', display: 'Shoulder tilt', unit: 'deg', read: d => d.posture?.angles?.frontal?.shoulderTilt },
+    { code: 'posture-camptocormia', display: 'Camptocormia', read: d => d.posture?.findings?.camptocormia },
+    { code: 'posture-anterocollis', display: 'Anterocollis', read: d => d.posture?.findings?.anterocollis },
+    { code: 'posture-pisa-syndrome', display: 'Pisa syndrome', read: d => d.posture?.findings?.pisaSyndrome }
+  ],
+  gait: [
+    { code: 'gait-step-count', display: 'Steps', unit: '{count}', read: d => d.gait?.features?.stepCount },
+    { code: 'gait-cadence', display: 'Cadence', unit: '/min', read: d => d.gait?.features?.cadence },
+    { code: 'gait-step-length', display: 'Mean step length', unit: '{torso_length}', read: d => d.gait?.features?.meanStepLength },
+    { code: 'gait-stride-time-cv', display: 'Stride time CV', unit: '%', read: d => d.gait?.features?.strideTimeCv },
+    { code: 'gait-step-length-asymmetry', display: 'Step length asymmetry', unit: '%', read: d => d.gait?.features?.stepLengthAsymmetry },
+    { code: 'gait-arm-swing-asymmetry', display: 'Arm swing asymmetry', unit: '%', read: d => d.gait?.features?.armSwingAsymmetry ?? undefined },
+    { code: 'gait-turn-duration', display: 'Mean turn duration', unit: 's', read: d => d.gait?.features?.meanTurnDuration },
+    { code: 'gait-freezing-episodes', display: 'Freezing episodes', unit: '{count}', read: d => d.gait?.features?.freezingEpisodes }
+  ],
+  tremor: (['rest', 'postural'] as const).flatMap((condition): FeatureMapping[] => {
+    const features = (d: AssessmentData) => d.tremor?.features?.find(entry => entry.condition === condition);
+    return [
+      { code: `tremor-${condition}-frequency`, display: `${condition} tremor frequency`, unit: 'Hz', read: d => features(d)?.dominantFrequency },
+      { code: `tremor-${condition}-amplitude`, display: `${condition} tremor RMS acceleration`, unit: 'm/s2', read: d => features(d)?.amplitude },
+      { code: `tremor-${condition}-displacement`, display: `${condition} tremor displacement`, unit: 'mm', read: d => features(d)?.displacement },
+      { code: `tremor-${condition}-pd-band-ratio`, display: `${condition} tremor 4-6 Hz power ratio`, unit: '1', read: d => features(d)?.pdBandRatio }
+    ];
+  }),
+  symptoms: [
+    {
+      code: 'mds-updrs-part-ib-total',
+      display: 'MDS-UPDRS Part IB total (self-report)',
+      unit: '{score}',
+      read: d => d.symptoms?.scores?.subscales.find(subscale => subscale.id === 'partIB')?.total ?? undefined
+    },
+    {
+      code: 'mds-updrs-part-ii-total',
+      display: 'MDS-UPDRS Part II total (self-report)',
+      unit: '{score}',
+      read: d => d.symptoms?.scores?.subscales.find(subscale => subscale.id === 'partII')?.total ?? undefined
+    },
+    { code: 'screen-hyposmia', display: 'Hyposmia screen positive', read: d => d.symptoms?.scores?.screens?.hyposmia },
+    { code: 'screen-constipation', display: 'Constipation screen positive', read: d => d.symptoms?.scores?.screens?.constipation },
+    { code: 'screen-probable-rbd', display: 'Probable RBD screen positive', read: d => d.symptoms?.scores?.screens?.probableRbd }
+  ]
+};
+
+// healthy reads as normal; the milder grades as abnormal and severe as critically abnormal
+const INTERPRETATIONS: Record<AssessmentResult['status'], { code: string; display: string }> = {
+  healthy: { code: 'N', display: 'Normal' },
+  mild: { code: 'A', display: 'Abnormal' },
+  moderate: { code: 'A', display: 'Abnormal' },
+  severe: { code: 'AA', display: 'Critical abnormal' }
+};
+
+export interface FhirExportOptions {
+  patient?: PatientProfile | null;
+  effectiveAt?: Date; // When the tests were done; defaults to now
+}
+
+// fullUrls must be urn:uuid, which the history ids are not when randomUUID is
+// unavailable (it needs a secure context)
+function uuid(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+const concept = (code: string, display: string): CodeableConcept => ({
+  coding: [{ system: ASSESSMENT_CODE_SYSTEM, code, display }],
+  text: display
+});
+
+// UCUM code as the unit label too, except for annotations, which read better without braces
+const quantity = (value: number, unit: string) => ({
+  value: Math.round(value * 10000) / 10000,
+  unit: unit.startsWith('{') ? unit.slice(1, -1).replace(/_/g, ' ') : unit,
+  system: UCUM,
+  code: unit
+});
+
+function toPatient(id: string, patient: PatientProfile | null | undefined): FhirPatient {
+  if (!patient) return { resourceType: 'Patient', id };
+  return {
+    resourceType: 'Patient',
+    id,
+    identifier: [{ system: PATIENT_ID_SYSTEM, value: patient.id }],
+    active: !patient.archived,
+    name: [{ text: patient.name }],
+    gender: patient.sex ?? 'unknown',
+    ...(patient.birthYear !== undefined && { birthDate: patient.birthYear.toString() })
+  };
+}
+
+function featureComponents(modality: Modality, data: AssessmentData): ObservationComponent[] {
+  return FEATURES[modality].flatMap((feature): ObservationComponent[] => {
+    const value = feature.read(data);
+    if (typeof value === 'boolean') return [{ code: concept(feature.code, feature.display), valueBoolean: value }];
+    if (typeof value !== 'number' || !isFinite(value)) return [];
+    return [{ code: concept(feature.code, feature.display), valueQuantity: quantity(value, feature.unit ?? '1') }];
+  });
+}
+
+interface ObservationInput {
+  id: string;
+  code: string;
+  label: string;
+  category: 'survey' | 'exam';
+  result: AssessmentResult;
+  features: ObservationComponent[];
+  subject: string;
+  effective: string;
+}
+
+function toObservation({ id, code, label, category, result, features, subject, effective }: ObservationInput): FhirObservation {
+  const interpretation = INTERPRETATIONS[result.status];
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: [{
+      coding: [{ system: OBSERVATION_CATEGORY, code: category, display: category === 'survey' ? 'Survey' : 'Exam' }]
+    }],
+    code: concept(code, `${label} score`),
+    subject: { reference: subject },
+    effectiveDateTime: effective,
+    issued: new Date().toISOString(),
+    valueQuantity: quantity(result.score, '{score}'),
+    interpretation: [{
+      coding: [{ system: INTERPRETATION, code: interpretation.code, display: interpretation.display }],
+      text: result.status
+    }],
+    ...(result.details && { note: [{ text: result.details }] }),
+    component: [
+      { code: concept('confidence', 'Confidence'), valueQuantity: quantity(result.confidence, '%') },
+      ...features
+    ]
+  };
+}
+
+export function buildFhirBundle(data: AssessmentData, options: FhirExportOptions = {}): FhirBundle {
+  const effective = (options.effectiveAt ?? new Date()).toISOString();
+  const patientId = uuid();
+  const patientUrl = `urn:uuid:${patientId}`;
+
+  const observations = MODALITIES.flatMap(entry => {
+    const result = entry.result(data);
+    if (!result) return [];
+    const id = uuid();
+    const resource = toObservation({
+      id,
+      code: `${entry.modality}-score`,
+      label: entry.label,
+      category: entry.modality === 'symptoms' ? 'survey' : 'exam',
+      result,
+      features: featureComponents(entry.modality, data),
+      subject: patientUrl,
+      effective
+    });
+    return [{ url: `urn:uuid:${id}`, resource }];
+  });
+  if (observations.length === 0) {
+    throw new Error('Complete at least one test before exporting results.');
+  }
+
+  const overall = data.overall;
+  if (overall) {
+    const id = uuid();
+    const resource = toObservation({
+      id,
+      code: 'overall-score',
+      label: 'Overall assessment',
+      category: 'exam',
+      result: { score: overall.score, confidence: overall.confidence, status: overall.status },
+      features: [],
+      subject: patientUrl,
+      effective
+    });
+    observations.push({ url: `urn:uuid:${id}`, resource });
+  }
+
+  const reportId = uuid();
+  const report: FhirDiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    id: reportId,
+    status: 'final',
+    code: concept('pd-digital-assessment', 'Parkinson\'s disease digital assessment'),
+    subject: { reference: patientUrl },
+    effectiveDateTime: effective,
+    issued: new Date().toISOString(),
+    result: observations.map(observation => ({ reference: observation.url })),
+    ...(overall && { conclusion: overall.recommendation })
+  };
+
+  // Matched on the app's patient id, so repeat exports reuse the EHR's Patient
+  const ifNoneExist = options.patient ? `identifier=${PATIENT_ID_SYSTEM}|${options.patient.id}` : undefined;
+
+  return {
+    resourceType: 'Bundle',
+    id: uuid(),
+    type: 'transaction',
+    timestamp: new Date().toISOString(),
+    entry: [
+      {
+        fullUrl: patientUrl,
+        resource: toPatient(patientId, options.patient),
+        request: { method: 'POST', url: 'Patient', ...(ifNoneExist && { ifNoneExist }) }
+      },
+      ...observations.map(observation => ({
+        fullUrl: observation.url,
+        resource: observation.resource,
+        request: { method: 'POST' as const, url: 'Observation' }
+      })),
+      { fullUrl: `urn:uuid:${reportId}`, resource: report, request: { method: 'POST', url: 'DiagnosticReport' } }
+    ]
+  };
+}
@@ -0,0 +1,228 @@
+import { z } from 'zod';
+
+// The subset of FHIR R4 (4.0.1) that the assessment export produces:
+// Patient, Observation and DiagnosticReport in a transaction Bundle. Each
+// schema checks the element types, required elements and value sets of the
+// base specification, plus the invariants that apply to what we emit, so an
+// export is checked before it is handed to an EHR.
+
+// Primitive formats from the R4 datatypes page
+const ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE_PATTERN = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const DATE_TIME_PATTERN =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+const INSTANT_PATTERN =
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00))$/;
+const UUID_URN_PATTERN = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const id = z.string().regex(ID_PATTERN, 'must be 1-64 letters, digits, "-" or "."');
+const uri = z.string().min(1).regex(/^\S+$/, 'must not contain whitespace');
+const code = z.string().regex(/^\S+( \S+)*$/, 'must not have leading, trailing or repeated spaces');
+const dateTime = z.string().regex(DATE_TIME_PATTERN, 'must be a FHIR dateTime');
+const instant = z.string().regex(INSTANT_PATTERN, 'must be a FHIR instant with a time zone');
+const text = z.string().min(1);
+
+export const codingSchema = z.object({
+  system: uri.optional(),
+  version: z.string().optional(),
+  code: code.optional(),
+  display: text.optional()
+}).strict();
+
+export const codeableConceptSchema = z.object({
+  coding: z.array(codingSchema).min(1).optional(),
+  text: text.optional()
+}).strict();
+
+export const referenceSchema = z.object({
+  reference: text.optional(),
+  display: text.optional()
+}).strict();
+
+export const quantitySchema = z.object({
+  value: z.number().finite(),
+  unit: text.optional(),
+  system: uri.optional(),
+  code: code.optional()
+}).strict().refine(quantity => !quantity.code || quantity.system, {
+  message: 'qty-3: a code needs a system'
+});
+
+const identifierSchema = z.object({
+  system: uri.optional(),
+  value: text.optional()
+}).strict();
+
+const annotationSchema = z.object({ text: text }).strict();
+
+export const patientSchema = z.object({
+  resourceType: z.literal('Patient'),
+  id,
+  identifier: z.array(identifierSchema).min(1).optional(),
+  active: z.boolean().optional(),
+  name: z.array(z.object({ text: text }).strict()).min(1).optional(),
+  gender: z.enum(['male', 'female', 'other', 'unknown']).optional(),
+  birthDate: z.string().regex(DATE_PATTERN, 'must be a FHIR date').optional()
+}).strict();
+
+const observationValue = {
+  valueQuantity: quantitySchema.optional(),
+  valueBoolean: z.boolean().optional(),
+  valueString: text.optional()
+};
+
+// value[x] is a choice: at most one of its forms may be present
+const singleValue = (element: Record<string, unknown>) =>
+  Object.keys(observationValue).filter(key => element[key] !== undefined).length <= 1;
+
+export const observationComponentSchema = z.object({
+  code: codeableConceptSchema,
+  ...observationValue
+}).strict().refine(singleValue, { message: 'only one value[x] is allowed' });
+
+const observationShape = z.object({
+  resourceType: z.literal('Observation'),
+  id,
+  status: z.enum([
+    'registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'
+  ]),
+  category: z.array(codeableConceptSchema).min(1).optional(),
+  code: codeableConceptSchema,
+  subject: referenceSchema.optional(),
+  effectiveDateTime: dateTime.optional(),
+  issued: instant.optional(),
+  ...observationValue,
+  interpretation: z.array(codeableConceptSchema).min(1).optional(),
+  note: z.array(annotationSchema).min(1).optional(),
+  method: codeableConceptSchema.optional(),
+  component: z.array(observationComponentSchema).min(1).optional()
+}).strict();
+
+export const observationSchema = observationShape
+  .refine(singleValue, { message: 'only one value[x] is allowed' })
+  .refine(
+    observation => {
+      // obs-7: a component must not repeat the observation's own code when the observation has a value
+      const hasValue = Object.keys(observationValue).some(key => observation[key as keyof typeof observationValue] !== undefined);
+      const codes = new Set(observation.code.coding?.map(coding => `${coding.system}|${coding.code}`));
+      return !hasValue || !observation.component?.some(component =>
+        component.code.coding?.some(coding => codes.has(`${coding.system}|${coding.code}`)));
+    },
+    { message: 'obs-7: components must not share the observation code' }
+  );
+
+export const diagnosticReportSchema = z.object({
+  resourceType: z.literal('DiagnosticReport'),
+  id,
+  status: z.enum([
+    'registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled',
+    'entered-in-error', 'unknown'
+  ]),
+  category: z.array(codeableConceptSchema).min(1).optional(),
+  code: codeableConceptSchema,
+  subject: referenceSchema.optional(),
+  effectiveDateTime: dateTime.optional(),
+  issued: instant.optional(),
+  result: z.array(referenceSchema).min(1).optional(),
+  conclusion: text.optional()
+}).strict();
+
+const resourceSchema = z.discriminatedUnion('resourceType', [
+  patientSchema,
+  // The union needs plain objects; validateBundle applies the Observation refinements separately
+  observationShape,
+  diagnosticReportSchema
+]);
+
+export const bundleSchema = z.object({
+  resourceType: z.literal('Bundle'),
+  id,
+  type: z.enum([
+    'document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history',
+    'searchset', 'collection'
+  ]),
+  timestamp: instant.optional(),
+  entry: z.array(z.object({
+    fullUrl: uri.optional(),
+    resource: resourceSchema,
+    request: z.object({
+      method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH']),
+      url: uri,
+      ifNoneExist: z.string().optional()
+    }).strict().optional()
+  }).strict()).optional()
+}).strict();
+
+export type Coding = z.infer<typeof codingSchema>;
+export type CodeableConcept = z.infer<typeof codeableConceptSchema>;
+export type Quantity = z.infer<typeof quantitySchema>;
+export type FhirPatient = z.infer<typeof patientSchema>;
+export type FhirObservation = z.infer<typeof observationSchema>;
+export type ObservationComponent = z.infer<typeof observationComponentSchema>;
+export type FhirDiagnosticReport = z.infer<typeof diagnosticReportSchema>;
+export type FhirBundle = z.infer<typeof bundleSchema>;
+
+export interface FhirValidationIssue {
+  path: string; // e.g. "entry[2].resource.component[0].valueQuantity"
+  message: string;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.map((part, i) => typeof part === 'number' ? `[${part}]` : `${i === 0 ? '' : '.'}${part}`).join('') || '(root)';
+}
+
+// Shape and invariant checks, then the Bundle-level rules: transaction
+// entries need a request (bdl-3), fullUrls must be unique (bdl-7) and every
+// reference must resolve to an entry in the Bundle.
+export function validateBundle(value: unknown): FhirValidationIssue[] {
+  const parsed = bundleSchema.safeParse(value);
+  if (!parsed.success) {
+    return parsed.error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+  }
+
+  const bundle = parsed.data;
+  const entries = bundle.entry ?? [];
+  const issues: FhirValidationIssue[] = [];
+
+  entries.forEach((entry, i) => {
+    if (entry.resource.resourceType !== 'Observation') return;
+    const observation = observationSchema.safeParse(entry.resource);
+    if (!observation.success) {
+      observation.error.issues.forEach(issue => issues.push({
+        path: formatPath(['entry', i, 'resource', ...issue.path]),
+        message: issue.message
+      }));
+    }
+  });
+
+  const fullUrls = new Set<string>();
+  entries.forEach((entry, i) => {
+    if ((bundle.type === 'transaction' || bundle.type === 'batch') && !entry.request) {
+      issues.push({ path: `entry[${i}]`, message: 'bdl-3: transaction entries need a request' });
+    }
+    if (!entry.fullUrl) {
+      issues.push({ path: `entry[${i}].fullUrl`, message: 'every entry needs a fullUrl' });
+    } else if (!UUID_URN_PATTERN.test(entry.fullUrl)) {
+      issues.push({ path: `entry[${i}].fullUrl`, message: 'must be a urn:uuid' });
+    } else if (fullUrls.has(entry.fullUrl)) {
+      issues.push({ path: `entry[${i}].fullUrl`, message: 'bdl-7: fullUrl must be unique' });
+    }
+    if (entry.fullUrl) fullUrls.add(entry.fullUrl);
+  });
+
+  const checkReference = (path: string, reference: { reference?: string } | undefined) => {
+    if (reference?.reference && !fullUrls.has(reference.reference)) {
+      issues.push({ path, message: `reference ${reference.reference} is not in the bundle` });
+    }
+  };
+  entries.forEach((entry, i) => {
+    const resource = entry.resource;
+    if (resource.resourceType === 'Patient') return;
+    checkReference(`entry[${i}].resource.subject`, resource.subject);
+    if (resource.resourceType === 'DiagnosticReport') {
+      resource.result?.forEach((result, j) => checkReference(`entry[${i}].resource.result[${j}]`, result));
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,299 @@
+// A small PDF 1.4 writer, enough for generated reports: text in the
+// standard Helvetica fonts (which every reader has, so nothing is embedded),
+// lines, rectangles, circles and JPEG images. Coordinates are in points from
+// the top-left corner of the page; they are flipped to PDF's bottom-left
+// origin when written.
+
+export type Rgb = [number, number, number]; // Each 0-1
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface StrokeOptions {
+  color?: Rgb;
+  width?: number;
+  dash?: number[];
+}
+
+export interface ShapeOptions {
+  fill?: Rgb;
+  stroke?: Rgb;
+  lineWidth?: number;
+}
+
+export interface PdfImage {
+  bytes: Uint8Array; // Baseline JPEG
+  width: number; // Pixels
+  height: number;
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Advance widths of characters 32-126 in 1/1000 em, from the Adobe AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+// Close enough for the accented letters and symbols outside that range
+const DEFAULT_WIDTH = 556;
+
+// Characters Windows-1252 places in 0x80-0x9F; Latin-1 covers 0xA0-0xFF
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+// Common symbols with no WinAnsi code point
+const SUBSTITUTES: Record<string, string> = { '≥': '>=', '≤': '<=', '→': '->', '←': '<-', '≈': '~' };
+
+// The string as WinAnsi codes, one character per byte
+function toWinAnsi(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    if (SUBSTITUTES[char]) {
+      encoded += SUBSTITUTES[char];
+      continue;
+    }
+    const code = char.codePointAt(0)!;
+    if (code < 128 || (code >= 0xa0 && code <= 0xff)) encoded += char;
+    else if (WIN_ANSI_EXTRAS[char]) encoded += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    else encoded += '?';
+  }
+  return encoded;
+}
+
+// A literal string with non-ASCII bytes octal-escaped, so content streams stay ASCII
+function pdfString(encoded: string): string {
+  let escaped = '';
+  for (const char of encoded) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') escaped += `\\${char}`;
+    else if (code < 32 || code > 126) escaped += `\\${code.toString(8).padStart(3, '0')}`;
+    else escaped += char;
+  }
+  return `(${escaped})`;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = (color: Rgb) => color.map(num).join(' ');
+
+// Bezier handle length for a quarter circle
+const KAPPA = 0.5523;
+
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private pages: string[][] = [];
+  private current = -1;
+  private images: PdfImage[] = [];
+
+  constructor(private title = '') {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Go back to an earlier page, e.g. to add footers once the page count is known
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`Page ${index + 1} does not exist.`);
+    this.current = index;
+  }
+
+  textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of toWinAnsi(text)) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  // Greedy word wrap; a word longer than the line is left to overflow
+  wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  // y is the text baseline
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0], align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.write(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(this.height - y)} Td ` +
+      `${pdfString(toWinAnsi(text))} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: StrokeOptions = {}): void {
+    this.polyline([{ x: x1, y: y1 }, { x: x2, y: y2 }], options);
+  }
+
+  polyline(points: { x: number; y: number }[], options: StrokeOptions = {}): void {
+    if (points.length < 2) return;
+    const { color = [0, 0, 0], width = 1, dash } = options;
+    const path = points
+      .map((point, i) => `${num(point.x)} ${num(this.height - point.y)} ${i === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.write(`q ${rgb(color)} RG ${num(width)} w 1 J 1 j [${(dash ?? []).map(num).join(' ')}] 0 d ${path} S Q`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = {}): void {
+    this.shape(`${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`, options);
+  }
+
+  circle(cx: number, cy: number, r: number, options: ShapeOptions = {}): void {
+    const y = this.height - cy;
+    const k = r * KAPPA;
+    this.shape(
+      `${num(cx + r)} ${num(y)} m ` +
+      `${num(cx + r)} ${num(y + k)} ${num(cx + k)} ${num(y + r)} ${num(cx)} ${num(y + r)} c ` +
+      `${num(cx - k)} ${num(y + r)} ${num(cx - r)} ${num(y + k)} ${num(cx - r)} ${num(y)} c ` +
+      `${num(cx - r)} ${num(y - k)} ${num(cx - k)} ${num(y - r)} ${num(cx)} ${num(y - r)} c ` +
+      `${num(cx + k)} ${num(y - r)} ${num(cx + r)} ${num(y - k)} ${num(cx + r)} ${num(y)} c h`,
+      options
+    );
+  }
+
+  // Images are stored once and can be drawn on any page; returns the handle for drawImage
+  addImage(image: PdfImage): number {
+    this.images.push(image);
+    return this.images.length - 1;
+  }
+
+  drawImage(handle: number, x: number, y: number, width: number, height: number): void {
+    if (!this.images[handle]) throw new Error('Unknown image.');
+    this.write(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${handle} Do Q`);
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toBytes()], { type: 'application/pdf' });
+  }
+
+  toBytes(): Uint8Array {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images, then a page and its content per page
+    const imageBase = 6;
+    const pageBase = imageBase + this.images.length;
+    const pageRefs = this.pages.map((_, i) => `${pageBase + 2 * i} 0 R`);
+    const xobjects = this.images.map((_, i) => `/Im${i} ${imageBase + i} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xobjects} >> >>`;
+
+    const objects: (string | { header: string; data: Uint8Array })[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      `<< /Title ${pdfString(toWinAnsi(this.title))} /Producer (Parkinson Insight) /CreationDate (D:${pdfDate(new Date())}) >>`,
+      ...this.images.map(image => ({
+        header: `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`,
+        data: image.bytes
+      })),
+      ...this.pages.flatMap((operations, i) => {
+        const content = operations.join('\n');
+        return [
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+          `/Resources ${resources} /Contents ${pageBase + 2 * i + 1} 0 R >>`,
+          { header: `<< /Length ${content.length} >>`, data: asciiBytes(content) }
+        ];
+      })
+    ];
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const push = (chunk: Uint8Array) => {
+      chunks.push(chunk);
+      length += chunk.length;
+    };
+    // The binary comment tells transfer tools the file is not plain text
+    push(asciiBytes('%PDF-1.4\n%âãÏÓ\n'));
+    const offsets = objects.map((object, i) => {
+      const offset = length;
+      if (typeof object === 'string') {
+        push(asciiBytes(`${i + 1} 0 obj\n${object}\nendobj\n`));
+      } else {
+        push(asciiBytes(`${i + 1} 0 obj\n${object.header}\nstream\n`));
+        push(object.data);
+        push(asciiBytes('\nendstream\nendobj\n'));
+      }
+      return offset;
+    });
+    const xref = length;
+    push(asciiBytes(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('') +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+    ));
+
+    const bytes = new Uint8Array(length);
+    let position = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, position);
+      position += chunk.length;
+    });
+    return bytes;
+  }
+
+  private shape(path: string, { fill, stroke, lineWidth = 1 }: ShapeOptions): void {
+    if (!fill && !stroke) return;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.write(
+      `q ${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}${path} ${paint} Q`
+    );
+  }
+
+  private write(operation: string): void {
+    this.pages[this.current].push(operation);
+  }
+}
+
+// One byte per character; callers only pass codes below 256
+function asciiBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs';
 import { datasetManager } from '../datasets/DatasetManager';
+import { VOICE_FEATURE_LENGTH } from '../ml/dysphoniaFeatures';
 
 export interface TrainingProgress {
   epoch: number;
@@ -178,11 +179,11 @@ export class ModelTrainer {
   }
 
   private createAudioModel(): tf.LayersModel {
-    // Model for audio feature analysis
+    // Model for audio feature analysis (MFCC summary vector plus UCI dysphonia measures)
     const model = tf.sequential({
       layers: [
         tf.layers.dense({
-          inputShape: [128],
+          inputShape: [VOICE_FEATURE_LENGTH],
           units: 256,
           activation: 'relu'
         }),
@@ -1,3 +1,14 @@
+import { RecordingQualityReport } from "@/services/ml/recordingQuality";
+import { DdkFeatures, PassageFeatures, VoiceTaskId } from "@/services/ml/speechTasks";
+import { SpiralKinematics } from "@/services/ml/spiralKinematics";
+import { TappingFeatures } from "@/services/ml/fingerTapping";
+import { TracingFeatures, TracingTaskId } from "@/services/ml/pathTracing";
+import { Pose } from "@/services/ml/poseDetection";
+import { GaitFeatures } from "@/services/ml/gaitAnalysis";
+import { PostureAngles, PostureFindings, PostureView } from "@/services/ml/postureAngles";
+import { TremorCondition, TremorFeatures } from "@/services/ml/tremorAnalysis";
+import { QuestionnaireAnswers } from "@/services/ml/questionnaire";
+import { SymptomScores } from "@/services/ml/symptomsAnalysis";
 
 export interface AssessmentResult {
   score: number;
@@ -6,29 +17,166 @@ export interface AssessmentResult {
   details?: string;
 }
 
+// One pointer sample from the on-screen spiral test. Coordinates are in the
+// drawing's logical units (see SpiralTrajectory.width/height), t in ms.
+export interface PenSample {
+  x: number;
+  y: number;
+  t: number;
+  pressure: number; // 0-1; 0.5 for devices without pressure sensing
+  tiltX: number; // Degrees, -90 to 90
+  tiltY: number;
+}
+
+export interface SpiralTemplate {
+  centerX: number;
+  centerY: number;
+  startRadius: number; // r = startRadius + spacing * theta / (2 * PI)
+  spacing: number; // Distance between neighbouring turns
+  turns: number;
+}
+
+export interface SpiralTrajectory {
+  strokes: PenSample[][]; // One array per pen-down
+  width: number;
+  height: number;
+  template: SpiralTemplate;
+  pointerType: string; // "pen", "touch" or "mouse"
+}
+
+// A traced line or meander; path is the template polyline in the same units
+export interface TracingTrajectory {
+  strokes: PenSample[][];
+  width: number;
+  height: number;
+  path: { x: number; y: number }[];
+  pointerType: string;
+}
+
+export interface TracingTaskData {
+  trajectory?: TracingTrajectory;
+  result?: AssessmentResult;
+  features?: TracingFeatures;
+}
+
+export interface TapEvent {
+  t: number; // ms from the first tap
+  x: number;
+  y: number;
+  target: number; // Index into TappingSession.targets, -1 for a miss
+  duration: number; // Contact time, ms
+}
+
+export interface TappingSession {
+  taps: TapEvent[];
+  targets: { x: number; y: number; radius: number }[];
+  duration: number; // Seconds the test ran for
+  width: number;
+  height: number;
+}
+
+// One motion sensor reading, t in ms from the start of the recording.
+// Acceleration is in m/s^2 (gravity may be included; it is filtered out),
+// rotation rate in degrees per second and absent on devices without a gyroscope.
+export interface MotionSample {
+  t: number;
+  ax: number;
+  ay: number;
+  az: number;
+  gx?: number;
+  gy?: number;
+  gz?: number;
+}
+
+export interface TremorRecording {
+  condition: TremorCondition;
+  samples: MotionSample[];
+  source: "device" | "csv";
+}
+
+// One step of the voice protocol (sustained vowel, DDK or read passage)
+export interface VoiceTaskData {
+  audioData?: string;
+  result?: AssessmentResult;
+  features?: DdkFeatures | PassageFeatures | Record<string, unknown>;
+  quality?: RecordingQualityReport;
+}
+
+export type Sex = "female" | "male" | "other";
+export type Handedness = "right" | "left" | "ambidextrous";
+export type DiagnosisStatus = "none" | "suspected" | "diagnosed";
+
+// What the analyzers are told about the person being assessed
+export interface PatientDemographics {
+  age?: number; // Years, at the time of the session
+  sex?: Sex;
+  handedness?: Handedness;
+  diagnosis: DiagnosisStatus;
+  medication?: string; // Free text, e.g. "levodopa/carbidopa 100/25 mg three times daily"
+}
+
+// A saved patient on a shared device. Birth year rather than age so it
+// stays correct across sessions.
+export interface PatientProfile extends Omit<PatientDemographics, "age"> {
+  id: string;
+  name: string;
+  birthYear?: number;
+  diagnosisYear?: number;
+  archived: boolean;
+  createdAt: number; // ms since the epoch
+}
+
 export interface AssessmentData {
+  patient?: PatientDemographics & { id: string }; // As recorded when the session ran
   spiral?: {
     imageData: string;
     result?: AssessmentResult;
     modelAccuracy?: number;
     features?: any; // Add features property
+    trajectory?: SpiralTrajectory; // Present when drawn on screen rather than uploaded
+    kinematics?: SpiralKinematics;
   };
   voice?: {
     audioData?: string;
     result?: AssessmentResult;
     modelAccuracy?: number;
     features?: any; // Add features property
+    quality?: RecordingQualityReport;
+    tasks?: Partial<Record<VoiceTaskId, VoiceTaskData>>; // Per-task results; result above combines them
+  };
+  tapping?: {
+    session?: TappingSession;
+    result?: AssessmentResult;
+    features?: TappingFeatures;
+  };
+  tracing?: {
+    result?: AssessmentResult;
+    tasks?: Partial<Record<TracingTaskId, TracingTaskData>>; // result above combines them
   };
   posture?: {
     imageData?: string;
     result?: AssessmentResult;
     modelAccuracy?: number;
     features?: any; // Add features property
+    views?: Partial<Record<PostureView, { imageData: string; pose: Pose }>>;
+    angles?: PostureAngles;
+    findings?: PostureFindings;
+  };
+  gait?: {
+    videoUrl?: string; // Object URL of the walking clip
+    result?: AssessmentResult;
+    features?: GaitFeatures;
+  };
+  tremor?: {
+    result?: AssessmentResult;
+    features?: TremorFeatures[]; // One per recorded condition
+    recordings?: TremorRecording[]; // Raw samples, kept so the session can be re-analyzed
   };
   symptoms?: {
-    data?: any;
+    answers?: QuestionnaireAnswers; // Keyed by item id, e.g. "2.10"
+    questionnaireVersion?: string;
+    scores?: SymptomScores;
     result?: AssessmentResult;
-    modelAccuracy?: number;
   };
   overall?: {
     score: number;